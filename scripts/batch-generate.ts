@@ -0,0 +1,139 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Batch Generation Script
+ * Submits a GDD manifest (JSON or CSV) to the API server and waits for the batch report
+ *
+ * Assets that already exist are reported as failed unless --overwrite is passed
+ *
+ * Usage: npx tsx scripts/batch-generate.ts <manifest.json|manifest.csv> [--concurrency N] [--overwrite] [--api URL] [--out report.json]
+ */
+
+import { promises as fs } from 'fs'
+import { extname, join } from 'path'
+import chalk from 'chalk'
+import { SimpleGenerationResult } from '../src/types'
+
+interface BatchItemResult extends SimpleGenerationResult {
+  name: string
+  pipelineId: string | null
+  status: string
+}
+
+interface BatchSummary {
+  id: string
+  status: 'processing' | 'completed' | 'failed'
+  total: number
+  succeeded: number
+  failed: number
+  pending: number
+  createdAt: string
+  completedAt?: string
+  error?: string
+  results: BatchItemResult[]
+}
+
+interface BatchOptions {
+  manifestPath: string
+  concurrency?: number
+  overwrite: boolean
+  apiUrl: string
+  outPath: string
+}
+
+const POLL_INTERVAL_MS = 5000
+
+function parseArgs(args: string[]): BatchOptions {
+  const flags: Record<string, string> = {}
+  const positional: string[] = []
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--overwrite') {
+      flags.overwrite = 'true'
+    } else if (args[i].startsWith('--')) {
+      flags[args[i].slice(2)] = args[++i]
+    } else {
+      positional.push(args[i])
+    }
+  }
+
+  if (positional.length !== 1) {
+    throw new Error('Usage: batch-generate <manifest.json|manifest.csv> [--concurrency N] [--overwrite] [--api URL] [--out report.json]')
+  }
+
+  return {
+    manifestPath: positional[0],
+    concurrency: flags.concurrency ? parseInt(flags.concurrency, 10) : undefined,
+    overwrite: flags.overwrite === 'true',
+    apiUrl: flags.api || `http://localhost:${process.env.API_PORT || 3001}/api`,
+    outPath: flags.out || join(process.cwd(), 'batch-generation-report.json')
+  }
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init)
+  const body = await response.json()
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed: ${response.status} ${response.statusText}`)
+  }
+  return body as T
+}
+
+async function runBatch(options: BatchOptions): Promise<BatchSummary> {
+  const manifest = await fs.readFile(options.manifestPath, 'utf-8')
+  const format = extname(options.manifestPath).toLowerCase() === '.csv' ? 'csv' : 'json'
+
+  let summary = await requestJson<BatchSummary>(`${options.apiUrl}/generation/batch`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ manifest, format, concurrency: options.concurrency, overwrite: options.overwrite })
+  })
+
+  console.log(chalk.blue(`📦 Started batch ${summary.id} with ${summary.total} assets`))
+
+  let lastProgress = ''
+  while (summary.status === 'processing') {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+    summary = await requestJson<BatchSummary>(`${options.apiUrl}/generation/batch/${summary.id}`)
+
+    const progress = `${summary.succeeded} succeeded, ${summary.failed} failed, ${summary.pending} pending`
+    if (progress !== lastProgress) {
+      console.log(chalk.gray(`  ${progress}`))
+      lastProgress = progress
+    }
+  }
+
+  return summary
+}
+
+async function printSummary(summary: BatchSummary, outPath: string) {
+  console.log('\n' + chalk.bold('📊 Batch Generation Summary'))
+  console.log(chalk.gray('='.repeat(50)))
+  console.log(chalk.white(`Total: ${summary.total}`))
+  console.log(chalk.green(`Succeeded: ${summary.succeeded}`))
+  console.log(chalk.red(`Failed: ${summary.failed}`))
+
+  summary.results.forEach(result => {
+    if (result.success) {
+      console.log(chalk.green(`  ✅ ${result.assetId}`))
+    } else {
+      console.log(chalk.red(`  ❌ ${result.assetId || result.name}: ${result.error || result.status}`))
+    }
+  })
+
+  await fs.writeFile(outPath, JSON.stringify(summary, null, 2))
+  console.log('\n' + chalk.green(`✅ Full report saved to: ${outPath}`))
+}
+
+async function main() {
+  try {
+    const options = parseArgs(process.argv.slice(2))
+    const summary = await runBatch(options)
+    await printSummary(summary, options.outPath)
+    process.exit(summary.failed > 0 ? 1 : 0)
+  } catch (error) {
+    console.error(chalk.red('❌ Batch generation failed:'), error)
+    process.exit(1)
+  }
+}
+
+main()
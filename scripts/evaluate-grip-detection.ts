@@ -0,0 +1,434 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Grip Detection Evaluation Script
+ * Runs the weapon grip detectors over a folder of hand-labeled GLBs and reports how far each
+ * detector's grip point lands from the label, how often it gets the orientation right, and both
+ * broken down by weapon type, as JSON and HTML.
+ *
+ * Usage: npx tsx scripts/evaluate-grip-detection.ts --dataset dir [--vision recorded|stub|off]
+ *          [--tolerance 0.05] [--out dir] [--label name]
+ *
+ * The dataset folder holds the models and (see scripts/examples/grip-eval for both files):
+ *   labels.json            { "weapons": [{ "file": "bronze-sword.glb", "weaponType": "sword",
+ *                            "gripPoint": [0, 0.12, 0], "orientationFlipped": false }] }
+ *                          file is relative to the dataset folder. gripPoint is the middle of the
+ *                          handle in the GLB's own coordinates, before any normalization.
+ *                          weaponType is free text used to group the report. orientationFlipped
+ *                          (the handle points up in the file) is optional; weapons without it are
+ *                          left out of the flip accuracy.
+ *   vision-recordings.json { "bronze-sword.glb": { "needsFlip": false, "detections": { "side": {...} } } }
+ *                          The vision model's raw answers per view (side, front, diagonal, back;
+ *                          null or missing for a failed request), each { gripBounds, confidence }
+ *                          with gripBounds in pixels of the 512px render. The Equipment page logs
+ *                          them after each AI Vision detection; record them again after a prompt change.
+ *
+ * The vision detector replays the recordings through the same consensus and back-projection code
+ * the app runs. --vision stub answers every request with a failure, the baseline the consensus
+ * fallback gives without an API key.
+ */
+
+import { promises as fs } from 'fs'
+import { join, resolve } from 'path'
+import chalk from 'chalk'
+import * as THREE from 'three'
+
+import { loadGLBScene } from '../server/services/AssetExportService.mjs'
+import { GeometricGripDetector } from '../src/services/processing/GeometricGripDetector'
+import {
+  CONSENSUS_VIEWS,
+  VisionGripRecording,
+  buildGripConsensus,
+  flipWeaponForDetection,
+  frameWeaponForDetection,
+  resolveGripPoint
+} from '../src/services/processing/VisionGripResolver'
+import { GripDetectionMethod } from '../src/types'
+
+type VisionMode = 'recorded' | 'stub' | 'off'
+
+interface EvaluationOptions {
+  datasetDir: string
+  vision: VisionMode
+  tolerance: number
+  outDir: string
+  label: string
+}
+
+interface LabeledWeapon {
+  file: string
+  weaponType: string
+  gripPoint: [number, number, number]
+  orientationFlipped?: boolean
+}
+
+interface Detection {
+  gripPoint: THREE.Vector3   // In the GLB's own coordinates
+  confidence: number
+  orientationFlipped: boolean
+}
+
+interface WeaponEvaluation {
+  file: string
+  weaponType: string
+  detector: GripDetectionMethod
+  status: 'ok' | 'failed' | 'skipped'
+  reason?: string
+  gripPoint?: [number, number, number]
+  expectedGripPoint: [number, number, number]
+  error?: number           // Distance from the labeled grip point, in model units
+  relativeError?: number   // Error as a fraction of the weapon's length
+  confidence?: number
+  orientationFlipped?: boolean
+  expectedOrientationFlipped?: boolean
+}
+
+interface DetectorSummary {
+  detector: GripDetectionMethod
+  weapons: number
+  failed: number
+  skipped: number
+  meanError: number | null
+  medianError: number | null
+  maxError: number | null
+  meanRelativeError: number | null
+  withinTolerance: number | null   // Fraction of attempted weapons within tolerance; failures count as misses
+  flipAccuracy: number | null      // Over weapons with a labeled orientation
+  meanConfidence: number | null
+}
+
+const VISION_MODES: VisionMode[] = ['recorded', 'stub', 'off']
+
+function parseArgs(args: string[]): EvaluationOptions {
+  const flags: Record<string, string> = {}
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) {
+      throw new Error('Usage: evaluate-grip-detection --dataset dir [--vision recorded|stub|off] [--tolerance 0.05] [--out dir] [--label name]')
+    }
+    flags[args[i].slice(2)] = args[++i]
+  }
+
+  if (!flags.dataset) {
+    throw new Error('--dataset is required: a folder with labels.json and the labeled GLBs')
+  }
+  const vision = (flags.vision || 'recorded') as VisionMode
+  if (!VISION_MODES.includes(vision)) {
+    throw new Error(`Unknown vision mode: ${flags.vision}. Use ${VISION_MODES.join(', ')}`)
+  }
+  const tolerance = Number(flags.tolerance ?? 0.05)
+  if (!(tolerance > 0)) {
+    throw new Error('--tolerance must be a positive distance in model units')
+  }
+
+  const datasetDir = resolve(flags.dataset)
+  return {
+    datasetDir,
+    vision,
+    tolerance,
+    outDir: flags.out ? resolve(flags.out) : join(datasetDir, 'reports'),
+    label: flags.label || new Date().toISOString()
+  }
+}
+
+async function readJson<T>(path: string, fallback?: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(path, 'utf-8'))
+  } catch (error) {
+    if (fallback !== undefined && (error as NodeJS.ErrnoException).code === 'ENOENT') return fallback
+    throw new Error(`Could not read ${path}: ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+async function loadModel(path: string): Promise<THREE.Group> {
+  return loadGLBScene(await fs.readFile(path))
+}
+
+async function detectGeometric(path: string): Promise<Detection> {
+  const result = new GeometricGripDetector().detectFromObject(await loadModel(path))
+  return {
+    gripPoint: result.gripPoint,
+    confidence: result.confidence,
+    orientationFlipped: result.orientationFlipped ?? false
+  }
+}
+
+/**
+ * The vision detector's consensus path with the recorded answers in place of the API
+ */
+async function detectVision(path: string, recording: VisionGripRecording): Promise<Detection> {
+  const model = await loadModel(path)
+  const camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 100)
+
+  frameWeaponForDetection(model, camera)
+  if (recording.needsFlip) {
+    flipWeaponForDetection(model)
+  }
+
+  const gripData = buildGripConsensus(CONSENSUS_VIEWS.map(view => ({
+    angle: view.name,
+    gripData: recording.detections[view.name] ?? null
+  })))
+  const { gripPoint } = resolveGripPoint(gripData.gripBounds, model, camera)
+
+  // The detector answers in the framed weapon's coordinates; bring it back into the file's
+  return {
+    gripPoint: model.worldToLocal(gripPoint.clone()),
+    confidence: gripData.confidence,
+    orientationFlipped: recording.needsFlip
+  }
+}
+
+async function weaponLength(path: string): Promise<number> {
+  const size = new THREE.Box3().setFromObject(await loadModel(path)).getSize(new THREE.Vector3())
+  return Math.max(size.x, size.y, size.z)
+}
+
+async function evaluateWeapon(
+  weapon: LabeledWeapon,
+  detector: GripDetectionMethod,
+  detect: (path: string) => Promise<Detection>,
+  options: EvaluationOptions
+): Promise<WeaponEvaluation> {
+  const path = join(options.datasetDir, weapon.file)
+  const evaluation: WeaponEvaluation = {
+    file: weapon.file,
+    weaponType: weapon.weaponType,
+    detector,
+    status: 'ok',
+    expectedGripPoint: weapon.gripPoint,
+    expectedOrientationFlipped: weapon.orientationFlipped
+  }
+
+  try {
+    const detection = await detect(path)
+    const error = detection.gripPoint.distanceTo(new THREE.Vector3(...weapon.gripPoint))
+    return {
+      ...evaluation,
+      gripPoint: detection.gripPoint.toArray().map(round) as [number, number, number],
+      error: round(error),
+      relativeError: round(error / await weaponLength(path)),
+      confidence: round(detection.confidence),
+      orientationFlipped: detection.orientationFlipped
+    }
+  } catch (error) {
+    return { ...evaluation, status: 'failed', reason: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+function summarize(detector: GripDetectionMethod, evaluations: WeaponEvaluation[], tolerance: number): DetectorSummary {
+  const attempted = evaluations.filter(evaluation => evaluation.status !== 'skipped')
+  const succeeded = attempted.filter(evaluation => evaluation.status === 'ok')
+  const errors = succeeded.map(evaluation => evaluation.error!)
+  const flipLabeled = succeeded.filter(evaluation => evaluation.expectedOrientationFlipped !== undefined)
+
+  return {
+    detector,
+    weapons: evaluations.length,
+    failed: attempted.length - succeeded.length,
+    skipped: evaluations.length - attempted.length,
+    meanError: average(errors),
+    medianError: median(errors),
+    maxError: errors.length > 0 ? Math.max(...errors) : null,
+    meanRelativeError: average(succeeded.map(evaluation => evaluation.relativeError!)),
+    withinTolerance: attempted.length > 0
+      ? round(errors.filter(error => error <= tolerance).length / attempted.length)
+      : null,
+    flipAccuracy: flipLabeled.length > 0
+      ? round(flipLabeled.filter(evaluation => evaluation.orientationFlipped === evaluation.expectedOrientationFlipped).length / flipLabeled.length)
+      : null,
+    meanConfidence: average(succeeded.map(evaluation => evaluation.confidence!))
+  }
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return round(sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2)
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function formatValue(value: number | boolean | null | undefined, percent = false): string {
+  if (value === null || value === undefined) return '–'
+  if (typeof value === 'boolean') return value ? 'yes' : 'no'
+  return percent ? `${Math.round(value * 100)}%` : value.toFixed(3)
+}
+
+function summaryRows(summaries: DetectorSummary[], group?: string): string {
+  return summaries.map(summary => `
+      <tr>
+        ${group !== undefined ? `<td>${escapeHtml(group)}</td>` : ''}
+        <td>${summary.detector}</td>
+        <td>${summary.weapons}</td>
+        <td>${summary.failed}</td>
+        <td>${summary.skipped}</td>
+        <td>${formatValue(summary.meanError)}</td>
+        <td>${formatValue(summary.medianError)}</td>
+        <td>${formatValue(summary.maxError)}</td>
+        <td>${formatValue(summary.meanRelativeError, true)}</td>
+        <td>${formatValue(summary.withinTolerance, true)}</td>
+        <td>${formatValue(summary.flipAccuracy, true)}</td>
+        <td>${formatValue(summary.meanConfidence, true)}</td>
+      </tr>`).join('')
+}
+
+function renderHtml(report: {
+  label: string
+  generatedAt: string
+  dataset: string
+  vision: VisionMode
+  tolerance: number
+  summary: DetectorSummary[]
+  byWeaponType: Record<string, DetectorSummary[]>
+  weapons: WeaponEvaluation[]
+}): string {
+  const summaryHeader = `
+        <th>Detector</th><th>Weapons</th><th>Failed</th><th>Skipped</th><th>Mean error</th><th>Median error</th>
+        <th>Max error</th><th>Mean error / length</th><th>Within ${report.tolerance}</th><th>Flip accuracy</th><th>Mean confidence</th>`
+
+  const weaponRows = report.weapons.map(weapon => `
+      <tr class="${weapon.status}">
+        <td>${escapeHtml(weapon.file)}</td>
+        <td>${escapeHtml(weapon.weaponType)}</td>
+        <td>${weapon.detector}</td>
+        <td>${weapon.status}${weapon.reason ? `: ${escapeHtml(weapon.reason)}` : ''}</td>
+        <td>${formatValue(weapon.error)}</td>
+        <td>${weapon.gripPoint ? weapon.gripPoint.map(value => value.toFixed(3)).join(', ') : '–'}</td>
+        <td>${weapon.expectedGripPoint.map(value => value.toFixed(3)).join(', ')}</td>
+        <td>${formatValue(weapon.orientationFlipped)} / ${formatValue(weapon.expectedOrientationFlipped)}</td>
+        <td>${formatValue(weapon.confidence, true)}</td>
+      </tr>`).join('')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Grip detection report – ${escapeHtml(report.label)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+    table { border-collapse: collapse; margin-bottom: 2rem; font-size: 0.875rem; }
+    th, td { border: 1px solid #e5e7eb; padding: 0.375rem 0.75rem; text-align: left; }
+    th { background: #f3f4f6; }
+    tr.failed td { background: #fef2f2; }
+    tr.skipped td { color: #9ca3af; }
+    .meta { color: #6b7280; }
+  </style>
+</head>
+<body>
+  <h1>Grip detection report – ${escapeHtml(report.label)}</h1>
+  <p class="meta">
+    ${escapeHtml(report.dataset)} · vision: ${report.vision} · tolerance ${report.tolerance} · ${report.generatedAt}
+  </p>
+
+  <h2>Summary</h2>
+  <table>
+    <thead><tr>${summaryHeader}</tr></thead>
+    <tbody>${summaryRows(report.summary)}</tbody>
+  </table>
+
+  <h2>By weapon type</h2>
+  <table>
+    <thead><tr><th>Type</th>${summaryHeader}</tr></thead>
+    <tbody>${Object.entries(report.byWeaponType).map(([type, summaries]) => summaryRows(summaries, type)).join('')}</tbody>
+  </table>
+
+  <h2>Weapons</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>File</th><th>Type</th><th>Detector</th><th>Status</th><th>Error</th>
+        <th>Grip point</th><th>Labeled grip point</th><th>Flipped / labeled</th><th>Confidence</th>
+      </tr>
+    </thead>
+    <tbody>${weaponRows}</tbody>
+  </table>
+</body>
+</html>
+`
+}
+
+async function main() {
+  try {
+    const options = parseArgs(process.argv.slice(2))
+    const { weapons } = await readJson<{ weapons: LabeledWeapon[] }>(join(options.datasetDir, 'labels.json'))
+    const recordings = options.vision === 'recorded'
+      ? await readJson<Record<string, VisionGripRecording>>(join(options.datasetDir, 'vision-recordings.json'), {})
+      : {}
+
+    console.log(chalk.blue(`📏 Evaluating ${weapons.length} weapons from ${options.datasetDir} (vision: ${options.vision})`))
+
+    const evaluations: WeaponEvaluation[] = []
+    for (const weapon of weapons) {
+      evaluations.push(await evaluateWeapon(weapon, 'geometry', detectGeometric, options))
+
+      if (options.vision === 'off') continue
+      const recording = options.vision === 'stub'
+        ? { needsFlip: false, detections: {} }
+        : recordings[weapon.file]
+      if (recording) {
+        evaluations.push(await evaluateWeapon(weapon, 'vision', path => detectVision(path, recording), options))
+      } else {
+        evaluations.push({
+          file: weapon.file,
+          weaponType: weapon.weaponType,
+          detector: 'vision',
+          status: 'skipped',
+          reason: 'No recorded vision response',
+          expectedGripPoint: weapon.gripPoint,
+          expectedOrientationFlipped: weapon.orientationFlipped
+        })
+      }
+    }
+
+    const detectors = [...new Set(evaluations.map(evaluation => evaluation.detector))]
+    const weaponTypes = [...new Set(weapons.map(weapon => weapon.weaponType))].sort()
+    const report = {
+      label: options.label,
+      generatedAt: new Date().toISOString(),
+      dataset: options.datasetDir,
+      vision: options.vision,
+      tolerance: options.tolerance,
+      summary: detectors.map(detector =>
+        summarize(detector, evaluations.filter(evaluation => evaluation.detector === detector), options.tolerance)
+      ),
+      byWeaponType: Object.fromEntries(weaponTypes.map(type => [
+        type,
+        detectors.map(detector => summarize(
+          detector,
+          evaluations.filter(evaluation => evaluation.detector === detector && evaluation.weaponType === type),
+          options.tolerance
+        ))
+      ])),
+      weapons: evaluations
+    }
+
+    await fs.mkdir(options.outDir, { recursive: true })
+    await fs.writeFile(join(options.outDir, 'grip-eval.json'), JSON.stringify(report, null, 2))
+    await fs.writeFile(join(options.outDir, 'grip-eval.html'), renderHtml(report))
+
+    for (const summary of report.summary) {
+      console.log(chalk.green(
+        `✅ ${summary.detector}: mean error ${formatValue(summary.meanError)}, ` +
+        `within ${options.tolerance}: ${formatValue(summary.withinTolerance, true)}, ` +
+        `flip accuracy ${formatValue(summary.flipAccuracy, true)}, ${summary.failed} failed, ${summary.skipped} skipped`
+      ))
+    }
+    console.log(chalk.green(`📄 Report written to ${join(options.outDir, 'grip-eval.html')}`))
+  } catch (error) {
+    console.error(chalk.red('❌ Grip detection evaluation failed:'), error)
+    process.exit(1)
+  }
+}
+
+main()
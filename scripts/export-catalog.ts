@@ -0,0 +1,82 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Item Catalog Export Script
+ * Downloads the game items catalog from the API server as JSON and optional TypeScript/C# constants
+ *
+ * Usage: npx tsx scripts/export-catalog.ts [--format json,ts,cs] [--api URL] [--out dir] [--type weapon --tier bronze ...]
+ * Any other flag is passed on as a GET /api/assets filter.
+ */
+
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import chalk from 'chalk'
+
+type CatalogFormat = 'json' | 'ts' | 'cs'
+
+interface CatalogOptions {
+  formats: CatalogFormat[]
+  apiUrl: string
+  outDir: string
+  filters: Record<string, string>
+}
+
+const CATALOG_FORMATS: CatalogFormat[] = ['json', 'ts', 'cs']
+
+function parseArgs(args: string[]): CatalogOptions {
+  const flags: Record<string, string> = {}
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) {
+      throw new Error('Usage: export-catalog [--format json,ts,cs] [--api URL] [--out dir] [--<filter> value]')
+    }
+    flags[args[i].slice(2)] = args[++i]
+  }
+
+  const { format, api, out, ...filters } = flags
+  const formats = (format || 'json').split(',').map(value => value.trim())
+  const unknown = formats.filter(value => !CATALOG_FORMATS.includes(value as CatalogFormat))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown catalog format(s): ${unknown.join(', ')}. Use ${CATALOG_FORMATS.join(', ')}`)
+  }
+
+  return {
+    formats: formats as CatalogFormat[],
+    apiUrl: api || `http://localhost:${process.env.API_PORT || 3001}/api`,
+    outDir: out || join(process.cwd(), 'catalog'),
+    filters
+  }
+}
+
+async function downloadCatalog(options: CatalogOptions, format: CatalogFormat): Promise<string> {
+  const params = new URLSearchParams({ ...options.filters, format })
+  const response = await fetch(`${options.apiUrl}/catalog?${params}`)
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}))
+    throw new Error(body.error || `Request failed: ${response.status} ${response.statusText}`)
+  }
+  return response.text()
+}
+
+async function main() {
+  try {
+    const options = parseArgs(process.argv.slice(2))
+    await fs.mkdir(options.outDir, { recursive: true })
+
+    for (const format of options.formats) {
+      const content = await downloadCatalog(options, format)
+      const outPath = join(options.outDir, `items.${format}`)
+      await fs.writeFile(outPath, content)
+
+      if (format === 'json') {
+        console.log(chalk.green(`✅ ${JSON.parse(content).items.length} items written to ${outPath}`))
+      } else {
+        console.log(chalk.green(`✅ Item constants written to ${outPath}`))
+      }
+    }
+  } catch (error) {
+    console.error(chalk.red('❌ Catalog export failed:'), error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -7,11 +7,15 @@
 import { promises as fs } from 'fs'
 import { join } from 'path'
 import chalk from 'chalk'
+import { AssetRevisionService } from '../server/services/AssetRevisionService.mjs'
 import { AssetNormalizationService } from '../src/services/processing/AssetNormalizationService'
 import { WeaponHandleDetector } from '../src/services/processing/WeaponHandleDetector'
 
 import { AssetMetadata, ExtendedAssetMetadata } from '../src/types'
 
+// Each normalization is recorded as an asset revision so it can be rolled back from the asset library
+const revisions = new AssetRevisionService(join(process.cwd(), 'gdd-assets'))
+
 async function getAllAssets(): Promise<Array<{ id: string; metadata: ExtendedAssetMetadata }>> {
   const assetsDir = join(process.cwd(), 'gdd-assets')
   const dirs = await fs.readdir(assetsDir)
@@ -35,7 +39,6 @@ async function normalizeWeapon(assetId: string): Promise<void> {
   console.log(chalk.blue(`  Normalizing weapon: ${assetId}`))
   
   const inputPath = join(process.cwd(), 'gdd-assets', assetId, `${assetId}.glb`)
-  const backupPath = join(process.cwd(), 'gdd-assets', assetId, `${assetId}_backup.glb`)
   
   // Check if already normalized
   const metadataPath = join(process.cwd(), 'gdd-assets', assetId, 'metadata.json')
@@ -46,10 +49,10 @@ async function normalizeWeapon(assetId: string): Promise<void> {
     return
   }
   
+  // Snapshot the current files so a failed run can be rolled back
+  const baseline = await revisions.recordBaseline(assetId)
+  
   try {
-    // Backup original
-    await fs.copyFile(inputPath, backupPath)
-    
     // Use WeaponHandleDetector for weapons
     const detector = new WeaponHandleDetector()
     const result = await detector.exportNormalizedWeapon(inputPath, inputPath)
@@ -67,16 +70,17 @@ async function normalizeWeapon(assetId: string): Promise<void> {
     delete metadata.scale
     
     await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2))
+    await revisions.record(assetId, 'normalize')
     
     console.log(chalk.green(`    ✓ Normalized successfully`))
     console.log(chalk.gray(`    Dimensions: ${result.dimensions.width.toFixed(2)} x ${result.dimensions.length.toFixed(2)} x ${result.dimensions.height.toFixed(2)}`))
     
   } catch (error) {
     console.error(chalk.red(`    ✗ Failed: ${error}`))
-    // Restore backup if it exists
-    try {
-      await fs.copyFile(backupPath, inputPath)
-    } catch {}
+    // Roll back anything written before the failure
+    if (baseline) {
+      await revisions.restore(assetId, baseline.revision)
+    }
   }
 }
 
@@ -84,7 +88,6 @@ async function normalizeCharacter(assetId: string, targetHeight: number = 1.83):
   console.log(chalk.blue(`  Normalizing character: ${assetId} to ${targetHeight}m`))
   
   const inputPath = join(process.cwd(), 'gdd-assets', assetId, `${assetId}.glb`)
-  const backupPath = join(process.cwd(), 'gdd-assets', assetId, `${assetId}_backup.glb`)
   
   // Check if already normalized
   const metadataPath = join(process.cwd(), 'gdd-assets', assetId, 'metadata.json')
@@ -95,10 +98,10 @@ async function normalizeCharacter(assetId: string, targetHeight: number = 1.83):
     return
   }
   
+  // Snapshot the current files so a failed run can be rolled back
+  const baseline = await revisions.recordBaseline(assetId)
+  
   try {
-    // Backup original
-    await fs.copyFile(inputPath, backupPath)
-    
     // Use AssetNormalizationService
     const normalizer = new AssetNormalizationService()
     const result = await normalizer.normalizeCharacter(inputPath, targetHeight)
@@ -113,16 +116,17 @@ async function normalizeCharacter(assetId: string, targetHeight: number = 1.83):
     metadata.characterHeight = targetHeight
     
     await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2))
+    await revisions.record(assetId, 'normalize')
     
     console.log(chalk.green(`    ✓ Normalized successfully`))
     console.log(chalk.gray(`    Height: ${result.metadata.dimensions.height.toFixed(2)}m`))
     
   } catch (error) {
     console.error(chalk.red(`    ✗ Failed: ${error}`))
-    // Restore backup if it exists
-    try {
-      await fs.copyFile(backupPath, inputPath)
-    } catch {}
+    // Roll back anything written before the failure
+    if (baseline) {
+      await revisions.restore(assetId, baseline.revision)
+    }
   }
 }
 
@@ -130,7 +134,6 @@ async function normalizeArmor(assetId: string, armorType: string): Promise<void>
   console.log(chalk.blue(`  Normalizing armor: ${assetId} (${armorType})`))
   
   const inputPath = join(process.cwd(), 'gdd-assets', assetId, `${assetId}.glb`)
-  const backupPath = join(process.cwd(), 'gdd-assets', assetId, `${assetId}_backup.glb`)
   
   // Check if already normalized
   const metadataPath = join(process.cwd(), 'gdd-assets', assetId, 'metadata.json')
@@ -141,10 +144,10 @@ async function normalizeArmor(assetId: string, armorType: string): Promise<void>
     return
   }
   
+  // Snapshot the current files so a failed run can be rolled back
+  const baseline = await revisions.recordBaseline(assetId)
+  
   try {
-    // Backup original
-    await fs.copyFile(inputPath, backupPath)
-    
     // Use AssetNormalizationService
     const normalizer = new AssetNormalizationService()
     const result = await normalizer.normalizeArmor(inputPath, armorType)
@@ -158,15 +161,16 @@ async function normalizeArmor(assetId: string, armorType: string): Promise<void>
     metadata.dimensions = result.metadata.dimensions
     
     await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2))
+    await revisions.record(assetId, 'normalize')
     
     console.log(chalk.green(`    ✓ Normalized successfully`))
     
   } catch (error) {
     console.error(chalk.red(`    ✗ Failed: ${error}`))
-    // Restore backup if it exists
-    try {
-      await fs.copyFile(backupPath, inputPath)
-    } catch {}
+    // Roll back anything written before the failure
+    if (baseline) {
+      await revisions.restore(assetId, baseline.revision)
+    }
   }
 }
 
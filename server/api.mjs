@@ -11,10 +11,20 @@ import fs from 'fs'
 import { fileURLToPath } from 'url'
 import { errorHandler } from './middleware/errorHandler.mjs'
 import { AssetService } from './services/AssetService.mjs'
+import { AssetRevisionService } from './services/AssetRevisionService.mjs'
+import { AssetExportService } from './services/AssetExportService.mjs'
+import { AssetPackService } from './services/AssetPackService.mjs'
+import { ItemCatalogService } from './services/ItemCatalogService.mjs'
+import { TrashService } from './services/TrashService.mjs'
 import { RetextureService } from './services/RetextureService.mjs'
 import { GenerationService } from './services/GenerationService.mjs'
+import { BatchGenerationService } from './services/BatchGenerationService.mjs'
+import { JobQueue } from './services/JobQueue.mjs'
+import { createGenerationProvider } from './services/providers/index.mjs'
 import { getWeaponDetectionPrompts } from './utils/promptLoader.mjs'
-import promptRoutes from './routes/promptRoutes.mjs'
+import { PromptVersionService } from './services/PromptVersionService.mjs'
+import { ChatCompletionService } from './services/ChatCompletionService.mjs'
+import { createPromptRoutes } from './routes/promptRoutes.mjs'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -46,7 +56,8 @@ app.use((req, res, next) => {
   next()
 })
 
-// Body parsing (allow larger payloads for base64 images)
+// Body parsing (allow larger payloads for base64 images, and for base64 models on import)
+app.use('/api/assets/import', express.json({ limit: process.env.ASSET_IMPORT_MAX_SIZE || '200mb' }))
 app.use(express.json({ limit: '25mb' }))
 
 // Static file serving with security headers
@@ -57,26 +68,66 @@ app.use('/assets', express.static(path.join(ROOT_DIR, 'public/assets'), {
 }))
 
 // Initialize services
-const assetService = new AssetService(path.join(ROOT_DIR, 'gdd-assets'))
-const retextureService = new RetextureService({
-  meshyApiKey: process.env.MESHY_API_KEY || '',
-  imageServerBaseUrl: process.env.IMAGE_SERVER_URL || 'http://localhost:8080'
+const assetRevisionService = new AssetRevisionService(path.join(ROOT_DIR, 'gdd-assets'))
+const trashService = new TrashService({
+  assetsDir: path.join(ROOT_DIR, 'gdd-assets'),
+  trashDir: path.join(ROOT_DIR, 'gdd-assets', '.trash'),
+  retentionDays: parseFloat(process.env.TRASH_RETENTION_DAYS || '30')
+})
+const assetService = new AssetService({
+  assetsDir: path.join(ROOT_DIR, 'gdd-assets'),
+  revisionService: assetRevisionService,
+  trashService,
+  materialPresetsPath: path.join(ROOT_DIR, 'public/prompts/material-presets.json')
+})
+const assetExportService = new AssetExportService({ assetService })
+const assetPackService = new AssetPackService({ assetService })
+const itemCatalogService = new ItemCatalogService({ assetService })
+const generationProvider = createGenerationProvider()
+const jobQueue = new JobQueue({
+  maxConcurrent: {
+    meshy: parseInt(process.env.MESHY_MAX_CONCURRENT_TASKS || '3', 10)
+  }
+})
+const chatCompletionService = new ChatCompletionService()
+const retextureService = new RetextureService({ provider: generationProvider, jobQueue, revisionService: assetRevisionService })
+const generationService = new GenerationService({
+  pipelinesDir: path.join(ROOT_DIR, 'gdd-assets', '.pipelines'),
+  provider: generationProvider,
+  chatService: chatCompletionService,
+  jobQueue,
+  revisionService: assetRevisionService
+})
+const batchGenerationService = new BatchGenerationService(
+  generationService,
+  path.join(ROOT_DIR, 'gdd-assets', '.batches'),
+  assetService
+)
+const promptVersionService = new PromptVersionService({
+  promptsDir: path.join(ROOT_DIR, 'public/prompts'),
+  historyDir: path.join(ROOT_DIR, 'gdd-assets', '.prompt-history')
 })
-const generationService = new GenerationService()
 
 // Use prompt routes
-app.use('/api', promptRoutes)
+app.use('/api', createPromptRoutes({ promptVersionService }))
 
 // Routes
-app.get('/api/health', (req, res) => {
-  res.json({ 
-    status: 'healthy', 
-    timestamp: new Date().toISOString(),
-    services: {
-      meshy: !!process.env.MESHY_API_KEY,
-      openai: !!process.env.OPENAI_API_KEY
-    }
-  })
+app.get('/api/health', async (req, res, next) => {
+  try {
+    res.json({ 
+      status: 'healthy', 
+      timestamp: new Date().toISOString(),
+      provider: generationProvider.name,
+      services: {
+        meshy: !!process.env.MESHY_API_KEY,
+        openai: !!process.env.OPENAI_API_KEY
+      },
+      // Chat-completions backend and model of each task (public/prompts/llm-backends.json)
+      llm: await chatCompletionService.describeTasks()
+    })
+  } catch (error) {
+    next(error)
+  }
 })
 
 app.get('/api/assets', async (req, res, next) => {
@@ -88,13 +139,134 @@ app.get('/api/assets', async (req, res, next) => {
       'Expires': '0'
     })
     
-    const assets = await assetService.listAssets()
-    res.json(assets)
+    // Without query parameters the full list is returned, otherwise a page of matches
+    const { t, ...query } = req.query
+    if (Object.keys(query).length === 0) {
+      const assets = await assetService.listAssets()
+      return res.json(assets)
+    }
+
+    res.json(await assetService.queryAssets(query))
+  } catch (error) {
+    if (error.status) {
+      res.status(error.status).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
+app.get('/api/assets/broken', async (req, res, next) => {
+  try {
+    res.json(await assetService.listBrokenAssets())
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Import a GLB as a manual asset
+app.post('/api/assets/import', async (req, res, next) => {
+  try {
+    const asset = await assetService.importAsset(req.body)
+    res.status(201).json(asset)
+  } catch (error) {
+    if (error.status) {
+      res.status(error.status).json({ error: error.message, errors: error.errors })
+    } else {
+      next(error)
+    }
+  }
+})
+
+// Download several assets as one zip with a manifest.json.
+// Takes `ids` (comma-separated) or the GET /api/assets filters, plus `includeVariants`.
+app.get('/api/assets/pack', async (req, res, next) => {
+  try {
+    const { ids, includeVariants, ...query } = req.query
+    const options = {
+      ids: ids ? String(ids).split(',').map(id => id.trim()).filter(Boolean) : undefined,
+      query,
+      includeVariants: includeVariants === 'true'
+    }
+    const assets = await assetPackService.resolveAssets(options)
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+    res.attachment(`asset-pack-${timestamp}.zip`)
+    res.type('application/zip')
+    await assetPackService.writePack(assets, options, res)
+  } catch (error) {
+    if (res.headersSent) {
+      console.error('Asset pack failed mid-stream:', error)
+      res.destroy(error)
+    } else if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else if (error.status) {
+      res.status(error.status).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
+// Download the game items catalog as JSON, or as TypeScript/C# item ID constants.
+// Takes the GET /api/assets filters to limit which assets are included.
+app.get('/api/catalog', async (req, res, next) => {
+  try {
+    const { format = 'json', ...query } = req.query
+    const { content, filename, contentType } = await itemCatalogService.renderCatalog(String(format), query)
+    res.attachment(filename)
+    res.type(contentType)
+    res.send(content)
+  } catch (error) {
+    if (error.status) {
+      res.status(error.status).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
+app.get('/api/assets/:id', async (req, res, next) => {
+  try {
+    const asset = await assetService.loadAsset(req.params.id)
+    if (!asset) {
+      return res.status(404).json({ error: `Asset ${req.params.id} not found` })
+    }
+    res.json(asset)
   } catch (error) {
     next(error)
   }
 })
 
+app.get('/api/assets/:id/revisions', async (req, res, next) => {
+  try {
+    res.json(await assetService.listRevisions(req.params.id))
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
+app.post('/api/assets/:id/revisions/:revision/restore', async (req, res, next) => {
+  try {
+    const revision = await assetService.restoreRevision(req.params.id, parseInt(req.params.revision, 10))
+    res.json({
+      success: true,
+      revision,
+      asset: await assetService.loadAsset(req.params.id)
+    })
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
 app.head('/api/assets/:id/model', async (req, res, next) => {
   try {
     const modelPath = await assetService.getModelPath(req.params.id)
@@ -122,6 +294,52 @@ app.get('/api/assets/:id/model', async (req, res, next) => {
   }
 })
 
+// The recipe a base model was generated with, replayed by POST /api/regenerate-base/:id
+app.get('/api/assets/:id/recipe', async (req, res, next) => {
+  try {
+    res.json(await generationService.getRecipe(req.params.id))
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else if (error.status) {
+      res.status(error.status).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
+// Formats the model can be exported to, with the features each would drop
+app.get('/api/assets/:id/export/formats', async (req, res, next) => {
+  try {
+    res.json(await assetExportService.getFormatReport(req.params.id))
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
+// Download the model converted to another format
+app.get('/api/assets/:id/export', async (req, res, next) => {
+  try {
+    const result = await assetExportService.exportAsset(req.params.id, req.query.format)
+    res.set('X-Unsupported-Features', result.unsupportedFeatures.map(({ feature }) => feature).join(','))
+    res.type(result.contentType)
+    res.download(result.path, result.filename)
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else if (error.status) {
+      res.status(error.status).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
 // Serve any file from an asset directory (including animations)
 app.get('/api/assets/:id/*', async (req, res, next) => {
   try {
@@ -194,11 +412,12 @@ app.delete('/api/assets/:id', async (req, res, next) => {
     const { id } = req.params
     const { includeVariants } = req.query
     
-    await assetService.deleteAsset(id, includeVariants === 'true')
+    const trashEntry = await assetService.deleteAsset(id, includeVariants === 'true')
     
     res.json({ 
       success: true, 
-      message: `Asset ${id} deleted successfully` 
+      message: `Asset ${id} moved to trash`,
+      trashEntry
     })
   } catch (error) {
     // If the error is "Asset not found", return 404
@@ -209,6 +428,43 @@ app.delete('/api/assets/:id', async (req, res, next) => {
   }
 })
 
+// Trash
+app.get('/api/trash', async (req, res, next) => {
+  try {
+    res.json(await trashService.listEntries())
+  } catch (error) {
+    next(error)
+  }
+})
+
+app.post('/api/trash/:trashId/restore', async (req, res, next) => {
+  try {
+    const result = await assetService.restoreFromTrash(req.params.trashId)
+    res.json({ success: true, ...result })
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else if (error.status) {
+      res.status(error.status).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
+app.delete('/api/trash/:trashId', async (req, res, next) => {
+  try {
+    const entry = await trashService.deleteEntry(req.params.trashId)
+    res.json({ success: true, entry })
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
 // Update asset metadata
 app.patch('/api/assets/:id', async (req, res, next) => {
   try {
@@ -223,7 +479,53 @@ app.patch('/api/assets/:id', async (req, res, next) => {
     
     res.json(updatedAsset)
   } catch (error) {
-    next(error)
+    if (error.status) {
+      res.status(error.status).json({ error: error.message, errors: error.errors })
+    } else {
+      next(error)
+    }
+  }
+})
+
+// Save how this equipment sits on an avatar (body: { rigProfile, config })
+app.put('/api/assets/:id/attachments', async (req, res, next) => {
+  try {
+    res.json(await assetService.saveAttachmentConfig(req.params.id, req.body || {}))
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else if (error.status) {
+      res.status(error.status).json({ error: error.message, errors: error.errors })
+    } else {
+      next(error)
+    }
+  }
+})
+
+// Save a named equipment loadout on an avatar (body: { items: { [slot]: equipmentId } })
+app.put('/api/assets/:id/loadouts/:name', async (req, res, next) => {
+  try {
+    res.json(await assetService.saveLoadout(req.params.id, req.params.name, req.body || {}))
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else if (error.status) {
+      res.status(error.status).json({ error: error.message, errors: error.errors })
+    } else {
+      next(error)
+    }
+  }
+})
+
+app.delete('/api/assets/:id/loadouts/:name', async (req, res, next) => {
+  try {
+    res.json(await assetService.deleteLoadout(req.params.id, req.params.name))
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else {
+      next(error)
+    }
   }
 })
 
@@ -253,11 +555,13 @@ app.post('/api/material-presets', async (req, res, next) => {
       }
     }
     
-    // Save to file
+    // Save to file, keeping the previous presets as a version
     const presetsPath = path.join(ROOT_DIR, 'public/prompts/material-presets.json')
+    await promptVersionService.recordBaseline('material-presets')
     await fs.promises.writeFile(presetsPath, JSON.stringify(presets, null, 2), 'utf-8')
+    const version = await promptVersionService.record('material-presets', 'save', { note: req.query.note })
     
-    res.json({ success: true, message: 'Material presets saved successfully' })
+    res.json({ success: true, message: 'Material presets saved successfully', version: version?.version })
   } catch (error) {
     next(error)
   }
@@ -287,18 +591,19 @@ app.post('/api/retexture', async (req, res, next) => {
   }
 })
 
+// Regenerate a base model from its generation recipe; the body holds optional recipe edits
 app.post('/api/regenerate-base/:baseAssetId', async (req, res, next) => {
   try {
-    const { baseAssetId } = req.params
-    
-    const result = await retextureService.regenerateBase({
-      baseAssetId,
-      assetsDir: path.join(ROOT_DIR, 'gdd-assets')
-    })
-
-    res.json(result)
+    const result = await generationService.regenerateAsset(req.params.baseAssetId, req.body?.recipe)
+    res.status(202).json(result)
   } catch (error) {
-    next(error)
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else if (error.status) {
+      res.status(error.status).json({ error: error.message, errors: error.errors })
+    } else {
+      next(error)
+    }
   }
 })
 
@@ -321,6 +626,20 @@ app.post('/api/generation/pipeline', async (req, res, next) => {
   }
 })
 
+// Dry run: the prompts and settings a pipeline would send for a config, without calling any provider
+app.post('/api/generation/preview', async (req, res, next) => {
+  try {
+    const preview = await generationService.previewPrompts(req.body)
+    res.json(preview)
+  } catch (error) {
+    if (error.status) {
+      res.status(error.status).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
 app.get('/api/generation/pipeline/:pipelineId', async (req, res, next) => {
   try {
     const { pipelineId } = req.params
@@ -335,13 +654,167 @@ app.get('/api/generation/pipeline/:pipelineId', async (req, res, next) => {
   }
 })
 
-// Weapon handle detection endpoint
-app.post('/api/weapon-handle-detect', async (req, res) => {
+// Batch generation from a GDD manifest (JSON or CSV)
+app.post('/api/generation/batch', async (req, res, next) => {
+  try {
+    const { manifest, format, concurrency, defaults, overwrite } = req.body
+    
+    if (!manifest) {
+      return res.status(400).json({ error: 'manifest is required' })
+    }
+    
+    const summary = await batchGenerationService.startBatch({ manifest, format, concurrency, defaults, overwrite: overwrite === true })
+    res.json(summary)
+  } catch (error) {
+    if (error.status) {
+      res.status(error.status).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
+app.get('/api/generation/batch/:batchId', async (req, res, next) => {
+  try {
+    const summary = await batchGenerationService.getBatchStatus(req.params.batchId)
+    res.json(summary)
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
+// Provider task queue depth and wait times
+app.get('/api/queue', (req, res) => {
+  res.json(jobQueue.getStatus())
+})
+
+// Cancel a running pipeline
+app.post('/api/generation/pipeline/:pipelineId/cancel', async (req, res, next) => {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured')
+    const { pipelineId } = req.params
+    const status = await generationService.cancelPipeline(pipelineId)
+    res.json(status)
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else if (error.status) {
+      res.status(error.status).json({ error: error.message })
+    } else {
+      next(error)
     }
+  }
+})
 
+// Re-run a single failed or cancelled stage
+app.post('/api/generation/pipeline/:pipelineId/stages/:stage/retry', async (req, res, next) => {
+  try {
+    const { pipelineId, stage } = req.params
+    const status = await generationService.retryStage(pipelineId, stage)
+    res.json(status)
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else if (error.status) {
+      res.status(error.status).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
+// Continue a pipeline in concept art review with the picked candidate
+app.post('/api/generation/pipeline/:pipelineId/concept-art/select', async (req, res, next) => {
+  try {
+    const { pipelineId } = req.params
+    const status = await generationService.selectConceptArt(pipelineId, req.body?.candidateId)
+    res.json(status)
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else if (error.status) {
+      res.status(error.status).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
+// Generate another round of concept art candidates, optionally with a tweaked image prompt
+app.post('/api/generation/pipeline/:pipelineId/concept-art/regenerate', async (req, res, next) => {
+  try {
+    const { pipelineId } = req.params
+    const status = await generationService.regenerateConceptArt(pipelineId, { imagePrompt: req.body?.imagePrompt })
+    res.json(status)
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({ error: error.message })
+    } else if (error.status) {
+      res.status(error.status).json({ error: error.message })
+    } else {
+      next(error)
+    }
+  }
+})
+
+// Stream pipeline status updates as Server-Sent Events
+app.get('/api/generation/pipeline/:pipelineId/events', async (req, res, next) => {
+  const { pipelineId } = req.params
+  
+  let initialStatus
+  try {
+    initialStatus = await generationService.getPipelineStatus(pipelineId)
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message })
+    }
+    return next(error)
+  }
+  
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive'
+  })
+  res.flushHeaders()
+  
+  const isFinished = (status) => ['completed', 'failed', 'cancelled'].includes(status.status)
+  const sendStatus = (status) => {
+    res.write(`event: status\ndata: ${JSON.stringify(status)}\n\n`)
+  }
+  
+  sendStatus(initialStatus)
+  if (isFinished(initialStatus)) {
+    return res.end()
+  }
+  
+  // Comment lines keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000)
+  
+  const onUpdate = (status) => {
+    if (status.id !== pipelineId) return
+    sendStatus(status)
+    if (isFinished(status)) {
+      cleanup()
+      res.end()
+    }
+  }
+  
+  const cleanup = () => {
+    clearInterval(heartbeat)
+    generationService.off('pipeline:update', onUpdate)
+  }
+  
+  generationService.on('pipeline:update', onUpdate)
+  req.on('close', cleanup)
+})
+
+// Weapon handle detection endpoint
+app.post('/api/weapon-handle-detect', async (req, res) => {
+  try {
     const { image, angle, promptHint } = req.body // Base64 image, angle info, and prompt hint
 
     if (!image) {
@@ -420,43 +893,29 @@ ONLY select the cylindrical grip area where fingers would wrap around.`
     
     promptText += responseFormat
 
-    // Use GPT-4 Vision to analyze the weapon and identify grip location
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: promptText
-              },
-              { type: "image_url", image_url: { url: image, detail: "high" } }
-            ]
-          }
-        ],
-        max_tokens: 300,
-        temperature: 0.3, // Lower temperature for more consistent results
-        response_format: { type: "json_object" }
-      })
+    // Use a vision model to analyze the weapon and identify grip location
+    const { content } = await chatCompletionService.complete('weaponHandleDetection', {
+      messages: [
+        {
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: promptText
+            },
+            { type: "image_url", image_url: { url: image, detail: "high" } }
+          ]
+        }
+      ],
+      maxTokens: 300,
+      temperature: 0.3, // Lower temperature for more consistent results
+      responseFormat: { type: "json_object" }
     })
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`OpenAI API error: ${response.status} - ${error}`)
-    }
-
-    const data = await response.json()
     let gripData
 
     try {
-      gripData = JSON.parse(data.choices[0].message.content)
+      gripData = JSON.parse(content)
     } catch (parseError) {
       // If parsing fails, return default values
       gripData = {
@@ -482,10 +941,6 @@ ONLY select the cylindrical grip area where fingers would wrap around.`
 // Weapon orientation detection endpoint
 app.post('/api/weapon-orientation-detect', async (req, res) => {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured')
-    }
-
     const { image } = req.body
 
     if (!image) {
@@ -522,39 +977,25 @@ Respond with ONLY a JSON object:
   "reason": "<brief explanation of your decision>"
 }`
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "user",
-            content: [
-              { type: "text", text: promptText },
-              { type: "image_url", image_url: { url: image, detail: "high" } }
-            ]
-          }
-        ],
-        max_tokens: 200,
-        temperature: 0.2,
-        response_format: { type: "json_object" }
-      })
+    const { content } = await chatCompletionService.complete('weaponOrientationDetection', {
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: promptText },
+            { type: "image_url", image_url: { url: image, detail: "high" } }
+          ]
+        }
+      ],
+      maxTokens: 200,
+      temperature: 0.2,
+      responseFormat: { type: "json_object" }
     })
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`OpenAI API error: ${response.status} - ${error}`)
-    }
-
-    const data = await response.json()
     let orientationData
 
     try {
-      orientationData = JSON.parse(data.choices[0].message.content)
+      orientationData = JSON.parse(content)
     } catch (parseError) {
       orientationData = {
         needsFlip: false,
@@ -582,10 +1023,36 @@ app.listen(PORT, () => {
   console.log(`🚀 API Server running on http://localhost:${PORT}`)
   console.log(`📊 Health check: http://localhost:${PORT}/api/health`)
   
-  if (!process.env.MESHY_API_KEY) {
+  assetService.initialize().catch(error => {
+    console.error('Failed to build asset index:', error)
+  })
+  trashService.startPurging()
+  
+  // Batches wait on their rows' pipelines, so those are resumed first
+  generationService.resumePipelines()
+    .then(count => {
+      if (count > 0) {
+        console.log(`🔁 Resumed ${count} unfinished pipeline(s)`)
+      }
+    })
+    .catch(error => {
+      console.error('Failed to resume pipelines:', error)
+    })
+    .then(() => batchGenerationService.resumeBatches())
+    .then(count => {
+      if (count > 0) {
+        console.log(`🔁 Resumed ${count} unfinished batch(es)`)
+      }
+    })
+    .catch(error => {
+      console.error('Failed to resume batches:', error)
+    })
+  
+  console.log(`🧩 Generation provider: ${generationProvider.name}`)
+  if (generationProvider.getMissingConfiguration(['retexture']).length > 0) {
     console.warn('⚠️  MESHY_API_KEY not found - retexturing will fail')
   }
-  if (!process.env.OPENAI_API_KEY) {
+  if (generationProvider.getMissingConfiguration(['image']).length > 0) {
     console.warn('⚠️  OPENAI_API_KEY not found - base regeneration will fail')
   }
 })
\ No newline at end of file
@@ -1,7 +1,5 @@
 import express from 'express'
-import { loadPromptFile, savePromptFile } from '../utils/promptLoader.mjs'
-
-const router = express.Router()
+import { clearPromptCache, isAllowedApiKeyEnv, loadPromptFile, savePromptFile } from '../utils/promptLoader.mjs'
 
 // Map of URL paths to file names
 const promptFileMap = {
@@ -10,117 +8,251 @@ const promptFileMap = {
   'materials': 'material-prompts',
   'generation': 'generation-prompts',
   'gpt4-enhancement': 'gpt4-enhancement-prompts',
-  'weapon-detection': 'weapon-detection-prompts'
+  'weapon-detection': 'weapon-detection-prompts',
+  'llm-backends': 'llm-backends'
+}
+
+// Files with a version history: the prompt files plus the material presets saved by /api/material-presets
+const versionedFileMap = {
+  ...promptFileMap,
+  'material-presets': 'material-presets'
 }
 
-// GET endpoint for loading prompts
-router.get('/prompts/:type', async (req, res) => {
-  const { type } = req.params
-  const fileName = promptFileMap[type]
-  
-  if (!fileName) {
-    return res.status(404).json({ error: 'Invalid prompt type' })
-  }
-  
-  try {
-    const prompts = await loadPromptFile(fileName)
-    if (!prompts) {
-      return res.status(404).json({ error: 'Prompt file not found' })
-    }
-    res.json(prompts)
-  } catch (error) {
-    console.error(`Error loading prompts for ${type}:`, error)
-    res.status(500).json({ error: 'Failed to load prompts' })
-  }
-})
+/**
+ * A version number from the URL, or 'current' for the file as it is now
+ */
+function parseVersion(value) {
+  if (value === 'current') return value
+  const version = Number(value)
+  return Number.isInteger(version) && version > 0 ? version : null
+}
 
-// POST endpoint for saving prompts (only updates custom section)
-router.post('/prompts/:type', async (req, res) => {
-  const { type } = req.params
-  const fileName = promptFileMap[type]
+/**
+ * Prompt file routes. Every save is recorded by promptVersionService so it can be diffed and restored.
+ */
+export function createPromptRoutes({ promptVersionService }) {
+  const router = express.Router()
+
+  // GET endpoint for loading prompts
+  router.get('/prompts/:type', async (req, res) => {
+    const { type } = req.params
+    const fileName = promptFileMap[type]
   
-  if (!fileName) {
-    return res.status(404).json({ error: 'Invalid prompt type' })
-  }
+    if (!fileName) {
+      return res.status(404).json({ error: 'Invalid prompt type' })
+    }
   
-  try {
-    const updatedPrompts = req.body
-    
-    // Validate the structure - special handling for asset-types
-    if (type === 'asset-types') {
-      if (!updatedPrompts.version || !updatedPrompts.avatar || !updatedPrompts.item) {
-        return res.status(400).json({ error: 'Invalid asset type prompt structure' })
-      }
-    } else {
-      if (!updatedPrompts.version || !updatedPrompts.default || !updatedPrompts.custom) {
-        return res.status(400).json({ error: 'Invalid prompt structure' })
+    try {
+      const prompts = await loadPromptFile(fileName)
+      if (!prompts) {
+        return res.status(404).json({ error: 'Prompt file not found' })
       }
+      res.json(prompts)
+    } catch (error) {
+      console.error(`Error loading prompts for ${type}:`, error)
+      res.status(500).json({ error: 'Failed to load prompts' })
+    }
+  })
+
+  // POST endpoint for saving prompts (only updates custom section)
+  router.post('/prompts/:type', async (req, res) => {
+    const { type } = req.params
+    const fileName = promptFileMap[type]
+  
+    if (!fileName) {
+      return res.status(404).json({ error: 'Invalid prompt type' })
     }
+  
+    try {
+      const updatedPrompts = req.body
     
-    // Save the updated prompts
-    const success = await savePromptFile(fileName, updatedPrompts)
+      // Validate the structure - special handling for asset-types
+      if (type === 'asset-types') {
+        if (!updatedPrompts.version || !updatedPrompts.avatar || !updatedPrompts.item) {
+          return res.status(400).json({ error: 'Invalid asset type prompt structure' })
+        }
+      } else if (type === 'llm-backends') {
+        if (!updatedPrompts.version || !updatedPrompts.backends || !updatedPrompts.tasks) {
+          return res.status(400).json({ error: 'Invalid LLM backend structure' })
+        }
+        const disallowed = Object.entries(updatedPrompts.backends)
+          .filter(([, backend]) => backend?.apiKeyEnv && !isAllowedApiKeyEnv(backend.apiKeyEnv, backend.baseUrl))
+          .map(([name]) => name)
+        if (disallowed.length > 0) {
+          return res.status(400).json({
+            error: `apiKeyEnv must end in _LLM_API_KEY, or be OPENAI_API_KEY with an https://api.openai.com baseUrl (backends: ${disallowed.join(', ')})`
+          })
+        }
+      } else {
+        if (!updatedPrompts.version || !updatedPrompts.default || !updatedPrompts.custom) {
+          return res.status(400).json({ error: 'Invalid prompt structure' })
+        }
+      }
     
-    if (success) {
-      res.json({ success: true, message: 'Prompts updated successfully' })
-    } else {
+      // Save the updated prompts, keeping the previous content as a version
+      await promptVersionService.recordBaseline(fileName)
+      const success = await savePromptFile(fileName, updatedPrompts)
+    
+      if (success) {
+        const version = await promptVersionService.record(fileName, 'save', { note: req.query.note })
+        res.json({ success: true, message: 'Prompts updated successfully', version: version?.version })
+      } else {
+        res.status(500).json({ error: 'Failed to save prompts' })
+      }
+    } catch (error) {
+      console.error(`Error saving prompts for ${type}:`, error)
       res.status(500).json({ error: 'Failed to save prompts' })
     }
-  } catch (error) {
-    console.error(`Error saving prompts for ${type}:`, error)
-    res.status(500).json({ error: 'Failed to save prompts' })
-  }
-})
+  })
 
-// DELETE endpoint to remove a custom prompt
-router.delete('/prompts/:type/:id', async (req, res) => {
-  const { type, id } = req.params
-  const fileName = promptFileMap[type]
-  
-  if (!fileName) {
-    return res.status(404).json({ error: 'Invalid prompt type' })
-  }
+  // DELETE endpoint to remove a custom prompt
+  router.delete('/prompts/:type/:id', async (req, res) => {
+    const { type, id } = req.params
+    const fileName = promptFileMap[type]
   
-  try {
-    // Load current prompts
-    const currentPrompts = await loadPromptFile(fileName)
-    if (!currentPrompts) {
-      return res.status(404).json({ error: 'Prompt file not found' })
+    if (!fileName) {
+      return res.status(404).json({ error: 'Invalid prompt type' })
     }
-    
-    // Handle deletion based on type
-    if (type === 'asset-types') {
-      // For asset types, we need the category (avatar or item)
-      const { category } = req.query
-      if (!category || !['avatar', 'item'].includes(category)) {
-        return res.status(400).json({ error: 'Category parameter required (avatar or item)' })
+  
+    try {
+      // Load current prompts
+      const currentPrompts = await loadPromptFile(fileName)
+      if (!currentPrompts) {
+        return res.status(404).json({ error: 'Prompt file not found' })
       }
+    
+      // Handle deletion based on type
+      if (type === 'asset-types') {
+        // For asset types, we need the category (avatar or item)
+        const { category } = req.query
+        if (!category || !['avatar', 'item'].includes(category)) {
+          return res.status(400).json({ error: 'Category parameter required (avatar or item)' })
+        }
       
-      if (currentPrompts[category]?.custom?.[id]) {
-        delete currentPrompts[category].custom[id]
+        if (currentPrompts[category]?.custom?.[id]) {
+          delete currentPrompts[category].custom[id]
+        } else {
+          return res.status(404).json({ error: 'Custom asset type not found' })
+        }
       } else {
-        return res.status(404).json({ error: 'Custom asset type not found' })
+        // For other types, delete from custom section
+        if (currentPrompts.custom?.[id]) {
+          delete currentPrompts.custom[id]
+        } else {
+          return res.status(404).json({ error: 'Custom prompt not found' })
+        }
       }
-    } else {
-      // For other types, delete from custom section
-      if (currentPrompts.custom?.[id]) {
-        delete currentPrompts.custom[id]
+    
+      // Save the updated prompts, keeping the previous content as a version
+      await promptVersionService.recordBaseline(fileName)
+      const success = await savePromptFile(fileName, currentPrompts)
+    
+      if (success) {
+        await promptVersionService.record(fileName, 'delete', { note: req.query.note || `Deleted ${id}` })
+        res.json({ success: true, message: 'Prompt deleted successfully' })
       } else {
-        return res.status(404).json({ error: 'Custom prompt not found' })
+        res.status(500).json({ error: 'Failed to save prompts after deletion' })
       }
+    } catch (error) {
+      console.error(`Error deleting prompt ${id} from ${type}:`, error)
+      res.status(500).json({ error: 'Failed to delete prompt' })
     }
-    
-    // Save the updated prompts
-    const success = await savePromptFile(fileName, currentPrompts)
-    
-    if (success) {
-      res.json({ success: true, message: 'Prompt deleted successfully' })
-    } else {
-      res.status(500).json({ error: 'Failed to save prompts after deletion' })
-    }
-  } catch (error) {
-    console.error(`Error deleting prompt ${id} from ${type}:`, error)
-    res.status(500).json({ error: 'Failed to delete prompt' })
-  }
-})
+  })
+
+  // GET endpoint listing the saved versions of a prompt file, newest first
+  router.get('/prompts/:type/versions', async (req, res) => {
+    const { type } = req.params
+    const fileName = versionedFileMap[type]
+  
+    if (!fileName) {
+      return res.status(404).json({ error: 'Invalid prompt type' })
+    }
+  
+    try {
+      res.json(await promptVersionService.listVersions(fileName))
+    } catch (error) {
+      console.error(`Error listing versions of ${type}:`, error)
+      res.status(500).json({ error: 'Failed to list prompt versions' })
+    }
+  })
+
+  // GET endpoint diffing two versions (?from=3&to=current)
+  router.get('/prompts/:type/versions/diff', async (req, res) => {
+    const { type } = req.params
+    const fileName = versionedFileMap[type]
+  
+    if (!fileName) {
+      return res.status(404).json({ error: 'Invalid prompt type' })
+    }
+  
+    const from = parseVersion(req.query.from)
+    const to = parseVersion(req.query.to || 'current')
+    if (!from || !to) {
+      return res.status(400).json({ error: 'from and to must be version numbers or "current"' })
+    }
+  
+    try {
+      res.json(await promptVersionService.diff(fileName, from, to))
+    } catch (error) {
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: error.message })
+      }
+      console.error(`Error diffing versions of ${type}:`, error)
+      res.status(500).json({ error: 'Failed to diff prompt versions' })
+    }
+  })
+
+  // GET endpoint returning one version with its content
+  router.get('/prompts/:type/versions/:version', async (req, res) => {
+    const { type } = req.params
+    const fileName = versionedFileMap[type]
+  
+    if (!fileName) {
+      return res.status(404).json({ error: 'Invalid prompt type' })
+    }
+  
+    const version = parseVersion(req.params.version)
+    if (!version) {
+      return res.status(400).json({ error: 'Invalid version' })
+    }
+  
+    try {
+      res.json(await promptVersionService.getVersion(fileName, version))
+    } catch (error) {
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: error.message })
+      }
+      console.error(`Error loading version ${version} of ${type}:`, error)
+      res.status(500).json({ error: 'Failed to load prompt version' })
+    }
+  })
+
+  // POST endpoint restoring a version; the content it replaces is kept as a version too
+  router.post('/prompts/:type/versions/:version/restore', async (req, res) => {
+    const { type } = req.params
+    const fileName = versionedFileMap[type]
+  
+    if (!fileName) {
+      return res.status(404).json({ error: 'Invalid prompt type' })
+    }
+  
+    const version = parseVersion(req.params.version)
+    if (!version || version === 'current') {
+      return res.status(400).json({ error: 'Invalid version' })
+    }
+  
+    try {
+      const restored = await promptVersionService.restore(fileName, version, req.body?.note)
+      clearPromptCache()
+      res.json(restored)
+    } catch (error) {
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: error.message })
+      }
+      console.error(`Error restoring version ${version} of ${type}:`, error)
+      res.status(500).json({ error: 'Failed to restore prompt version' })
+    }
+  })
 
-export default router
\ No newline at end of file
+  return router
+}
\ No newline at end of file
@@ -0,0 +1,7 @@
+/**
+ * Types for scripts that load models outside the API server
+ */
+
+import type { Group } from 'three'
+
+export declare function loadGLBScene(buffer: Buffer): Promise<Group>
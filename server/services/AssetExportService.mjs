@@ -0,0 +1,259 @@
+/**
+ * Asset Export Service
+ * Converts an asset's GLB to other formats on demand and caches the results
+ *
+ * Exports are cached in gdd-assets/{id}/.exports, keyed by the model's content hash so a
+ * regenerated or restored model is converted again.
+ */
+
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js'
+import { PLYExporter } from 'three/examples/jsm/exporters/PLYExporter.js'
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js'
+import { USDZExporter } from 'three/examples/jsm/exporters/USDZExporter.js'
+
+const EXPORTS_DIR = '.exports'
+
+export const EXPORT_FEATURES = {
+  skinning: 'Skinning',
+  animations: 'Animations',
+  morphTargets: 'Morph targets',
+  pbrMaps: 'PBR texture maps',
+  vertexColors: 'Vertex colors'
+}
+
+/**
+ * Output formats and the model features each one carries. Texture maps are only kept in
+ * glTF: the server has no canvas to re-encode images, so USDZ gets material colors only.
+ */
+export const EXPORT_FORMATS = {
+  gltf: {
+    extension: 'gltf',
+    contentType: 'model/gltf+json',
+    carries: ['skinning', 'animations', 'morphTargets', 'pbrMaps', 'vertexColors']
+  },
+  obj: {
+    extension: 'obj',
+    contentType: 'model/obj',
+    carries: ['vertexColors']
+  },
+  stl: {
+    extension: 'stl',
+    contentType: 'model/stl',
+    carries: []
+  },
+  ply: {
+    extension: 'ply',
+    contentType: 'application/ply',
+    carries: ['vertexColors']
+  },
+  usdz: {
+    extension: 'usdz',
+    contentType: 'model/vnd.usdz+zip',
+    carries: ['vertexColors']
+  }
+}
+
+const TEXTURE_KEY_PATTERN = /Texture$/
+
+export class AssetExportService {
+  constructor({ assetService }) {
+    this.assetService = assetService
+    // Cache path → in-flight conversion, so concurrent downloads convert once
+    this.pending = new Map()
+  }
+
+  /**
+   * Features the asset's model uses that each format would drop
+   */
+  async getFormatReport(assetId) {
+    const { json } = readGLB(await fs.readFile(await this.assetService.getModelPath(assetId)))
+    const used = detectFeatures(json)
+
+    return Object.entries(EXPORT_FORMATS).map(([format, { extension }]) => ({
+      format,
+      extension,
+      unsupportedFeatures: getUnsupportedFeatures(format, used)
+    }))
+  }
+
+  /**
+   * Convert the asset's model to `format`, reusing a cached conversion of the same model.
+   * Returns the file path plus the features the format couldn't carry.
+   */
+  async exportAsset(assetId, format) {
+    const spec = EXPORT_FORMATS[format]
+    if (!spec) {
+      throw Object.assign(new Error(`Unsupported export format: ${format}. Use one of ${Object.keys(EXPORT_FORMATS).join(', ')}`), { status: 400 })
+    }
+
+    const glb = await fs.readFile(await this.assetService.getModelPath(assetId))
+    const { json, bin } = readGLB(glb)
+    const hash = crypto.createHash('sha256').update(glb).digest('hex').slice(0, 16)
+
+    const exportsDir = path.join(this.assetService.assetsDir, assetId, EXPORTS_DIR)
+    const exportPath = path.join(exportsDir, `${assetId}-${hash}.${spec.extension}`)
+    const unsupportedFeatures = getUnsupportedFeatures(format, detectFeatures(json))
+
+    const cached = await fs.access(exportPath).then(() => true).catch(() => false)
+    if (!cached) {
+      if (!this.pending.has(exportPath)) {
+        const conversion = this.convert(format, json, bin, exportsDir, exportPath)
+          .finally(() => this.pending.delete(exportPath))
+        this.pending.set(exportPath, conversion)
+      }
+      await this.pending.get(exportPath)
+    }
+
+    return {
+      path: exportPath,
+      filename: `${assetId}.${spec.extension}`,
+      contentType: spec.contentType,
+      unsupportedFeatures
+    }
+  }
+
+  async convert(format, json, bin, exportsDir, exportPath) {
+    const output = format === 'gltf'
+      ? Buffer.from(JSON.stringify(toEmbeddedGLTF(json, bin)))
+      : await exportScene(format, await loadScene(json, bin))
+
+    await fs.mkdir(exportsDir, { recursive: true })
+
+    const tempPath = `${exportPath}.tmp`
+    await fs.writeFile(tempPath, output)
+    await fs.rename(tempPath, exportPath)
+    console.log(`📤 Exported ${path.basename(exportPath)}`)
+
+    // Drop conversions of earlier versions of the model, once the new one is in place.
+    // Another request may be removing the same files.
+    const extension = path.extname(exportPath)
+    for (const file of await fs.readdir(exportsDir)) {
+      const filePath = path.join(exportsDir, file)
+      if (path.extname(file) === extension && filePath !== exportPath && !this.pending.has(filePath)) {
+        await fs.rm(filePath, { force: true })
+      }
+    }
+  }
+}
+
+function getUnsupportedFeatures(format, usedFeatures) {
+  return usedFeatures
+    .filter(feature => !EXPORT_FORMATS[format].carries.includes(feature))
+    .map(feature => ({ feature, label: EXPORT_FEATURES[feature] }))
+}
+
+function detectFeatures(json) {
+  const primitives = (json.meshes || []).flatMap(mesh => mesh.primitives)
+  const used = {
+    skinning: (json.skins || []).length > 0,
+    animations: (json.animations || []).length > 0,
+    morphTargets: primitives.some(primitive => primitive.targets?.length > 0),
+    pbrMaps: (json.textures || []).length > 0,
+    vertexColors: primitives.some(primitive => primitive.attributes.COLOR_0 !== undefined)
+  }
+  return Object.keys(used).filter(feature => used[feature])
+}
+
+/**
+ * Parse a GLB into an untextured three.js scene, for scripts that analyze model geometry
+ */
+export async function loadGLBScene(buffer) {
+  const { json, bin } = readGLB(buffer)
+  return loadScene(json, bin)
+}
+
+/**
+ * Split a GLB into its JSON and BIN chunks
+ */
+function readGLB(buffer) {
+  if (buffer.length < 20 || buffer.toString('ascii', 0, 4) !== 'glTF') {
+    throw new Error('Model is not a binary glTF file')
+  }
+
+  const jsonLength = buffer.readUInt32LE(12)
+  const json = JSON.parse(buffer.toString('utf-8', 20, 20 + jsonLength))
+  const binStart = 20 + jsonLength + 8
+  const bin = binStart <= buffer.length ? buffer.subarray(binStart, binStart + buffer.readUInt32LE(20 + jsonLength)) : null
+  return { json, bin }
+}
+
+function writeGLB(json, bin) {
+  const pad = (chunk, byte) => Buffer.concat([chunk, Buffer.alloc((4 - chunk.length % 4) % 4, byte)])
+  const jsonChunk = pad(Buffer.from(JSON.stringify(json)), 0x20)
+  const chunks = [chunkHeader(jsonChunk.length, 'JSON'), jsonChunk]
+  if (bin) {
+    const binChunk = pad(bin, 0)
+    chunks.push(chunkHeader(binChunk.length, 'BIN\0'), binChunk)
+  }
+
+  const header = Buffer.alloc(12)
+  header.write('glTF', 0, 'ascii')
+  header.writeUInt32LE(2, 4)
+  header.writeUInt32LE(12 + chunks.reduce((sum, chunk) => sum + chunk.length, 0), 8)
+  return Buffer.concat([header, ...chunks])
+}
+
+function chunkHeader(length, type) {
+  const header = Buffer.alloc(8)
+  header.writeUInt32LE(length, 0)
+  header.write(type, 4, 'ascii')
+  return header
+}
+
+/**
+ * A .gltf with the binary chunk embedded as a data URI. Lossless: images stay in buffer views.
+ */
+function toEmbeddedGLTF(json, bin) {
+  const gltf = structuredClone(json)
+  if (bin) {
+    gltf.buffers[0] = { ...gltf.buffers[0], uri: `data:application/octet-stream;base64,${bin.toString('base64')}` }
+  }
+  return gltf
+}
+
+/**
+ * Load the model into a three.js scene. Textures are stripped first: decoding images needs a
+ * browser, and none of the mesh formats carry them.
+ */
+async function loadScene(json, bin) {
+  const untextured = structuredClone(json)
+  delete untextured.images
+  delete untextured.textures
+  delete untextured.samplers
+  for (const material of untextured.materials || []) {
+    stripTextureReferences(material)
+  }
+
+  const glb = writeGLB(untextured, bin)
+  const gltf = await new GLTFLoader().parseAsync(glb.buffer.slice(glb.byteOffset, glb.byteOffset + glb.length), '')
+  gltf.scene.updateMatrixWorld(true)
+  return gltf.scene
+}
+
+function stripTextureReferences(value) {
+  for (const key of Object.keys(value)) {
+    if (TEXTURE_KEY_PATTERN.test(key)) {
+      delete value[key]
+    } else if (typeof value[key] === 'object' && value[key] !== null) {
+      stripTextureReferences(value[key])
+    }
+  }
+}
+
+async function exportScene(format, scene) {
+  switch (format) {
+    case 'obj':
+      return Buffer.from(new OBJExporter().parse(scene))
+    case 'stl':
+      return Buffer.from(new STLExporter().parse(scene, { binary: true }).buffer)
+    case 'ply':
+      // Without a callback the result is returned synchronously (the callback path needs requestAnimationFrame)
+      return Buffer.from(new PLYExporter().parse(scene, null, { binary: true }))
+    case 'usdz':
+      return Buffer.from(await new USDZExporter().parseAsync(scene))
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Asset Pack Service
+ * Streams a set of asset folders as one zip with a manifest.json describing them
+ *
+ * Each asset's files go under {id}/ in the zip. Revision history, cached exports and other
+ * dot-folders stay behind.
+ */
+
+import { once } from 'events'
+import { createReadStream } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import { Zip, ZipDeflate, ZipPassThrough } from 'three/examples/jsm/libs/fflate.module.js'
+
+export const PACK_MANIFEST_VERSION = 1
+
+export class AssetPackService {
+  constructor({ assetService }) {
+    this.assetService = assetService
+  }
+
+  /**
+   * The assets a pack request covers: the listed ids, or every asset matching the filter query,
+   * plus the variants of each base model when includeVariants is set
+   */
+  async resolveAssets({ ids, query, includeVariants }) {
+    const selected = []
+    if (ids) {
+      for (const id of ids) {
+        const asset = await this.assetService.loadAsset(id)
+        if (!asset) {
+          throw new Error(`Asset ${id} not found`)
+        }
+        selected.push(asset)
+      }
+    } else {
+      selected.push(...await this.assetService.findAssets(query))
+    }
+
+    const assets = new Map(selected.map(asset => [asset.id, asset]))
+    if (includeVariants) {
+      for (const asset of selected) {
+        for (const variantId of asset.metadata.isBaseModel ? asset.metadata.variants || [] : []) {
+          const variant = await this.assetService.loadAsset(variantId)
+          if (variant && !assets.has(variantId)) {
+            assets.set(variantId, variant)
+          }
+        }
+      }
+    }
+
+    if (assets.size === 0) {
+      throw Object.assign(new Error('No assets to pack'), { status: 400 })
+    }
+    return Array.from(assets.values())
+  }
+
+  /**
+   * Write the pack zip to a writable stream (e.g. an HTTP response), honouring backpressure.
+   * Stops early if the stream is destroyed, e.g. when the client disconnects.
+   */
+  async writePack(assets, { includeVariants }, output) {
+    const zip = new Zip((error, chunk, final) => {
+      if (output.destroyed) return
+      if (error) {
+        output.destroy(error)
+        return
+      }
+      output.write(chunk)
+      if (final) output.end()
+    })
+
+    const manifestAssets = []
+    for (const asset of assets) {
+      const assetPath = path.join(this.assetService.assetsDir, asset.id)
+      const files = await listPackFiles(assetPath)
+
+      for (const file of files) {
+        // Models and images are already compressed
+        const entry = new ZipPassThrough(`${asset.id}/${file}`)
+        zip.add(entry)
+        for await (const chunk of createReadStream(path.join(assetPath, file))) {
+          entry.push(chunk)
+          if (output.writableNeedDrain) {
+            await waitForDrain(output)
+          }
+          if (output.destroyed) {
+            zip.terminate()
+            console.log(`📦 Asset pack closed by the client after ${manifestAssets.length} of ${assets.length} asset(s)`)
+            return
+          }
+        }
+        entry.push(new Uint8Array(0), true)
+      }
+
+      manifestAssets.push(describeAsset(asset, files))
+    }
+
+    const manifest = {
+      version: PACK_MANIFEST_VERSION,
+      createdAt: new Date().toISOString(),
+      includeVariants: !!includeVariants,
+      assets: manifestAssets
+    }
+    const manifestEntry = new ZipDeflate('manifest.json', { level: 6 })
+    zip.add(manifestEntry)
+    manifestEntry.push(new TextEncoder().encode(JSON.stringify(manifest, null, 2)), true)
+
+    zip.end()
+    console.log(`📦 Packed ${assets.length} asset(s)`)
+  }
+}
+
+/**
+ * Resolve once the stream drains or closes; rejects if it errors
+ */
+async function waitForDrain(output) {
+  const controller = new AbortController()
+  try {
+    await Promise.race([
+      once(output, 'drain', { signal: controller.signal }),
+      once(output, 'close', { signal: controller.signal })
+    ])
+  } finally {
+    controller.abort()
+  }
+}
+
+/**
+ * Files in an asset folder relative to it, skipping dot-folders
+ */
+async function listPackFiles(assetPath, relativeDir = '') {
+  const files = []
+  const entries = await fs.readdir(path.join(assetPath, relativeDir), { withFileTypes: true })
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue
+    const relativePath = path.posix.join(relativeDir, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...await listPackFiles(assetPath, relativePath))
+    } else {
+      files.push(relativePath)
+    }
+  }
+  return files.sort()
+}
+
+function describeAsset(asset, files) {
+  const { metadata } = asset
+  const inPack = file => `${asset.id}/${file}`
+
+  return {
+    id: asset.id,
+    gameId: metadata.gameId || asset.id,
+    name: asset.name,
+    type: asset.type,
+    subtype: metadata.subtype || null,
+    tier: metadata.tier || metadata.materialPreset?.tier || null,
+    isBaseModel: !!metadata.isBaseModel,
+    parentBaseModel: metadata.isVariant ? metadata.parentBaseModel : null,
+    materialPreset: metadata.isVariant ? metadata.materialPreset?.id : null,
+    dimensions: metadata.dimensions || null,
+    attachments: metadata.attachmentConfigs || null,
+    files: {
+      model: asset.modelFile ? inPack(asset.modelFile) : null,
+      metadata: inPack('metadata.json'),
+      conceptArt: files.filter(file => file.startsWith('concept-art')).map(inPack),
+      animations: files.filter(file => file.startsWith('animations/')).map(inPack),
+      sprites: files.filter(file => file.includes('sprite')).map(inPack),
+      all: files.map(inPack)
+    }
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Types for scripts that record asset revisions outside the API server
+ */
+
+export interface AssetRevisionFile {
+  path: string
+  hash: string
+  size: number
+}
+
+export interface AssetRevision {
+  revision: number
+  createdAt: string
+  operation: string
+  hash: string
+  files: AssetRevisionFile[]
+  pipelineId?: string
+  retextureTaskId?: string
+  renamedFrom?: string
+  restoredFrom?: number
+  schemaVersion?: number
+}
+
+export declare class AssetRevisionService {
+  constructor(assetsDir: string)
+  recordBaseline(assetId: string): Promise<AssetRevision | null>
+  record(assetId: string, operation: string, details?: Record<string, string | number>): Promise<AssetRevision | null>
+  listRevisions(assetId: string): Promise<AssetRevision[]>
+  restore(assetId: string, revision: number): Promise<AssetRevision | null>
+}
@@ -0,0 +1,176 @@
+/**
+ * Asset Revision Service
+ * Keeps numbered snapshots of each asset's models and metadata so overwrites can be rolled back
+ *
+ * Revisions live in gdd-assets/{id}/.revisions: revisions.json lists them and objects/
+ * stores file contents by SHA-256, so a metadata-only change doesn't copy the model again.
+ */
+
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+
+const REVISIONS_DIR = '.revisions'
+
+export class AssetRevisionService {
+  constructor(assetsDir) {
+    this.assetsDir = assetsDir
+    // Asset ID → tail of the promise chain serializing its revision writes
+    this.locks = new Map()
+  }
+
+  /**
+   * Snapshot the asset's current files before a write, so state from before revisions
+   * existed (or from edits made outside the tools) is never lost
+   */
+  async recordBaseline(assetId) {
+    const revisions = await this.listRevisions(assetId)
+    return this.record(assetId, revisions.length === 0 ? 'initial' : 'external-change')
+  }
+
+  /**
+   * Record the asset's current model and metadata files as a new revision.
+   * Returns the latest revision unchanged when nothing differs from it, or null if the asset doesn't exist.
+   */
+  record(assetId, operation, details = {}) {
+    return this.withLock(assetId, async () => {
+      const assetPath = path.join(this.assetsDir, assetId)
+      const exists = await fs.access(path.join(assetPath, 'metadata.json')).then(() => true).catch(() => false)
+      if (!exists) return null
+
+      const files = await this.hashTrackedFiles(assetPath)
+      const hash = crypto.createHash('sha256')
+        .update(files.map(file => `${file.path}:${file.hash}`).join('\n'))
+        .digest('hex')
+
+      const revisions = await this.readRevisions(assetId)
+      const latest = revisions[revisions.length - 1]
+      if (latest?.hash === hash) return latest
+
+      const objectsDir = path.join(assetPath, REVISIONS_DIR, 'objects')
+      await fs.mkdir(objectsDir, { recursive: true })
+      for (const file of files) {
+        const objectPath = path.join(objectsDir, file.hash)
+        if (!(await fs.access(objectPath).then(() => true).catch(() => false))) {
+          await fs.copyFile(path.join(assetPath, file.path), objectPath)
+        }
+      }
+
+      const revision = {
+        revision: (latest?.revision || 0) + 1,
+        createdAt: new Date().toISOString(),
+        operation,
+        hash,
+        files,
+        ...details
+      }
+      revisions.push(revision)
+      await this.writeRevisions(assetId, revisions)
+
+      console.log(`🗂️  Recorded revision ${revision.revision} of ${assetId} (${operation})`)
+      return revision
+    })
+  }
+
+  /**
+   * Revisions of an asset, newest first
+   */
+  async listRevisions(assetId) {
+    const revisions = await this.readRevisions(assetId)
+    return revisions.reverse()
+  }
+
+  /**
+   * Put an earlier revision's files back in place and record the result as a new revision
+   */
+  async restore(assetId, revisionNumber) {
+    const revisions = await this.readRevisions(assetId)
+    const target = revisions.find(revision => revision.revision === revisionNumber)
+    if (!target) {
+      throw new Error(`Revision ${revisionNumber} of asset ${assetId} not found`)
+    }
+
+    await this.recordBaseline(assetId)
+
+    await this.withLock(assetId, async () => {
+      const assetPath = path.join(this.assetsDir, assetId)
+      const objectsDir = path.join(assetPath, REVISIONS_DIR, 'objects')
+
+      // Models added after the target revision are removed so the folder matches it exactly
+      const restoredPaths = new Set(target.files.map(file => file.path))
+      for (const file of await this.hashTrackedFiles(assetPath)) {
+        if (!restoredPaths.has(file.path)) {
+          await fs.rm(path.join(assetPath, file.path))
+        }
+      }
+
+      for (const file of target.files) {
+        const filePath = path.join(assetPath, file.path)
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.copyFile(path.join(objectsDir, file.hash), filePath)
+      }
+    })
+
+    return this.record(assetId, 'restore', { restoredFrom: revisionNumber })
+  }
+
+  /**
+   * metadata.json and every .glb in the asset folder, with their content hashes
+   */
+  async hashTrackedFiles(assetPath) {
+    const files = []
+
+    const walk = async (relativeDir) => {
+      const entries = await fs.readdir(path.join(assetPath, relativeDir), { withFileTypes: true })
+      for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue
+        const relativePath = path.posix.join(relativeDir, entry.name)
+        if (entry.isDirectory()) {
+          await walk(relativePath)
+        } else if (entry.name.endsWith('.glb') || relativePath === 'metadata.json') {
+          const content = await fs.readFile(path.join(assetPath, relativePath))
+          files.push({
+            path: relativePath,
+            hash: crypto.createHash('sha256').update(content).digest('hex'),
+            size: content.length
+          })
+        }
+      }
+    }
+
+    await walk('')
+    return files.sort((a, b) => a.path.localeCompare(b.path))
+  }
+
+  async readRevisions(assetId) {
+    try {
+      return JSON.parse(await fs.readFile(this.getIndexPath(assetId), 'utf-8'))
+    } catch (error) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  async writeRevisions(assetId, revisions) {
+    const indexPath = this.getIndexPath(assetId)
+    const tempPath = `${indexPath}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(revisions, null, 2))
+    await fs.rename(tempPath, indexPath)
+  }
+
+  getIndexPath(assetId) {
+    return path.join(this.assetsDir, assetId, REVISIONS_DIR, 'revisions.json')
+  }
+
+  withLock(assetId, fn) {
+    const previous = this.locks.get(assetId) || Promise.resolve()
+    const run = previous.catch(() => {}).then(fn)
+    this.locks.set(assetId, run)
+    run.finally(() => {
+      if (this.locks.get(assetId) === run) {
+        this.locks.delete(assetId)
+      }
+    }).catch(() => {})
+    return run
+  }
+}
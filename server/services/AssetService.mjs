@@ -1,186 +1,599 @@
 /**
  * Asset Service
- * Handles asset listing and retrieval
+ * Handles asset listing and retrieval from an in-memory index of gdd-assets/
  */
 
+import { watch } from 'fs'
 import fs from 'fs/promises'
 import path from 'path'
+import {
+  CURRENT_SCHEMA_VERSION,
+  createValidationError,
+  migrateAssetMetadata,
+  needsMigration,
+  validateAssetMetadata,
+  writeAssetMetadata
+} from '../utils/assetMetadataSchema.mjs'
+
+// Quiet period before re-reading an asset folder after a filesystem event
+const WATCH_DEBOUNCE_MS = 150
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+// Sort keys accepted by queryAssets
+const SORT_FIELDS = {
+  generatedAt: asset => asset.generatedAt || '',
+  name: asset => asset.name.toLowerCase(),
+  type: asset => asset.type,
+  tier: asset => asset.metadata.tier || ''
+}
+
+// Avatar bones a loadout can put equipment on (EQUIPMENT_SLOTS in src/constants/equipment.ts)
+const LOADOUT_SLOTS = ['Hand_R', 'Hand_L', 'Head', 'Spine2', 'Hips']
 
 export class AssetService {
-  constructor(assetsDir) {
+  constructor({ assetsDir, revisionService, trashService, materialPresetsPath }) {
     this.assetsDir = assetsDir
+    this.revisionService = revisionService
+    this.trashService = trashService
+    // Read by metadata migrations that need to look up material presets
+    this.materialPresetsPath = materialPresetsPath
+    // Asset ID → asset, kept in sync with gdd-assets/ by the watcher
+    this.index = new Map()
+    // Asset ID → { id, error, modelFile } for folders whose metadata can't be read
+    this.brokenAssets = new Map()
+    this.pendingRefreshes = new Map()
+    this.watcher = null
+    // Asset folder → watcher, when recursive watching is unavailable (Linux before Node 20)
+    this.folderWatchers = null
+    this.ready = null
   }
 
-  async listAssets() {
-    try {
-      const assetDirs = await fs.readdir(this.assetsDir)
-      const assets = []
+  /**
+   * Build the index from disk and start watching for changes. Safe to call more than once.
+   */
+  initialize() {
+    if (!this.ready) {
+      this.ready = this.buildIndex()
+    }
+    return this.ready
+  }
 
-      for (const assetDir of assetDirs) {
-        if (assetDir.startsWith('.') || assetDir.endsWith('.json')) {
-          continue
-        }
+  async buildIndex() {
+    await fs.mkdir(this.assetsDir, { recursive: true })
 
-        const assetPath = path.join(this.assetsDir, assetDir)
-        
-        try {
-          const stats = await fs.stat(assetPath)
-          if (!stats.isDirectory()) continue
-
-          const metadataPath = path.join(assetPath, 'metadata.json')
-          const metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8'))
-          
-          const files = await fs.readdir(assetPath)
-          const glbFile = files.find(f => f.endsWith('.glb'))
-
-          assets.push({
-            id: assetDir,
-            name: metadata.name || assetDir,
-            description: metadata.description || '',
-            type: metadata.type || 'unknown',
-            metadata: metadata,
-            hasModel: !!glbFile,
-            modelFile: glbFile,
-            generatedAt: metadata.generatedAt
-          })
-        } catch (error) {
-          // Skip assets that can't be loaded
-          console.warn(`Failed to load asset ${assetDir}:`, error.message)
-        }
-      }
+    // Start watching before the initial scan so changes made during it are not missed
+    this.watch()
 
-      // Sort by generation date, newest first
-      return assets.sort((a, b) => 
-        new Date(b.generatedAt || 0).getTime() - new Date(a.generatedAt || 0).getTime()
-      )
+    const entries = await fs.readdir(this.assetsDir, { withFileTypes: true })
+    await Promise.all(
+      entries
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+        .map(entry => this.refreshAsset(entry.name))
+    )
+
+    console.log(`📚 Indexed ${this.index.size} asset(s)${this.brokenAssets.size > 0 ? `, ${this.brokenAssets.size} broken` : ''}`)
+  }
+
+  watch() {
+    const onChange = (eventType, filename) => {
+      if (!filename) return
+      const assetId = filename.split(path.sep)[0]
+      if (assetId.startsWith('.') || assetId.endsWith('.json')) return
+      this.scheduleRefresh(assetId)
+    }
+
+    try {
+      this.watcher = watch(this.assetsDir, { recursive: true }, onChange)
+      this.watcher.on('error', error => {
+        console.error('Asset watcher error:', error)
+      })
     } catch (error) {
-      console.error('Failed to list assets:', error)
-      return []
+      // Watch the root for added and removed folders, and each asset folder for its files
+      console.warn(`Recursive watching unavailable (${error.code || error.message}), watching asset folders one by one`)
+      this.folderWatchers = new Map()
+      this.watcher = this.watchFolder(this.assetsDir, onChange)
     }
   }
 
-  async getModelPath(assetId) {
-    const assetPath = path.join(this.assetsDir, assetId)
-    
-    // Check if asset directory exists
+  /**
+   * Non-recursive watcher that logs instead of throwing, so a failed watch never breaks listing
+   */
+  watchFolder(folderPath, onChange) {
     try {
-      await fs.access(assetPath)
+      const watcher = watch(folderPath, onChange)
+      watcher.on('error', error => {
+        console.error(`Asset watcher error for ${folderPath}:`, error)
+      })
+      return watcher
     } catch (error) {
-      throw new Error(`Asset ${assetId} not found`)
+      console.error(`Failed to watch ${folderPath}:`, error)
+      return null
     }
-    
-    // Read metadata to check if it's a character with a rigged model
+  }
+
+  /**
+   * With per-folder watching, start or stop watching one asset folder
+   */
+  updateFolderWatcher(assetId, exists) {
+    if (!this.folderWatchers || assetId.startsWith('.')) return
+
+    if (!exists) {
+      this.folderWatchers.get(assetId)?.close()
+      this.folderWatchers.delete(assetId)
+    } else if (!this.folderWatchers.has(assetId)) {
+      this.folderWatchers.set(assetId, this.watchFolder(path.join(this.assetsDir, assetId), () => this.scheduleRefresh(assetId)))
+    }
+  }
+
+  /**
+   * Coalesce the burst of events produced while an asset folder is being written
+   */
+  scheduleRefresh(assetId) {
+    clearTimeout(this.pendingRefreshes.get(assetId))
+    this.pendingRefreshes.set(assetId, setTimeout(() => {
+      this.pendingRefreshes.delete(assetId)
+      this.refreshAsset(assetId).catch(error => {
+        console.error(`Failed to refresh asset ${assetId}:`, error)
+      })
+    }, WATCH_DEBOUNCE_MS))
+  }
+
+  /**
+   * Re-read one asset folder into the index. Returns the asset, or null if it is missing or broken.
+   */
+  async refreshAsset(assetId) {
+    const assetPath = path.join(this.assetsDir, assetId)
+
+    let files
     try {
-      const metadata = await this.getAssetMetadata(assetId)
-      
-      // For characters, prefer the rigged model if available
-      if (metadata.type === 'character' && metadata.riggedModelPath) {
-        const riggedPath = path.join(assetPath, path.basename(metadata.riggedModelPath))
-        try {
-          await fs.access(riggedPath)
-          console.log(`Returning rigged model for character ${assetId}: ${metadata.riggedModelPath}`)
-          return riggedPath
-        } catch {
-          console.warn(`Rigged model not found for character ${assetId}, falling back to regular model`)
-        }
-      }
+      files = await fs.readdir(assetPath)
     } catch (error) {
-      console.log(`Could not read metadata for ${assetId}, using default model selection`)
+      if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') throw error
+      this.updateFolderWatcher(assetId, false)
+      this.index.delete(assetId)
+      this.brokenAssets.delete(assetId)
+      return null
     }
-    
-    // Default behavior: find the first .glb file
-    const files = await fs.readdir(assetPath)
+
+    this.updateFolderWatcher(assetId, true)
     const glbFile = files.find(f => f.endsWith('.glb'))
-    
-    if (!glbFile) {
-      throw new Error('Model file not found')
+
+    // Neither metadata nor a model yet: a generation still in progress, e.g. concept art awaiting review
+    if (!glbFile && !files.includes('metadata.json')) {
+      this.index.delete(assetId)
+      this.brokenAssets.delete(assetId)
+      return null
     }
-    
-    return path.join(assetPath, glbFile)
-  }
 
-  async getAssetMetadata(assetId) {
-    const metadataPath = path.join(this.assetsDir, assetId, 'metadata.json')
-    return JSON.parse(await fs.readFile(metadataPath, 'utf-8'))
-  }
-  
-  async loadAsset(assetId) {
+    let metadata
     try {
-      const assetPath = path.join(this.assetsDir, assetId)
-      const stats = await fs.stat(assetPath)
-      
-      if (!stats.isDirectory()) {
-        return null
+      metadata = JSON.parse(await fs.readFile(path.join(assetPath, 'metadata.json'), 'utf-8'))
+    } catch (error) {
+      if (error.code === 'ENOENT' && !files.includes('metadata.json')) {
+        error.message = 'metadata.json is missing'
       }
+      if (!this.brokenAssets.has(assetId)) {
+        console.warn(`Failed to load asset ${assetId}:`, error.message)
+      }
+      this.index.delete(assetId)
+      this.brokenAssets.set(assetId, { id: assetId, error: error.message, modelFile: glbFile })
+      return null
+    }
 
-      const metadataPath = path.join(assetPath, 'metadata.json')
-      const metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8'))
-      
-      const files = await fs.readdir(assetPath)
-      const glbFile = files.find(f => f.endsWith('.glb'))
+    if (needsMigration(metadata)) {
+      metadata = await this.migrateMetadata(assetId, metadata)
+    }
 
-      return {
-        id: assetId,
-        name: metadata.name || assetId,
-        description: metadata.description || '',
-        type: metadata.type || 'unknown',
-        metadata: metadata,
-        hasModel: !!glbFile,
-        modelFile: glbFile,
-        generatedAt: metadata.generatedAt
+    const asset = {
+      id: assetId,
+      name: metadata.name || assetId,
+      description: metadata.description || '',
+      type: metadata.type || 'unknown',
+      metadata: metadata,
+      hasModel: !!glbFile,
+      modelFile: glbFile,
+      generatedAt: metadata.generatedAt
+    }
+
+    this.brokenAssets.delete(assetId)
+    this.index.set(assetId, asset)
+    return asset
+  }
+
+  /**
+   * Upgrade an asset's metadata.json to the current schema version and save it as a revision.
+   * Metadata that still fails validation is only upgraded in memory.
+   */
+  async migrateMetadata(assetId, metadata) {
+    const migrated = migrateAssetMetadata(metadata, await this.getMigrationContext())
+
+    const errors = validateAssetMetadata(migrated)
+    if (errors.length > 0) {
+      console.warn(`Metadata of ${assetId} does not match schema v${CURRENT_SCHEMA_VERSION}, not saving migration:`, createValidationError(errors).message)
+      return migrated
+    }
+
+    await this.revisionService.recordBaseline(assetId)
+    await writeAssetMetadata(path.join(this.assetsDir, assetId, 'metadata.json'), migrated)
+    await this.revisionService.record(assetId, 'migrate', { schemaVersion: CURRENT_SCHEMA_VERSION })
+    console.log(`⬆️  Migrated metadata of ${assetId} to schema v${CURRENT_SCHEMA_VERSION}`)
+    return migrated
+  }
+
+  async getMigrationContext() {
+    return {
+      materialPresets: JSON.parse(await fs.readFile(this.materialPresetsPath, 'utf-8'))
+    }
+  }
+
+  close() {
+    this.watcher?.close()
+    for (const watcher of this.folderWatchers?.values() || []) {
+      watcher?.close()
+    }
+    this.folderWatchers?.clear()
+    for (const timer of this.pendingRefreshes.values()) {
+      clearTimeout(timer)
+    }
+    this.pendingRefreshes.clear()
+  }
+
+  async listAssets() {
+    await this.initialize()
+
+    // Sort by generation date, newest first
+    return Array.from(this.index.values()).sort((a, b) =>
+      new Date(b.generatedAt || 0).getTime() - new Date(a.generatedAt || 0).getTime()
+    )
+  }
+
+  /**
+   * Asset folders whose metadata is missing or fails to parse
+   */
+  async listBrokenAssets() {
+    await this.initialize()
+    return Array.from(this.brokenAssets.values())
+      .map(({ id, error }) => ({ id, error }))
+      .sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  /**
+   * Search, filter, sort and paginate assets.
+   * Cursors encode the sort key and id of the last asset on the previous page.
+   */
+  async queryAssets(query) {
+    assertStringParams(query, ['sort', 'order', 'limit', 'cursor'])
+    const sort = query.sort || 'generatedAt'
+    const order = query.order || (sort === 'generatedAt' ? 'desc' : 'asc')
+    const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(query.limit, 10)
+
+    if (!SORT_FIELDS[sort]) {
+      throw Object.assign(new Error(`Unsupported sort field: ${sort}`), { status: 400 })
+    }
+    if (order !== 'asc' && order !== 'desc') {
+      throw Object.assign(new Error(`Unsupported sort order: ${order}`), { status: 400 })
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw Object.assign(new Error(`limit must be between 1 and ${MAX_PAGE_SIZE}`), { status: 400 })
+    }
+
+    const filters = parseFilters(query)
+    const getSortValue = SORT_FIELDS[sort]
+    const direction = order === 'asc' ? 1 : -1
+    const compare = (valueA, idA, valueB, idB) =>
+      (valueA < valueB ? -1 : valueA > valueB ? 1 : 0) * direction || idA.localeCompare(idB)
+
+    const allAssets = await this.listAssets()
+    const matches = allAssets
+      .filter(asset => this.matchesFilters(asset, filters))
+      .sort((a, b) => compare(getSortValue(a), a.id, getSortValue(b), b.id))
+
+    let remaining = matches
+    if (query.cursor) {
+      const after = decodeCursor(query.cursor)
+      remaining = matches.filter(asset => compare(getSortValue(asset), asset.id, after.value, after.id) > 0)
+    }
+
+    const page = remaining.slice(0, limit)
+    const last = page[page.length - 1]
+
+    return {
+      assets: page,
+      total: matches.length,
+      unfilteredTotal: allAssets.length,
+      nextCursor: remaining.length > limit ? encodeCursor(getSortValue(last), last.id) : null
+    }
+  }
+
+  /**
+   * Every asset matching the filters of a queryAssets query, without paging
+   */
+  async findAssets(query) {
+    const filters = parseFilters(query)
+    return (await this.listAssets()).filter(asset => this.matchesFilters(asset, filters))
+  }
+
+  matchesFilters(asset, filters) {
+    const { metadata } = asset
+
+    if (filters.types && !filters.types.includes(asset.type)) return false
+    if (filters.subtypes && !filters.subtypes.includes(metadata.subtype)) return false
+    if (filters.tiers && !filters.tiers.includes(metadata.tier)) return false
+    if (filters.kind === 'base' && !metadata.isBaseModel) return false
+    if (filters.kind === 'variant' && !metadata.isVariant) return false
+    if (filters.rigged !== undefined && !!metadata.isRigged !== filters.rigged) return false
+
+    // Only variants carry a material; older variants store it as baseMaterial
+    if (filters.materials) {
+      const material = metadata.isVariant ? (metadata.materialPreset?.id || metadata.baseMaterial) : undefined
+      if (!filters.materials.includes(material)) return false
+    }
+
+    if (filters.search) {
+      const haystack = [asset.id, asset.name, asset.description, metadata.subtype]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase()
+      if (!haystack.includes(filters.search)) return false
+    }
+
+    if (filters.from || filters.to) {
+      const generatedAt = asset.generatedAt ? new Date(asset.generatedAt) : null
+      if (!generatedAt) return false
+      if (filters.from && generatedAt < filters.from) return false
+      if (filters.to && generatedAt > filters.to) return false
+    }
+
+    return true
+  }
+
+  async getModelPath(assetId) {
+    await this.initialize()
+
+    const asset = this.index.get(assetId)
+    const broken = this.brokenAssets.get(assetId)
+    if (!asset && !broken) {
+      throw new Error(`Asset ${assetId} not found`)
+    }
+
+    const assetPath = path.join(this.assetsDir, assetId)
+
+    // For characters, prefer the rigged model if available
+    if (asset?.type === 'character' && asset.metadata.riggedModelPath) {
+      const riggedPath = path.join(assetPath, path.basename(asset.metadata.riggedModelPath))
+      try {
+        await fs.access(riggedPath)
+        console.log(`Returning rigged model for character ${assetId}: ${asset.metadata.riggedModelPath}`)
+        return riggedPath
+      } catch {
+        console.warn(`Rigged model not found for character ${assetId}, falling back to regular model`)
       }
-    } catch (error) {
-      console.error(`Failed to load asset ${assetId}:`, error)
-      return null
     }
+
+    // Default behavior: the first .glb file, which broken assets still serve
+    const modelFile = asset ? asset.modelFile : broken.modelFile
+    if (!modelFile) {
+      throw new Error('Model file not found')
+    }
+
+    return path.join(assetPath, modelFile)
+  }
+
+  async getAssetMetadata(assetId) {
+    const metadataPath = path.join(this.assetsDir, assetId, 'metadata.json')
+    const metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8'))
+    return needsMigration(metadata) ? migrateAssetMetadata(metadata, await this.getMigrationContext()) : metadata
+  }
+
+  async loadAsset(assetId) {
+    await this.initialize()
+    return this.index.get(assetId) || null
   }
   
-  async deleteAsset(assetId, includeVariants = false) {
-    const assetPath = path.join(this.assetsDir, assetId)
-    
-    // Check if asset exists
+  async listRevisions(assetId) {
+    await this.assertAssetExists(assetId)
+    return this.revisionService.listRevisions(assetId)
+  }
+
+  /**
+   * Roll an asset back to an earlier revision. Broken assets can be restored too.
+   */
+  async restoreRevision(assetId, revision) {
+    await this.assertAssetExists(assetId)
+    const restored = await this.revisionService.restore(assetId, revision)
+    await this.refreshAsset(assetId)
+    return restored
+  }
+
+  async assertAssetExists(assetId) {
     try {
-      await fs.access(assetPath)
+      await fs.access(path.join(this.assetsDir, assetId))
     } catch {
       throw new Error(`Asset ${assetId} not found`)
     }
+  }
+
+  /**
+   * Create a manual asset from an uploaded GLB. Models in other formats are converted to
+   * GLB (and optionally normalized) by the import dialog before upload.
+   */
+  async importAsset({ name, type, subtype, tier, description, model, source, normalized, dimensions }) {
+    await this.initialize()
+
+    const errors = validatePatch({ name, type })
+    if (typeof name !== 'string') {
+      errors.push({ field: 'name', message: 'is required' })
+    }
+    if (typeof model !== 'string' || model.length === 0) {
+      errors.push({ field: 'model', message: 'is required' })
+    }
+    if (typeof source !== 'object' || source === null) {
+      errors.push({ field: 'source', message: 'is required' })
+    }
+    if (errors.length > 0) {
+      throw createValidationError(errors)
+    }
+
+    const glb = Buffer.from(model, 'base64')
+    // GLB header: magic "glTF", container version 2
+    if (glb.length < 12 || glb.toString('ascii', 0, 4) !== 'glTF' || glb.readUInt32LE(4) !== 2) {
+      throw createValidationError([{ field: 'model', message: 'must be a binary glTF 2.0 (.glb) file' }])
+    }
+
+    const assetPath = path.join(this.assetsDir, name)
+    const exists = await fs.access(assetPath).then(() => true).catch(() => false)
+    if (exists) {
+      throw Object.assign(new Error(`Asset with name ${name} already exists`), { status: 409 })
+    }
+
+    const now = new Date().toISOString()
+    const metadata = {
+      id: name,
+      gameId: name,
+      name,
+      type,
+      subtype: subtype || undefined,
+      tier: tier || undefined,
+      description: description || '',
+      isBaseModel: true,
+      isVariant: false,
+      isPlaceholder: false,
+      hasModel: true,
+      hasConceptArt: false,
+      modelPath: `${name}.glb`,
+      generationMethod: 'manual',
+      workflow: 'Manual import',
+      importSource: source,
+      variants: [],
+      variantCount: 0,
+      lastVariantGenerated: null,
+      normalized: !!normalized,
+      normalizationDate: normalized ? now : undefined,
+      dimensions: dimensions || undefined,
+      createdAt: now,
+      generatedAt: now,
+      updatedAt: now
+    }
+
+    // Reject bad metadata before the folder exists
+    const metadataErrors = validateAssetMetadata({ ...metadata, schemaVersion: CURRENT_SCHEMA_VERSION })
+    if (metadataErrors.length > 0) {
+      throw createValidationError(metadataErrors)
+    }
+
+    await fs.mkdir(assetPath)
+    await fs.writeFile(path.join(assetPath, `${name}.glb`), glb)
+    await writeAssetMetadata(path.join(assetPath, 'metadata.json'), metadata)
+    await this.revisionService.record(name, 'import', { sourceFormat: source.format })
+
+    console.log(`📥 Imported ${source.format.toUpperCase()} model as asset ${name}`)
+    return this.refreshAsset(name)
+  }
+
+  /**
+   * Move an asset (and optionally its variants) to the trash. Returns the trash entry.
+   */
+  async deleteAsset(assetId, includeVariants = false) {
+    await this.assertAssetExists(assetId)
     
     // Get metadata to check if it's a base asset
     const metadata = await this.getAssetMetadata(assetId)
     
-    // If it's a base asset and includeVariants is true, delete all variants
+    const assetIds = [assetId]
     if (metadata.isBaseModel && includeVariants) {
       const allAssets = await this.listAssets()
-      const variants = allAssets.filter(
-        asset => asset.metadata.parentBaseModel === assetId
-      )
-      
-      // Delete all variants
-      for (const variant of variants) {
-        await this.deleteAssetDirectory(variant.id)
+      assetIds.push(...allAssets
+        .filter(asset => asset.metadata.parentBaseModel === assetId)
+        .map(asset => asset.id))
+    }
+    
+    // Base/variant links are kept with the entry so a restore can reconnect them
+    const assets = await Promise.all(assetIds.map(async id => {
+      const assetMetadata = id === assetId ? metadata : await this.getAssetMetadata(id)
+      return {
+        id,
+        name: assetMetadata.name || id,
+        type: assetMetadata.type || 'unknown',
+        isBaseModel: !!assetMetadata.isBaseModel,
+        isVariant: !!assetMetadata.isVariant,
+        parentBaseModel: assetMetadata.parentBaseModel || null
       }
+    }))
+    
+    const entry = await this.trashService.moveToTrash(assetIds, { includeVariants, assets })
+    for (const id of assetIds) {
+      await this.refreshAsset(id)
     }
     
-    // Delete the main asset
-    await this.deleteAssetDirectory(assetId)
+    // A deleted variant no longer counts towards its base model
+    if (metadata.isVariant && metadata.parentBaseModel) {
+      await this.updateBaseVariants(metadata.parentBaseModel, 'remove-variant', variants =>
+        variants.filter(id => id !== assetId)
+      )
+    }
     
     // Update dependencies file if it exists
     await this.updateDependencies(assetId)
     
-    return true
+    return entry
   }
   
-  async deleteAssetDirectory(assetId) {
-    const assetPath = path.join(this.assetsDir, assetId)
+  /**
+   * Move a trash entry's assets back and re-link restored variants with their base models
+   */
+  async restoreFromTrash(trashId) {
+    const entry = await this.trashService.restoreEntry(trashId)
+    for (const id of entry.assetIds) {
+      await this.refreshAsset(id)
+    }
+    
+    const baseAssetIds = new Set(entry.assets
+      .map(asset => asset.isVariant ? asset.parentBaseModel : asset.isBaseModel ? asset.id : null)
+      .filter(Boolean))
+    
+    for (const baseAssetId of baseAssetIds) {
+      const liveVariantIds = Array.from(this.index.values())
+        .filter(asset => asset.metadata.parentBaseModel === baseAssetId)
+        .map(asset => asset.id)
+      await this.updateBaseVariants(baseAssetId, 'add-variants', variants =>
+        [...variants, ...liveVariantIds.filter(id => !variants.includes(id))]
+      )
+    }
     
+    return {
+      entry,
+      assets: entry.assetIds.map(id => this.index.get(id)).filter(Boolean)
+    }
+  }
+  
+  /**
+   * Rewrite a base model's `variants` list. Skipped when the base isn't in the library.
+   */
+  async updateBaseVariants(baseAssetId, operation, update) {
+    const metadataPath = path.join(this.assetsDir, baseAssetId, 'metadata.json')
+    let metadata
     try {
-      // Recursively delete the directory
-      await fs.rm(assetPath, { recursive: true, force: true })
-      console.log(`Deleted asset directory: ${assetId}`)
+      metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8'))
     } catch (error) {
-      console.error(`Failed to delete asset ${assetId}:`, error)
-      throw new Error(`Failed to delete asset ${assetId}`)
+      if (error.code === 'ENOENT') return
+      throw error
     }
+    
+    const currentVariants = metadata.variants || []
+    const variants = update(currentVariants)
+    if (variants.length === currentVariants.length && variants.every((id, i) => id === currentVariants[i])) {
+      return
+    }
+    
+    await this.revisionService.recordBaseline(baseAssetId)
+    metadata.variants = variants
+    metadata.variantCount = variants.length
+    metadata.updatedAt = new Date().toISOString()
+    await writeAssetMetadata(metadataPath, metadata)
+    await this.revisionService.record(baseAssetId, operation)
+    await this.refreshAsset(baseAssetId)
   }
   
   async updateDependencies(deletedAssetId) {
@@ -218,8 +631,13 @@ export class AssetService {
         return null
       }
       
+      const patchErrors = validatePatch(updates)
+      if (patchErrors.length > 0) {
+        throw createValidationError(patchErrors)
+      }
+      
       // Read current metadata
-      const currentMetadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8'))
+      const currentMetadata = await this.getAssetMetadata(assetId)
       
       // Update metadata with new values
       const updatedMetadata = {
@@ -233,11 +651,21 @@ export class AssetService {
         updatedMetadata.type = updates.type
       }
       
-      // Handle name change if provided  
       if (updates.name && updates.name !== assetId) {
-        // Update name in metadata
         updatedMetadata.name = updates.name
         updatedMetadata.gameId = updates.name
+      }
+      
+      // Reject the patch before anything is written or renamed
+      const metadataErrors = validateAssetMetadata({ ...updatedMetadata, schemaVersion: CURRENT_SCHEMA_VERSION })
+      if (metadataErrors.length > 0) {
+        throw createValidationError(metadataErrors.map(error => ({ ...error, field: `metadata.${error.field}` })))
+      }
+      
+      await this.revisionService.recordBaseline(assetId)
+      
+      // Handle name change if provided  
+      if (updates.name && updates.name !== assetId) {
         
         // Create new directory with new name
         const newAssetPath = path.join(this.assetsDir, updates.name)
@@ -258,19 +686,19 @@ export class AssetService {
         await fs.rename(assetPath, newAssetPath)
         
         // Update metadata in new location
-        await fs.writeFile(
-          path.join(newAssetPath, 'metadata.json'), 
-          JSON.stringify(updatedMetadata, null, 2)
-        )
+        await writeAssetMetadata(path.join(newAssetPath, 'metadata.json'), updatedMetadata)
         
         // Update dependencies if needed
         await this.updateDependencies(assetId, updates.name)
         
-        return this.loadAsset(updates.name)
+        await this.revisionService.record(updates.name, 'rename', { renamedFrom: assetId })
+        await this.refreshAsset(assetId)
+        return this.refreshAsset(updates.name)
       } else {
         // Just update metadata
-        await fs.writeFile(metadataPath, JSON.stringify(updatedMetadata, null, 2))
-        return this.loadAsset(assetId)
+        await writeAssetMetadata(metadataPath, updatedMetadata)
+        await this.revisionService.record(assetId, 'update-metadata')
+        return this.refreshAsset(assetId)
       }
     } catch (error) {
       console.error(`Error updating asset ${assetId}:`, error)
@@ -278,6 +706,97 @@ export class AssetService {
     }
   }
   
+  /**
+   * Save how a piece of equipment sits on an avatar, under the avatar's ID and under its
+   * rig profile so avatars with the same rig and no attachment of their own can reuse it
+   */
+  async saveAttachmentConfig(assetId, { rigProfile, config }) {
+    await this.assertAssetExists(assetId)
+    if (typeof rigProfile !== 'string' || rigProfile.trim() === '') {
+      throw createValidationError([{ field: 'rigProfile', message: 'must be a non-empty string' }])
+    }
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      throw createValidationError([{ field: 'config', message: 'must be an object' }])
+    }
+    if (typeof config.avatarId !== 'string' || config.avatarId.trim() === '') {
+      throw createValidationError([{ field: 'config.avatarId', message: 'must be a non-empty string' }])
+    }
+
+    const metadata = await this.getAssetMetadata(assetId)
+    const saved = { ...config, savedAt: new Date().toISOString() }
+    const attachmentConfigs = metadata.attachmentConfigs || { avatars: {}, rigProfiles: {} }
+    metadata.attachmentConfigs = {
+      avatars: { ...attachmentConfigs.avatars, [config.avatarId]: saved },
+      rigProfiles: { ...attachmentConfigs.rigProfiles, [rigProfile]: saved }
+    }
+    metadata.lastModified = saved.savedAt
+
+    await this.revisionService.recordBaseline(assetId)
+    await writeAssetMetadata(path.join(this.assetsDir, assetId, 'metadata.json'), metadata)
+    await this.revisionService.record(assetId, 'save-attachment')
+    return this.refreshAsset(assetId)
+  }
+
+  /**
+   * Save a named loadout (equipment slot → equipment asset ID) on an avatar, replacing
+   * the loadout of the same name
+   */
+  async saveLoadout(avatarId, name, { items }) {
+    await this.assertAssetExists(avatarId)
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw createValidationError([{ field: 'name', message: 'must be a non-empty string' }])
+    }
+    if (typeof items !== 'object' || items === null || Array.isArray(items) || Object.keys(items).length === 0) {
+      throw createValidationError([{ field: 'items', message: 'must map at least one slot to an equipment asset ID' }])
+    }
+
+    const metadata = await this.getAssetMetadata(avatarId)
+    if (metadata.type !== 'character') {
+      throw createValidationError([{ field: 'avatarId', message: 'must be the ID of a character asset' }])
+    }
+
+    const errors = []
+    for (const [slot, equipmentId] of Object.entries(items)) {
+      if (!LOADOUT_SLOTS.includes(slot)) {
+        errors.push({ field: `items.${slot}`, message: `slot must be one of ${LOADOUT_SLOTS.join(', ')}` })
+      } else if (typeof equipmentId !== 'string' || !(await this.loadAsset(equipmentId))) {
+        errors.push({ field: `items.${slot}`, message: 'must be the ID of an existing asset' })
+      }
+    }
+    if (errors.length > 0) {
+      throw createValidationError(errors)
+    }
+
+    const loadout = { name: name.trim(), items, savedAt: new Date().toISOString() }
+    const loadouts = metadata.loadouts || []
+    metadata.loadouts = loadouts.some(existing => existing.name === loadout.name)
+      ? loadouts.map(existing => existing.name === loadout.name ? loadout : existing)
+      : [...loadouts, loadout]
+    metadata.lastModified = loadout.savedAt
+
+    await this.revisionService.recordBaseline(avatarId)
+    await writeAssetMetadata(path.join(this.assetsDir, avatarId, 'metadata.json'), metadata)
+    await this.revisionService.record(avatarId, 'save-loadout')
+    return this.refreshAsset(avatarId)
+  }
+
+  async deleteLoadout(avatarId, name) {
+    await this.assertAssetExists(avatarId)
+    const metadata = await this.getAssetMetadata(avatarId)
+    const loadouts = metadata.loadouts || []
+    if (!loadouts.some(loadout => loadout.name === name)) {
+      throw new Error(`Loadout ${name} not found on ${avatarId}`)
+    }
+
+    metadata.loadouts = loadouts.filter(loadout => loadout.name !== name)
+    metadata.lastModified = new Date().toISOString()
+
+    await this.revisionService.recordBaseline(avatarId)
+    await writeAssetMetadata(path.join(this.assetsDir, avatarId, 'metadata.json'), metadata)
+    await this.revisionService.record(avatarId, 'delete-loadout')
+    return this.refreshAsset(avatarId)
+  }
+  
   async updateDependencies(oldId, newId) {
     const dependenciesPath = path.join(this.assetsDir, 'dependencies.json')
     
@@ -302,4 +821,87 @@ export class AssetService {
       console.log('No dependencies file to update')
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Field-level errors for the top level of a PATCH /api/assets/:id body
+ */
+function validatePatch(updates) {
+  if (typeof updates !== 'object' || updates === null || Array.isArray(updates)) {
+    return [{ field: '', message: 'must be an object' }]
+  }
+
+  const errors = []
+  if (updates.name !== undefined && (typeof updates.name !== 'string' || !/^[a-zA-Z0-9-_]+$/.test(updates.name))) {
+    errors.push({ field: 'name', message: 'must contain only letters, numbers, hyphens and underscores' })
+  }
+  if (updates.type !== undefined && (typeof updates.type !== 'string' || updates.type.trim() === '')) {
+    errors.push({ field: 'type', message: 'must be a non-empty string' })
+  }
+  if (updates.metadata !== undefined && (typeof updates.metadata !== 'object' || updates.metadata === null || Array.isArray(updates.metadata))) {
+    errors.push({ field: 'metadata', message: 'must be an object' })
+  }
+  return errors
+}
+
+function parseFilters(query) {
+  assertStringParams(query, ['type', 'subtype', 'tier', 'material', 'kind', 'rigged', 'search', 'from', 'to'])
+  const filters = {
+    types: parseList(query.type),
+    subtypes: parseList(query.subtype),
+    tiers: parseList(query.tier),
+    materials: parseList(query.material),
+    kind: query.kind,
+    rigged: query.rigged === undefined ? undefined : query.rigged === 'true',
+    search: query.search?.trim().toLowerCase(),
+    from: parseDate(query.from, 'from', false),
+    to: parseDate(query.to, 'to', true)
+  }
+  if (filters.kind && filters.kind !== 'base' && filters.kind !== 'variant') {
+    throw Object.assign(new Error(`Unsupported kind: ${filters.kind}`), { status: 400 })
+  }
+  return filters
+}
+
+/**
+ * Reject repeated (`?type=a&type=b`) or nested (`?type[x]=a`) query parameters, which Express parses into arrays and objects
+ */
+function assertStringParams(query, names) {
+  for (const name of names) {
+    if (query[name] !== undefined && typeof query[name] !== 'string') {
+      throw Object.assign(new Error(`${name} must be given once, as a single value`), { status: 400 })
+    }
+  }
+}
+
+function parseList(value) {
+  return value ? String(value).split(',').map(item => item.trim()).filter(Boolean) : undefined
+}
+
+/**
+ * Parse a date query parameter. A bare `to` date (YYYY-MM-DD) includes that whole day.
+ */
+function parseDate(value, name, endOfDay) {
+  if (!value) return undefined
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw Object.assign(new Error(`Invalid ${name} date: ${value}`), { status: 400 })
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999)
+  }
+  return date
+}
+
+function encodeCursor(value, id) {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url')
+}
+
+function decodeCursor(cursor) {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))
+    return { value, id }
+  } catch {
+    throw Object.assign(new Error('Invalid cursor'), { status: 400 })
+  }
+}
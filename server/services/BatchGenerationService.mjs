@@ -0,0 +1,461 @@
+/**
+ * Batch Generation Service
+ * Starts one generation pipeline per row of a GDD manifest (JSON or CSV)
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+import { validateMetadataFields } from '../utils/assetMetadataSchema.mjs'
+
+// Manifest columns copied into GDDAsset.metadata
+const METADATA_COLUMNS = ['tier', 'level', 'gameId', 'rarity', 'attackLevel', 'strengthLevel', 'defenseLevel']
+const NUMERIC_COLUMNS = ['level', 'attackLevel', 'strengthLevel', 'defenseLevel']
+const GAME_DATA_COLUMNS = METADATA_COLUMNS.filter(column => column !== 'gameId')
+
+const DEFAULT_CONCURRENCY = 2
+const MAX_CONCURRENCY = 8
+
+// Format of the IDs startBatch hands out; anything else never reaches the filesystem
+const BATCH_ID_PATTERN = /^batch-\d+-[a-z0-9]+$/
+
+export class BatchGenerationService {
+  constructor(generationService, batchesDir, assetService) {
+    this.generationService = generationService
+    this.batchesDir = batchesDir
+    // Looks up existing assets, so a manifest row never silently overwrites one
+    this.assetService = assetService
+    this.activeBatches = new Map()
+    // Serialize summary writes per batch so an older snapshot never lands after a newer one
+    this.writeQueues = new Map()
+  }
+
+  /**
+   * Parse a manifest and start generating its rows in the background
+   */
+  async startBatch({ manifest, format, concurrency, defaults = {}, overwrite = false }) {
+    const assets = this.parseManifest(manifest, format)
+    if (assets.length === 0) {
+      throw Object.assign(new Error('Manifest contains no assets'), { status: 400 })
+    }
+
+    const batchId = `batch-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    const seenIds = new Set()
+    const items = []
+
+    for (const [index, asset] of assets.entries()) {
+      const assetId = this.getAssetId(asset)
+      const error = this.validateAsset(asset) ||
+        (!assetId ? 'gameId or name must contain letters or numbers' : null) ||
+        (seenIds.has(assetId) ? `Duplicate gameId ${assetId}` : null) ||
+        (!overwrite && await this.assetService.loadAsset(assetId) ? `Asset ${assetId} already exists` : null)
+      seenIds.add(assetId)
+      items.push({
+        index,
+        asset,
+        assetId,
+        pipelineId: null,
+        status: error ? 'failed' : 'queued',
+        error: error || undefined
+      })
+    }
+
+    const batch = {
+      id: batchId,
+      status: 'processing',
+      concurrency: parseConcurrency(concurrency),
+      defaults,
+      createdAt: new Date().toISOString(),
+      items
+    }
+
+    this.activeBatches.set(batchId, batch)
+    await this.saveBatch(batch)
+    this.launchBatch(batch)
+
+    return this.summarizeBatch(batch)
+  }
+
+  /**
+   * Carry on with batches that were still running when the server stopped. Rows whose pipeline
+   * had started wait for it (GenerationService.resumePipelines picks those up), the rest start.
+   */
+  async resumeBatches() {
+    let files
+    try {
+      files = await fs.readdir(this.batchesDir)
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return 0
+      }
+      throw error
+    }
+
+    let resumed = 0
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue
+
+      let saved
+      try {
+        saved = JSON.parse(await fs.readFile(path.join(this.batchesDir, file), 'utf-8'))
+      } catch (error) {
+        console.warn(`Skipping unreadable batch file ${file}:`, error.message)
+        continue
+      }
+      if (saved.status !== 'processing') continue
+
+      const batch = {
+        id: saved.id,
+        status: 'processing',
+        concurrency: saved.resume?.concurrency || DEFAULT_CONCURRENCY,
+        defaults: saved.resume?.defaults || {},
+        createdAt: saved.createdAt,
+        items: saved.results.map((result, index) => ({
+          index,
+          asset: saved.resume?.assets[index] || { name: result.name },
+          assetId: result.assetId,
+          pipelineId: result.pipelineId,
+          status: result.status === 'processing' && !result.pipelineId ? 'queued' : result.status,
+          error: result.error
+        }))
+      }
+
+      // Saved before rows were kept for resuming; nothing to restart them from
+      if (!saved.resume) {
+        batch.status = 'failed'
+        batch.error = 'Interrupted by an API server restart'
+        await this.saveBatch(batch)
+        continue
+      }
+
+      console.log(`🔁 Resuming batch ${batch.id}`)
+      this.activeBatches.set(batch.id, batch)
+      this.launchBatch(batch)
+      resumed++
+    }
+
+    return resumed
+  }
+
+  /**
+   * Run a batch in the background
+   */
+  launchBatch(batch) {
+    this.processBatch(batch).catch(error => {
+      console.error(`Batch ${batch.id} failed:`, error)
+      batch.status = 'failed'
+      batch.error = error.message
+      this.saveBatch(batch).catch(saveError => console.error(`Failed to save batch ${batch.id}:`, saveError))
+    })
+  }
+
+  /**
+   * Get the summary report of a batch, including finished batches from disk
+   */
+  async getBatchStatus(batchId) {
+    const batch = this.activeBatches.get(batchId)
+    if (batch) {
+      return this.summarizeBatch(batch)
+    }
+    if (!BATCH_ID_PATTERN.test(batchId)) {
+      throw new Error(`Batch ${batchId} not found`)
+    }
+
+    try {
+      const { resume, ...summary } = JSON.parse(await fs.readFile(path.join(this.batchesDir, `${batchId}.json`), 'utf-8'))
+      return summary
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Batch ${batchId} not found`)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Run queued rows with at most `concurrency` pipelines at a time
+   */
+  async processBatch(batch) {
+    const queue = batch.items.filter(item => item.status === 'queued' || (item.status === 'processing' && item.pipelineId))
+
+    const worker = async () => {
+      while (queue.length > 0) {
+        const item = queue.shift()
+        await this.runItem(batch, item)
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(batch.concurrency, queue.length) }, worker))
+
+    batch.status = 'completed'
+    batch.completedAt = new Date().toISOString()
+
+    const summary = await this.saveBatch(batch)
+    this.activeBatches.delete(batch.id)
+
+    console.log(`📦 Batch ${batch.id} finished: ${summary.succeeded} succeeded, ${summary.failed} failed`)
+  }
+
+  async runItem(batch, item) {
+    try {
+      // A row resumed after a restart already has its pipeline
+      if (!item.pipelineId) {
+        item.status = 'processing'
+        const { pipelineId } = await this.generationService.startPipeline(this.buildPipelineConfig(item, batch.defaults))
+        item.pipelineId = pipelineId
+        await this.saveBatch(batch)
+      }
+
+      const result = await this.generationService.waitForPipeline(item.pipelineId)
+      item.status = result.status
+      item.error = result.error
+    } catch (error) {
+      console.error(`Batch item ${item.asset.name} failed:`, error)
+      item.status = 'failed'
+      item.error = error.message
+    }
+    await this.saveBatch(batch)
+  }
+
+  /**
+   * Write the batch summary to disk, so its status survives an API server restart. A running
+   * batch also keeps what resumeBatches needs to carry on with it.
+   */
+  async saveBatch(batch) {
+    const summary = this.summarizeBatch(batch)
+    const resume = batch.status === 'processing'
+      ? { concurrency: batch.concurrency, defaults: batch.defaults, assets: batch.items.map(item => item.asset) }
+      : undefined
+    const snapshot = JSON.stringify({ ...summary, resume }, null, 2)
+    const previous = this.writeQueues.get(batch.id) || Promise.resolve()
+    const write = previous.catch(() => {}).then(async () => {
+      await fs.mkdir(this.batchesDir, { recursive: true })
+      const filePath = path.join(this.batchesDir, `${batch.id}.json`)
+      const tempPath = `${filePath}.tmp`
+      await fs.writeFile(tempPath, snapshot)
+      await fs.rename(tempPath, filePath)
+    })
+
+    this.writeQueues.set(batch.id, write)
+    try {
+      await write
+    } finally {
+      if (this.writeQueues.get(batch.id) === write) {
+        this.writeQueues.delete(batch.id)
+      }
+    }
+    return summary
+  }
+
+  summarizeBatch(batch) {
+    const results = batch.items.map(item => ({
+      success: item.status === 'completed',
+      assetId: item.assetId,
+      name: item.asset.name,
+      pipelineId: item.pipelineId,
+      status: item.status,
+      modelUrl: item.status === 'completed' ? `/api/assets/${item.assetId}/model` : undefined,
+      error: item.error
+    }))
+
+    return {
+      id: batch.id,
+      status: batch.status,
+      total: results.length,
+      succeeded: results.filter(result => result.status === 'completed').length,
+      failed: results.filter(result => result.status === 'failed' || result.status === 'cancelled').length,
+      pending: results.filter(result => result.status === 'queued' || result.status === 'processing').length,
+      createdAt: batch.createdAt,
+      completedAt: batch.completedAt,
+      error: batch.error,
+      results
+    }
+  }
+
+  /**
+   * Turn a manifest row into the config accepted by GenerationService.startPipeline
+   */
+  buildPipelineConfig(item, defaults) {
+    const { asset, assetId } = item
+    const isAvatar = asset.type === 'character'
+
+    return {
+      name: asset.name,
+      type: asset.type,
+      subtype: asset.subtype || asset.type,
+      description: asset.description,
+      style: asset.style || defaults.style,
+      assetId,
+      generationType: isAvatar ? 'avatar' : 'item',
+      quality: defaults.quality,
+      metadata: {
+        ...asset.metadata,
+        useGPT4Enhancement: defaults.useGPT4Enhancement !== false
+      },
+      materialPresets: [],
+      enableGeneration: true,
+      enableRetexturing: false,
+      enableSprites: false,
+      enableRigging: isAvatar && !!defaults.enableRigging,
+      riggingOptions: isAvatar && defaults.enableRigging ? { heightMeters: defaults.characterHeight } : undefined,
+      customPrompts: {
+        gameStyle: defaults.gameStyle
+      }
+    }
+  }
+
+  /**
+   * Asset folder name of a row: its gameId, else its name, reduced to lowercase letters, digits and hyphens
+   */
+  getAssetId(asset) {
+    const gameId = asset.metadata?.gameId
+    return String(gameId || asset.name || '')
+      .toLowerCase()
+      .trim()
+      .replace(/\s+/g, '-')
+      .replace(/[^a-z0-9-]/g, '')
+      .replace(/-+/g, '-')
+      .replace(/^-|-$/g, '')
+  }
+
+  /**
+   * Check a row against the metadata.json rules its pipeline will write, so a bad row fails
+   * here instead of after its provider calls have been paid for
+   */
+  validateAsset(asset) {
+    const missing = ['name', 'description', 'type'].filter(field => !asset[field])
+    if (missing.length > 0) {
+      return `Missing required field(s): ${missing.join(', ')}`
+    }
+
+    // gameId only names the asset folder, so any value getAssetId can stringify is fine
+    const gameData = Object.fromEntries(GAME_DATA_COLUMNS
+      .filter(column => asset.metadata[column] !== '')
+      .map(column => [column, asset.metadata[column]]))
+    const { name, description, type, subtype } = asset
+    const errors = validateMetadataFields({ name, description, type, subtype, ...gameData })
+    return errors.length > 0 ? `Invalid field(s): ${errors.map(error => `${error.field} ${error.message}`).join(', ')}` : null
+  }
+
+  /**
+   * Parse a manifest into GDDAsset rows. Accepts an array, JSON text or CSV text.
+   */
+  parseManifest(manifest, format) {
+    if (Array.isArray(manifest)) {
+      return manifest.map(row => this.toGDDAsset(row))
+    }
+
+    if (typeof manifest !== 'string') {
+      throw Object.assign(new Error('manifest must be an array or a JSON/CSV string'), { status: 400 })
+    }
+
+    const manifestFormat = format || (manifest.trim().startsWith('[') || manifest.trim().startsWith('{') ? 'json' : 'csv')
+
+    if (manifestFormat === 'json') {
+      let parsed
+      try {
+        parsed = JSON.parse(manifest)
+      } catch (error) {
+        throw Object.assign(new Error(`Invalid JSON manifest: ${error.message}`), { status: 400 })
+      }
+      const rows = Array.isArray(parsed) ? parsed : parsed.assets
+      if (!Array.isArray(rows)) {
+        throw Object.assign(new Error('JSON manifest must be an array or an object with an "assets" array'), { status: 400 })
+      }
+      return rows.map(row => this.toGDDAsset(row))
+    }
+
+    if (manifestFormat === 'csv') {
+      // Spreadsheet exports often start with a byte order mark
+      const [header, ...records] = parseCsv(manifest.replace(/^\uFEFF/, ''))
+      if (!header) {
+        return []
+      }
+      const columns = header.map(column => column.trim())
+      return records
+        .filter(record => record.some(value => value.trim() !== ''))
+        .map(record => this.toGDDAsset(Object.fromEntries(columns.map((column, i) => [column, (record[i] || '').trim()]))))
+    }
+
+    throw Object.assign(new Error(`Unsupported manifest format: ${manifestFormat}`), { status: 400 })
+  }
+
+  /**
+   * Normalize a flat or nested row into the GDDAsset shape
+   */
+  toGDDAsset(row) {
+    const metadata = { ...(row.metadata || {}) }
+    for (const column of METADATA_COLUMNS) {
+      if (row[column] !== undefined && row[column] !== '') {
+        metadata[column] = NUMERIC_COLUMNS.includes(column) ? Number(row[column]) : row[column]
+      }
+    }
+
+    return {
+      name: row.name,
+      description: row.description,
+      type: row.type,
+      subtype: row.subtype || undefined,
+      style: row.style || undefined,
+      metadata
+    }
+  }
+}
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF)
+ */
+function parseCsv(text) {
+  const records = []
+  let record = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  return records
+}
+
+/**
+ * Pipelines run at once: DEFAULT_CONCURRENCY when omitted, else an integer from 1 to MAX_CONCURRENCY
+ */
+function parseConcurrency(value) {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_CONCURRENCY
+  }
+  const concurrency = Number(value)
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+    throw Object.assign(new Error(`concurrency must be an integer from 1 to ${MAX_CONCURRENCY}`), { status: 400 })
+  }
+  return concurrency
+}
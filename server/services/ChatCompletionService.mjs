@@ -0,0 +1,105 @@
+/**
+ * Chat Completion Service
+ * Sends the pipeline's chat-completions calls to the backend configured for each task
+ *
+ * Backends and per-task models live in public/prompts/llm-backends.json. A backend is any
+ * OpenAI-compatible server: { baseUrl, apiKeyEnv }, where apiKeyEnv names the environment
+ * variable holding its bearer token (empty for local servers without auth). OPENAI_API_KEY can
+ * only be sent to api.openai.com; other hosts name a *_LLM_API_KEY variable.
+ */
+
+import fetch from 'node-fetch'
+import { getLLMBackends, isAllowedApiKeyEnv } from '../utils/promptLoader.mjs'
+
+export class ChatCompletionService {
+  constructor({ loadConfig = getLLMBackends } = {}) {
+    this.loadConfig = loadConfig
+  }
+
+  /**
+   * Backend, model and credentials a task runs with
+   */
+  async resolveTask(task) {
+    const config = await this.loadConfig()
+    const taskConfig = config.tasks?.[task]
+    if (!taskConfig) {
+      throw new Error(`No chat-completions backend configured for ${task}`)
+    }
+
+    const backend = config.backends?.[taskConfig.backend]
+    if (!backend?.baseUrl) {
+      throw new Error(`Backend "${taskConfig.backend}" for ${task} not found in llm-backends.json`)
+    }
+    if (backend.apiKeyEnv && !isAllowedApiKeyEnv(backend.apiKeyEnv, backend.baseUrl)) {
+      throw new Error(`Backend "${taskConfig.backend}" apiKeyEnv must end in _LLM_API_KEY (OPENAI_API_KEY is only sent to https://api.openai.com)`)
+    }
+
+    const apiKey = backend.apiKeyEnv ? process.env[backend.apiKeyEnv] || '' : ''
+    return {
+      task,
+      backend: taskConfig.backend,
+      baseUrl: backend.baseUrl.replace(/\/+$/, ''),
+      model: taskConfig.model,
+      apiKey,
+      missingConfiguration: backend.apiKeyEnv && !apiKey ? [backend.apiKeyEnv] : []
+    }
+  }
+
+  /**
+   * Run a chat completion for a task and return the first choice's text
+   */
+  async complete(task, { messages, temperature, maxTokens, responseFormat }) {
+    const resolved = await this.resolveTask(task)
+    if (resolved.missingConfiguration.length > 0) {
+      throw new Error(`${resolved.missingConfiguration.join(', ')} required for ${task}`)
+    }
+
+    const headers = { 'Content-Type': 'application/json' }
+    if (resolved.apiKey) {
+      headers.Authorization = `Bearer ${resolved.apiKey}`
+    }
+
+    const response = await fetch(`${resolved.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: resolved.model,
+        messages,
+        ...(temperature !== undefined ? { temperature } : {}),
+        ...(maxTokens !== undefined ? { max_tokens: maxTokens } : {}),
+        ...(responseFormat ? { response_format: responseFormat } : {})
+      })
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`Chat completions error from ${resolved.backend} (${resolved.model}): ${response.status} - ${error}`)
+    }
+
+    const data = await response.json()
+    return {
+      content: data.choices?.[0]?.message?.content ?? '',
+      backend: resolved.backend,
+      model: resolved.model
+    }
+  }
+
+  /**
+   * Backend each configured task uses, for the health check
+   */
+  async describeTasks() {
+    const config = await this.loadConfig()
+    const tasks = {}
+
+    for (const task of Object.keys(config.tasks || {})) {
+      try {
+        const { backend, baseUrl, model, missingConfiguration } = await this.resolveTask(task)
+        tasks[task] = { backend, baseUrl, model, configured: missingConfiguration.length === 0, missingConfiguration }
+      } catch (error) {
+        tasks[task] = { configured: false, error: error.message }
+      }
+    }
+
+    return tasks
+  }
+}
@@ -4,46 +4,179 @@
  */
 
 import EventEmitter from 'events'
-import { AICreationService } from './AICreationService.mjs'
 import { ImageHostingService } from './ImageHostingService.mjs'
+import { PipelineStore } from './PipelineStore.mjs'
+import { AssetRevisionService } from './AssetRevisionService.mjs'
+import { JobQueue } from './JobQueue.mjs'
+import { createGenerationProvider } from './providers/index.mjs'
+import { ChatCompletionService } from './ChatCompletionService.mjs'
 import { getGenerationPrompts, getGPT4EnhancementPrompts } from '../utils/promptLoader.mjs'
+import { writeAssetMetadata } from '../utils/assetMetadataSchema.mjs'
+import { HIGH_QUALITY_STYLE_PATTERN, LOW_POLY_PATTERN, lintGenerationPrompts } from '../utils/promptLint.mjs'
 import fs from 'fs/promises'
 import path from 'path'
-import fetch from 'node-fetch'
+
+// Stages run by processPipeline, in order
+const PIPELINE_STAGES = ['promptOptimization', 'imageGeneration', 'image3D', 'textureGeneration', 'rigging']
+
+// GDD game data copied from the pipeline config into the base model's metadata.json
+const GAME_DATA_FIELDS = ['tier', 'level', 'rarity', 'attackLevel', 'strengthLevel', 'defenseLevel']
+
+// Version of the generationRecipe stored in metadata.json
+const RECIPE_VERSION = 1
+const RECIPE_QUALITIES = ['standard', 'high', 'ultra']
+
+// Concept art review mode: candidates per round, kept in a subfolder of the asset
+const CONCEPT_ART_CANDIDATES_DIR = 'concept-art-candidates'
+const DEFAULT_CONCEPT_ART_CANDIDATES = 3
+const MAX_CONCEPT_ART_CANDIDATES = 6
+
+// Finished pipelines are dropped from memory and from pipelines/ this long after they were created
+const FINISHED_PIPELINE_STATUSES = ['completed', 'failed', 'cancelled']
+const FINISHED_PIPELINE_RETENTION_MS = 60 * 60 * 1000
+
+// Meshy retexture settings used for every material variant
+const RETEXTURE_SETTINGS = { artStyle: 'realistic', aiModel: 'meshy-5', enableOriginalUV: true }
+
+/**
+ * Concept art candidates generated per round in review mode
+ */
+function getConceptArtCandidateCount(config) {
+  const count = parseInt(config.conceptArtCandidates, 10) || DEFAULT_CONCEPT_ART_CANDIDATES
+  return Math.min(Math.max(count, 1), MAX_CONCEPT_ART_CANDIDATES)
+}
+
+/**
+ * Thrown inside a running pipeline once it has been cancelled
+ */
+class PipelineCancelledError extends Error {
+  constructor(pipelineId) {
+    super(`Pipeline ${pipelineId} was cancelled`)
+    this.name = 'PipelineCancelledError'
+  }
+}
+
+function pickGameData(metadata = {}) {
+  return Object.fromEntries(GAME_DATA_FIELDS
+    .filter(field => metadata[field] !== undefined && metadata[field] !== '')
+    .map(field => [field, metadata[field]]))
+}
+
+/**
+ * A recipe for an asset generated before recipes were recorded, from what its metadata kept.
+ * Unknown settings are left null so regeneration falls back to the current defaults.
+ */
+function deriveRecipe(assetId, metadata) {
+  const isAvatar = metadata.type === 'character'
+  return {
+    version: RECIPE_VERSION,
+    derived: true,
+    recordedAt: null,
+    pipelineId: null,
+    description: metadata.description || '',
+    enhancedPrompt: metadata.detailedPrompt || null,
+    imagePrompt: null,
+    gameStyle: null,
+    quality: null,
+    model: null,
+    materialPrompts: {},
+    config: {
+      name: metadata.name || assetId,
+      type: metadata.type,
+      subtype: metadata.subtype || metadata.type,
+      description: metadata.description || '',
+      assetId,
+      generationType: isAvatar ? 'avatar' : 'item',
+      metadata: pickGameData(metadata),
+      materialPresets: [],
+      enableGeneration: true,
+      enableRetexturing: false,
+      enableSprites: false,
+      enableRigging: isAvatar && !!metadata.isRigged,
+      riggingOptions: metadata.characterHeight ? { heightMeters: metadata.characterHeight } : undefined
+    }
+  }
+}
+
+/**
+ * Apply the fields edited in the regenerate dialog. An empty prompt is rebuilt by the pipeline.
+ */
+function applyRecipeEdits(recipe, edits) {
+  if (!isPlainObject(edits)) {
+    throw Object.assign(new Error('recipe must be an object of edits'), { status: 400 })
+  }
+
+  const errors = []
+  for (const field of ['model', 'materialPrompts']) {
+    if (edits[field] !== undefined && edits[field] !== null && !isPlainObject(edits[field])) {
+      errors.push({ field, message: 'must be an object' })
+    }
+  }
+  if (edits.quality !== undefined && edits.quality !== null && !RECIPE_QUALITIES.includes(edits.quality)) {
+    errors.push({ field: 'quality', message: `must be one of ${RECIPE_QUALITIES.join(', ')}` })
+  }
+  const polycount = edits.model?.targetPolycount
+  if (polycount !== undefined && (!Number.isInteger(polycount) || polycount <= 0)) {
+    errors.push({ field: 'model.targetPolycount', message: 'must be a positive integer' })
+  }
+  if (edits.description !== undefined && !String(edits.description).trim()) {
+    errors.push({ field: 'description', message: 'must not be empty' })
+  }
+  if (errors.length > 0) {
+    throw Object.assign(new Error('Invalid recipe edits'), { status: 400, errors })
+  }
+
+  const edited = { ...recipe }
+  for (const field of ['description', 'enhancedPrompt', 'imagePrompt', 'gameStyle', 'quality']) {
+    if (edits[field] !== undefined) {
+      edited[field] = typeof edits[field] === 'string' ? edits[field].trim() || null : edits[field]
+    }
+  }
+  if (edits.model) {
+    edited.model = { ...recipe.model, ...edits.model }
+  }
+  if (edits.materialPrompts) {
+    edited.materialPrompts = { ...recipe.materialPrompts, ...edits.materialPrompts }
+  }
+  return edited
+}
+
+function isPlainObject(value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
 
 export class GenerationService extends EventEmitter {
-  constructor() {
+  constructor(options = {}) {
     super()
-    
+
     this.activePipelines = new Map()
-    
-    // Check for required API keys
-    if (!process.env.OPENAI_API_KEY || !process.env.MESHY_API_KEY) {
-      console.warn('[GenerationService] Missing API keys - generation features will be limited')
+
+    // Abort controllers and completion promises of pipelines currently running
+    this.pipelineRuns = new Map()
+
+    // Every open progress stream subscribes to pipeline updates
+    this.setMaxListeners(0)
+
+    // Pipelines are mirrored to disk so a restart can pick them back up
+    this.pipelineStore = new PipelineStore(options.pipelinesDir || path.join('gdd-assets', '.pipelines'))
+
+    // Image, model, retexture and rigging backend (Meshy + OpenAI unless configured otherwise)
+    this.provider = options.provider || createGenerationProvider()
+
+    const missingConfiguration = this.provider.getMissingConfiguration()
+    if (missingConfiguration.length > 0) {
+      console.warn(`[GenerationService] Missing ${missingConfiguration.join(', ')} - generation features will be limited`)
     }
-    
-    // Initialize AI service with backend environment variables
-    this.aiService = new AICreationService({
-      openai: {
-        apiKey: process.env.OPENAI_API_KEY || '',
-        model: 'gpt-image-1',
-        imageServerBaseUrl: process.env.IMAGE_SERVER_URL || 'http://localhost:8080'
-      },
-      meshy: {
-        apiKey: process.env.MESHY_API_KEY || '',
-        baseUrl: 'https://api.meshy.ai'
-      },
-      cache: {
-        enabled: true,
-        ttl: 3600,
-        maxSize: 500
-      },
-      output: {
-        directory: 'gdd-assets',
-        format: 'glb'
-      }
-    })
-    
+
+    // Chat-completions backend for prompt enhancement (llm-backends.json)
+    this.chatService = options.chatService || new ChatCompletionService()
+
+    // Shared with the retexture endpoint so provider task limits apply across both
+    this.jobQueue = options.jobQueue || new JobQueue()
+
+    // Every model or metadata write below is recorded as an asset revision
+    this.revisionService = options.revisionService || new AssetRevisionService('gdd-assets')
+
     // Initialize image hosting service
     this.imageHostingService = new ImageHostingService()
   }
@@ -53,7 +186,7 @@ export class GenerationService extends EventEmitter {
    */
   async startPipeline(config) {
     const pipelineId = `pipeline-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-    
+
     const pipeline = {
       id: pipelineId,
       config,
@@ -71,16 +204,12 @@ export class GenerationService extends EventEmitter {
       results: {},
       createdAt: new Date().toISOString()
     }
-    
+
     this.activePipelines.set(pipelineId, pipeline)
-    
-    // Start processing asynchronously
-    this.processPipeline(pipelineId).catch(error => {
-      console.error(`Pipeline ${pipelineId} failed:`, error)
-      pipeline.status = 'failed'
-      pipeline.error = error.message
-    })
-    
+    await this.persistPipeline(pipeline)
+
+    this.launchPipeline(pipeline)
+
     return {
       pipelineId,
       status: pipeline.status,
@@ -88,689 +217,1474 @@ export class GenerationService extends EventEmitter {
     }
   }
 
+  /**
+   * Resume pipelines that were still running when the server stopped
+   */
+  async resumePipelines() {
+    const pipelines = await this.pipelineStore.loadAll()
+    const unfinished = pipelines.filter(pipeline => !FINISHED_PIPELINE_STATUSES.includes(pipeline.status))
+
+    // Pipelines that finished before the restart are never loaded, so cleanupOldPipelines can't expire them
+    for (const pipeline of pipelines.filter(pipeline => this.isExpiredPipeline(pipeline))) {
+      await this.removePipelineFile(pipeline.id)
+    }
+
+    for (const pipeline of unfinished) {
+      // Waiting on the user, not on a provider - keep it loaded without running it
+      if (pipeline.status === 'awaiting-selection') {
+        this.activePipelines.set(pipeline.id, pipeline)
+        continue
+      }
+
+      console.log(`🔁 Resuming pipeline ${pipeline.id} (${pipeline.config.assetId})`)
+      this.activePipelines.set(pipeline.id, pipeline)
+      this.launchPipeline(pipeline)
+    }
+
+    return unfinished.length
+  }
+
+  /**
+   * Run a pipeline in the background
+   */
+  launchPipeline(pipeline) {
+    const controller = new AbortController()
+    const promise = this.processPipeline(pipeline.id, controller.signal)
+      .catch(error => {
+        if (error instanceof PipelineCancelledError) {
+          console.log(`🛑 Pipeline ${pipeline.id} cancelled`)
+          return
+        }
+        console.error(`Pipeline ${pipeline.id} failed:`, error)
+        pipeline.status = 'failed'
+        pipeline.error = error.message
+      })
+      .finally(() => {
+        this.pipelineRuns.delete(pipeline.id)
+      })
+
+    this.pipelineRuns.set(pipeline.id, { controller, promise })
+  }
+
+  /**
+   * Resolve with the final status once a pipeline stops running
+   */
+  async waitForPipeline(pipelineId) {
+    const run = this.pipelineRuns.get(pipelineId)
+    if (run) {
+      await run.promise
+    }
+    return this.getPipelineStatus(pipelineId)
+  }
+
+  /**
+   * Cancel a running pipeline, aborting any in-flight polling loop. Answers right away; the
+   * running stage stops at its next cancellation check.
+   */
+  async cancelPipeline(pipelineId) {
+    const run = this.pipelineRuns.get(pipelineId)
+    if (!run) {
+      const pipeline = await this.loadPipeline(pipelineId)
+      if (pipeline.status === 'awaiting-selection') {
+        pipeline.stages.imageGeneration.status = 'cancelled'
+        pipeline.status = 'cancelled'
+        pipeline.error = new PipelineCancelledError(pipelineId).message
+        await this.persistPipeline(pipeline)
+        return this.serializePipeline(pipeline)
+      }
+      throw Object.assign(new Error(`Pipeline ${pipelineId} is not running`), { status: 409 })
+    }
+
+    const pipeline = this.activePipelines.get(pipelineId)
+    if (run.controller.signal.aborted) {
+      return this.serializePipeline(pipeline)
+    }
+
+    const error = new PipelineCancelledError(pipelineId)
+    run.controller.abort(error)
+    this.markCancelled(pipeline, error)
+    await this.persistPipeline(pipeline)
+    return this.serializePipeline(pipeline)
+  }
+
+  /**
+   * Re-run a failed or cancelled stage, reusing the results of earlier stages.
+   * Stages after it that never ran are picked up as well.
+   */
+  async retryStage(pipelineId, stageName) {
+    const pipeline = await this.loadPipeline(pipelineId)
+
+    if (this.pipelineRuns.has(pipelineId)) {
+      throw Object.assign(new Error(`Pipeline ${pipelineId} is still running`), { status: 409 })
+    }
+
+    const stage = pipeline.stages[stageName]
+    if (!PIPELINE_STAGES.includes(stageName) || !stage) {
+      throw Object.assign(new Error(`Stage ${stageName} cannot be retried`), { status: 400 })
+    }
+
+    if (stage.status !== 'failed' && stage.status !== 'cancelled') {
+      throw Object.assign(new Error(`Stage ${stageName} has not failed or been cancelled`), { status: 409 })
+    }
+
+    // A cancelled stage keeps its provider task IDs so polling resumes without paying again
+    const wasCancelled = stage.status === 'cancelled'
+    const retried = { status: 'pending', progress: 0 }
+    if (wasCancelled && stage.taskId) {
+      retried.taskId = stage.taskId
+    }
+    if (stageName === 'imageGeneration' && stage.candidates) {
+      retried.round = stage.round
+      retried.candidates = stage.candidates
+    }
+    if (stageName === 'textureGeneration') {
+      const keptVariants = (stage.variants || []).filter(variant => variant.success)
+      retried.variants = keptVariants
+      retried.tasks = Object.fromEntries(
+        Object.entries(stage.tasks || {}).filter(([presetId]) =>
+          !(stage.variants || []).some(variant => !variant.success && variant.id === `${pipeline.config.assetId}-${presetId}`)
+        )
+      )
+    }
+    pipeline.stages[stageName] = retried
+    delete pipeline.results[stageName]
+
+    pipeline.status = 'processing'
+    pipeline.error = undefined
+    pipeline.completedAt = undefined
+
+    this.activePipelines.set(pipelineId, pipeline)
+    await this.persistPipeline(pipeline)
+    this.launchPipeline(pipeline)
+
+    return this.serializePipeline(pipeline)
+  }
+
+  /**
+   * Continue a pipeline in concept art review with one of its candidates as the concept art
+   */
+  async selectConceptArt(pipelineId, candidateId) {
+    const pipeline = await this.loadPipelineAwaitingSelection(pipelineId)
+    const stage = pipeline.stages.imageGeneration
+
+    const candidate = stage.candidates.find(item => item.id === candidateId)
+    if (!candidate) {
+      throw Object.assign(new Error(`Unknown concept art candidate: ${candidateId}`), { status: 400 })
+    }
+
+    const image = await fs.readFile(path.join('gdd-assets', pipeline.config.assetId, CONCEPT_ART_CANDIDATES_DIR, candidate.file))
+    const result = {
+      imageUrl: `data:image/png;base64,${image.toString('base64')}`,
+      imagePrompt: candidate.imagePrompt,
+      gameStyle: stage.gameStyle,
+      candidateId
+    }
+    stage.status = 'completed'
+    stage.progress = 100
+    stage.selectedCandidate = candidateId
+    stage.result = result
+    pipeline.results.imageGeneration = result
+
+    return this.resumeAfterSelection(pipeline)
+  }
+
+  /**
+   * Generate another round of concept art candidates, optionally with a tweaked image prompt
+   */
+  async regenerateConceptArt(pipelineId, { imagePrompt } = {}) {
+    const pipeline = await this.loadPipelineAwaitingSelection(pipelineId)
+    const stage = pipeline.stages.imageGeneration
+
+    if (imagePrompt !== undefined && typeof imagePrompt !== 'string') {
+      throw Object.assign(new Error('imagePrompt must be a string'), { status: 400 })
+    }
+    if (imagePrompt?.trim()) {
+      stage.reviewPrompt = imagePrompt.trim()
+    }
+    stage.status = 'pending'
+    stage.progress = 0
+
+    return this.resumeAfterSelection(pipeline)
+  }
+
+  async loadPipelineAwaitingSelection(pipelineId) {
+    const pipeline = await this.loadPipeline(pipelineId)
+    if (pipeline.status !== 'awaiting-selection' || this.pipelineRuns.has(pipelineId)) {
+      throw Object.assign(new Error(`Pipeline ${pipelineId} is not awaiting a concept art selection`), { status: 409 })
+    }
+    return pipeline
+  }
+
+  async resumeAfterSelection(pipeline) {
+    pipeline.status = 'processing'
+    this.activePipelines.set(pipeline.id, pipeline)
+    await this.persistPipeline(pipeline)
+    this.launchPipeline(pipeline)
+
+    return this.serializePipeline(pipeline)
+  }
+
+  /**
+   * The recipe an asset was generated with. Assets generated before recipes were recorded get
+   * one rebuilt from their metadata, marked `derived`.
+   */
+  async getRecipe(assetId) {
+    let metadata
+    try {
+      metadata = JSON.parse(await fs.readFile(path.join('gdd-assets', assetId, 'metadata.json'), 'utf-8'))
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Asset ${assetId} not found`)
+      }
+      throw error
+    }
+
+    if (metadata.isVariant || metadata.parentBaseModel) {
+      throw Object.assign(new Error('Only base models can be regenerated; regenerate the base or retexture the variant'), { status: 400 })
+    }
+
+    return metadata.generationRecipe || deriveRecipe(assetId, metadata)
+  }
+
+  /**
+   * Regenerate a base model from its recipe, optionally edited. Replaces the asset's model and
+   * metadata (the previous version stays in its revision history) and regenerates the
+   * recipe's material variants.
+   */
+  async regenerateAsset(assetId, edits = {}) {
+    const missingConfiguration = this.provider.getMissingConfiguration()
+    if (missingConfiguration.length > 0) {
+      throw new Error(`${missingConfiguration.join(' and ')} required for base regeneration`)
+    }
+
+    // A null recipe in the request body means no edits
+    const recipe = applyRecipeEdits(await this.getRecipe(assetId), edits ?? {})
+    const config = {
+      ...structuredClone(recipe.config),
+      assetId,
+      description: recipe.description,
+      quality: recipe.quality || undefined,
+      // The recipe already names the concept art to use
+      reviewConceptArt: false,
+      recipe: {
+        enhancedPrompt: recipe.enhancedPrompt,
+        imagePrompt: recipe.imagePrompt,
+        model: recipe.model
+      }
+    }
+
+    if (recipe.gameStyle) {
+      config.customPrompts = { ...config.customPrompts, gameStyle: recipe.gameStyle }
+    }
+
+    config.materialPresets = (config.materialPresets || []).map(preset => ({
+      ...preset,
+      stylePrompt: recipe.materialPrompts[preset.id] ?? preset.stylePrompt
+    }))
+
+    // Recipes keep no data URLs; a user-provided reference image lives on as the concept art
+    if (config.referenceImage && !config.referenceImage.url) {
+      const conceptArt = await fs.readFile(path.join('gdd-assets', assetId, 'concept-art.png'))
+      config.referenceImage = { source: 'data', dataUrl: `data:image/png;base64,${conceptArt.toString('base64')}` }
+    }
+
+    console.log(`🔄 Regenerating ${assetId} from its ${recipe.derived ? 'derived ' : ''}recipe`)
+    return this.startPipeline(config)
+  }
+
+  /**
+   * Everything needed to run a base model's generation again, stored as metadata.generationRecipe
+   */
+  buildRecipe(pipeline) {
+    const { recipe: _pinned, ...config } = pipeline.config
+    if (config.referenceImage) {
+      config.referenceImage = config.referenceImage.url
+        ? { source: 'url', url: config.referenceImage.url }
+        : { source: 'data' }
+    }
+
+    const imageGeneration = pipeline.results.imageGeneration || {}
+    const modelSettings = pipeline.stages.image3D.settings || {}
+
+    return {
+      version: RECIPE_VERSION,
+      recordedAt: new Date().toISOString(),
+      pipelineId: pipeline.id,
+      description: config.description,
+      enhancedPrompt: pipeline.results.promptOptimization?.optimizedPrompt || null,
+      imagePrompt: imageGeneration.imagePrompt || null,
+      gameStyle: imageGeneration.gameStyle || this.getGameStyle(pipeline),
+      quality: modelSettings.quality || config.quality || null,
+      model: {
+        aiModel: modelSettings.aiModel,
+        topology: modelSettings.topology,
+        targetPolycount: modelSettings.targetPolycount,
+        textureResolution: modelSettings.textureResolution,
+        enablePbr: modelSettings.enablePbr
+      },
+      materialPrompts: Object.fromEntries((config.materialPresets || []).map(preset => [preset.id, preset.stylePrompt])),
+      config
+    }
+  }
+
+  /**
+   * Every prompt and setting a pipeline would send to providers for a config, without calling any.
+   * GPT-4's answer can't be previewed, so with enhancement on the image prompt is shown as built
+   * from the description and marked `awaitsEnhancement`.
+   */
+  async previewPrompts(config) {
+    if (!config || typeof config.description !== 'string' || !config.description.trim()) {
+      throw Object.assign(new Error('A config with a description is required'), { status: 400 })
+    }
+
+    const pinnedPrompt = config.recipe?.enhancedPrompt
+    const enhancementEnabled = !pinnedPrompt && config.metadata?.useGPT4Enhancement !== false
+
+    let promptOptimization
+    let enhancementMissing = []
+    if (pinnedPrompt) {
+      promptOptimization = { status: 'replayed', optimizedPrompt: pinnedPrompt }
+    } else if (enhancementEnabled) {
+      const { backend, model, missingConfiguration } = await this.chatService.resolveTask('promptEnhancement')
+      enhancementMissing = missingConfiguration
+      promptOptimization = { status: 'enabled', model, backend, ...await this.buildEnhancementPrompts(config) }
+    } else {
+      promptOptimization = { status: 'skipped' }
+    }
+
+    const hasUserRef = !!(config.referenceImage && (config.referenceImage.url || config.referenceImage.dataUrl))
+    const gameStyle = this.getGameStyle({ config })
+    let imageGeneration
+    if (hasUserRef) {
+      imageGeneration = { status: 'skipped', reason: 'The reference image is used as the concept art' }
+    } else {
+      imageGeneration = {
+        status: 'enabled',
+        prompt: config.recipe?.imagePrompt || await this.buildImagePrompt(config, pinnedPrompt || config.description, gameStyle),
+        gameStyle,
+        awaitsEnhancement: enhancementEnabled && !config.recipe?.imagePrompt,
+        candidates: config.reviewConceptArt ? getConceptArtCandidateCount(config) : 1
+      }
+    }
+
+    const retexture = config.enableRetexturing
+      ? (config.materialPresets || []).map(preset => ({
+        materialId: preset.id,
+        displayName: preset.displayName,
+        textStylePrompt: preset.stylePrompt,
+        ...RETEXTURE_SETTINGS
+      }))
+      : []
+
+    return {
+      promptOptimization,
+      imageGeneration,
+      model: this.resolveModelSettings(config),
+      retexture,
+      missingConfiguration: [...new Set([...enhancementMissing, ...this.provider.getMissingConfiguration()])],
+      lint: lintGenerationPrompts({ config, imagePrompt: imageGeneration.prompt, gameStyle })
+    }
+  }
+
+  /**
+   * Wait between provider polls, waking early if the pipeline is cancelled
+   */
+  async waitForPoll(signal, pipelineId, ms) {
+    this.throwIfCancelled(signal, pipelineId)
+    await new Promise(resolve => {
+      const timer = setTimeout(done, ms)
+      function done() {
+        clearTimeout(timer)
+        signal.removeEventListener('abort', done)
+        resolve()
+      }
+      signal.addEventListener('abort', done)
+    })
+    this.throwIfCancelled(signal, pipelineId)
+  }
+
+  throwIfCancelled(signal, pipelineId) {
+    if (signal.aborted) {
+      throw new PipelineCancelledError(pipelineId)
+    }
+  }
+
+  /**
+   * Write the current pipeline state to disk and notify subscribers
+   */
+  async persistPipeline(pipeline) {
+    await this.pipelineStore.save(pipeline)
+    this.notifyPipeline(pipeline)
+  }
+
+  /**
+   * Emit the current pipeline status to progress stream subscribers
+   */
+  notifyPipeline(pipeline) {
+    this.emit('pipeline:update', this.serializePipeline(pipeline))
+  }
+
+  /**
+   * Public view of a pipeline as returned by the status endpoints
+   */
+  serializePipeline(pipeline) {
+    return {
+      id: pipeline.id,
+      status: pipeline.status,
+      progress: pipeline.progress,
+      stages: pipeline.stages,
+      results: pipeline.results,
+      error: pipeline.error,
+      createdAt: pipeline.createdAt,
+      completedAt: pipeline.completedAt
+    }
+  }
+
   /**
    * Get pipeline status
    */
   async getPipelineStatus(pipelineId) {
-    const pipeline = this.activePipelines.get(pipelineId)
-    
+    return this.serializePipeline(await this.loadPipeline(pipelineId))
+  }
+
+  /**
+   * A pipeline from memory, or from disk after a restart
+   */
+  async loadPipeline(pipelineId) {
+    const pipeline = this.activePipelines.get(pipelineId) || await this.pipelineStore.load(pipelineId)
+
     if (!pipeline) {
       throw new Error(`Pipeline ${pipelineId} not found`)
     }
-    
+
+    return pipeline
+  }
+
+  /**
+   * Process a pipeline through all stages, skipping any already finished
+   */
+  async processPipeline(pipelineId, signal) {
+    const pipeline = this.activePipelines.get(pipelineId)
+    if (!pipeline) return
+
+    try {
+      pipeline.status = 'processing'
+      await this.persistPipeline(pipeline)
+
+      // Stage 1: GPT-4 Prompt Enhancement
+      if (!this.isStageSettled(pipeline, 'promptOptimization')) {
+        this.throwIfCancelled(signal, pipelineId)
+        await this.runPromptOptimization(pipeline)
+      }
+
+      // Stage 2: Image Source (User-provided or AI-generated)
+      if (!this.isStageSettled(pipeline, 'imageGeneration')) {
+        this.throwIfCancelled(signal, pipelineId)
+        await this.runImageGeneration(pipeline, signal)
+      }
+
+      // Review mode stops here until a candidate is picked or another round is requested
+      if (pipeline.stages.imageGeneration.status === 'awaiting-selection') {
+        pipeline.status = 'awaiting-selection'
+        await this.persistPipeline(pipeline)
+        return
+      }
+
+      // Stage 3: Image to 3D with Meshy AI
+      if (!this.isStageSettled(pipeline, 'image3D')) {
+        this.throwIfCancelled(signal, pipelineId)
+        await this.runImageTo3D(pipeline, signal)
+      }
+
+      // Stage 4: Material Variant Generation (Retexturing)
+      if (!this.isStageSettled(pipeline, 'textureGeneration')) {
+        this.throwIfCancelled(signal, pipelineId)
+        await this.runTextureGeneration(pipeline, signal)
+      }
+
+      // Stage 5: Auto-Rigging (for avatars only)
+      if (pipeline.stages.rigging && !this.isStageSettled(pipeline, 'rigging') && this.getMeshyTaskId(pipeline)) {
+        this.throwIfCancelled(signal, pipelineId)
+        await this.runRigging(pipeline, signal)
+      }
+
+      // Complete
+      pipeline.status = 'completed'
+      pipeline.completedAt = new Date().toISOString()
+      pipeline.progress = 100
+
+      // Compile final asset info
+      pipeline.finalAsset = {
+        id: pipeline.config.assetId,
+        name: pipeline.config.name,
+        modelUrl: `/assets/${pipeline.config.assetId}/${pipeline.config.assetId}.glb`,
+        conceptArtUrl: `/assets/${pipeline.config.assetId}/concept-art.png`,
+        variants: pipeline.results.textureGeneration?.variants || []
+      }
+
+      await this.persistPipeline(pipeline)
+
+    } catch (error) {
+      // A stage may fail in its own way after the cancellation aborted it
+      if (error instanceof PipelineCancelledError || signal.aborted) {
+        const cancelledError = error instanceof PipelineCancelledError ? error : signal.reason
+        this.markCancelled(pipeline, cancelledError)
+        await this.persistPipeline(pipeline)
+        throw cancelledError
+      }
+      pipeline.status = 'failed'
+      pipeline.error = error.message
+      await this.persistPipeline(pipeline)
+      throw error
+    }
+  }
+
+  /**
+   * Mark a pipeline cancelled, along with the stage that was interrupted (or about to start) so it can be retried
+   */
+  markCancelled(pipeline, error) {
+    const interrupted = PIPELINE_STAGES.find(name => pipeline.stages[name]?.status === 'processing') ||
+      PIPELINE_STAGES.find(name => pipeline.stages[name]?.status === 'pending')
+    if (interrupted) {
+      pipeline.stages[interrupted].status = 'cancelled'
+    }
+    pipeline.status = 'cancelled'
+    pipeline.error = error.message
+  }
+
+  /**
+   * Whether a stage has finished and should not be run again
+   */
+  isStageSettled(pipeline, stageName) {
+    const status = pipeline.stages[stageName]?.status
+    return status === 'completed' || status === 'skipped'
+  }
+
+  /**
+   * Prompt produced by stage 1, or the raw description when it was skipped
+   */
+  getEnhancedPrompt(pipeline) {
+    return pipeline.results.promptOptimization?.optimizedPrompt || pipeline.config.description
+  }
+
+  /**
+   * Style text sent with the image prompt: the custom game style prompt when set
+   */
+  getGameStyle(pipeline) {
+    return pipeline.config.customPrompts?.gameStyle || pipeline.config.style || 'game-ready'
+  }
+
+  /**
+   * Concept image produced by stage 2, or the user-provided reference image
+   */
+  getImageUrl(pipeline) {
+    const referenceImage = pipeline.config.referenceImage
+    return pipeline.results.imageGeneration?.imageUrl || referenceImage?.dataUrl || referenceImage?.url
+  }
+
+  /**
+   * Meshy image-to-3D task backing the base model
+   */
+  getMeshyTaskId(pipeline) {
+    return pipeline.results.image3D?.taskId || null
+  }
+
+  /**
+   * Stage 1: GPT-4 prompt enhancement (honor toggle; skip if explicitly disabled)
+   */
+  async runPromptOptimization(pipeline) {
+    // Regenerating from a recipe replays its enhanced prompt instead of asking GPT-4 again
+    const pinnedPrompt = pipeline.config.recipe?.enhancedPrompt
+    if (pinnedPrompt) {
+      const result = { originalPrompt: pipeline.config.description, optimizedPrompt: pinnedPrompt, fromRecipe: true }
+      pipeline.stages.promptOptimization = { status: 'completed', progress: 100, result }
+      pipeline.results.promptOptimization = result
+      pipeline.progress = 10
+      await this.persistPipeline(pipeline)
+      return
+    }
+
+    if (pipeline.config.metadata?.useGPT4Enhancement === false) {
+      pipeline.stages.promptOptimization.status = 'skipped'
+      await this.persistPipeline(pipeline)
+      return
+    }
+
+    pipeline.stages.promptOptimization.status = 'processing'
+
+    try {
+      const optimizationResult = await this.enhancePromptWithGPT4(pipeline.config)
+
+      pipeline.stages.promptOptimization.status = 'completed'
+      pipeline.stages.promptOptimization.progress = 100
+      pipeline.stages.promptOptimization.result = optimizationResult
+      pipeline.results.promptOptimization = optimizationResult
+    } catch (error) {
+      console.warn('GPT-4 enhancement failed, using original prompt:', error)
+      pipeline.stages.promptOptimization.status = 'completed'
+      pipeline.stages.promptOptimization.progress = 100
+      pipeline.stages.promptOptimization.result = {
+        originalPrompt: pipeline.config.description,
+        optimizedPrompt: pipeline.config.description,
+        error: error.message
+      }
+    }
+
+    pipeline.progress = 10
+    await this.persistPipeline(pipeline)
+  }
+
+  /**
+   * Stage 2: Image source (user-provided or AI-generated)
+   */
+  async runImageGeneration(pipeline, signal) {
+    const enhancedPrompt = this.getEnhancedPrompt(pipeline)
+    const hasUserRef = !!(pipeline.config.referenceImage && (pipeline.config.referenceImage.url || pipeline.config.referenceImage.dataUrl))
+    if (hasUserRef) {
+      // Use user-provided reference image; skip auto image generation
+      pipeline.stages.imageGeneration.status = 'skipped'
+      pipeline.stages.imageGeneration.progress = 0
+      pipeline.stages.imageGeneration.result = { source: 'user-provided' }
+      pipeline.results.imageGeneration = pipeline.stages.imageGeneration.result
+      pipeline.progress = 20
+      await this.persistPipeline(pipeline)
+      return
+    }
+
+    pipeline.stages.imageGeneration.status = 'processing'
+
+    try {
+      const effectiveStyle = this.getGameStyle(pipeline)
+      let imagePrompt = await this.buildImagePrompt(pipeline.config, enhancedPrompt, effectiveStyle)
+
+      // A recipe's image prompt is replayed as-is, as is a prompt tweaked during concept art review
+      const pinnedImagePrompt = pipeline.stages.imageGeneration.reviewPrompt || pipeline.config.recipe?.imagePrompt
+      if (pinnedImagePrompt) {
+        imagePrompt = pinnedImagePrompt
+      }
+
+      if (pipeline.config.reviewConceptArt) {
+        await this.generateConceptArtCandidates(pipeline, imagePrompt, effectiveStyle, signal)
+        return
+      }
+
+      const imageResult = await this.provider.generateImage(
+        imagePrompt,
+        pipeline.config.type,
+        effectiveStyle,
+        { signal }
+      )
+
+      // Keep the prompt and style actually sent for the generation recipe
+      const result = { ...imageResult, imagePrompt, gameStyle: effectiveStyle }
+      pipeline.stages.imageGeneration.status = 'completed'
+      pipeline.stages.imageGeneration.progress = 100
+      pipeline.stages.imageGeneration.result = result
+      pipeline.results.imageGeneration = result
+      pipeline.progress = 25
+      await this.persistPipeline(pipeline)
+    } catch (error) {
+      if (error instanceof PipelineCancelledError || signal.aborted) throw error
+      console.error('Image generation failed:', error)
+      pipeline.stages.imageGeneration.status = 'failed'
+      pipeline.stages.imageGeneration.error = error.message
+      throw error
+    }
+  }
+
+  /**
+   * Stage 2 in review mode: a round of candidate images saved to the asset folder for the user to pick from
+   */
+  async generateConceptArtCandidates(pipeline, imagePrompt, gameStyle, signal) {
+    const stage = pipeline.stages.imageGeneration
+    const { assetId } = pipeline.config
+    const count = getConceptArtCandidateCount(pipeline.config)
+    const round = (stage.round || 0) + 1
+    const candidatesDir = path.join('gdd-assets', assetId, CONCEPT_ART_CANDIDATES_DIR)
+    await fs.mkdir(candidatesDir, { recursive: true })
+
+    // Recorded up front and saved after each image, so a round cancelled halfway still lists
+    // the files it wrote and a retried round doesn't reuse their names
+    const candidates = stage.candidates || []
+    stage.candidates = candidates
+    stage.round = round
+    for (let i = 1; i <= count; i++) {
+      this.throwIfCancelled(signal, pipeline.id)
+      const { imageUrl } = await this.provider.generateImage(imagePrompt, pipeline.config.type, gameStyle, { signal })
+      const image = imageUrl.startsWith('data:')
+        ? Buffer.from(imageUrl.split(',')[1], 'base64')
+        : await this.downloadFile(imageUrl)
+
+      const file = `round-${round}-${i}.png`
+      await fs.writeFile(path.join(candidatesDir, file), image)
+      candidates.push({
+        id: `${round}-${i}`,
+        round,
+        file,
+        url: `/api/assets/${assetId}/${CONCEPT_ART_CANDIDATES_DIR}/${file}`,
+        imagePrompt
+      })
+
+      stage.progress = Math.round(i / count * 100)
+      await this.persistPipeline(pipeline)
+    }
+
+    stage.status = 'awaiting-selection'
+    stage.imagePrompt = imagePrompt
+    stage.gameStyle = gameStyle
+    pipeline.progress = 20
+  }
+
+  /**
+   * Image prompt sent to the image provider, built from the enhanced prompt
+   */
+  async buildImagePrompt(config, enhancedPrompt, gameStyle) {
+    const generationPrompts = await getGenerationPrompts()
+
+    // For avatars, ensure T-pose is in the prompt
+    // For armor, ensure it's standalone with hollow openings
+    // Also, if HQ cues are present, sanitize prompt from low-poly cues and add HQ details
+    const wantsHQPrompt = HIGH_QUALITY_STYLE_PATTERN.test(gameStyle)
+    let imagePrompt = enhancedPrompt
+    if (wantsHQPrompt) {
+      imagePrompt = imagePrompt
+        .replace(LOW_POLY_PATTERN, '')
+        .trim()
+      imagePrompt = `${imagePrompt} highly detailed, realistic, sharp features, high-resolution textures`
+    }
+    if (config.generationType === 'avatar' || config.type === 'character') {
+      const tposePrompt = generationPrompts?.posePrompts?.avatar?.tpose || 'standing in T-pose with arms stretched out horizontally'
+      imagePrompt = `${enhancedPrompt} ${tposePrompt}`
+    } else if (config.type === 'armor') {
+      const isChest = config.subtype?.toLowerCase().includes('chest') || config.subtype?.toLowerCase().includes('body')
+      if (isChest) {
+        const chestPrompt = generationPrompts?.posePrompts?.armor?.chest || 'floating chest armor SHAPED FOR T-POSE BODY - shoulder openings must point STRAIGHT OUT SIDEWAYS at 90 degrees like a scarecrow (NOT angled down), wide "T" shape when viewed from front, ends at shoulders with no arm extensions, torso-only armor piece, hollow shoulder openings pointing horizontally, no armor stand'
+        imagePrompt = `${enhancedPrompt} ${chestPrompt}`
+      } else {
+        const genericArmorPrompt = generationPrompts?.posePrompts?.armor?.generic || 'floating armor piece shaped for T-pose body fitting, openings positioned at correct angles for T-pose (horizontal for shoulders), hollow openings, no armor stand or mannequin'
+        imagePrompt = `${enhancedPrompt} ${genericArmorPrompt}`
+      }
+    }
+
+    return imagePrompt
+  }
+
+  /**
+   * Meshy image-to-3D settings a config resolves to
+   */
+  resolveModelSettings(config) {
+    // Determine quality settings based on explicit config, style cues, and avatar type
+    const styleText = (config.customPrompts && config.customPrompts.gameStyle) || ''
+    const wantsHighQuality = /\b(4k|ultra|high\s*quality|realistic|cinematic|marvel|skyrim)\b/i.test(styleText)
+    const isAvatar = config.generationType === 'avatar' || config.type === 'character'
+
+    const quality = config.quality || (wantsHighQuality || isAvatar ? 'ultra' : 'standard')
+    const qualityUpper = quality.toUpperCase()
+
+    // Model settings replayed from a recipe win over the quality defaults
+    const pinnedModel = config.recipe?.model || {}
+    const targetPolycount = pinnedModel.targetPolycount || (quality === 'ultra' ? 20000 : quality === 'high' ? 12000 : 6000)
+    const textureResolution = pinnedModel.textureResolution || (quality === 'ultra' ? 4096 : quality === 'high' ? 2048 : 1024)
+    const enablePbr = pinnedModel.enablePbr ?? quality !== 'standard'
+
+    // Allow per-quality model selection via env, with a sensible default
+    const aiModelEnv = process.env[`MESHY_MODEL_${qualityUpper}`] || process.env.MESHY_MODEL_DEFAULT
+    const aiModel = pinnedModel.aiModel || aiModelEnv || 'meshy-5'
+    return { quality, aiModel, topology: 'quad', targetPolycount, textureResolution, enablePbr }
+  }
+
+  /**
+   * Stage 3: Image to 3D with Meshy AI.
+   * A task ID recorded before a restart is polled again instead of starting a new task.
+   */
+  async runImageTo3D(pipeline, signal) {
+    const stage = pipeline.stages.image3D
+    const imageUrl = this.getImageUrl(pipeline)
+    stage.status = 'processing'
+    let job
+
+    try {
+      stage.settings = this.resolveModelSettings(pipeline.config)
+      const { quality, aiModel, targetPolycount, textureResolution, enablePbr } = stage.settings
+      const qualityUpper = quality.toUpperCase()
+
+      job = await this.jobQueue.acquire({
+        provider: this.provider.name,
+        type: 'image3D',
+        label: pipeline.config.assetId,
+        signal
+      })
+
+      if (stage.taskId) {
+        console.log(`🔁 Resuming Meshy polling for task ${stage.taskId}`)
+      } else {
+        const imageUrlForProvider = this.provider.requiresPublicImageUrl
+          ? await this.getPublicImageUrl(pipeline, imageUrl)
+          : imageUrl
+
+        stage.taskId = await job.request(() => this.provider.startImageTo3D(imageUrlForProvider, {
+          enable_pbr: enablePbr,
+          ai_model: aiModel,
+          topology: stage.settings.topology,
+          targetPolycount: targetPolycount,
+          texture_resolution: textureResolution
+        }), { idempotent: false })
+
+        // Record the task before polling so a restart can resume it
+        await this.persistPipeline(pipeline)
+      }
+
+      const meshyTaskId = stage.taskId
+
+      // Poll for completion
+      let meshyResult = null
+      let attempts = 0
+      const pollIntervalMs = parseInt(process.env.MESHY_POLL_INTERVAL_MS || '5000', 10)
+      const timeoutMs = parseInt(
+        (process.env[`MESHY_TIMEOUT_${qualityUpper}_MS`] || process.env.MESHY_TIMEOUT_MS || '300000'),
+        10
+      )
+      const maxAttempts = Math.max(1, Math.ceil(timeoutMs / pollIntervalMs))
+
+      console.log(`⏳ Meshy polling configured: quality=${quality}, model=${aiModel}, interval=${pollIntervalMs}ms, timeout=${timeoutMs}ms, maxAttempts=${maxAttempts}`)
+
+      while (attempts < maxAttempts) {
+        await this.waitForPoll(signal, pipeline.id, pollIntervalMs)
+
+        const status = await job.request(() => this.provider.getImageTo3DStatus(meshyTaskId))
+        stage.progress = status.progress || (attempts / maxAttempts * 100)
+        this.notifyPipeline(pipeline)
+
+        if (status.status === 'SUCCEEDED') {
+          meshyResult = status
+          break
+        } else if (status.status === 'FAILED') {
+          throw new Error(status.error || 'Meshy conversion failed')
+        }
+
+        attempts++
+      }
+
+      if (!meshyResult) {
+        throw new Error('Meshy conversion timed out')
+      }
+
+      // Download and save the model
+      const modelBuffer = await job.request(() => this.downloadFile(meshyResult.model_urls.glb))
+      job.release()
+      const outputDir = path.join('gdd-assets', pipeline.config.assetId)
+      await this.revisionService.recordBaseline(pipeline.config.assetId)
+      await fs.mkdir(outputDir, { recursive: true })
+
+      // Save raw model first
+      const rawModelPath = path.join(outputDir, `${pipeline.config.assetId}_raw.glb`)
+      await fs.writeFile(rawModelPath, modelBuffer)
+
+      // Normalize the model based on type
+      let normalizedModelPath = path.join(outputDir, `${pipeline.config.assetId}.glb`)
+
+      if (pipeline.config.type === 'character') {
+        // Normalize character height
+        console.log('🔧 Normalizing character model...')
+        try {
+          const { AssetNormalizationService } = await import('../../dist/services/processing/AssetNormalizationService.js')
+          const normalizer = new AssetNormalizationService()
+
+          const targetHeight = pipeline.config.metadata?.characterHeight ||
+                             pipeline.config.riggingOptions?.heightMeters ||
+                             1.83
+
+          const normalized = await normalizer.normalizeCharacter(rawModelPath, targetHeight)
+          await fs.writeFile(normalizedModelPath, Buffer.from(normalized.glb))
+
+          console.log(`✅ Character normalized to ${targetHeight}m height`)
+
+          // Update with normalized dimensions
+          stage.normalized = true
+          stage.dimensions = normalized.metadata.dimensions
+        } catch (error) {
+          console.warn('⚠️ Normalization failed, using raw model:', error.message)
+          await fs.copyFile(rawModelPath, normalizedModelPath)
+        }
+      } else if (pipeline.config.type === 'weapon') {
+        // Normalize weapon with grip at origin
+        console.log('🔧 Normalizing weapon model...')
+        try {
+          const { WeaponHandleDetector } = await import('../../dist/services/processing/WeaponHandleDetector.js')
+          const detector = new WeaponHandleDetector()
+
+          const result = await detector.exportNormalizedWeapon(rawModelPath, normalizedModelPath)
+
+          console.log(`✅ Weapon normalized with grip at origin`)
+
+          // Update with normalized dimensions
+          stage.normalized = true
+          stage.dimensions = result.dimensions
+        } catch (error) {
+          console.warn('⚠️ Weapon normalization failed, using raw model:', error.message)
+          await fs.copyFile(rawModelPath, normalizedModelPath)
+        }
+      } else {
+        // For other types, just copy for now
+        await fs.copyFile(rawModelPath, normalizedModelPath)
+      }
+
+      const baseModelPath = normalizedModelPath
+
+      // Save concept art
+      if (imageUrl.startsWith('data:')) {
+        const imageData = imageUrl.split(',')[1]
+        const imageBuffer = Buffer.from(imageData, 'base64')
+        await fs.writeFile(path.join(outputDir, 'concept-art.png'), imageBuffer)
+      }
+
+      // Regenerating keeps the links to variants made before
+      const previousMetadata = await fs.readFile(path.join(outputDir, 'metadata.json'), 'utf-8')
+        .then(JSON.parse)
+        .catch(() => null)
+
+      // Save metadata - EXACT structure from arrows-base reference
+      const metadata = {
+        name: pipeline.config.assetId,
+        gameId: pipeline.config.assetId,
+        type: pipeline.config.type,
+        subtype: pipeline.config.subtype,
+        description: pipeline.config.description,
+        detailedPrompt: this.getEnhancedPrompt(pipeline),
+        generatedAt: new Date().toISOString(),
+        completedAt: new Date().toISOString(),
+        isBaseModel: true,
+        materialVariants: pipeline.config.materialPresets ?
+          pipeline.config.materialPresets.map(preset => preset.id) : [],
+        isPlaceholder: false,
+        hasModel: true,
+        hasConceptArt: true,
+        modelPath: baseModelPath,
+        conceptArtUrl: './concept-art.png',
+        gddCompliant: true,
+        workflow: 'GPT-4 → GPT-Image-1 → Meshy Image-to-3D (Base Model)',
+        meshyTaskId: meshyTaskId,
+        meshyStatus: 'completed',
+        variants: previousMetadata?.variants || [],  // Will be populated as variants are generated
+        variantCount: previousMetadata?.variants?.length || 0,
+        lastVariantGenerated: previousMetadata?.lastVariantGenerated || null,
+        updatedAt: new Date().toISOString(),
+        // Normalization info
+        normalized: stage.normalized || false,
+        normalizationDate: stage.normalized ? new Date().toISOString() : undefined,
+        dimensions: stage.dimensions || undefined,
+        ...pickGameData(pipeline.config.metadata),
+        ...this.describeConceptArtCandidates(pipeline),
+        generationRecipe: this.buildRecipe(pipeline)
+      }
+
+      await writeAssetMetadata(path.join(outputDir, 'metadata.json'), metadata)
+      await this.revisionService.record(pipeline.config.assetId, 'generate', { pipelineId: pipeline.id })
+
+      stage.status = 'completed'
+      stage.progress = 100
+      stage.result = {
+        taskId: meshyTaskId,
+        modelUrl: meshyResult.model_urls.glb,
+        polycount: meshyResult.polycount,
+        localPath: baseModelPath
+      }
+      pipeline.results.image3D = stage.result
+      pipeline.progress = 50
+      await this.persistPipeline(pipeline)
+
+    } catch (error) {
+      if (error instanceof PipelineCancelledError) throw error
+      console.error('Image to 3D conversion failed:', error)
+      stage.status = 'failed'
+      stage.error = error.message
+      throw error
+    } finally {
+      job?.release()
+    }
+  }
+
+  /**
+   * Concept art candidates kept from review mode, as recorded in metadata.json
+   */
+  describeConceptArtCandidates(pipeline) {
+    const { candidates, selectedCandidate } = pipeline.stages.imageGeneration
+    if (!candidates?.length) return {}
+
     return {
-      id: pipeline.id,
-      status: pipeline.status,
-      progress: pipeline.progress,
-      stages: pipeline.stages,
-      results: pipeline.results,
-      error: pipeline.error,
-      createdAt: pipeline.createdAt,
-      completedAt: pipeline.completedAt
+      conceptArtCandidates: candidates.map(candidate => ({
+        file: `${CONCEPT_ART_CANDIDATES_DIR}/${candidate.file}`,
+        round: candidate.round,
+        imagePrompt: candidate.imagePrompt,
+        selected: candidate.id === selectedCandidate
+      }))
     }
   }
 
   /**
-   * Process a pipeline through all stages
+   * Meshy can't read data URIs or local URLs - save and rehost the concept art if needed
    */
-  async processPipeline(pipelineId) {
-    const pipeline = this.activePipelines.get(pipelineId)
-    if (!pipeline) return
-    
-    try {
-      pipeline.status = 'processing'
-      let enhancedPrompt = pipeline.config.description
-      let imageUrl = null
-      let meshyTaskId = null
-      let baseModelPath = null
-      
-      // Stage 1: GPT-4 Prompt Enhancement (honor toggle; skip if explicitly disabled)
-      if (pipeline.config.metadata?.useGPT4Enhancement !== false) {
-        pipeline.stages.promptOptimization.status = 'processing'
-        
-        try {
-          const optimizationResult = await this.enhancePromptWithGPT4(pipeline.config)
-          enhancedPrompt = optimizationResult.optimizedPrompt
-          
-          pipeline.stages.promptOptimization.status = 'completed'
-          pipeline.stages.promptOptimization.progress = 100
-          pipeline.stages.promptOptimization.result = optimizationResult
-          pipeline.results.promptOptimization = optimizationResult
-        } catch (error) {
-          console.warn('GPT-4 enhancement failed, using original prompt:', error)
-          pipeline.stages.promptOptimization.status = 'completed'
-          pipeline.stages.promptOptimization.progress = 100
-          pipeline.stages.promptOptimization.result = {
-            originalPrompt: pipeline.config.description,
-            optimizedPrompt: pipeline.config.description,
-            error: error.message
-          }
-        }
-        
-        pipeline.progress = 10
+  async getPublicImageUrl(pipeline, imageUrl) {
+    // Save image to disk first if it's a data URL
+    let imageUrlForMeshy = imageUrl
+    if (imageUrl.startsWith('data:')) {
+      const imageData = imageUrl.split(',')[1]
+      const imageBuffer = Buffer.from(imageData, 'base64')
+      const imagePath = path.join('temp-images', `${pipeline.config.assetId}-concept.png`)
+      await fs.mkdir('temp-images', { recursive: true })
+      await fs.writeFile(imagePath, imageBuffer)
+
+      // If we have an image server, use it
+      if (process.env.IMAGE_SERVER_URL) {
+        imageUrlForMeshy = `${process.env.IMAGE_SERVER_URL}/${path.basename(imagePath)}`
       } else {
-        pipeline.stages.promptOptimization.status = 'skipped'
+        // Need to upload to a public URL for Meshy
+        console.warn('No IMAGE_SERVER_URL configured, Meshy needs a public URL')
       }
-      
-      // Stage 2: Image Source (User-provided or AI-generated)
-      const hasUserRef = !!(pipeline.config.referenceImage && (pipeline.config.referenceImage.url || pipeline.config.referenceImage.dataUrl))
-      if (hasUserRef) {
-        // Use user-provided reference image; skip auto image generation
-        imageUrl = pipeline.config.referenceImage.dataUrl || pipeline.config.referenceImage.url
-        pipeline.stages.imageGeneration.status = 'skipped'
-        pipeline.stages.imageGeneration.progress = 0
-        pipeline.stages.imageGeneration.result = { source: 'user-provided' }
-        pipeline.results.imageGeneration = pipeline.stages.imageGeneration.result
-        pipeline.progress = 20
-      } else {
-        pipeline.stages.imageGeneration.status = 'processing'
-        
-        try {
-          // Load generation prompts
-          const generationPrompts = await getGenerationPrompts()
-          
-          // For avatars, ensure T-pose is in the prompt
-          // For armor, ensure it's standalone with hollow openings
-          // Build effective style text from custom prompts when available
-          // Also, if HQ cues are present, sanitize prompt from low-poly cues and add HQ details
-          const effectiveStyle = (pipeline.config.customPrompts && pipeline.config.customPrompts.gameStyle)
-            ? pipeline.config.customPrompts.gameStyle
-            : (pipeline.config.style || 'game-ready')
-
-          const wantsHQPrompt = /\b(4k|ultra|high\s*quality|realistic|cinematic|photoreal|pbr)\b/i.test(effectiveStyle)
-          let imagePrompt = enhancedPrompt
-          if (wantsHQPrompt) {
-            imagePrompt = imagePrompt
-              .replace(/\b(low-?poly|stylized|minimalist|blocky|simplified)\b/gi, '')
-              .trim()
-            imagePrompt = `${imagePrompt} highly detailed, realistic, sharp features, high-resolution textures`
-          }
-          if (pipeline.config.generationType === 'avatar' || pipeline.config.type === 'character') {
-            const tposePrompt = generationPrompts?.posePrompts?.avatar?.tpose || 'standing in T-pose with arms stretched out horizontally'
-            imagePrompt = `${enhancedPrompt} ${tposePrompt}`
-          } else if (pipeline.config.type === 'armor') {
-            const isChest = pipeline.config.subtype?.toLowerCase().includes('chest') || pipeline.config.subtype?.toLowerCase().includes('body')
-            if (isChest) {
-              const chestPrompt = generationPrompts?.posePrompts?.armor?.chest || 'floating chest armor SHAPED FOR T-POSE BODY - shoulder openings must point STRAIGHT OUT SIDEWAYS at 90 degrees like a scarecrow (NOT angled down), wide "T" shape when viewed from front, ends at shoulders with no arm extensions, torso-only armor piece, hollow shoulder openings pointing horizontally, no armor stand'
-              imagePrompt = `${enhancedPrompt} ${chestPrompt}`
-            } else {
-              const genericArmorPrompt = generationPrompts?.posePrompts?.armor?.generic || 'floating armor piece shaped for T-pose body fitting, openings positioned at correct angles for T-pose (horizontal for shoulders), hollow openings, no armor stand or mannequin'
-              imagePrompt = `${enhancedPrompt} ${genericArmorPrompt}`
-            }
-          }
-            
-          const imageResult = await this.aiService.imageService.generateImage(
-            imagePrompt,
-            pipeline.config.type,
-            effectiveStyle
-          )
-          
-          imageUrl = imageResult.imageUrl
-          
-          pipeline.stages.imageGeneration.status = 'completed'
-          pipeline.stages.imageGeneration.progress = 100
-          pipeline.stages.imageGeneration.result = imageResult
-          pipeline.results.imageGeneration = imageResult
-          pipeline.progress = 25
-        } catch (error) {
-          console.error('Image generation failed:', error)
-          pipeline.stages.imageGeneration.status = 'failed'
-          pipeline.stages.imageGeneration.error = error.message
-          throw error
-        }
+    }
+
+    // Ensure we have a publicly accessible URL for Meshy
+    console.log('📸 Initial image URL:', imageUrlForMeshy)
+
+    // Meshy can't access localhost, 127.0.0.1, or data URIs - rehost if needed
+    if (
+      imageUrlForMeshy.startsWith('data:') ||
+      imageUrlForMeshy.includes('localhost') ||
+      imageUrlForMeshy.includes('127.0.0.1')
+    ) {
+      console.warn('⚠️ Non-public image reference detected - uploading to public hosting...')
+
+      // Use the image hosting service to get a public URL
+      try {
+        imageUrlForMeshy = await this.imageHostingService.uploadImage(imageUrl)
+        console.log('✅ Image uploaded to public URL:', imageUrlForMeshy)
+      } catch (uploadError) {
+        console.error('❌ Failed to upload image:', uploadError.message)
+        console.log(ImageHostingService.getSetupInstructions())
+        throw new Error('Cannot make image publicly accessible. See instructions above.')
       }
-      
-      // Stage 3: Image to 3D with Meshy AI
-      pipeline.stages.image3D.status = 'processing'
-      
+    }
+
+    return imageUrlForMeshy
+  }
+
+  /**
+   * Stage 4: Material variant generation (retexturing).
+   * Retexture task IDs are recorded per preset so a restart skips finished variants.
+   */
+  async runTextureGeneration(pipeline, signal) {
+    const stage = pipeline.stages.textureGeneration
+    if (!pipeline.config.enableRetexturing || !(pipeline.config.materialPresets?.length > 0)) {
+      stage.status = 'skipped'
+      await this.persistPipeline(pipeline)
+      return
+    }
+
+    const meshyTaskId = this.getMeshyTaskId(pipeline)
+    stage.status = 'processing'
+    stage.tasks = stage.tasks || {}
+    stage.variants = stage.variants || []
+
+    const variants = stage.variants
+    const totalVariants = pipeline.config.materialPresets.length
+
+    for (let i = 0; i < totalVariants; i++) {
+      const preset = pipeline.config.materialPresets[i]
+      const variantId = `${pipeline.config.assetId}-${preset.id}`
+
+      // Already attempted before a restart
+      if (variants.some(v => v.id === variantId)) {
+        continue
+      }
+
+      let job
       try {
-        // Save image to disk first if it's a data URL
-        let imageUrlForMeshy = imageUrl
-        if (imageUrl.startsWith('data:')) {
-          const imageData = imageUrl.split(',')[1]
-          const imageBuffer = Buffer.from(imageData, 'base64')
-          const imagePath = path.join('temp-images', `${pipeline.config.assetId}-concept.png`)
-          await fs.mkdir('temp-images', { recursive: true })
-          await fs.writeFile(imagePath, imageBuffer)
-          
-          // If we have an image server, use it
-          if (process.env.IMAGE_SERVER_URL) {
-            imageUrlForMeshy = `${process.env.IMAGE_SERVER_URL}/${path.basename(imagePath)}`
-          } else {
-            // Need to upload to a public URL for Meshy
-            console.warn('No IMAGE_SERVER_URL configured, Meshy needs a public URL')
-          }
-        }
-        
-        // Ensure we have a publicly accessible URL for Meshy
-        console.log('📸 Initial image URL:', imageUrlForMeshy)
-        
-        // Meshy can't access localhost, 127.0.0.1, or data URIs - rehost if needed
-        if (
-          imageUrlForMeshy.startsWith('data:') ||
-          imageUrlForMeshy.includes('localhost') ||
-          imageUrlForMeshy.includes('127.0.0.1')
-        ) {
-          console.warn('⚠️ Non-public image reference detected - uploading to public hosting...')
-          
-          // Use the image hosting service to get a public URL
-          try {
-            imageUrlForMeshy = await this.imageHostingService.uploadImage(imageUrl)
-            console.log('✅ Image uploaded to public URL:', imageUrlForMeshy)
-          } catch (uploadError) {
-            console.error('❌ Failed to upload image:', uploadError.message)
-            console.log(ImageHostingService.getSetupInstructions())
-            throw new Error('Cannot make image publicly accessible. See instructions above.')
-          }
-        }
-        
-        // Determine quality settings based on explicit config, style cues, and avatar type
-        const styleText = (pipeline.config.customPrompts && pipeline.config.customPrompts.gameStyle) || ''
-        const wantsHighQuality = /\b(4k|ultra|high\s*quality|realistic|cinematic|marvel|skyrim)\b/i.test(styleText)
-        const isAvatar = pipeline.config.generationType === 'avatar' || pipeline.config.type === 'character'
-
-        const quality = pipeline.config.quality || (wantsHighQuality || isAvatar ? 'ultra' : 'standard')
-        const targetPolycount = quality === 'ultra' ? 20000 : quality === 'high' ? 12000 : 6000
-        const textureResolution = quality === 'ultra' ? 4096 : quality === 'high' ? 2048 : 1024
-        const enablePbr = quality !== 'standard'
-
-        // Allow per-quality model selection via env, with a sensible default
-        const qualityUpper = quality.toUpperCase()
-        const aiModelEnv = process.env[`MESHY_MODEL_${qualityUpper}`] || process.env.MESHY_MODEL_DEFAULT
-        const aiModel = aiModelEnv || 'meshy-5'
-
-        meshyTaskId = await this.aiService.meshyService.startImageTo3D(imageUrlForMeshy, {
-          enable_pbr: enablePbr,
-          ai_model: aiModel,
-          topology: 'quad',
-          targetPolycount: targetPolycount,
-          texture_resolution: textureResolution
+        console.log(`🎨 Generating variant ${i + 1}/${totalVariants}: ${preset.displayName}`)
+
+        // Update progress
+        stage.progress = Math.round((i / totalVariants) * 100)
+        this.notifyPipeline(pipeline)
+
+        job = await this.jobQueue.acquire({
+          provider: this.provider.name,
+          type: 'retexture',
+          label: variantId,
+          signal
         })
-        
-        // Poll for completion
-        let meshyResult = null
-        let attempts = 0
-        const pollIntervalMs = parseInt(process.env.MESHY_POLL_INTERVAL_MS || '5000', 10)
-        const timeoutMs = parseInt(
-          (process.env[`MESHY_TIMEOUT_${qualityUpper}_MS`] || process.env.MESHY_TIMEOUT_MS || '300000'),
-          10
-        )
-        const maxAttempts = Math.max(1, Math.ceil(timeoutMs / pollIntervalMs))
-        
-        console.log(`⏳ Meshy polling configured: quality=${quality}, model=${aiModel}, interval=${pollIntervalMs}ms, timeout=${timeoutMs}ms, maxAttempts=${maxAttempts}`)
-        
-        while (attempts < maxAttempts) {
-          await new Promise(resolve => setTimeout(resolve, pollIntervalMs))
-          
-          const status = await this.aiService.meshyService.getTaskStatus(meshyTaskId)
-          pipeline.stages.image3D.progress = status.progress || (attempts / maxAttempts * 100)
-          
+
+        // Use Meshy retexture API
+        let retextureTaskId = stage.tasks[preset.id]
+        if (!retextureTaskId) {
+          retextureTaskId = await job.request(() => this.provider.startRetexture(
+            { inputTaskId: meshyTaskId },
+            { textStylePrompt: preset.stylePrompt },
+            RETEXTURE_SETTINGS
+          ), { idempotent: false })
+          stage.tasks[preset.id] = retextureTaskId
+          await this.persistPipeline(pipeline)
+        }
+
+        // Wait for completion
+        let retextureResult = null
+        let retextureAttempts = 0
+        const maxRetextureAttempts = 60
+
+        while (retextureAttempts < maxRetextureAttempts) {
+          await this.waitForPoll(signal, pipeline.id, 5000)
+
+          const status = await job.request(() => this.provider.getRetextureStatus(retextureTaskId))
+
           if (status.status === 'SUCCEEDED') {
-            meshyResult = status
+            retextureResult = status
             break
           } else if (status.status === 'FAILED') {
-            throw new Error(status.error || 'Meshy conversion failed')
+            throw new Error(status.error || 'Retexture failed')
           }
-          
-          attempts++
-        }
-        
-        if (!meshyResult) {
-          throw new Error('Meshy conversion timed out')
+
+          retextureAttempts++
         }
-        
-        // Download and save the model
-        const modelBuffer = await this.downloadFile(meshyResult.model_urls.glb)
-        const outputDir = path.join('gdd-assets', pipeline.config.assetId)
-        await fs.mkdir(outputDir, { recursive: true })
-        
-        // Save raw model first
-        const rawModelPath = path.join(outputDir, `${pipeline.config.assetId}_raw.glb`)
-        await fs.writeFile(rawModelPath, modelBuffer)
-        
-        // Normalize the model based on type
-        let normalizedModelPath = path.join(outputDir, `${pipeline.config.assetId}.glb`)
-        
-        if (pipeline.config.type === 'character') {
-          // Normalize character height
-          console.log('🔧 Normalizing character model...')
-          try {
-            const { AssetNormalizationService } = await import('../../dist/services/processing/AssetNormalizationService.js')
-            const normalizer = new AssetNormalizationService()
-            
-            const targetHeight = pipeline.config.metadata?.characterHeight || 
-                               pipeline.config.riggingOptions?.heightMeters || 
-                               1.83
-            
-            const normalized = await normalizer.normalizeCharacter(rawModelPath, targetHeight)
-            await fs.writeFile(normalizedModelPath, Buffer.from(normalized.glb))
-            
-            console.log(`✅ Character normalized to ${targetHeight}m height`)
-            
-            // Update with normalized dimensions
-            pipeline.stages.image3D.normalized = true
-            pipeline.stages.image3D.dimensions = normalized.metadata.dimensions
-          } catch (error) {
-            console.warn('⚠️ Normalization failed, using raw model:', error.message)
-            await fs.copyFile(rawModelPath, normalizedModelPath)
-          }
-        } else if (pipeline.config.type === 'weapon') {
-          // Normalize weapon with grip at origin
-          console.log('🔧 Normalizing weapon model...')
-          try {
-            const { WeaponHandleDetector } = await import('../../dist/services/processing/WeaponHandleDetector.js')
-            const detector = new WeaponHandleDetector()
-            
-            const result = await detector.exportNormalizedWeapon(rawModelPath, normalizedModelPath)
-            
-            console.log(`✅ Weapon normalized with grip at origin`)
-            
-            // Update with normalized dimensions
-            pipeline.stages.image3D.normalized = true
-            pipeline.stages.image3D.dimensions = result.dimensions
-          } catch (error) {
-            console.warn('⚠️ Weapon normalization failed, using raw model:', error.message)
-            await fs.copyFile(rawModelPath, normalizedModelPath)
-          }
-        } else {
-          // For other types, just copy for now
-          await fs.copyFile(rawModelPath, normalizedModelPath)
+
+        if (!retextureResult) {
+          throw new Error('Retexture timed out')
         }
-        
-        baseModelPath = normalizedModelPath
-        
-        // Save concept art
-        if (imageUrl.startsWith('data:')) {
-          const imageData = imageUrl.split(',')[1]
-          const imageBuffer = Buffer.from(imageData, 'base64')
-          await fs.writeFile(path.join(outputDir, 'concept-art.png'), imageBuffer)
+
+        // Save variant
+        const variantDir = path.join('gdd-assets', variantId)
+        await this.revisionService.recordBaseline(variantId)
+        await fs.mkdir(variantDir, { recursive: true })
+
+        const variantBuffer = await job.request(() => this.downloadFile(retextureResult.model_urls.glb))
+        job.release()
+        await fs.writeFile(path.join(variantDir, `${variantId}.glb`), variantBuffer)
+
+        // Copy concept art
+        const conceptArtPath = path.join('gdd-assets', pipeline.config.assetId, 'concept-art.png')
+        if (await fs.access(conceptArtPath).then(() => true).catch(() => false)) {
+          await fs.copyFile(conceptArtPath, path.join(variantDir, 'concept-art.png'))
         }
-        
-        // Save metadata - EXACT structure from arrows-base reference
-        const metadata = {
-          name: pipeline.config.assetId,
-          gameId: pipeline.config.assetId,
+
+        // Save variant metadata - EXACT structure from arrows-bronze reference
+        const variantMetadata = {
+          id: variantId,
+          gameId: variantId,
+          name: variantId,
           type: pipeline.config.type,
           subtype: pipeline.config.subtype,
-          description: pipeline.config.description,
-          detailedPrompt: enhancedPrompt,
+          isBaseModel: false,
+          isVariant: true,
+          parentBaseModel: pipeline.config.assetId,
+          materialPreset: {
+            id: preset.id,
+            displayName: preset.displayName,
+            category: preset.category,
+            tier: preset.tier,
+            color: preset.color,
+            stylePrompt: preset.stylePrompt
+          },
+          workflow: 'Meshy AI Retexture',
+          baseModelTaskId: meshyTaskId,
+          retextureTaskId: retextureTaskId,
+          retextureStatus: 'completed',
+          modelPath: `${variantId}.glb`,
+          conceptArtPath: null,
+          hasModel: true,
+          hasConceptArt: true,
           generatedAt: new Date().toISOString(),
           completedAt: new Date().toISOString(),
-          isBaseModel: true,
-          materialVariants: pipeline.config.materialPresets ? 
-            pipeline.config.materialPresets.map(preset => preset.id) : [],
+          description: pipeline.config.description,
           isPlaceholder: false,
-          hasModel: true,
-          hasConceptArt: true,
-          modelPath: baseModelPath,
-          conceptArtUrl: './concept-art.png',
-          gddCompliant: true,
-          workflow: 'GPT-4 → GPT-Image-1 → Meshy Image-to-3D (Base Model)',
-          meshyTaskId: meshyTaskId,
-          meshyStatus: 'completed',
-          variants: [],  // Will be populated as variants are generated
-          variantCount: 0,
-          lastVariantGenerated: null,
-          updatedAt: new Date().toISOString(),
-          // Normalization info
-          normalized: pipeline.stages.image3D.normalized || false,
-          normalizationDate: pipeline.stages.image3D.normalized ? new Date().toISOString() : undefined,
-          dimensions: pipeline.stages.image3D.dimensions || undefined
-        }
-        
-        await fs.writeFile(
-          path.join(outputDir, 'metadata.json'),
-          JSON.stringify(metadata, null, 2)
-        )
-        
-        pipeline.stages.image3D.status = 'completed'
-        pipeline.stages.image3D.progress = 100
-        pipeline.stages.image3D.result = {
-          taskId: meshyTaskId,
-          modelUrl: meshyResult.model_urls.glb,
-          polycount: meshyResult.polycount,
-          localPath: baseModelPath
+          gddCompliant: true
         }
-        pipeline.results.image3D = pipeline.stages.image3D.result
-        pipeline.progress = 50
-        
+
+        await writeAssetMetadata(path.join(variantDir, 'metadata.json'), variantMetadata)
+        await this.revisionService.record(variantId, 'retexture', { pipelineId: pipeline.id })
+
+        variants.push({
+          id: variantId,
+          name: preset.displayName,
+          modelUrl: retextureResult.model_urls.glb,
+          success: true
+        })
+
       } catch (error) {
-        console.error('Image to 3D conversion failed:', error)
-        pipeline.stages.image3D.status = 'failed'
-        pipeline.stages.image3D.error = error.message
-        throw error
+        if (error instanceof PipelineCancelledError) throw error
+        console.error(`Failed to generate variant ${preset.displayName}:`, error)
+        variants.push({
+          id: variantId,
+          name: preset.displayName,
+          success: false,
+          error: error.message
+        })
+      } finally {
+        job?.release()
       }
-      
-      // Stage 4: Material Variant Generation (Retexturing)
-      if (pipeline.config.enableRetexturing && pipeline.config.materialPresets?.length > 0) {
-        pipeline.stages.textureGeneration.status = 'processing'
-        
-        const variants = []
-        const totalVariants = pipeline.config.materialPresets.length
-        
-        for (let i = 0; i < totalVariants; i++) {
-          const preset = pipeline.config.materialPresets[i]
-          
-          try {
-            console.log(`🎨 Generating variant ${i + 1}/${totalVariants}: ${preset.displayName}`)
-            
-            // Update progress
-            pipeline.stages.textureGeneration.progress = Math.round((i / totalVariants) * 100)
-            
-            // Use Meshy retexture API
-            const retextureTaskId = await this.aiService.meshyService.startRetextureTask(
-              { inputTaskId: meshyTaskId },
-              { textStylePrompt: preset.stylePrompt },
-              {
-                artStyle: 'realistic',
-                aiModel: 'meshy-5',
-                enableOriginalUV: true
-              }
-            )
-            
-            // Wait for completion
-            let retextureResult = null
-            let retextureAttempts = 0
-            const maxRetextureAttempts = 60
-            
-            while (retextureAttempts < maxRetextureAttempts) {
-              await new Promise(resolve => setTimeout(resolve, 5000))
-              
-              const status = await this.aiService.meshyService.getRetextureTaskStatus(retextureTaskId)
-              
-              if (status.status === 'SUCCEEDED') {
-                retextureResult = status
-                break
-              } else if (status.status === 'FAILED') {
-                throw new Error(status.error || 'Retexture failed')
-              }
-              
-              retextureAttempts++
-            }
-            
-            if (!retextureResult) {
-              throw new Error('Retexture timed out')
-            }
-            
-            // Save variant
-            const variantId = `${pipeline.config.assetId}-${preset.id}`
-            const variantDir = path.join('gdd-assets', variantId)
-            await fs.mkdir(variantDir, { recursive: true })
-            
-            const variantBuffer = await this.downloadFile(retextureResult.model_urls.glb)
-            await fs.writeFile(path.join(variantDir, `${variantId}.glb`), variantBuffer)
-            
-            // Copy concept art
-            const conceptArtPath = path.join('gdd-assets', pipeline.config.assetId, 'concept-art.png')
-            if (await fs.access(conceptArtPath).then(() => true).catch(() => false)) {
-              await fs.copyFile(conceptArtPath, path.join(variantDir, 'concept-art.png'))
-            }
-            
-            // Save variant metadata - EXACT structure from arrows-bronze reference
-            const variantMetadata = {
-              id: variantId,
-              gameId: variantId,
-              name: variantId,
-              type: pipeline.config.type,
-              subtype: pipeline.config.subtype,
-              isBaseModel: false,
-              isVariant: true,
-              parentBaseModel: pipeline.config.assetId,
-              materialPreset: {
-                id: preset.id,
-                displayName: preset.displayName,
-                category: preset.category,
-                tier: preset.tier,
-                color: preset.color,
-                stylePrompt: preset.stylePrompt
-              },
-              workflow: 'Meshy AI Retexture',
-              baseModelTaskId: meshyTaskId,
-              retextureTaskId: retextureTaskId,
-              retextureStatus: 'completed',
-              modelPath: `${variantId}.glb`,
-              conceptArtPath: null,
-              hasModel: true,
-              hasConceptArt: true,
-              generatedAt: new Date().toISOString(),
-              completedAt: new Date().toISOString(),
-              description: pipeline.config.description,
-              isPlaceholder: false,
-              gddCompliant: true
-            }
-            
-            await fs.writeFile(
-              path.join(variantDir, 'metadata.json'),
-              JSON.stringify(variantMetadata, null, 2)
-            )
-            
-            variants.push({
-              id: variantId,
-              name: preset.displayName,
-              modelUrl: retextureResult.model_urls.glb,
-              success: true
-            })
-            
-          } catch (error) {
-            console.error(`Failed to generate variant ${preset.displayName}:`, error)
-            variants.push({
-              id: `${pipeline.config.assetId}-${preset.id}`,
-              name: preset.displayName,
-              success: false,
-              error: error.message
-            })
-          }
-        }
-        
-        pipeline.stages.textureGeneration.status = 'completed'
-        pipeline.stages.textureGeneration.progress = 100
-        pipeline.stages.textureGeneration.result = { variants, totalVariants }
-        pipeline.results.textureGeneration = pipeline.stages.textureGeneration.result
-        pipeline.progress = 75
-        
-        // Update base model metadata with variant information
-        const successfulVariants = variants.filter(v => v.success)
-        if (successfulVariants.length > 0) {
-          const baseMetadataPath = path.join('gdd-assets', pipeline.config.assetId, 'metadata.json')
-          const baseMetadata = JSON.parse(await fs.readFile(baseMetadataPath, 'utf-8'))
-          
-          baseMetadata.variants = successfulVariants.map(v => v.id)
-          baseMetadata.variantCount = successfulVariants.length
-          baseMetadata.lastVariantGenerated = successfulVariants[successfulVariants.length - 1].id
-          baseMetadata.updatedAt = new Date().toISOString()
-          
-          await fs.writeFile(baseMetadataPath, JSON.stringify(baseMetadata, null, 2))
+
+      await this.persistPipeline(pipeline)
+    }
+
+    stage.status = 'completed'
+    stage.progress = 100
+    stage.result = { variants, totalVariants }
+    pipeline.results.textureGeneration = stage.result
+    pipeline.progress = 75
+
+    // Update base model metadata with variant information
+    const successfulVariants = variants.filter(v => v.success)
+    if (successfulVariants.length > 0) {
+      const baseMetadataPath = path.join('gdd-assets', pipeline.config.assetId, 'metadata.json')
+      await this.revisionService.recordBaseline(pipeline.config.assetId)
+      const baseMetadata = JSON.parse(await fs.readFile(baseMetadataPath, 'utf-8'))
+
+      baseMetadata.variants = Array.from(new Set([...(baseMetadata.variants || []), ...successfulVariants.map(v => v.id)]))
+      baseMetadata.variantCount = baseMetadata.variants.length
+      baseMetadata.lastVariantGenerated = successfulVariants[successfulVariants.length - 1].id
+      baseMetadata.updatedAt = new Date().toISOString()
+
+      await writeAssetMetadata(baseMetadataPath, baseMetadata)
+      await this.revisionService.record(pipeline.config.assetId, 'add-variants', { pipelineId: pipeline.id })
+    }
+
+    await this.persistPipeline(pipeline)
+  }
+
+  /**
+   * Stage 5: Auto-rigging (avatars only).
+   * Failures are recorded on the stage without failing the pipeline.
+   */
+  async runRigging(pipeline, signal) {
+    const stage = pipeline.stages.rigging
+    const meshyTaskId = this.getMeshyTaskId(pipeline)
+    stage.status = 'processing'
+    stage.progress = 0
+    let job
+
+    try {
+      job = await this.jobQueue.acquire({
+        provider: this.provider.name,
+        type: 'rigging',
+        label: pipeline.config.assetId,
+        signal
+      })
+
+      console.log('🦴 Starting auto-rigging for avatar...')
+
+      // Start rigging task unless one was recorded before a restart
+      if (!stage.taskId) {
+        stage.taskId = await job.request(() => this.provider.startRigging(
+          { inputTaskId: meshyTaskId },
+          { heightMeters: pipeline.config.riggingOptions?.heightMeters || 1.7 }
+        ), { idempotent: false })
+        await this.persistPipeline(pipeline)
+      }
+      const riggingTaskId = stage.taskId
+
+      console.log(`Rigging task started: ${riggingTaskId}`)
+
+      // Poll for rigging completion
+      let riggingResult = null
+      let riggingAttempts = 0
+      const maxRiggingAttempts = 60 // 5 minutes
+
+      while (riggingAttempts < maxRiggingAttempts) {
+        await this.waitForPoll(signal, pipeline.id, 5000)
+
+        const status = await job.request(() => this.provider.getRiggingStatus(riggingTaskId))
+        stage.progress = status.progress || (riggingAttempts / maxRiggingAttempts * 100)
+        this.notifyPipeline(pipeline)
+
+        if (status.status === 'SUCCEEDED') {
+          riggingResult = status
+          break
+        } else if (status.status === 'FAILED') {
+          throw new Error(status.task_error?.message || 'Rigging failed')
         }
-        
-      } else {
-        pipeline.stages.textureGeneration.status = 'skipped'
+
+        riggingAttempts++
       }
-      
-      // Stage 5: Auto-Rigging (for avatars only)
-      if (pipeline.config.generationType === 'avatar' && pipeline.config.enableRigging && meshyTaskId) {
-        pipeline.stages.rigging = { status: 'processing', progress: 0 }
-        
-        try {
-          console.log('🦴 Starting auto-rigging for avatar...')
-          
-          // Start rigging task
-          const riggingTaskId = await this.aiService.meshyService.startRiggingTask(
-            { inputTaskId: meshyTaskId },
-            { heightMeters: pipeline.config.riggingOptions?.heightMeters || 1.7 }
-          )
-          
-          console.log(`Rigging task started: ${riggingTaskId}`)
-          
-          // Poll for rigging completion
-          let riggingResult = null
-          let riggingAttempts = 0
-          const maxRiggingAttempts = 60 // 5 minutes
-          
-          while (riggingAttempts < maxRiggingAttempts) {
-            await new Promise(resolve => setTimeout(resolve, 5000))
-            
-            const status = await this.aiService.meshyService.getRiggingTaskStatus(riggingTaskId)
-            pipeline.stages.rigging.progress = status.progress || (riggingAttempts / maxRiggingAttempts * 100)
-            
-            if (status.status === 'SUCCEEDED') {
-              riggingResult = status
-              break
-            } else if (status.status === 'FAILED') {
-              throw new Error(status.task_error?.message || 'Rigging failed')
-            }
-            
-            riggingAttempts++
-          }
-          
-          if (!riggingResult) {
-            throw new Error('Rigging timed out')
-          }
-          
-          // Download rigged model and animations
-          const outputDir = path.join('gdd-assets', pipeline.config.assetId)
-          const riggedAssets = {}
-          
-          // IMPORTANT: For rigged avatars, we DON'T replace the main model
-          // We keep the original T-pose model and save animations separately
-          // This prevents the T-pose + animation layering issue
-          console.log('🦴 Processing rigged character assets...')
-          
-          // Download animations if available
-          if (riggingResult.result && riggingResult.result.basic_animations) {
-            const animations = riggingResult.result.basic_animations
-            
-            // CRITICAL: First, get the rigged model from the walking animation
-            // This contains the model with bones that we need for animations
-            if (animations.walking_glb_url) {
-              console.log('🦴 Downloading rigged model and animations...')
-              const walkingBuffer = await this.downloadFile(animations.walking_glb_url)
-              
-              // Save the walking animation
-              const walkingPath = path.join(outputDir, 'animations', 'walking.glb')
-              await fs.mkdir(path.dirname(walkingPath), { recursive: true })
-              await fs.writeFile(walkingPath, walkingBuffer)
-              riggedAssets.walking = 'animations/walking.glb'
-              
-              // Extract T-pose from the walking animation
-              console.log('🎯 Extracting T-pose from walking animation...')
-              try {
-                const tposePath = path.join(outputDir, 't-pose.glb')
-                await this.extractTPoseFromAnimation(walkingPath, tposePath)
-                riggedAssets.tpose = 't-pose.glb'
-                console.log('✅ T-pose extracted successfully')
-            } catch (tposeError) {
-              console.error('⚠️ Failed to extract T-pose:', tposeError.message)
-              // Continue anyway - not critical for the pipeline
-            }
-            
-            // IMPORTANT: Save rigged T-pose model for animation player
-            // The walking GLB contains a rigged model in T-pose on frame 0, followed by walking animation
-            // The animation player will:
-            // - Use the unrigged model for asset viewer (clean T-pose, no bones)
-            // - Use this rigged model for animation player with:
-            //   - Resting: Show frame 0 (T-pose) with no animation
-            //   - Walking: Play the walking animation
-            //   - Running: Play the running animation
-            const riggedModelPath = path.join(outputDir, `${pipeline.config.assetId}_rigged.glb`)
-            await fs.writeFile(riggedModelPath, walkingBuffer)
-            console.log('✅ Saved rigged model for animation player')
-          }
-            
-            // Download running animation GLB
-            if (animations.running_glb_url) {
-              const runningBuffer = await this.downloadFile(animations.running_glb_url)
-              const runningPath = path.join(outputDir, 'animations', 'running.glb')
-              await fs.writeFile(runningPath, runningBuffer)
-              riggedAssets.running = 'animations/running.glb'
-            }
-          }
-          
-          // Update metadata with rigging information
-          const metadataPath = path.join(outputDir, 'metadata.json')
-          const metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8'))
-          
-          metadata.isRigged = true
-          metadata.riggingTaskId = riggingTaskId
-          metadata.riggingStatus = 'completed'
-          metadata.rigType = 'humanoid-standard'
-          metadata.characterHeight = pipeline.config.riggingOptions?.heightMeters || 1.7
-          metadata.animations = {
-            basic: riggedAssets
-          }
-          metadata.riggedModelPath = `${pipeline.config.assetId}_rigged.glb`
-          metadata.tposeModelPath = riggedAssets.tpose || null
-          metadata.supportsAnimation = true
-          metadata.animationCompatibility = ['mixamo', 'unity', 'unreal']
-          
-          await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2))
-          
-          pipeline.stages.rigging.status = 'completed'
-          pipeline.stages.rigging.progress = 100
-          pipeline.stages.rigging.result = {
-            taskId: riggingTaskId,
-            animations: riggedAssets
-          }
-          pipeline.results.rigging = pipeline.stages.rigging.result
-          pipeline.progress = 85
-          
-        } catch (error) {
-          console.error('❌ Rigging failed:', error.message)
-          console.error('Full error:', error)
-          
-          // Update metadata to indicate rigging failed
+
+      if (!riggingResult) {
+        throw new Error('Rigging timed out')
+      }
+
+      // Download rigged model and animations
+      const outputDir = path.join('gdd-assets', pipeline.config.assetId)
+      const riggedAssets = {}
+      await this.revisionService.recordBaseline(pipeline.config.assetId)
+
+      // IMPORTANT: For rigged avatars, we DON'T replace the main model
+      // We keep the original T-pose model and save animations separately
+      // This prevents the T-pose + animation layering issue
+      console.log('🦴 Processing rigged character assets...')
+
+      // Download animations if available
+      if (riggingResult.result && riggingResult.result.basic_animations) {
+        const animations = riggingResult.result.basic_animations
+
+        // CRITICAL: First, get the rigged model from the walking animation
+        // This contains the model with bones that we need for animations
+        if (animations.walking_glb_url) {
+          console.log('🦴 Downloading rigged model and animations...')
+          const walkingBuffer = await job.request(() => this.downloadFile(animations.walking_glb_url))
+
+          // Save the walking animation
+          const walkingPath = path.join(outputDir, 'animations', 'walking.glb')
+          await fs.mkdir(path.dirname(walkingPath), { recursive: true })
+          await fs.writeFile(walkingPath, walkingBuffer)
+          riggedAssets.walking = 'animations/walking.glb'
+
+          // Extract T-pose from the walking animation
+          console.log('🎯 Extracting T-pose from walking animation...')
           try {
-            const outputDir = path.join('gdd-assets', pipeline.config.assetId)
-            const metadataPath = path.join(outputDir, 'metadata.json')
-            const metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8'))
-            
-            metadata.isRigged = false
-            metadata.riggingStatus = 'failed'
-            metadata.riggingError = error.message
-            metadata.riggingAttempted = true
-            
-            await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2))
-          } catch (metadataError) {
-            console.error('Failed to update metadata after rigging failure:', metadataError)
+            const tposePath = path.join(outputDir, 't-pose.glb')
+            await this.extractTPoseFromAnimation(walkingPath, tposePath)
+            riggedAssets.tpose = 't-pose.glb'
+            console.log('✅ T-pose extracted successfully')
+          } catch (tposeError) {
+            console.error('⚠️ Failed to extract T-pose:', tposeError.message)
+            // Continue anyway - not critical for the pipeline
           }
-          
-          pipeline.stages.rigging.status = 'failed'
-          pipeline.stages.rigging.error = error.message
-          pipeline.stages.rigging.progress = 0
-          
-          // Continue without rigging - don't fail the entire pipeline
-          console.log('⚠️  Continuing without rigging - avatar will not have animations')
+
+          // IMPORTANT: Save rigged T-pose model for animation player
+          // The walking GLB contains a rigged model in T-pose on frame 0, followed by walking animation
+          // The animation player will:
+          // - Use the unrigged model for asset viewer (clean T-pose, no bones)
+          // - Use this rigged model for animation player with:
+          //   - Resting: Show frame 0 (T-pose) with no animation
+          //   - Walking: Play the walking animation
+          //   - Running: Play the running animation
+          const riggedModelPath = path.join(outputDir, `${pipeline.config.assetId}_rigged.glb`)
+          await fs.writeFile(riggedModelPath, walkingBuffer)
+          console.log('✅ Saved rigged model for animation player')
+        }
+
+        // Download running animation GLB
+        if (animations.running_glb_url) {
+          const runningBuffer = await job.request(() => this.downloadFile(animations.running_glb_url))
+          const runningPath = path.join(outputDir, 'animations', 'running.glb')
+          await fs.writeFile(runningPath, runningBuffer)
+          riggedAssets.running = 'animations/running.glb'
         }
       }
-      
-      // Complete
-      pipeline.status = 'completed'
-      pipeline.completedAt = new Date().toISOString()
-      pipeline.progress = 100
-      
-      // Compile final asset info
-      pipeline.finalAsset = {
-        id: pipeline.config.assetId,
-        name: pipeline.config.name,
-        modelUrl: `/assets/${pipeline.config.assetId}/${pipeline.config.assetId}.glb`,
-        conceptArtUrl: `/assets/${pipeline.config.assetId}/concept-art.png`,
-        variants: pipeline.results.textureGeneration?.variants || []
+
+      // Update metadata with rigging information
+      const metadataPath = path.join(outputDir, 'metadata.json')
+      const metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8'))
+
+      metadata.isRigged = true
+      metadata.riggingTaskId = riggingTaskId
+      metadata.riggingStatus = 'completed'
+      metadata.rigType = 'humanoid-standard'
+      metadata.characterHeight = pipeline.config.riggingOptions?.heightMeters || 1.7
+      metadata.animations = {
+        basic: riggedAssets
       }
-      
+      metadata.riggedModelPath = `${pipeline.config.assetId}_rigged.glb`
+      metadata.tposeModelPath = riggedAssets.tpose || null
+      metadata.supportsAnimation = true
+      metadata.animationCompatibility = ['mixamo', 'unity', 'unreal']
+
+      await writeAssetMetadata(metadataPath, metadata)
+      await this.revisionService.record(pipeline.config.assetId, 'rig', { pipelineId: pipeline.id })
+
+      stage.status = 'completed'
+      stage.progress = 100
+      stage.result = {
+        taskId: riggingTaskId,
+        animations: riggedAssets
+      }
+      pipeline.results.rigging = stage.result
+      pipeline.progress = 85
+
     } catch (error) {
-      pipeline.status = 'failed'
-      pipeline.error = error.message
-      throw error
+      if (error instanceof PipelineCancelledError) throw error
+      console.error('❌ Rigging failed:', error.message)
+      console.error('Full error:', error)
+
+      // Update metadata to indicate rigging failed
+      try {
+        const outputDir = path.join('gdd-assets', pipeline.config.assetId)
+        const metadataPath = path.join(outputDir, 'metadata.json')
+        const metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8'))
+
+        metadata.isRigged = false
+        metadata.riggingStatus = 'failed'
+        metadata.riggingError = error.message
+        metadata.riggingAttempted = true
+
+        await this.revisionService.recordBaseline(pipeline.config.assetId)
+        await writeAssetMetadata(metadataPath, metadata)
+        await this.revisionService.record(pipeline.config.assetId, 'rig-failed', { pipelineId: pipeline.id })
+      } catch (metadataError) {
+        console.error('Failed to update metadata after rigging failure:', metadataError)
+      }
+
+      stage.status = 'failed'
+      stage.error = error.message
+      stage.progress = 0
+
+      // Continue without rigging - don't fail the entire pipeline
+      console.log('⚠️  Continuing without rigging - avatar will not have animations')
+    } finally {
+      job?.release()
     }
+
+    await this.persistPipeline(pipeline)
   }
 
   /**
    * Enhance prompt with GPT-4
    */
   async enhancePromptWithGPT4(config) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY required for GPT-4 enhancement')
+    const { missingConfiguration } = await this.chatService.resolveTask('promptEnhancement')
+    if (missingConfiguration.length > 0) {
+      throw new Error(`${missingConfiguration.join(', ')} required for GPT-4 enhancement`)
     }
     
+    const { systemPrompt, userPrompt } = await this.buildEnhancementPrompts(config)
+
+    try {
+      const { content, backend, model } = await this.chatService.complete('promptEnhancement', {
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        temperature: 0.7,
+        maxTokens: 200
+      })
+      const optimizedPrompt = content.trim()
+      
+      return {
+        originalPrompt: config.description,
+        optimizedPrompt,
+        model,
+        backend,
+        keywords: this.extractKeywords(optimizedPrompt)
+      }
+      
+    } catch (error) {
+      console.error('GPT-4 enhancement failed:', error)
+      // Load generation prompts for fallback
+      const generationPrompts = await getGenerationPrompts()
+      const fallbackTemplate = generationPrompts?.imageGeneration?.fallbackEnhancement || 
+        '${config.description}. ${config.style || "game-ready"} style, clean geometry, game-ready 3D asset.'
+      
+      // Replace template variables
+      const fallbackPrompt = fallbackTemplate
+        .replace('${config.description}', config.description)
+        .replace('${config.style || "game-ready"}', config.style || 'game-ready')
+      
+      return {
+        originalPrompt: config.description,
+        optimizedPrompt: fallbackPrompt,
+        error: error.message
+      }
+    }
+  }
+
+  /**
+   * System and user prompts sent to GPT-4 for prompt enhancement
+   */
+  async buildEnhancementPrompts(config) {
     // Load GPT-4 enhancement prompts
     const gpt4Prompts = await getGPT4EnhancementPrompts()
     
@@ -825,57 +1739,8 @@ Your task is to enhance the user's description to create better results with ima
     const userPrompt = isArmor 
       ? (gpt4Prompts?.typeSpecific?.armor?.enhancementPrefix || `Enhance this armor piece description for 3D generation. CRITICAL: The armor must be SHAPED FOR A T-POSE BODY - shoulder openings must point STRAIGHT SIDEWAYS at 90 degrees (like a scarecrow), NOT angled downward! Should look like a wide "T" shape. Ends at shoulders (no arm extensions), hollow openings, no armor stand: `) + `"${baseDescription}"`
       : `Enhance this ${config.type} asset description for 3D generation: "${baseDescription}"`
-    
-    try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'gpt-4',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-          ],
-          temperature: 0.7,
-          max_tokens: 200
-        })
-      })
-      
-      if (!response.ok) {
-        throw new Error(`GPT-4 API error: ${response.status}`)
-      }
-      
-      const data = await response.json()
-      const optimizedPrompt = data.choices[0].message.content.trim()
-      
-      return {
-        originalPrompt: config.description,
-        optimizedPrompt,
-        model: 'gpt-4',
-        keywords: this.extractKeywords(optimizedPrompt)
-      }
-      
-    } catch (error) {
-      console.error('GPT-4 enhancement failed:', error)
-      // Load generation prompts for fallback
-      const generationPrompts = await getGenerationPrompts()
-      const fallbackTemplate = generationPrompts?.imageGeneration?.fallbackEnhancement || 
-        '${config.description}. ${config.style || "game-ready"} style, clean geometry, game-ready 3D asset.'
-      
-      // Replace template variables
-      const fallbackPrompt = fallbackTemplate
-        .replace('${config.description}', config.description)
-        .replace('${config.style || "game-ready"}', config.style || 'game-ready')
-      
-      return {
-        originalPrompt: config.description,
-        optimizedPrompt: fallbackPrompt,
-        error: error.message
-      }
-    }
+
+    return { systemPrompt, userPrompt }
   }
 
   /**
@@ -904,11 +1769,7 @@ Your task is to enhance the user's description to create better results with ima
    * Download file from URL
    */
   async downloadFile(url) {
-    const response = await fetch(url)
-    if (!response.ok) {
-      throw new Error(`Failed to download file: ${response.status}`)
-    }
-    return Buffer.from(await response.arrayBuffer())
+    return this.provider.downloadFile(url)
   }
   
   /**
@@ -1013,16 +1874,31 @@ Your task is to enhance the user's description to create better results with ima
   /**
    * Clean up old pipelines
    */
-  cleanupOldPipelines() {
-    const oneHourAgo = Date.now() - (60 * 60 * 1000)
-    
+  /**
+   * Drop finished pipelines older than FINISHED_PIPELINE_RETENTION_MS from memory and disk
+   */
+  async cleanupOldPipelines() {
     for (const [id, pipeline] of this.activePipelines.entries()) {
-      const createdAt = new Date(pipeline.createdAt).getTime()
-      if (createdAt < oneHourAgo && (pipeline.status === 'completed' || pipeline.status === 'failed')) {
+      if (this.isExpiredPipeline(pipeline)) {
         this.activePipelines.delete(id)
+        await this.removePipelineFile(id)
       }
     }
   }
+
+  isExpiredPipeline(pipeline) {
+    const createdAt = new Date(pipeline.createdAt).getTime()
+    return FINISHED_PIPELINE_STATUSES.includes(pipeline.status) &&
+      createdAt < Date.now() - FINISHED_PIPELINE_RETENTION_MS
+  }
+
+  async removePipelineFile(pipelineId) {
+    try {
+      await this.pipelineStore.remove(pipelineId)
+    } catch (error) {
+      console.warn(`Failed to remove pipeline file ${pipelineId}:`, error.message)
+    }
+  }
 }
 
 // Cleanup old pipelines periodically
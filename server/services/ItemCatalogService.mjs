@@ -0,0 +1,206 @@
+/**
+ * Item Catalog Service
+ * Builds the game's items catalog from the asset library, as JSON or as TypeScript/C# constants
+ *
+ * File paths in the catalog are relative to gdd-assets/. Variants inherit the GDD game data
+ * (level, rarity, stats) of their base model unless their own metadata overrides it.
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+
+export const CATALOG_VERSION = 1
+
+export const CATALOG_FORMATS = {
+  json: { extension: 'json', contentType: 'application/json' },
+  ts: { extension: 'ts', contentType: 'text/plain' },
+  cs: { extension: 'cs', contentType: 'text/plain' }
+}
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp']
+const GENERATED_HEADER = 'Generated by 3D Asset Forge from the asset library. Do not edit.'
+
+export class ItemCatalogService {
+  constructor({ assetService }) {
+    this.assetService = assetService
+  }
+
+  /**
+   * Catalog entries for every asset with a model that matches the filter query
+   */
+  async buildCatalog(query = {}) {
+    const assets = (await this.assetService.findAssets(query)).filter(asset => asset.hasModel)
+
+    const items = []
+    for (const asset of assets) {
+      const base = asset.metadata.isVariant
+        ? await this.assetService.loadAsset(asset.metadata.parentBaseModel)
+        : null
+      items.push(describeItem(asset, base, await listImages(path.join(this.assetService.assetsDir, asset.id))))
+    }
+    items.sort((a, b) => a.gameId.localeCompare(b.gameId))
+
+    return {
+      version: CATALOG_VERSION,
+      generatedAt: new Date().toISOString(),
+      items
+    }
+  }
+
+  /**
+   * The catalog rendered as a file in one of CATALOG_FORMATS
+   */
+  async renderCatalog(format, query) {
+    const spec = CATALOG_FORMATS[format]
+    if (!spec) {
+      throw Object.assign(new Error(`Unsupported catalog format: ${format}. Use one of ${Object.keys(CATALOG_FORMATS).join(', ')}`), { status: 400 })
+    }
+
+    const catalog = await this.buildCatalog(query)
+    const content = format === 'json'
+      ? JSON.stringify(catalog, null, 2)
+      : format === 'ts' ? renderTypeScript(catalog) : renderCSharp(catalog)
+
+    return {
+      content,
+      filename: `items.${spec.extension}`,
+      contentType: spec.contentType,
+      itemCount: catalog.items.length
+    }
+  }
+}
+
+function describeItem(asset, base, images) {
+  const { metadata } = asset
+  const gameData = field => metadata[field] ?? base?.metadata[field] ?? null
+  const inLibrary = file => `${asset.id}/${file}`
+
+  const sprites = images.filter(file => file.includes('sprite'))
+  const icon = images.find(file => path.parse(file).name === 'icon') || sprites[0] ||
+    images.find(file => file.startsWith('concept-art'))
+
+  return {
+    gameId: metadata.gameId || asset.id,
+    assetId: asset.id,
+    name: toDisplayName(asset.name),
+    type: asset.type,
+    subtype: metadata.subtype || base?.metadata.subtype || null,
+    baseModel: metadata.isVariant ? metadata.parentBaseModel : null,
+    tier: metadata.tier || base?.metadata.tier || null,
+    material: metadata.isVariant ? metadata.materialPreset?.id || null : null,
+    materialTier: metadata.isVariant ? metadata.materialPreset?.tier ?? null : null,
+    level: gameData('level'),
+    rarity: gameData('rarity'),
+    stats: {
+      attack: gameData('attackLevel'),
+      strength: gameData('strengthLevel'),
+      defense: gameData('defenseLevel')
+    },
+    model: inLibrary(getModelFile(asset)),
+    icon: icon ? inLibrary(icon) : null,
+    sprites: sprites.map(inLibrary),
+    // Normalized weapons have their grip at the model origin
+    grip: asset.type === 'weapon'
+      ? { detected: !!metadata.gripDetected, atOrigin: !!metadata.normalized }
+      : null,
+    // Saved on the Equipment page; variants share their base model's geometry and attachments
+    attachments: metadata.attachmentConfigs || base?.metadata.attachmentConfigs || null,
+    rig: metadata.isRigged
+      ? { type: metadata.rigType || null, height: metadata.characterHeight ?? null }
+      : null,
+    normalized: !!metadata.normalized,
+    dimensions: metadata.dimensions || null
+  }
+}
+
+function getModelFile(asset) {
+  return asset.type === 'character' && asset.metadata.riggedModelPath
+    ? path.basename(asset.metadata.riggedModelPath)
+    : asset.modelFile
+}
+
+/**
+ * Image files in an asset folder and its sprites/ folder, relative to the asset folder
+ */
+async function listImages(assetPath) {
+  const isImage = file => IMAGE_EXTENSIONS.includes(path.extname(file).toLowerCase())
+  const images = (await fs.readdir(assetPath)).filter(isImage)
+
+  const sprites = await fs.readdir(path.join(assetPath, 'sprites')).catch(() => [])
+  images.push(...sprites.filter(isImage).map(file => `sprites/${file}`))
+  return images.sort()
+}
+
+function toDisplayName(name) {
+  return name
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+/**
+ * Identifiers for each gameId in a naming style, made unique by suffixing a counter
+ */
+function toIdentifiers(items, format) {
+  const used = new Set()
+  return items.map(item => {
+    const words = item.gameId.split(/[^a-zA-Z0-9]+/).filter(Boolean)
+    let identifier = format === 'ts'
+      ? words.join('_').toUpperCase()
+      : words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('')
+    if (!identifier || /^[0-9]/.test(identifier)) {
+      identifier = `Item${format === 'ts' ? '_' : ''}${identifier}`
+    }
+
+    let unique = identifier
+    for (let count = 2; used.has(unique); count++) {
+      unique = `${identifier}${format === 'ts' ? '_' : ''}${count}`
+    }
+    used.add(unique)
+    return unique
+  })
+}
+
+function renderTypeScript(catalog) {
+  const identifiers = toIdentifiers(catalog.items, 'ts')
+  const ids = catalog.items.map((item, i) => `  ${identifiers[i]}: ${JSON.stringify(item.gameId)}`)
+
+  return [
+    `// ${GENERATED_HEADER}`,
+    '',
+    `export const ITEM_CATALOG_VERSION = ${catalog.version}`,
+    '',
+    'export const ITEM_IDS = {',
+    ids.join(',\n'),
+    '} as const',
+    '',
+    'export type ItemId = typeof ITEM_IDS[keyof typeof ITEM_IDS]',
+    '',
+    `export const ITEMS = ${JSON.stringify(Object.fromEntries(catalog.items.map(item => [item.gameId, item])), null, 2)} as const`,
+    ''
+  ].join('\n')
+}
+
+function renderCSharp(catalog) {
+  const identifiers = toIdentifiers(catalog.items, 'cs')
+  const ids = catalog.items.map((item, i) => `        public const string ${identifiers[i]} = ${JSON.stringify(item.gameId)};`)
+
+  return [
+    `// ${GENERATED_HEADER}`,
+    '',
+    'namespace AssetForge',
+    '{',
+    '    public static class ItemCatalog',
+    '    {',
+    `        public const int Version = ${catalog.version};`,
+    '    }',
+    '',
+    '    public static class ItemIds',
+    '    {',
+    ...ids,
+    '    }',
+    '}',
+    ''
+  ].join('\n')
+}
@@ -0,0 +1,203 @@
+/**
+ * Job Queue
+ * Caps concurrent provider tasks across pipelines and retexture requests,
+ * and retries rate-limited (429) or failing (5xx) provider calls with exponential backoff.
+ * Calls that create a task only retry 429, since a 5xx may come after the task was created
+ */
+
+const DEFAULT_MAX_CONCURRENT = 3
+
+export class JobQueue {
+  constructor(options = {}) {
+    this.maxConcurrent = options.maxConcurrent || {}
+    this.maxRetries = options.maxRetries ?? 5
+    this.baseDelayMs = options.baseDelayMs || 2000
+    this.maxDelayMs = options.maxDelayMs || 60000
+    this.providers = new Map()
+    this.nextJobId = 1
+  }
+
+  getProviderQueue(provider) {
+    if (!this.providers.has(provider)) {
+      this.providers.set(provider, {
+        maxConcurrent: this.maxConcurrent[provider] || DEFAULT_MAX_CONCURRENT,
+        running: new Set(),
+        waiting: [],
+        completed: 0,
+        retries: 0,
+        rateLimited: 0,
+        totalWaitMs: 0,
+        maxWaitMs: 0
+      })
+    }
+    return this.providers.get(provider)
+  }
+
+  /**
+   * Wait for a free slot for `provider`. The returned job must be released once its task finishes.
+   * Rejects with `signal.reason` if the signal aborts while waiting.
+   */
+  async acquire({ provider, type, label, signal }) {
+    signal?.throwIfAborted()
+
+    const queue = this.getProviderQueue(provider)
+    const job = new QueuedJob(this, queue, { id: this.nextJobId++, provider, type, label, signal })
+
+    if (queue.running.size < queue.maxConcurrent) {
+      this.start(queue, job)
+      return job
+    }
+
+    console.log(`⏳ Queued ${type} job for ${label} (${queue.waiting.length + 1} waiting for ${provider})`)
+
+    await new Promise((resolve, reject) => {
+      const onAbort = () => {
+        queue.waiting = queue.waiting.filter(entry => entry.job !== job)
+        reject(signal.reason)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      queue.waiting.push({
+        job,
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        }
+      })
+    })
+
+    return job
+  }
+
+  start(queue, job) {
+    job.startedAt = Date.now()
+    const waitMs = job.startedAt - job.queuedAt
+    queue.totalWaitMs += waitMs
+    queue.maxWaitMs = Math.max(queue.maxWaitMs, waitMs)
+    queue.running.add(job)
+  }
+
+  release(queue, job) {
+    queue.running.delete(job)
+    queue.completed++
+
+    const next = queue.waiting.shift()
+    if (next) {
+      this.start(queue, next.job)
+      next.resolve()
+    }
+  }
+
+  getBackoffDelay(attempt) {
+    const delay = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt)
+    // Jitter keeps queued jobs from retrying in lockstep
+    return Math.round(delay * (0.75 + Math.random() * 0.5))
+  }
+
+  /**
+   * Queue depth, running jobs and wait times per provider
+   */
+  getStatus() {
+    const now = Date.now()
+    const providers = {}
+    const jobs = []
+
+    for (const [provider, queue] of this.providers) {
+      const started = queue.completed + queue.running.size
+      providers[provider] = {
+        maxConcurrent: queue.maxConcurrent,
+        running: queue.running.size,
+        queued: queue.waiting.length,
+        completed: queue.completed,
+        retries: queue.retries,
+        rateLimited: queue.rateLimited,
+        averageWaitMs: started > 0 ? Math.round(queue.totalWaitMs / started) : 0,
+        maxWaitMs: queue.maxWaitMs
+      }
+
+      for (const job of queue.running) {
+        jobs.push({ ...job.toJSON(), state: 'running', waitMs: job.startedAt - job.queuedAt })
+      }
+      for (const { job } of queue.waiting) {
+        jobs.push({ ...job.toJSON(), state: 'queued', waitMs: now - job.queuedAt })
+      }
+    }
+
+    return { providers, jobs }
+  }
+}
+
+/**
+ * A task holding one provider slot
+ */
+class QueuedJob {
+  constructor(jobQueue, queue, { id, provider, type, label, signal }) {
+    this.jobQueue = jobQueue
+    this.queue = queue
+    this.id = id
+    this.provider = provider
+    this.type = type
+    this.label = label
+    this.signal = signal
+    this.queuedAt = Date.now()
+    this.startedAt = null
+    this.released = false
+  }
+
+  /**
+   * Call the provider, retrying 429 responses with exponential backoff, and 5xx responses too
+   * unless the call is marked `idempotent: false` (repeating it would start another paid task)
+   */
+  async request(fn, { idempotent = true } = {}) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fn()
+      } catch (error) {
+        const retryable = error.status === 429 || (idempotent && error.status >= 500)
+        if (!retryable || attempt >= this.jobQueue.maxRetries) {
+          throw error
+        }
+
+        this.queue.retries++
+        if (error.status === 429) {
+          this.queue.rateLimited++
+        }
+
+        const delay = this.jobQueue.getBackoffDelay(attempt)
+        console.warn(`⚠️ ${this.provider} returned ${error.status} for ${this.type} job ${this.label}, retrying in ${delay}ms`)
+        await this.sleep(delay)
+      }
+    }
+  }
+
+  sleep(ms) {
+    this.signal?.throwIfAborted()
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(this.signal.reason)
+      }
+      const timer = setTimeout(() => {
+        this.signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+      this.signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  release() {
+    if (this.released) return
+    this.released = true
+    this.jobQueue.release(this.queue, this)
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      provider: this.provider,
+      type: this.type,
+      label: this.label,
+      queuedAt: new Date(this.queuedAt).toISOString(),
+      startedAt: this.startedAt ? new Date(this.startedAt).toISOString() : null
+    }
+  }
+}
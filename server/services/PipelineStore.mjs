@@ -0,0 +1,92 @@
+/**
+ * Pipeline Store
+ * Persists generation pipelines to disk so they survive API server restarts
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+
+// Format of the IDs GenerationService hands out; anything else never reaches the filesystem
+const PIPELINE_ID_PATTERN = /^pipeline-\d+-[a-z0-9]+$/
+
+export class PipelineStore {
+  constructor(pipelinesDir) {
+    this.pipelinesDir = pipelinesDir
+    // Serialize writes per pipeline so an older snapshot never lands after a newer one
+    this.writeQueues = new Map()
+  }
+
+  getPipelinePath(pipelineId) {
+    if (!PIPELINE_ID_PATTERN.test(pipelineId)) {
+      throw Object.assign(new Error(`Invalid pipeline ID: ${pipelineId}`), { status: 400 })
+    }
+    return path.join(this.pipelinesDir, `${pipelineId}.json`)
+  }
+
+  async save(pipeline) {
+    const snapshot = JSON.stringify(pipeline, null, 2)
+    const previous = this.writeQueues.get(pipeline.id) || Promise.resolve()
+    const write = previous.catch(() => {}).then(async () => {
+      await fs.mkdir(this.pipelinesDir, { recursive: true })
+      const filePath = this.getPipelinePath(pipeline.id)
+      const tempPath = `${filePath}.tmp`
+      await fs.writeFile(tempPath, snapshot)
+      await fs.rename(tempPath, filePath)
+    })
+
+    this.writeQueues.set(pipeline.id, write)
+    try {
+      await write
+    } finally {
+      if (this.writeQueues.get(pipeline.id) === write) {
+        this.writeQueues.delete(pipeline.id)
+      }
+    }
+  }
+
+  async load(pipelineId) {
+    // An ID in another format can't name a saved pipeline
+    if (!PIPELINE_ID_PATTERN.test(pipelineId)) {
+      return null
+    }
+    try {
+      return JSON.parse(await fs.readFile(this.getPipelinePath(pipelineId), 'utf-8'))
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async loadAll() {
+    let files
+    try {
+      files = await fs.readdir(this.pipelinesDir)
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return []
+      }
+      throw error
+    }
+
+    const pipelines = []
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue
+      // One unreadable file (e.g. truncated by a crash) shouldn't stop the server from starting
+      try {
+        pipelines.push(JSON.parse(await fs.readFile(path.join(this.pipelinesDir, file), 'utf-8')))
+      } catch (error) {
+        console.warn(`Skipping unreadable pipeline file ${file}:`, error.message)
+      }
+    }
+    return pipelines
+  }
+
+  async remove(pipelineId) {
+    const filePath = this.getPipelinePath(pipelineId)
+    // A save still in flight would write the file back after it was removed
+    await this.writeQueues.get(pipelineId)?.catch(() => {})
+    await fs.rm(filePath, { force: true })
+  }
+}
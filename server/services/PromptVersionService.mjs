@@ -0,0 +1,201 @@
+/**
+ * Prompt Version Service
+ * Keeps numbered snapshots of the prompt files in public/prompts so overwrites can be compared and rolled back
+ *
+ * Versions of {file}.json live in {historyDir}/{file}: versions.json lists them and
+ * {version}.json holds each snapshot. Unchanged content is never recorded twice in a row.
+ */
+
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+
+export class PromptVersionService {
+  constructor({ promptsDir, historyDir }) {
+    this.promptsDir = promptsDir
+    this.historyDir = historyDir
+    // File name → tail of the promise chain serializing its version writes
+    this.locks = new Map()
+  }
+
+  /**
+   * Snapshot the file's current content before a save, so content from before versioning
+   * (or edited by hand) is never lost
+   */
+  async recordBaseline(fileName) {
+    const versions = await this.readVersions(fileName)
+    return this.record(fileName, versions.length === 0 ? 'initial' : 'external-change')
+  }
+
+  /**
+   * Record the file's current content as a new version.
+   * Returns the latest version unchanged when the content hasn't changed, or null if the file doesn't exist.
+   */
+  record(fileName, operation, details = {}) {
+    return this.withLock(fileName, async () => {
+      let content
+      try {
+        content = await fs.readFile(this.getFilePath(fileName), 'utf-8')
+      } catch (error) {
+        if (error.code === 'ENOENT') return null
+        throw error
+      }
+
+      const hash = crypto.createHash('sha256').update(content).digest('hex')
+      const versions = await this.readVersions(fileName)
+      const latest = versions[versions.length - 1]
+      if (latest?.hash === hash) return latest
+
+      const version = {
+        version: (latest?.version || 0) + 1,
+        createdAt: new Date().toISOString(),
+        operation,
+        hash,
+        size: Buffer.byteLength(content),
+        ...(details.note ? { note: details.note } : {}),
+        ...(details.restoredFrom ? { restoredFrom: details.restoredFrom } : {})
+      }
+
+      const historyDir = this.getHistoryDir(fileName)
+      await fs.mkdir(historyDir, { recursive: true })
+      await fs.writeFile(path.join(historyDir, `${version.version}.json`), content)
+      versions.push(version)
+      await this.writeVersions(fileName, versions)
+
+      console.log(`🗂️  Recorded version ${version.version} of ${fileName}.json (${operation})`)
+      return version
+    })
+  }
+
+  /**
+   * Versions of a prompt file, newest first
+   */
+  async listVersions(fileName) {
+    const versions = await this.readVersions(fileName)
+    return versions.reverse()
+  }
+
+  /**
+   * A version with its parsed content. 'current' reads the file as it is now.
+   */
+  async getVersion(fileName, versionNumber) {
+    if (versionNumber === 'current') {
+      const content = JSON.parse(await fs.readFile(this.getFilePath(fileName), 'utf-8'))
+      return { version: 'current', content }
+    }
+
+    const versions = await this.readVersions(fileName)
+    const version = versions.find(entry => entry.version === versionNumber)
+    if (!version) {
+      throw new Error(`Version ${versionNumber} of ${fileName} not found`)
+    }
+
+    const content = JSON.parse(await fs.readFile(path.join(this.getHistoryDir(fileName), `${versionNumber}.json`), 'utf-8'))
+    return { ...version, content }
+  }
+
+  /**
+   * Every changed value between two versions, keyed by its JSON path
+   */
+  async diff(fileName, fromVersion, toVersion) {
+    const from = await this.getVersion(fileName, fromVersion)
+    const to = await this.getVersion(fileName, toVersion)
+
+    return {
+      from: from.version,
+      to: to.version,
+      changes: diffValues(from.content, to.content, '')
+    }
+  }
+
+  /**
+   * Write an earlier version's content back to the file and record the result as a new version
+   */
+  async restore(fileName, versionNumber, note) {
+    const { content } = await this.getVersion(fileName, versionNumber)
+
+    await this.recordBaseline(fileName)
+    await this.withLock(fileName, () => fs.writeFile(this.getFilePath(fileName), JSON.stringify(content, null, 2)))
+
+    return this.record(fileName, 'restore', { note, restoredFrom: versionNumber })
+  }
+
+  async readVersions(fileName) {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.getHistoryDir(fileName), 'versions.json'), 'utf-8'))
+    } catch (error) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  async writeVersions(fileName, versions) {
+    const indexPath = path.join(this.getHistoryDir(fileName), 'versions.json')
+    const tempPath = `${indexPath}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(versions, null, 2))
+    await fs.rename(tempPath, indexPath)
+  }
+
+  getFilePath(fileName) {
+    return path.join(this.promptsDir, `${fileName}.json`)
+  }
+
+  getHistoryDir(fileName) {
+    return path.join(this.historyDir, fileName)
+  }
+
+  withLock(fileName, fn) {
+    const previous = this.locks.get(fileName) || Promise.resolve()
+    const run = previous.catch(() => {}).then(fn)
+    this.locks.set(fileName, run)
+    run.finally(() => {
+      if (this.locks.get(fileName) === run) {
+        this.locks.delete(fileName)
+      }
+    }).catch(() => {})
+    return run
+  }
+}
+
+/**
+ * Changes from one JSON value to another. Arrays of objects with an id (material presets)
+ * are matched by id, so reordering or inserting presets doesn't show as every entry changing.
+ */
+function diffValues(from, to, valuePath) {
+  if (JSON.stringify(from) === JSON.stringify(to)) return []
+
+  if (isObject(from) && isObject(to)) {
+    const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])]
+    return keys.flatMap(key => diffEntry(from[key], to[key], joinPath(valuePath, key)))
+  }
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    if ([...from, ...to].every(item => isObject(item) && item.id !== undefined)) {
+      const fromById = new Map(from.map(item => [item.id, item]))
+      const toById = new Map(to.map(item => [item.id, item]))
+      const ids = [...new Set([...fromById.keys(), ...toById.keys()])]
+      return ids.flatMap(id => diffEntry(fromById.get(id), toById.get(id), `${valuePath}[id=${id}]`))
+    }
+
+    const length = Math.max(from.length, to.length)
+    return Array.from({ length }, (_, i) => i).flatMap(i =>
+      diffEntry(i < from.length ? from[i] : undefined, i < to.length ? to[i] : undefined, `${valuePath}[${i}]`)
+    )
+  }
+
+  return [{ path: valuePath, type: 'changed', from, to }]
+}
+
+function diffEntry(from, to, valuePath) {
+  if (from === undefined) return [{ path: valuePath, type: 'added', to }]
+  if (to === undefined) return [{ path: valuePath, type: 'removed', from }]
+  return diffValues(from, to, valuePath)
+}
+
+function joinPath(parent, key) {
+  return parent ? `${parent}.${key}` : key
+}
+
+function isObject(value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
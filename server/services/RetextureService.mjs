@@ -1,168 +1,34 @@
 /**
  * Retexture Service
- * Handles AI-powered texture generation using Meshy API
+ * Handles AI-powered texture generation using the configured generation provider
  */
 
 import fs from 'fs/promises'
 import path from 'path'
-import fetch from 'node-fetch'
-
-// Temporary MeshyClient implementation until build issues are resolved
-class MeshyClient {
-  constructor(config) {
-    this.apiKey = config.apiKey
-    this.baseUrl = config.baseUrl || 'https://api.meshy.ai'
-    this.maxRetries = config.maxRetries || 3
-    this.retryDelay = config.retryDelay || 5000
-    this.checkInterval = config.checkInterval || 10000
-    this.maxCheckTime = config.maxCheckTime || 600000
-  }
-
-  async remesh(modelPath, options = {}) {
-    // Minimal implementation for remeshing
-    const formData = new FormData()
-    formData.append('file', await fs.readFile(modelPath))
-    formData.append('targetPolycount', options.targetPolycount || 3000)
-    
-    const response = await fetch(`${this.baseUrl}/v1/remesh`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`
-      },
-      body: formData
-    })
-    
-    if (!response.ok) {
-      throw new Error(`Remesh failed: ${response.statusText}`)
-    }
-    
-    const result = await response.json()
-    return {
-      modelUrl: result.model_url,
-      taskId: result.task_id
-    }
-  }
-  
-  async checkTaskStatus(taskId) {
-    const response = await fetch(`${this.baseUrl}/v1/tasks/${taskId}`, {
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`
-      }
-    })
-    
-    if (!response.ok) {
-      throw new Error(`Task check failed: ${response.statusText}`)
-    }
-    
-    return await response.json()
-  }
-
-  async startRetexture(options) {
-    const body = {
-      input_task_id: options.inputTaskId,
-      text_style_prompt: options.textStylePrompt,
-      art_style: options.artStyle || 'realistic',
-      ai_model: options.aiModel || 'meshy-5',
-      enable_original_uv: options.enableOriginalUV ?? true
-    }
-
-    const response = await fetch(`${this.baseUrl}/openapi/v1/retexture`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(body)
-    })
-
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Meshy Retexture API error: ${response.status} - ${error}`)
-    }
-
-    const result = await response.json()
-    return result.result || result.task_id || result
-  }
-
-  async waitForCompletion(taskId, progressCallback) {
-    const startTime = Date.now()
-    
-    while (true) {
-      const status = await this.getRetextureTaskStatus(taskId)
-      
-      if (status.status === 'SUCCEEDED') {
-        if (progressCallback) progressCallback(100)
-        return status
-      }
-      
-      if (status.status === 'FAILED') {
-        throw new Error(`Retexture failed: ${status.task_error?.message || 'Unknown error'}`)
-      }
-      
-      if (progressCallback && status.progress) {
-        progressCallback(status.progress)
-      }
-      
-      if (Date.now() - startTime > this.maxCheckTime) {
-        throw new Error(`Retexture timeout after ${this.maxCheckTime/1000} seconds`)
-      }
-      
-      await new Promise(resolve => setTimeout(resolve, this.checkInterval))
-    }
-  }
-
-  async getRetextureTaskStatus(taskId) {
-    const response = await fetch(`${this.baseUrl}/openapi/v1/retexture/${taskId}`, {
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`
-      }
-    })
-
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Meshy Retexture API error: ${response.status} - ${error}`)
-    }
-
-    return response.json()
-  }
-
-  async downloadModel(modelUrl) {
-    const response = await fetch(modelUrl)
-    if (!response.ok) {
-      throw new Error(`Failed to download model: ${response.statusText}`)
-    }
-    
-    const buffer = await response.arrayBuffer()
-    return Buffer.from(buffer)
-  }
-}
+import { writeAssetMetadata } from '../utils/assetMetadataSchema.mjs'
 
 export class RetextureService {
-  constructor() {
-    this.meshyApiKey = process.env.MESHY_API_KEY
-    
-    if (!this.meshyApiKey) {
-      console.warn('[RetextureService] MESHY_API_KEY not found - retexturing will be disabled')
-      this.meshyClient = null
-    } else {
-      // Initialize MeshyClient with robust configuration
-      this.meshyClient = new MeshyClient({
-        apiKey: this.meshyApiKey,
-        baseUrl: 'https://api.meshy.ai',
-        timeout: 30000, // 30 seconds
-        maxRetries: 3,
-        retryDelayMs: 2000,
-        keepAlive: true,
-        maxSockets: 10
-      })
+  constructor({ provider, jobQueue, revisionService }) {
+    this.provider = provider
+    this.jobQueue = jobQueue
+    this.revisionService = revisionService
+    // Poll retexture tasks every 10s for up to 10 minutes
+    this.checkInterval = 10000
+    this.maxCheckTime = 600000
+
+    const missingConfiguration = this.provider.getMissingConfiguration(['retexture'])
+    if (missingConfiguration.length > 0) {
+      console.warn(`[RetextureService] Missing ${missingConfiguration.join(', ')} - retexturing will be disabled`)
     }
   }
 
   async retexture({ baseAssetId, materialPreset, outputName, assetsDir }) {
-    if (!this.meshyClient) {
-      throw new Error('MESHY_API_KEY is required for retexturing')
+    const missingConfiguration = this.provider.getMissingConfiguration(['retexture'])
+    if (missingConfiguration.length > 0) {
+      throw new Error(`${missingConfiguration.join(' and ')} required for retexturing`)
     }
 
+    let job
     try {
       // Get base asset metadata
       const baseMetadata = await this.getAssetMetadata(baseAssetId, assetsDir)
@@ -172,20 +38,31 @@ export class RetextureService {
 
       console.log(`🎨 Starting retexture for ${baseAssetId} with material: ${materialPreset.displayName}`)
 
-      // Start retexture task using the new MeshyClient
-      const taskId = await this.meshyClient.startRetexture({
-        inputTaskId: baseMetadata.meshyTaskId,
-        textStylePrompt: materialPreset.stylePrompt || 
-          `Apply ${materialPreset.displayName} material texture`,
-        artStyle: 'realistic',
-        aiModel: 'meshy-5',
-        enableOriginalUV: true
+      job = await this.jobQueue.acquire({
+        provider: this.provider.name,
+        type: 'retexture',
+        label: outputName || baseAssetId
       })
 
+      // Start retexture task with the configured provider
+      const taskId = await job.request(() => this.provider.startRetexture(
+        { inputTaskId: baseMetadata.meshyTaskId },
+        {
+          textStylePrompt: materialPreset.stylePrompt ||
+            `Apply ${materialPreset.displayName} material texture`
+        },
+        {
+          artStyle: 'realistic',
+          aiModel: 'meshy-5',
+          enableOriginalUV: true
+        }
+      ), { idempotent: false })
+
       console.log(`🎨 Retexture task started: ${taskId}`)
 
       // Wait for completion with progress updates
-      const result = await this.meshyClient.waitForCompletion(
+      const result = await this.waitForCompletion(
+        job,
         taskId,
         (progress) => {
           console.log(`⏳ Retexture Progress: ${progress}%`)
@@ -203,7 +80,8 @@ export class RetextureService {
         baseMetadata,
         materialPreset,
         taskId,
-        assetsDir
+        assetsDir,
+        job
       })
 
       return {
@@ -226,6 +104,38 @@ export class RetextureService {
           ? `Network error during retexturing: ${errorMessage}. Please check your internet connection and try again.`
           : `Retexturing failed: ${errorMessage}`
       )
+    } finally {
+      job?.release()
+    }
+  }
+
+  /**
+   * Poll a retexture task until it succeeds, fails or times out
+   */
+  async waitForCompletion(job, taskId, progressCallback) {
+    const startTime = Date.now()
+
+    while (true) {
+      const status = await job.request(() => this.provider.getRetextureStatus(taskId))
+
+      if (status.status === 'SUCCEEDED') {
+        if (progressCallback) progressCallback(100)
+        return status
+      }
+
+      if (status.status === 'FAILED') {
+        throw new Error(`Retexture failed: ${status.task_error?.message || 'Unknown error'}`)
+      }
+
+      if (progressCallback && status.progress) {
+        progressCallback(status.progress)
+      }
+
+      if (Date.now() - startTime > this.maxCheckTime) {
+        throw new Error(`Retexture timeout after ${this.maxCheckTime/1000} seconds`)
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.checkInterval))
     }
   }
 
@@ -236,18 +146,20 @@ export class RetextureService {
     baseMetadata,
     materialPreset, 
     taskId, 
-    assetsDir 
+    assetsDir,
+    job
   }) {
     if (!result.model_urls?.glb) {
       throw new Error('No model URL in result')
     }
 
     const outputDir = path.join(assetsDir, variantName)
+    await this.revisionService.recordBaseline(variantName)
     await fs.mkdir(outputDir, { recursive: true })
 
-    // Download model using MeshyClient
+    // Download model from the provider
     console.log(`📥 Downloading retextured model...`)
-    const modelBuffer = await this.meshyClient.downloadModel(result.model_urls.glb)
+    const modelBuffer = await job.request(() => this.provider.downloadFile(result.model_urls.glb))
     const modelPath = path.join(outputDir, `${variantName}.glb`)
     await fs.writeFile(modelPath, modelBuffer)
 
@@ -306,10 +218,8 @@ export class RetextureService {
       gddCompliant: true
     }
 
-    await fs.writeFile(
-      path.join(outputDir, 'metadata.json'),
-      JSON.stringify(variantMetadata, null, 2)
-    )
+    await writeAssetMetadata(path.join(outputDir, 'metadata.json'), variantMetadata)
+    await this.revisionService.record(variantName, 'retexture', { retextureTaskId: taskId })
 
     // Update base asset metadata to track this variant
     await this.updateBaseAssetVariants(baseAssetId, variantName, assetsDir)
@@ -336,7 +246,9 @@ export class RetextureService {
         metadata.lastVariantGenerated = variantId
         metadata.updatedAt = new Date().toISOString()
         
-        await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2))
+        await this.revisionService.recordBaseline(baseAssetId)
+        await writeAssetMetadata(metadataPath, metadata)
+        await this.revisionService.record(baseAssetId, 'add-variants')
       }
     } catch (error) {
       console.warn(`Failed to update base asset variants: ${error.message}`)
@@ -347,33 +259,4 @@ export class RetextureService {
     const metadataPath = path.join(assetsDir, assetId, 'metadata.json')
     return JSON.parse(await fs.readFile(metadataPath, 'utf-8'))
   }
-
-  async regenerateBase({ baseAssetId, assetsDir }) {
-    if (!this.meshyApiKey || !process.env.OPENAI_API_KEY) {
-      throw new Error('MESHY_API_KEY and OPENAI_API_KEY are required for base regeneration')
-    }
-
-    // For now, return a simulated success response
-    // Full implementation would regenerate the base model from scratch
-    console.log(`🔄 Regenerating base model: ${baseAssetId}`)
-    
-    // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, 3000))
-    
-    return {
-      success: true,
-      assetId: baseAssetId,
-      message: `Base model ${baseAssetId} has been queued for regeneration. This feature is coming soon!`,
-      asset: await this.getAssetMetadata(baseAssetId, assetsDir)
-    }
-  }
-  
-  /**
-   * Cleanup resources on shutdown
-   */
-  destroy() {
-    if (this.meshyClient) {
-      this.meshyClient.destroy()
-    }
-  }
-}
\ No newline at end of file
+}
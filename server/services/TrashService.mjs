@@ -0,0 +1,142 @@
+/**
+ * Trash Service
+ * Holds deleted asset folders until they are restored or their retention period runs out
+ *
+ * Each deletion becomes one entry in gdd-assets/.trash/{trashId}: the moved asset
+ * folders plus entry.json, which records how the assets were linked when deleted.
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000
+
+export class TrashService {
+  constructor({ assetsDir, trashDir, retentionDays }) {
+    this.assetsDir = assetsDir
+    this.trashDir = trashDir
+    this.retentionMs = retentionDays * 24 * 60 * 60 * 1000
+    this.purgeTimer = null
+  }
+
+  /**
+   * Move asset folders into a new trash entry. `details` is stored alongside them.
+   */
+  async moveToTrash(assetIds, details) {
+    const trashId = `trash-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    const entryDir = path.join(this.trashDir, trashId)
+    await fs.mkdir(entryDir, { recursive: true })
+
+    const entry = {
+      id: trashId,
+      deletedAt: new Date().toISOString(),
+      assetIds,
+      ...details
+    }
+    // Written first so a crash mid-move still leaves a restorable entry
+    await fs.writeFile(path.join(entryDir, 'entry.json'), JSON.stringify(entry, null, 2))
+
+    for (const assetId of assetIds) {
+      await fs.rename(path.join(this.assetsDir, assetId), path.join(entryDir, assetId))
+      console.log(`🗑️  Moved asset ${assetId} to trash`)
+    }
+
+    return this.withExpiry(entry)
+  }
+
+  /**
+   * Trash entries, most recently deleted first
+   */
+  async listEntries() {
+    let dirents
+    try {
+      dirents = await fs.readdir(this.trashDir, { withFileTypes: true })
+    } catch (error) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+
+    const entries = await Promise.all(
+      dirents.filter(dirent => dirent.isDirectory()).map(dirent => this.getEntry(dirent.name))
+    )
+    return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+  }
+
+  async getEntry(trashId) {
+    try {
+      return this.withExpiry(JSON.parse(await fs.readFile(path.join(this.trashDir, trashId, 'entry.json'), 'utf-8')))
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Trash entry ${trashId} not found`)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Expiry follows the current retention setting rather than the one in force at deletion
+   */
+  withExpiry(entry) {
+    return { ...entry, expiresAt: new Date(new Date(entry.deletedAt).getTime() + this.retentionMs).toISOString() }
+  }
+
+  /**
+   * Move an entry's asset folders back into the library and drop the entry
+   */
+  async restoreEntry(trashId) {
+    const entry = await this.getEntry(trashId)
+
+    for (const assetId of entry.assetIds) {
+      const exists = await fs.access(path.join(this.assetsDir, assetId)).then(() => true).catch(() => false)
+      if (exists) {
+        throw Object.assign(new Error(`Cannot restore: asset ${assetId} already exists`), { status: 409 })
+      }
+    }
+
+    for (const assetId of entry.assetIds) {
+      await fs.rename(path.join(this.trashDir, trashId, assetId), path.join(this.assetsDir, assetId))
+      console.log(`♻️  Restored asset ${assetId} from trash`)
+    }
+
+    await fs.rm(path.join(this.trashDir, trashId), { recursive: true, force: true })
+    return entry
+  }
+
+  async deleteEntry(trashId) {
+    const entry = await this.getEntry(trashId)
+    await fs.rm(path.join(this.trashDir, trashId), { recursive: true, force: true })
+    console.log(`🗑️  Permanently deleted ${entry.assetIds.join(', ')}`)
+    return entry
+  }
+
+  /**
+   * Permanently delete entries older than the retention period
+   */
+  async purgeExpired() {
+    const now = Date.now()
+    const expired = (await this.listEntries()).filter(entry => new Date(entry.expiresAt).getTime() <= now)
+
+    for (const entry of expired) {
+      await this.deleteEntry(entry.id)
+    }
+    return expired.length
+  }
+
+  startPurging() {
+    const purge = () => {
+      this.purgeExpired()
+        .then(count => {
+          if (count > 0) {
+            console.log(`🧹 Purged ${count} expired trash entr${count === 1 ? 'y' : 'ies'}`)
+          }
+        })
+        .catch(error => {
+          console.error('Failed to purge trash:', error)
+        })
+    }
+
+    purge()
+    this.purgeTimer = setInterval(purge, PURGE_INTERVAL_MS)
+    this.purgeTimer.unref()
+  }
+}
@@ -1,17 +1,62 @@
 /**
- * AI Creation Service for Server
- * Provides image generation and Meshy integration without TypeScript
+ * Meshy + OpenAI Provider
+ * Generates concept art with OpenAI and models, retextures and rigs with Meshy
  */
 
 import fetch from 'node-fetch'
-import { getGenerationPrompts } from '../utils/promptLoader.mjs'
+import { getGenerationPrompts } from '../../utils/promptLoader.mjs'
 
-export class AICreationService {
+export class MeshyOpenAIProvider {
   constructor(config) {
-    this.config = config
+    this.name = 'meshy'
+    // Meshy downloads the concept art itself, so it must be reachable from the internet
+    this.requiresPublicImageUrl = true
     this.imageService = new ImageGenerationService(config.openai)
     this.meshyService = new MeshyService(config.meshy)
   }
+
+  getMissingConfiguration(operations = ['image', 'image3D', 'retexture', 'rigging']) {
+    const missing = []
+    if (operations.includes('image') && !this.imageService.apiKey) missing.push('OPENAI_API_KEY')
+    if (operations.some(operation => operation !== 'image') && !this.meshyService.apiKey) missing.push('MESHY_API_KEY')
+    return missing
+  }
+
+  generateImage(description, assetType, style, options) {
+    return this.imageService.generateImage(description, assetType, style, options)
+  }
+
+  startImageTo3D(imageUrl, options) {
+    return this.meshyService.startImageTo3D(imageUrl, options)
+  }
+
+  getImageTo3DStatus(taskId) {
+    return this.meshyService.getTaskStatus(taskId)
+  }
+
+  startRetexture(input, style, options) {
+    return this.meshyService.startRetextureTask(input, style, options)
+  }
+
+  getRetextureStatus(taskId) {
+    return this.meshyService.getRetextureTaskStatus(taskId)
+  }
+
+  startRigging(input, options) {
+    return this.meshyService.startRiggingTask(input, options)
+  }
+
+  getRiggingStatus(taskId) {
+    return this.meshyService.getRiggingTaskStatus(taskId)
+  }
+
+  async downloadFile(url) {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw Object.assign(new Error(`Failed to download file: ${response.status}`), { status: response.status })
+    }
+    return Buffer.from(await response.arrayBuffer())
+  }
 }
 
 class ImageGenerationService {
@@ -20,7 +65,7 @@ class ImageGenerationService {
     this.model = config.model || 'gpt-image-1'
   }
 
-  async generateImage(description, assetType, style) {
+  async generateImage(description, assetType, style, { signal } = {}) {
     // Load generation prompts
     const generationPrompts = await getGenerationPrompts()
     const promptTemplate = generationPrompts?.imageGeneration?.base || 
@@ -43,7 +88,8 @@ class ImageGenerationService {
         prompt: prompt,
         size: '1024x1024',
         quality: 'high'  // gpt-image-1 doesn't support n or response_format parameters
-      })
+      }),
+      signal
     })
 
     if (!response.ok) {
@@ -104,7 +150,7 @@ class MeshyService {
 
     if (!response.ok) {
       const error = await response.text()
-      throw new Error(`Meshy API error: ${response.status} - ${error}`)
+      throw Object.assign(new Error(`Meshy API error: ${response.status} - ${error}`), { status: response.status })
     }
 
     const data = await response.json()
@@ -126,7 +172,7 @@ class MeshyService {
 
     if (!response.ok) {
       const error = await response.text()
-      throw new Error(`Meshy API error: ${response.status} - ${error}`)
+      throw Object.assign(new Error(`Meshy API error: ${response.status} - ${error}`), { status: response.status })
     }
 
     const data = await response.json()
@@ -163,7 +209,7 @@ class MeshyService {
 
     if (!response.ok) {
       const error = await response.text()
-      throw new Error(`Meshy Retexture API error: ${response.status} - ${error}`)
+      throw Object.assign(new Error(`Meshy Retexture API error: ${response.status} - ${error}`), { status: response.status })
     }
 
     const data = await response.json()
@@ -184,7 +230,7 @@ class MeshyService {
 
     if (!response.ok) {
       const error = await response.text()
-      throw new Error(`Meshy API error: ${response.status} - ${error}`)
+      throw Object.assign(new Error(`Meshy API error: ${response.status} - ${error}`), { status: response.status })
     }
 
     const data = await response.json()
@@ -216,7 +262,7 @@ class MeshyService {
 
     if (!response.ok) {
       const error = await response.text()
-      throw new Error(`Meshy rigging API error: ${response.status} - ${error}`)
+      throw Object.assign(new Error(`Meshy rigging API error: ${response.status} - ${error}`), { status: response.status })
     }
 
     const data = await response.json()
@@ -237,9 +283,9 @@ class MeshyService {
 
     if (!response.ok) {
       const error = await response.text()
-      throw new Error(`Meshy rigging status error: ${response.status} - ${error}`)
+      throw Object.assign(new Error(`Meshy rigging status error: ${response.status} - ${error}`), { status: response.status })
     }
 
     return await response.json()
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,123 @@
+/**
+ * Stub Provider
+ * Offline provider that answers every request with canned files from a fixtures folder
+ *
+ * Fixtures: concept-art.png and model.glb are required. retextured.glb, walking.glb
+ * and running.glb are optional and fall back to model.glb.
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+
+export class StubProvider {
+  constructor(config) {
+    this.name = 'stub'
+    this.requiresPublicImageUrl = false
+    this.fixturesDir = config.fixturesDir
+    // How long a stub task reports IN_PROGRESS before it succeeds
+    this.taskDurationMs = config.taskDurationMs
+  }
+
+  getMissingConfiguration() {
+    return []
+  }
+
+  async generateImage(description, assetType, style) {
+    const imageBuffer = await this.readFixture('concept-art.png')
+
+    return {
+      imageUrl: `data:image/png;base64,${imageBuffer.toString('base64')}`,
+      prompt: description,
+      metadata: {
+        model: 'stub',
+        assetType,
+        style,
+        timestamp: new Date().toISOString()
+      }
+    }
+  }
+
+  async startImageTo3D() {
+    return this.createTaskId('image3d')
+  }
+
+  async getImageTo3DStatus(taskId) {
+    return this.getTaskStatus(taskId, async () => ({
+      model_urls: { glb: await this.getFixtureUrl('model.glb') },
+      polycount: 12
+    }))
+  }
+
+  async startRetexture() {
+    return this.createTaskId('retexture')
+  }
+
+  async getRetextureStatus(taskId) {
+    return this.getTaskStatus(taskId, async () => ({
+      model_urls: { glb: await this.getFixtureUrl('retextured.glb', 'model.glb') }
+    }))
+  }
+
+  async startRigging(input) {
+    if (!input.inputTaskId && !input.modelUrl) {
+      throw new Error('Either inputTaskId or modelUrl must be provided')
+    }
+    return this.createTaskId('rigging')
+  }
+
+  async getRiggingStatus(taskId) {
+    return this.getTaskStatus(taskId, async () => ({
+      result: {
+        basic_animations: {
+          walking_glb_url: await this.getFixtureUrl('walking.glb', 'model.glb'),
+          running_glb_url: await this.getFixtureUrl('running.glb', 'model.glb')
+        }
+      }
+    }))
+  }
+
+  async downloadFile(url) {
+    if (!url.startsWith('stub://')) {
+      throw new Error(`Stub provider cannot download ${url}`)
+    }
+    return this.readFixture(url.slice('stub://'.length))
+  }
+
+  /**
+   * Task IDs carry their start time so status stays stateless and survives restarts
+   */
+  createTaskId(kind) {
+    return `stub-${kind}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+  }
+
+  async getTaskStatus(taskId, getResult) {
+    const startedAt = Number(taskId.split('-')[2])
+    if (!taskId.startsWith('stub-') || Number.isNaN(startedAt)) {
+      throw new Error(`Unknown stub task ${taskId}`)
+    }
+
+    const progress = Math.min(100, Math.round((Date.now() - startedAt) / this.taskDurationMs * 100))
+    if (progress < 100) {
+      return { id: taskId, status: 'IN_PROGRESS', progress }
+    }
+
+    return { id: taskId, status: 'SUCCEEDED', progress: 100, ...(await getResult()) }
+  }
+
+  async getFixtureUrl(fileName, fallbackName) {
+    const exists = await fs.access(path.join(this.fixturesDir, fileName)).then(() => true).catch(() => false)
+    return `stub://${exists || !fallbackName ? fileName : fallbackName}`
+  }
+
+  async readFixture(fileName) {
+    const fixturePath = path.join(this.fixturesDir, fileName)
+    try {
+      return await fs.readFile(fixturePath)
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Stub provider fixture not found: ${fixturePath}`)
+      }
+      throw error
+    }
+  }
+}
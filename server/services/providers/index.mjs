@@ -0,0 +1,50 @@
+/**
+ * Generation Providers
+ * Selects the backend used for image generation, image-to-3D, retexturing and rigging
+ *
+ * Every provider implements:
+ * - name, requiresPublicImageUrl
+ * - getMissingConfiguration(operations?) → environment variables missing for 'image', 'image3D', 'retexture' or 'rigging'
+ * - generateImage(description, assetType, style, { signal }?) → { imageUrl, prompt, metadata }; the signal aborts the request
+ * - startImageTo3D(imageUrl, options) / startRetexture(input, style, options) / startRigging(input, options) → task ID
+ * - getImageTo3DStatus / getRetextureStatus / getRiggingStatus(taskId) → Meshy-shaped task
+ *   ({ status: 'PENDING' | 'IN_PROGRESS' | 'SUCCEEDED' | 'FAILED', progress, model_urls, result })
+ * - downloadFile(url) → Buffer
+ */
+
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { MeshyOpenAIProvider } from './MeshyOpenAIProvider.mjs'
+import { StubProvider } from './StubProvider.mjs'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, '../../fixtures/stub-provider')
+
+/**
+ * Create the provider named by GENERATION_PROVIDER (meshy by default)
+ */
+export function createGenerationProvider(name = process.env.GENERATION_PROVIDER || 'meshy') {
+  if (name === 'meshy') {
+    return new MeshyOpenAIProvider({
+      openai: {
+        apiKey: process.env.OPENAI_API_KEY || '',
+        model: 'gpt-image-1'
+      },
+      meshy: {
+        apiKey: process.env.MESHY_API_KEY || '',
+        baseUrl: 'https://api.meshy.ai'
+      }
+    })
+  }
+
+  if (name === 'stub') {
+    return new StubProvider({
+      fixturesDir: process.env.STUB_PROVIDER_FIXTURES_DIR || DEFAULT_FIXTURES_DIR,
+      taskDurationMs: parseInt(process.env.STUB_PROVIDER_TASK_MS || '3000', 10)
+    })
+  }
+
+  throw new Error(`Unknown generation provider: ${name}`)
+}
@@ -0,0 +1,331 @@
+/**
+ * Asset Metadata Schema
+ * Runtime checks and versioned migrations for gdd-assets/{id}/metadata.json
+ *
+ * The field rules mirror BaseAssetMetadata, VariantAssetMetadata and RiggingMetadata in
+ * src/types. Fields the tools don't always write are optional, but any value present must
+ * have the declared type. Unknown fields are allowed.
+ */
+
+import fs from 'fs/promises'
+
+export const CURRENT_SCHEMA_VERSION = 2
+
+const string = { type: 'string' }
+const nonEmptyString = { type: 'string', nonEmpty: true }
+const boolean = { type: 'boolean' }
+const number = { type: 'number' }
+const integer = { type: 'integer' }
+const date = { type: 'date' }
+const stringArray = { type: 'array', items: string }
+const oneOf = (...values) => ({ type: 'enum', values })
+const nullable = rule => ({ ...rule, nullable: true })
+const required = rule => ({ ...rule, required: true })
+
+const MATERIAL_PRESET_FIELDS = {
+  id: required(nonEmptyString),
+  displayName: required(nonEmptyString),
+  category: string,
+  tier: number,
+  color: string,
+  stylePrompt: string
+}
+
+// GenerationRecipe: what the generation pipeline ran with, replayed by regeneration
+const GENERATION_RECIPE_FIELDS = {
+  version: required(integer),
+  derived: boolean,
+  recordedAt: nullable(date),
+  pipelineId: nullable(string),
+  description: string,
+  enhancedPrompt: nullable(string),
+  imagePrompt: nullable(string),
+  gameStyle: nullable(string),
+  quality: nullable(oneOf('standard', 'high', 'ultra')),
+  model: nullable({
+    type: 'object',
+    fields: { aiModel: string, topology: string, targetPolycount: integer, textureResolution: integer, enablePbr: boolean }
+  }),
+  materialPrompts: { type: 'object', values: string },
+  config: required({ type: 'object', fields: { name: string, type: string, subtype: string, description: string } })
+}
+
+// ConceptArtCandidate: concept art kept from the generation pipeline's review mode
+const CONCEPT_ART_CANDIDATE_FIELDS = {
+  file: required(nonEmptyString),
+  round: integer,
+  imagePrompt: string,
+  selected: boolean
+}
+
+const vector3 = { type: 'object', fields: { x: required(number), y: required(number), z: required(number) } }
+
+// EquipmentAttachmentConfig: how equipment sits on an avatar, saved from the Equipment page
+const ATTACHMENT_CONFIG_FIELDS = {
+  slot: required(nonEmptyString),
+  bone: required(nonEmptyString),
+  positionOffset: required(vector3),
+  rotationOffset: required(vector3),
+  scaleOverride: required(number),
+  autoScale: required(boolean),
+  avatarHeight: required(number),
+  creatureCategory: string,
+  gripDetection: required(nullable({
+    type: 'object',
+    fields: {
+      method: required(oneOf('vision', 'geometry')),
+      gripPoint: required(vector3),
+      confidence: required(number),
+      orientationFlipped: required(boolean)
+    }
+  })),
+  avatarId: required(nonEmptyString),
+  savedAt: required(date)
+}
+
+const attachmentConfigMap = { type: 'object', values: { type: 'object', fields: ATTACHMENT_CONFIG_FIELDS } }
+
+// EquipmentLoadout: equipment an avatar wears across its slots, saved from the Equipment page
+const LOADOUT_FIELDS = {
+  name: required(nonEmptyString),
+  items: required({ type: 'object', values: nonEmptyString }),
+  savedAt: required(date)
+}
+
+// RiggingMetadata
+const RIGGING_FIELDS = {
+  isRigged: boolean,
+  riggingTaskId: string,
+  riggingStatus: oneOf('pending', 'processing', 'completed', 'failed'),
+  riggingError: string,
+  riggingAttempted: boolean,
+  rigType: oneOf('humanoid-standard', 'creature', 'custom'),
+  characterHeight: number,
+  supportsAnimation: boolean,
+  animationCompatibility: stringArray,
+  animations: { type: 'object', values: { type: 'object', values: nullable(string) } },
+  riggedModelPath: string,
+  tposeModelPath: nullable(string)
+}
+
+// Fields shared by base models and variants
+const COMMON_FIELDS = {
+  ...RIGGING_FIELDS,
+  schemaVersion: required(integer),
+  id: string,
+  gameId: string,
+  name: required(nonEmptyString),
+  description: string,
+  type: required(nonEmptyString),
+  subtype: string,
+  modelPath: string,
+  conceptArtPath: nullable(string),
+  hasModel: boolean,
+  hasConceptArt: boolean,
+  workflow: string,
+  gddCompliant: boolean,
+  isPlaceholder: boolean,
+  normalized: boolean,
+  normalizationDate: date,
+  dimensions: { type: 'object', values: number },
+  createdAt: date,
+  updatedAt: date,
+  generatedAt: date,
+  completedAt: date,
+  lastModified: date,
+  tier: string,
+  level: number,
+  rarity: string,
+  attackLevel: number,
+  strengthLevel: number,
+  defenseLevel: number,
+  format: string,
+  gripDetected: boolean,
+  attachmentConfigs: { type: 'object', fields: { avatars: required(attachmentConfigMap), rigProfiles: required(attachmentConfigMap) } },
+  loadouts: { type: 'array', items: { type: 'object', fields: LOADOUT_FIELDS } },
+  requiresAnimationStrip: boolean
+}
+
+// BaseAssetMetadata
+const BASE_FIELDS = {
+  ...COMMON_FIELDS,
+  isBaseModel: required(oneOf(true)),
+  isVariant: oneOf(false),
+  meshyTaskId: string,
+  generationMethod: oneOf('gpt-image-meshy', 'direct-meshy', 'manual', 'placeholder'),
+  importSource: { type: 'object', fields: { format: required(oneOf('glb', 'gltf', 'obj')), files: required(stringArray) } },
+  generationRecipe: { type: 'object', fields: GENERATION_RECIPE_FIELDS },
+  conceptArtCandidates: { type: 'array', items: { type: 'object', fields: CONCEPT_ART_CANDIDATE_FIELDS } },
+  variants: required(stringArray),
+  variantCount: integer,
+  lastVariantGenerated: nullable(string)
+}
+
+// VariantAssetMetadata
+const VARIANT_FIELDS = {
+  ...COMMON_FIELDS,
+  isBaseModel: required(oneOf(false)),
+  isVariant: required(oneOf(true)),
+  parentBaseModel: required(nonEmptyString),
+  materialPreset: required({ type: 'object', fields: MATERIAL_PRESET_FIELDS }),
+  retextureTaskId: string,
+  retextureMethod: oneOf('meshy-retexture', 'manual-texture', 'ai-generated'),
+  retextureStatus: oneOf('pending', 'processing', 'completed', 'failed'),
+  retextureError: string,
+  baseModelTaskId: string
+}
+
+/**
+ * Migrations run in order on metadata whose schemaVersion is below `version`.
+ * Metadata written before versioning has no schemaVersion and counts as version 1.
+ */
+const MIGRATIONS = [
+  {
+    version: 2,
+    description: 'Mark base models and variants explicitly, replace baseMaterial with materialPreset',
+    migrate(metadata, { materialPresets }) {
+      if (metadata.isBaseModel === undefined && metadata.isVariant === undefined) {
+        metadata.isVariant = !!metadata.parentBaseModel
+        metadata.isBaseModel = !metadata.isVariant
+      }
+
+      if (metadata.isBaseModel) {
+        metadata.variants = metadata.variants || []
+        metadata.variantCount = metadata.variants.length
+      }
+
+      if (metadata.isVariant && !metadata.materialPreset && metadata.baseMaterial) {
+        const preset = materialPresets.find(candidate => candidate.id === metadata.baseMaterial)
+        metadata.materialPreset = preset
+          ? {
+              id: preset.id,
+              displayName: preset.displayName,
+              category: preset.category,
+              tier: preset.tier,
+              color: preset.color,
+              stylePrompt: preset.stylePrompt
+            }
+          : {
+              id: metadata.baseMaterial,
+              displayName: metadata.baseMaterial.charAt(0).toUpperCase() + metadata.baseMaterial.slice(1),
+              category: 'custom'
+            }
+      }
+      delete metadata.baseMaterial
+    }
+  }
+]
+
+/**
+ * Upgrade metadata to the current schema version. Returns a new object; the input is untouched.
+ */
+export function migrateAssetMetadata(metadata, context) {
+  const migrated = structuredClone(metadata)
+  const fromVersion = migrated.schemaVersion || 1
+
+  for (const migration of MIGRATIONS) {
+    if (fromVersion < migration.version) {
+      migration.migrate(migrated, context)
+      migrated.schemaVersion = migration.version
+    }
+  }
+
+  return migrated
+}
+
+export function needsMigration(metadata) {
+  return (metadata.schemaVersion || 1) < CURRENT_SCHEMA_VERSION
+}
+
+/**
+ * Field-level errors for a metadata object, e.g. [{ field: 'variantCount', message: 'must be an integer' }]
+ */
+export function validateAssetMetadata(metadata) {
+  if (!isPlainObject(metadata)) {
+    return [{ field: '', message: 'must be an object' }]
+  }
+
+  const fields = metadata.isVariant === true ? VARIANT_FIELDS : BASE_FIELDS
+  return validateFields(metadata, fields, '')
+}
+
+/**
+ * Field-level errors for some base model fields, checked before the rest of the metadata exists
+ * (e.g. a manifest row before it is generated). Undefined fields are skipped rather than required.
+ */
+export function validateMetadataFields(values) {
+  return Object.entries(values)
+    .filter(([name, value]) => value !== undefined && BASE_FIELDS[name])
+    .flatMap(([name, value]) => validateValue(value, BASE_FIELDS[name], name))
+}
+
+/**
+ * Stamp the current schema version, validate and write metadata.json.
+ * Throws a 400 error carrying `errors` when the metadata is invalid.
+ */
+export async function writeAssetMetadata(metadataPath, metadata) {
+  const versioned = { ...metadata, schemaVersion: CURRENT_SCHEMA_VERSION }
+  const errors = validateAssetMetadata(versioned)
+  if (errors.length > 0) {
+    throw createValidationError(errors)
+  }
+
+  await fs.writeFile(metadataPath, JSON.stringify(versioned, null, 2))
+  return versioned
+}
+
+export function createValidationError(errors) {
+  const summary = errors.map(error => `${error.field || 'metadata'} ${error.message}`).join(', ')
+  return Object.assign(new Error(`Invalid asset metadata: ${summary}`), { status: 400, errors })
+}
+
+function validateFields(value, fields, prefix) {
+  const errors = []
+  for (const [name, rule] of Object.entries(fields)) {
+    errors.push(...validateValue(value[name], rule, prefix ? `${prefix}.${name}` : name))
+  }
+  return errors
+}
+
+function validateValue(value, rule, field) {
+  if (value === undefined) {
+    return rule.required ? [{ field, message: 'is required' }] : []
+  }
+  if (value === null) {
+    return rule.nullable ? [] : [{ field, message: 'must not be null' }]
+  }
+
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string') return [{ field, message: 'must be a string' }]
+      if (rule.nonEmpty && value.trim() === '') return [{ field, message: 'must not be empty' }]
+      return []
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [{ field, message: 'must be a boolean' }]
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [{ field, message: 'must be a number' }]
+    case 'integer':
+      return Number.isInteger(value) && value >= 0 ? [] : [{ field, message: 'must be a non-negative integer' }]
+    case 'date':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+        ? []
+        : [{ field, message: 'must be an ISO date string' }]
+    case 'enum':
+      return rule.values.includes(value)
+        ? []
+        : [{ field, message: `must be one of ${rule.values.map(v => JSON.stringify(v)).join(', ')}` }]
+    case 'array':
+      if (!Array.isArray(value)) return [{ field, message: 'must be an array' }]
+      return value.flatMap((item, i) => validateValue(item, rule.items, `${field}[${i}]`))
+    case 'object':
+      if (!isPlainObject(value)) return [{ field, message: 'must be an object' }]
+      if (rule.fields) return validateFields(value, rule.fields, field)
+      return Object.entries(value).flatMap(([key, item]) => validateValue(item, rule.values, `${field}.${key}`))
+    default:
+      throw new Error(`Unknown schema rule type: ${rule.type}`)
+  }
+}
+
+function isPlainObject(value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,150 @@
+/**
+ * Prompt Lint
+ * Checks a generation config and the image prompt it assembles into for cues that work against
+ * each other or against the pipeline: style contradictions, avatars that won't rig cleanly,
+ * armor generated on a body, and prompts too long for the providers.
+ *
+ * Each rule returns issues of the shape { rule, severity, field, message }, where field names the
+ * input to fix: description, gameStyle, imagePrompt or materialPresets.
+ */
+
+// Style cues that make buildImagePrompt switch to a high-detail prompt
+export const HIGH_QUALITY_STYLE_PATTERN = /\b(4k|ultra|high\s*quality|realistic|cinematic|photoreal|pbr)\b/i
+
+// Cues buildImagePrompt strips from the prompt when the style asks for high quality
+export const LOW_POLY_PATTERN = /\b(low-?poly|stylized|minimalist|blocky|simplified)\b/gi
+
+// Longest image prompt before the providers start ignoring or truncating the tail
+export const MAX_IMAGE_PROMPT_LENGTH = 1000
+
+// Meshy rejects retexture style prompts longer than this
+export const MAX_TEXTURE_PROMPT_LENGTH = 600
+
+const TPOSE_PATTERN = /\b(t-?pose|arms (stretched|spread|extended) (out|horizontally|sideways))\b/i
+const HELD_ITEM_PATTERN = /\b(holding|wielding|carrying|grasping|gripping|brandishing|armed with|sword|axe|bow|staff|shield|dagger|spear|mace|hammer|wand|torch|club)\b/gi
+const BODY_PATTERN = /\b(mannequin|armor stand|armour stand|dummy|worn by|wearing|on a (body|person|character|knight|warrior))\b/gi
+const NEGATION_PATTERN = /\b(no|not|without|never|free of)\b[^.,;]*$/i
+
+const RULES = [
+  {
+    id: 'style-contradiction',
+    check({ config, gameStyle }) {
+      if (!HIGH_QUALITY_STYLE_PATTERN.test(gameStyle)) return []
+
+      const styleCues = findCues(gameStyle, LOW_POLY_PATTERN)
+      if (styleCues.length > 0) {
+        return [{
+          severity: 'warning',
+          field: 'gameStyle',
+          message: `The style asks for both ${describeCues(styleCues)} and ${gameStyle.match(HIGH_QUALITY_STYLE_PATTERN)[0]} detail. The high-quality cues win, and low-poly wording is stripped from the image prompt.`
+        }]
+      }
+
+      const descriptionCues = findCues(config.description, LOW_POLY_PATTERN)
+      if (descriptionCues.length > 0) {
+        return [{
+          severity: 'warning',
+          field: 'description',
+          message: `The ${gameStyle.match(HIGH_QUALITY_STYLE_PATTERN)[0]} style removes ${describeCues(descriptionCues)} from the image prompt. Pick a style without high-quality cues to keep the low-poly look.`
+        }]
+      }
+      return []
+    }
+  },
+  {
+    id: 'avatar-missing-tpose',
+    check({ isAvatar, imagePrompt }) {
+      if (!isAvatar || !imagePrompt || TPOSE_PATTERN.test(imagePrompt)) return []
+      return [{
+        severity: 'warning',
+        field: 'imagePrompt',
+        message: 'The image prompt never asks for a T-pose, so the character may not rig. Add "standing in T-pose with arms stretched out horizontally".'
+      }]
+    }
+  },
+  {
+    id: 'avatar-held-item',
+    check({ config, isAvatar }) {
+      const cues = isAvatar ? findUnnegatedCues(config.description, HELD_ITEM_PATTERN) : []
+      if (cues.length === 0) return []
+      return [{
+        severity: 'warning',
+        field: 'description',
+        message: `Characters are generated with empty hands for rigging, but the description mentions ${describeCues(cues)}. Generate the item separately and attach it on the Equipment page.`
+      }]
+    }
+  },
+  {
+    id: 'armor-on-body',
+    check({ config }) {
+      const cues = config.type === 'armor' ? findUnnegatedCues(config.description, BODY_PATTERN) : []
+      if (cues.length === 0) return []
+      return [{
+        severity: 'warning',
+        field: 'description',
+        message: `Armor is generated on its own with hollow openings, but the description mentions ${describeCues(cues)}. The body may end up baked into the model.`
+      }]
+    }
+  },
+  {
+    id: 'prompt-too-long',
+    check({ config, imagePrompt }) {
+      const issues = []
+      if (imagePrompt && imagePrompt.length > MAX_IMAGE_PROMPT_LENGTH) {
+        issues.push({
+          severity: 'warning',
+          field: 'imagePrompt',
+          message: `The image prompt is ${imagePrompt.length} characters. Past ${MAX_IMAGE_PROMPT_LENGTH} the end of it, including the pose instructions, tends to be ignored.`
+        })
+      }
+      if (config.enableRetexturing) {
+        for (const preset of config.materialPresets || []) {
+          if ((preset.stylePrompt || '').length > MAX_TEXTURE_PROMPT_LENGTH) {
+            issues.push({
+              severity: 'error',
+              field: 'materialPresets',
+              message: `The ${preset.displayName || preset.id} style prompt is ${preset.stylePrompt.length} characters; retexturing allows ${MAX_TEXTURE_PROMPT_LENGTH}.`
+            })
+          }
+        }
+      }
+      return issues
+    }
+  }
+]
+
+/**
+ * Lint a generation config against the image prompt and game style it resolves to
+ */
+export function lintGenerationPrompts({ config, imagePrompt, gameStyle }) {
+  const context = {
+    config,
+    imagePrompt,
+    gameStyle: gameStyle || '',
+    isAvatar: config.generationType === 'avatar' || config.type === 'character'
+  }
+
+  return RULES.flatMap(rule => rule.check(context).map(issue => ({ rule: rule.id, ...issue })))
+}
+
+function findCues(text, pattern) {
+  return [...new Set((text || '').match(pattern) || [])].map(cue => cue.toLowerCase())
+}
+
+/**
+ * Cues that aren't negated earlier in their clause ("no mannequin", "without a sword")
+ */
+function findUnnegatedCues(text, pattern) {
+  const cues = []
+  for (const match of (text || '').matchAll(pattern)) {
+    const clause = text.slice(0, match.index)
+    if (!NEGATION_PATTERN.test(clause)) {
+      cues.push(match[0].toLowerCase())
+    }
+  }
+  return [...new Set(cues)]
+}
+
+function describeCues(cues) {
+  return cues.map(cue => `"${cue}"`).join(', ')
+}
@@ -141,6 +141,42 @@ export async function getWeaponDetectionPrompts() {
   return prompts || {} // Return empty object if not found
 }
 
+// Environment variables a backend's apiKeyEnv may name. llm-backends.json is editable through the
+// API, so an arbitrary name would let a client send any server secret to a baseUrl of its choosing.
+// OPENAI_API_KEY only goes to OpenAI; every other host needs a key of its own.
+const OPENAI_API_ORIGIN = 'https://api.openai.com'
+const LLM_API_KEY_ENV_PATTERN = /^[A-Z0-9_]+_LLM_API_KEY$/
+
+export function isAllowedApiKeyEnv(apiKeyEnv, baseUrl) {
+  if (apiKeyEnv === 'OPENAI_API_KEY') {
+    try {
+      return new URL(baseUrl).origin === OPENAI_API_ORIGIN
+    } catch {
+      return false
+    }
+  }
+  return LLM_API_KEY_ENV_PATTERN.test(apiKeyEnv)
+}
+
+export async function getLLMBackends() {
+  const config = await loadPromptFile('llm-backends')
+  if (!config) {
+    // Fallback: every task on OpenAI with the models the pipeline always used
+    return {
+      backends: {
+        openai: { baseUrl: 'https://api.openai.com/v1', apiKeyEnv: 'OPENAI_API_KEY' }
+      },
+      tasks: {
+        promptEnhancement: { backend: 'openai', model: 'gpt-4' },
+        weaponHandleDetection: { backend: 'openai', model: 'gpt-4o-mini' },
+        weaponOrientationDetection: { backend: 'openai', model: 'gpt-4o-mini' }
+      }
+    }
+  }
+
+  return config
+}
+
 // Clear cache function for development
 export function clearPromptCache() {
   promptCache.clear()
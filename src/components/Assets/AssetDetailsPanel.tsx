@@ -1,25 +1,75 @@
 import { 
   X, Package, Hash, Tag, Calendar, Layers, Palette, Box, 
   FileCode, ChevronRight, Copy, Check,
-  Sparkles, AlertCircle, Download, Share2, Code
+  Sparkles, AlertCircle, Download, Share2, Code, History, RotateCcw, Loader2
 } from 'lucide-react'
-import React, { useState } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 
-import { getTierColor } from '../../constants'
+import { API_ENDPOINTS, ASSET_REVISION_OPERATION_LABELS, getTierColor } from '../../constants'
+import { AssetRevision, AssetService, ExportFormatReport } from '../../services/api/AssetService'
 import { Asset } from '../../types'
+import { notify } from '../../utils/notify'
 
 interface AssetDetailsPanelProps {
   asset: Asset
   isOpen: boolean
   onClose: () => void
   modelInfo?: { vertices: number, faces: number, materials: number, fileSize?: number } | null
+  onRestoreRevision: (asset: Asset, revision: number) => Promise<void>
 }
 
-const AssetDetailsPanel: React.FC<AssetDetailsPanelProps> = ({ asset, isOpen, onClose, modelInfo }) => {
+const AssetDetailsPanel: React.FC<AssetDetailsPanelProps> = ({ asset, isOpen, onClose, modelInfo, onRestoreRevision }) => {
   const [copiedId, setCopiedId] = useState(false)
-  const [activeTab, setActiveTab] = useState<'info' | 'metadata' | 'actions'>('info')
+  const [activeTab, setActiveTab] = useState<'info' | 'metadata' | 'history' | 'actions'>('info')
+  const [revisions, setRevisions] = useState<AssetRevision[] | null>(null)
+  const [restoringRevision, setRestoringRevision] = useState<number | null>(null)
+  const [exportFormats, setExportFormats] = useState<ExportFormatReport[] | null>(null)
   
-
+  const loadRevisions = useCallback(async () => {
+    setRevisions(null)
+    try {
+      setRevisions(await AssetService.getRevisions(asset.id))
+    } catch (error) {
+      console.error('Failed to load revisions:', error)
+      setRevisions([])
+    }
+  }, [asset.id])
+  
+  useEffect(() => {
+    if (isOpen && activeTab === 'history') {
+      loadRevisions()
+    }
+  }, [isOpen, activeTab, loadRevisions])
+  
+  useEffect(() => {
+    if (!isOpen || activeTab !== 'actions' || !asset.hasModel) return
+    
+    setExportFormats(null)
+    AssetService.getExportFormats(asset.id)
+      .then(setExportFormats)
+      .catch(error => {
+        console.error('Failed to load export formats:', error)
+        setExportFormats([])
+      })
+  }, [isOpen, activeTab, asset.id, asset.hasModel])
+  
+  const handleRestore = async (revision: AssetRevision) => {
+    if (!confirm(`Restore ${asset.name} to revision ${revision.revision}? The current files are kept as a revision.`)) {
+      return
+    }
+    
+    setRestoringRevision(revision.revision)
+    try {
+      await onRestoreRevision(asset, revision.revision)
+      notify.success(`Restored revision ${revision.revision}`)
+      await loadRevisions()
+    } catch (error) {
+      console.error('Failed to restore revision:', error)
+      notify.error(`Restore failed: ${(error as Error).message}`)
+    } finally {
+      setRestoringRevision(null)
+    }
+  }
   
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text)
@@ -99,7 +149,7 @@ const AssetDetailsPanel: React.FC<AssetDetailsPanelProps> = ({ asset, isOpen, on
         <div className="flex border-b border-border-primary">
           <button
             onClick={() => setActiveTab('info')}
-            className={`flex-1 px-4 py-2.5 text-xs font-medium transition-colors relative ${
+            className={`flex-1 px-2 py-2.5 text-xs font-medium transition-colors relative ${
               activeTab === 'info' 
                 ? 'text-primary' 
                 : 'text-text-tertiary hover:text-text-secondary'
@@ -112,7 +162,7 @@ const AssetDetailsPanel: React.FC<AssetDetailsPanelProps> = ({ asset, isOpen, on
           </button>
           <button
             onClick={() => setActiveTab('metadata')}
-            className={`flex-1 px-4 py-2.5 text-xs font-medium transition-colors relative ${
+            className={`flex-1 px-2 py-2.5 text-xs font-medium transition-colors relative ${
               activeTab === 'metadata' 
                 ? 'text-primary' 
                 : 'text-text-tertiary hover:text-text-secondary'
@@ -123,9 +173,22 @@ const AssetDetailsPanel: React.FC<AssetDetailsPanelProps> = ({ asset, isOpen, on
               <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary" />
             )}
           </button>
+          <button
+            onClick={() => setActiveTab('history')}
+            className={`flex-1 px-2 py-2.5 text-xs font-medium transition-colors relative ${
+              activeTab === 'history' 
+                ? 'text-primary' 
+                : 'text-text-tertiary hover:text-text-secondary'
+            }`}
+          >
+            History
+            {activeTab === 'history' && (
+              <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary" />
+            )}
+          </button>
           <button
             onClick={() => setActiveTab('actions')}
-            className={`flex-1 px-4 py-2.5 text-xs font-medium transition-colors relative ${
+            className={`flex-1 px-2 py-2.5 text-xs font-medium transition-colors relative ${
               activeTab === 'actions' 
                 ? 'text-primary' 
                 : 'text-text-tertiary hover:text-text-secondary'
@@ -266,6 +329,57 @@ const AssetDetailsPanel: React.FC<AssetDetailsPanelProps> = ({ asset, isOpen, on
             </div>
           )}
           
+          {/* History Tab */}
+          {activeTab === 'history' && (
+            <div className="p-5">
+              {revisions === null ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 size={20} className="text-text-muted animate-spin" />
+                </div>
+              ) : revisions.length > 0 ? (
+                <div className="space-y-2">
+                  {revisions.map((revision, index) => (
+                    <div key={revision.revision} className="py-2 border-b border-border-primary last:border-0">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-xs text-text-primary font-medium">
+                          #{revision.revision} · {ASSET_REVISION_OPERATION_LABELS[revision.operation] || revision.operation}
+                        </p>
+                        {index === 0 ? (
+                          <span className="text-[0.625rem] text-success font-medium uppercase tracking-wider">Current</span>
+                        ) : (
+                          <button
+                            onClick={() => handleRestore(revision)}
+                            disabled={restoringRevision !== null}
+                            className="px-2 py-1 rounded-md text-[0.625rem] font-medium text-primary bg-primary bg-opacity-10 hover:bg-opacity-20 transition-colors flex items-center gap-1 disabled:opacity-50"
+                          >
+                            {restoringRevision === revision.revision ? (
+                              <Loader2 size={10} className="animate-spin" />
+                            ) : (
+                              <RotateCcw size={10} />
+                            )}
+                            Restore
+                          </button>
+                        )}
+                      </div>
+                      <p className="text-[0.625rem] text-text-tertiary mt-1">
+                        {new Date(revision.createdAt).toLocaleString()}
+                        {revision.restoredFrom !== undefined && ` · from #${revision.restoredFrom}`}
+                      </p>
+                      <p className="text-[0.625rem] text-text-muted font-mono mt-0.5" title={revision.hash}>
+                        {revision.hash.slice(0, 12)} · {revision.files.length} file{revision.files.length === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-8">
+                  <History size={32} className="text-text-muted mx-auto mb-2 opacity-50" />
+                  <p className="text-xs text-text-tertiary">No revisions recorded yet</p>
+                </div>
+              )}
+            </div>
+          )}
+          
           {/* Actions Tab */}
           {activeTab === 'actions' && (
             <div className="p-5 space-y-3">
@@ -277,13 +391,47 @@ const AssetDetailsPanel: React.FC<AssetDetailsPanelProps> = ({ asset, isOpen, on
                 <ChevronRight size={14} className="group-hover:translate-x-1 transition-transform" />
               </button>
               
-              <button className="w-full px-3 py-2 bg-bg-secondary hover:bg-bg-tertiary text-text-primary rounded-lg transition-colors flex items-center justify-between group text-xs font-medium border border-border-primary">
-                <div className="flex items-center gap-2">
-                  <Download size={14} />
-                  <span>Download Model</span>
+              {asset.hasModel && (
+                <div className="p-3 bg-bg-secondary rounded-lg border border-border-primary space-y-2">
+                  <h3 className="text-xs font-semibold text-text-primary flex items-center gap-2">
+                    <Download size={14} className="text-primary" />
+                    Download Model
+                  </h3>
+                  <a
+                    href={API_ENDPOINTS.ASSET_MODEL(asset.id)}
+                    download={`${asset.id}.glb`}
+                    className="flex items-center justify-between px-2 py-1.5 rounded-md hover:bg-bg-tertiary text-xs text-text-secondary"
+                  >
+                    <span className="font-mono uppercase">glb</span>
+                    <ChevronRight size={12} />
+                  </a>
+                  {exportFormats === null ? (
+                    <div className="flex items-center justify-center py-2">
+                      <Loader2 size={14} className="animate-spin text-text-muted" />
+                    </div>
+                  ) : (
+                    exportFormats.map(exportFormat => (
+                      <a
+                        key={exportFormat.format}
+                        href={API_ENDPOINTS.ASSET_EXPORT(asset.id, exportFormat.format)}
+                        download={`${asset.id}.${exportFormat.extension}`}
+                        className="block px-2 py-1.5 rounded-md hover:bg-bg-tertiary text-xs text-text-secondary"
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="font-mono uppercase">{exportFormat.format}</span>
+                          <ChevronRight size={12} />
+                        </div>
+                        {exportFormat.unsupportedFeatures.length > 0 && (
+                          <p className="text-[0.625rem] text-warning mt-0.5 flex items-center gap-1">
+                            <AlertCircle size={10} />
+                            Drops {exportFormat.unsupportedFeatures.map(({ label }) => label.toLowerCase()).join(', ')}
+                          </p>
+                        )}
+                      </a>
+                    ))
+                  )}
                 </div>
-                <ChevronRight size={14} className="group-hover:translate-x-1 transition-transform" />
-              </button>
+              )}
               
               <button className="w-full px-3 py-2 bg-bg-secondary hover:bg-bg-tertiary text-text-primary rounded-lg transition-colors flex items-center justify-between group text-xs font-medium border border-border-primary">
                 <div className="flex items-center gap-2">
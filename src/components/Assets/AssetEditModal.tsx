@@ -1,7 +1,7 @@
 import { X, Save, Trash2, AlertTriangle } from 'lucide-react'
 import { useState, useEffect } from 'react'
 
-import type { Asset, AssetMetadata } from '../../types'
+import type { AppError, Asset, AssetMetadata } from '../../types'
 import { Modal, Button, Input } from '../common'
 
 interface AssetEditModalProps {
@@ -42,6 +42,7 @@ export function AssetEditModal({
   const [isDirty, setIsDirty] = useState(false)
   const [nameError, setNameError] = useState('')
   const [isSaving, setIsSaving] = useState(false)
+  const [saveErrors, setSaveErrors] = useState<string[]>([])
 
   useEffect(() => {
     if (asset) {
@@ -57,6 +58,7 @@ export function AssetEditModal({
       setIsDirty(false)
       setShowDeleteConfirm(false)
       setNameError('')
+      setSaveErrors([])
     }
   }, [asset])
 
@@ -100,6 +102,7 @@ export function AssetEditModal({
     
     if (asset && isDirty) {
       setIsSaving(true)
+      setSaveErrors([])
       try {
         await onSave({
           id: asset.id,
@@ -113,6 +116,10 @@ export function AssetEditModal({
         // Don't close here - let the parent handle it after successful save
       } catch (error) {
         console.error('Failed to save asset:', error)
+        const { details, message } = error as AppError
+        setSaveErrors(details && typeof details === 'object'
+          ? Object.entries(details).map(([field, fieldError]) => `${field} ${fieldError}`)
+          : [message])
         // Keep modal open on error so user can retry
       } finally {
         setIsSaving(false)
@@ -211,6 +218,15 @@ export function AssetEditModal({
           </div>
         )}
 
+        {/* Save Errors */}
+        {saveErrors.length > 0 && (
+          <div className="p-3 rounded-lg bg-error bg-opacity-10 border border-error border-opacity-30">
+            {saveErrors.map(saveError => (
+              <p key={saveError} className="text-xs text-error">{saveError}</p>
+            ))}
+          </div>
+        )}
+
         {/* Status Info */}
         <div className="flex flex-wrap gap-2 pt-2">
           {asset.hasModel && (
@@ -1,7 +1,10 @@
-import { Search, Filter, ChevronDown, ChevronUp, X } from 'lucide-react'
+import { Search, Filter, ChevronDown, ChevronUp, X, ArrowDown, ArrowUp } from 'lucide-react'
 import React, { useState, useEffect } from 'react'
 
+import { ASSET_SORT_OPTIONS, TIER_COLORS } from '../../constants'
+import { AssetSortField } from '../../services/api/AssetService'
 import { useAssetsStore } from '../../store'
+import { Input, Select } from '../common'
 
 import { apiFetch } from '@/utils/api'
 
@@ -30,9 +33,26 @@ const AssetFilters: React.FC<AssetFiltersProps> = ({
     searchTerm,
     typeFilter,
     materialFilter,
+    subtypeFilter,
+    tierFilter,
+    kindFilter,
+    riggedFilter,
+    dateFrom,
+    dateTo,
+    sortField,
+    sortOrder,
     setSearchTerm,
     setTypeFilter,
-    setMaterialFilter
+    setMaterialFilter,
+    setSubtypeFilter,
+    setTierFilter,
+    setKindFilter,
+    setRiggedFilter,
+    setDateFrom,
+    setDateTo,
+    setSortField,
+    setSortOrder,
+    clearFilters
   } = useAssetsStore()
   
   // Load material presets
@@ -47,7 +67,8 @@ const AssetFilters: React.FC<AssetFiltersProps> = ({
       .catch(err => console.error('Failed to load material presets:', err))
   }, [])
   
-  const hasActiveFilters = searchTerm || typeFilter || materialFilter
+  const hasActiveFilters = searchTerm || typeFilter || materialFilter || subtypeFilter ||
+    tierFilter || kindFilter || riggedFilter || dateFrom || dateTo
 
   return (
     <div className="card bg-gradient-to-br from-bg-primary to-bg-secondary border-border-primary animate-scale-in">
@@ -157,14 +178,119 @@ const AssetFilters: React.FC<AssetFiltersProps> = ({
             </select>
           </div>
 
+          {/* Subtype Filter */}
+          <div>
+            <label className="block text-xs font-medium text-text-secondary mb-1.5">Subtype</label>
+            <Input
+              type="text"
+              placeholder="e.g. sword, helmet"
+              value={subtypeFilter}
+              onChange={(e) => setSubtypeFilter(e.target.value)}
+              className="text-sm"
+            />
+          </div>
+
+          {/* Tier Filter */}
+          <div>
+            <label className="block text-xs font-medium text-text-secondary mb-1.5">Tier</label>
+            <Select
+              value={tierFilter}
+              onChange={(e) => setTierFilter(e.target.value)}
+              className="text-sm"
+            >
+              <option value="">All Tiers</option>
+              {Object.keys(TIER_COLORS).map(tier => (
+                <option key={tier} value={tier} className="capitalize">
+                  {tier}
+                </option>
+              ))}
+            </Select>
+          </div>
+
+          {/* Base / Variant and Rigging Filters */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1.5">Kind</label>
+              <Select
+                value={kindFilter}
+                onChange={(e) => setKindFilter(e.target.value as '' | 'base' | 'variant')}
+                className="text-sm"
+              >
+                <option value="">All</option>
+                <option value="base">Base Models</option>
+                <option value="variant">Variants</option>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1.5">Rigging</label>
+              <Select
+                value={riggedFilter}
+                onChange={(e) => setRiggedFilter(e.target.value as '' | 'rigged' | 'unrigged')}
+                className="text-sm"
+              >
+                <option value="">Any</option>
+                <option value="rigged">Rigged</option>
+                <option value="unrigged">Not Rigged</option>
+              </Select>
+            </div>
+          </div>
+
+          {/* Date Range */}
+          <div>
+            <label className="block text-xs font-medium text-text-secondary mb-1.5">Generated</label>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="date"
+                value={dateFrom}
+                max={dateTo || undefined}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className="text-sm"
+                title="From"
+              />
+              <Input
+                type="date"
+                value={dateTo}
+                min={dateFrom || undefined}
+                onChange={(e) => setDateTo(e.target.value)}
+                className="text-sm"
+                title="To"
+              />
+            </div>
+          </div>
+
+          {/* Sort Order */}
+          <div>
+            <label className="block text-xs font-medium text-text-secondary mb-1.5">Sort By</label>
+            <div className="flex gap-2">
+              <Select
+                value={sortField}
+                onChange={(e) => setSortField(e.target.value as AssetSortField)}
+                className="text-sm flex-1"
+              >
+                {ASSET_SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+              <button
+                onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+                className="px-3 bg-bg-primary border border-border-primary rounded-lg hover:border-primary transition-all duration-200"
+                title={sortOrder === 'asc' ? 'Ascending' : 'Descending'}
+              >
+                {sortOrder === 'asc' ? (
+                  <ArrowUp size={14} className="text-text-secondary" />
+                ) : (
+                  <ArrowDown size={14} className="text-text-secondary" />
+                )}
+              </button>
+            </div>
+          </div>
+
           {/* Clear Filters */}
           {hasActiveFilters && (
             <button
-              onClick={() => {
-                setSearchTerm('')
-                setTypeFilter('')
-                setMaterialFilter('')
-              }}
+              onClick={clearFilters}
               className="w-full py-2 text-sm text-text-secondary hover:text-primary 
                        bg-bg-primary hover:bg-primary hover:bg-opacity-10 
                        border border-border-primary hover:border-primary
@@ -1,17 +1,23 @@
 import {
   Package, Shield, Swords, Diamond, Hammer, Building,
   User, Trees, Box, Target, HelpCircle, Sparkles,
-  ChevronRight, Layers
+  ChevronRight, Layers, Upload, CheckSquare, Download, FileCode
 } from 'lucide-react'
 import React, { useState, useMemo } from 'react'
 
-import { getTierColor } from '../../constants'
+import { ASSET_LIST_LOAD_MORE_THRESHOLD_PX, ITEM_CATALOG_FORMATS, getTierColor } from '../../constants'
+import { AssetService, ItemCatalogFormat } from '../../services/api/AssetService'
 import { useAssetsStore } from '../../store'
 import { Asset } from '../../types'
+import { Button, Checkbox } from '../common'
 
 
 interface AssetListProps {
   assets: Asset[]
+  totalCount: number
+  hasMore: boolean
+  isLoadingMore: boolean
+  onLoadMore: () => void
   onAssetDelete?: (asset: Asset) => void
 }
 
@@ -22,11 +28,20 @@ interface AssetGroup {
 
 const AssetList: React.FC<AssetListProps> = ({
   assets,
+  totalCount,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
 }) => {
   // Get state and actions from store
-  const { selectedAsset, handleAssetSelect } = useAssetsStore()
+  const { selectedAsset, handleAssetSelect, setShowImportModal, getAssetQuery } = useAssetsStore()
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set())
   const [viewMode, setViewMode] = useState<'grouped' | 'flat'>('grouped')
+  // Multi-select for downloading asset packs
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [packIds, setPackIds] = useState<Set<string>>(new Set())
+  const [packIncludesVariants, setPackIncludesVariants] = useState(true)
+  const [showCatalogExport, setShowCatalogExport] = useState(false)
 
   // Group assets by base/variants
   const assetGroups = useMemo(() => {
@@ -232,14 +247,76 @@ const AssetList: React.FC<AssetListProps> = ({
       .join(' ')
   }
 
+  // Request the next page as the list nears the bottom
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget
+    if (hasMore && !isLoadingMore && scrollHeight - scrollTop - clientHeight < ASSET_LIST_LOAD_MORE_THRESHOLD_PX) {
+      onLoadMore()
+    }
+  }
+
+  const togglePackAsset = (assetId: string) => {
+    setPackIds(prev => {
+      const next = new Set(prev)
+      if (next.has(assetId)) {
+        next.delete(assetId)
+      } else {
+        next.add(assetId)
+      }
+      return next
+    })
+  }
+
+  const toggleSelecting = () => {
+    setIsSelecting(!isSelecting)
+    setPackIds(new Set())
+  }
+
+  const downloadPack = (ids?: string[]) => {
+    const link = document.createElement('a')
+    link.href = AssetService.getPackUrl(ids
+      ? { ids, includeVariants: packIncludesVariants }
+      : { query: getAssetQuery(), includeVariants: packIncludesVariants })
+    link.click()
+  }
+
+  const downloadCatalog = (format: ItemCatalogFormat) => {
+    const link = document.createElement('a')
+    link.href = AssetService.getCatalogUrl(format, getAssetQuery())
+    link.click()
+  }
+
+  const renderPackCheckbox = (asset: Asset) => isSelecting && (
+    <label className="flex-shrink-0 mr-2 cursor-pointer" onClick={(e) => e.stopPropagation()}>
+      <Checkbox
+        size="sm"
+        checked={packIds.has(asset.id)}
+        onChange={() => togglePackAsset(asset.id)}
+      />
+    </label>
+  )
+
+  const importButton = (
+    <button
+      onClick={() => setShowImportModal(true)}
+      className="p-1.5 rounded-md text-text-tertiary hover:text-primary hover:bg-bg-tertiary transition-colors"
+      title="Import model"
+    >
+      <Upload size={16} />
+    </button>
+  )
+
   if (assets.length === 0) {
     return (
       <div className="card overflow-hidden flex flex-col h-full bg-gradient-to-br from-bg-primary to-bg-secondary animate-scale-in">
         <div className="p-4 border-b border-border-primary bg-bg-primary bg-opacity-30">
-          <h2 className="text-base font-semibold text-text-primary flex items-center gap-2">
-            <Package size={18} className="text-primary" />
-            Assets <span className="text-text-tertiary font-normal text-sm">(0)</span>
-          </h2>
+          <div className="flex items-center justify-between">
+            <h2 className="text-base font-semibold text-text-primary flex items-center gap-2">
+              <Package size={18} className="text-primary" />
+              Assets <span className="text-text-tertiary font-normal text-sm">(0)</span>
+            </h2>
+            {importButton}
+          </div>
         </div>
 
         <div className="flex-1 flex items-center justify-center p-8">
@@ -261,36 +338,62 @@ const AssetList: React.FC<AssetListProps> = ({
         <div className="flex items-center justify-between">
           <h2 className="text-base font-semibold text-text-primary flex items-center gap-2">
             <Package size={18} className="text-primary" />
-            Assets <span className="text-text-tertiary font-normal text-sm">({assets.length})</span>
+            Assets <span className="text-text-tertiary font-normal text-sm">({totalCount})</span>
           </h2>
 
-          {/* View mode toggle */}
-          <div className="flex items-center gap-1 bg-bg-tertiary rounded-lg p-1">
+          <div className="flex items-center gap-2">
+            {importButton}
+
             <button
-              onClick={() => setViewMode('grouped')}
-              className={`px-3 py-1.5 rounded-md text-xs font-medium transition-all ${viewMode === 'grouped'
-                  ? 'bg-primary text-white shadow-sm'
-                  : 'text-text-tertiary hover:text-text-secondary'
+              onClick={toggleSelecting}
+              className={`p-1.5 rounded-md transition-colors ${isSelecting
+                  ? 'text-primary bg-primary bg-opacity-10'
+                  : 'text-text-tertiary hover:text-primary hover:bg-bg-tertiary'
                 }`}
-              title="Group by base models"
+              title="Select assets to download as a pack"
             >
-              <Layers size={14} />
+              <CheckSquare size={16} />
             </button>
+
             <button
-              onClick={() => setViewMode('flat')}
-              className={`px-3 py-1.5 rounded-md text-xs font-medium transition-all ${viewMode === 'flat'
-                  ? 'bg-primary text-white shadow-sm'
-                  : 'text-text-tertiary hover:text-text-secondary'
+              onClick={() => setShowCatalogExport(!showCatalogExport)}
+              className={`p-1.5 rounded-md transition-colors ${showCatalogExport
+                  ? 'text-primary bg-primary bg-opacity-10'
+                  : 'text-text-tertiary hover:text-primary hover:bg-bg-tertiary'
                 }`}
-              title="Show all items"
+              title="Export the game item catalog"
             >
-              <Package size={14} />
+              <FileCode size={16} />
             </button>
+
+            {/* View mode toggle */}
+            <div className="flex items-center gap-1 bg-bg-tertiary rounded-lg p-1">
+              <button
+                onClick={() => setViewMode('grouped')}
+                className={`px-3 py-1.5 rounded-md text-xs font-medium transition-all ${viewMode === 'grouped'
+                    ? 'bg-primary text-white shadow-sm'
+                    : 'text-text-tertiary hover:text-text-secondary'
+                  }`}
+                title="Group by base models"
+              >
+                <Layers size={14} />
+              </button>
+              <button
+                onClick={() => setViewMode('flat')}
+                className={`px-3 py-1.5 rounded-md text-xs font-medium transition-all ${viewMode === 'flat'
+                    ? 'bg-primary text-white shadow-sm'
+                    : 'text-text-tertiary hover:text-text-secondary'
+                  }`}
+                title="Show all items"
+              >
+                <Package size={14} />
+              </button>
+            </div>
           </div>
         </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto custom-scrollbar">
+      <div className="flex-1 overflow-y-auto custom-scrollbar" onScroll={handleScroll}>
         <div className="p-2 space-y-1">
           {viewMode === 'grouped' ? (
             <>
@@ -328,6 +431,8 @@ const AssetList: React.FC<AssetListProps> = ({
                             : 'hover:bg-bg-primary hover:bg-opacity-50'
                           }`}>
                           <div className="flex items-center p-3">
+                            {renderPackCheckbox(group.base)}
+
                             {/* Chevron for expand/collapse */}
                             {group.variants.length > 0 ? (
                               <button
@@ -406,6 +511,7 @@ const AssetList: React.FC<AssetListProps> = ({
                                 }}
                               >
                                 <div className="flex items-center gap-3 p-2 pl-3">
+                                  {renderPackCheckbox(variant)}
                                   <div className={`flex-shrink-0 w-8 h-8 rounded-md flex items-center justify-center transition-all duration-200 group-hover:scale-105 ${selectedAsset?.id === variant.id
                                       ? 'bg-primary bg-opacity-10 text-text-primary ring-2 ring-primary'
                                       : 'bg-bg-secondary bg-opacity-50 text-text-tertiary group-hover:bg-bg-tertiary group-hover:text-text-secondary'
@@ -464,6 +570,7 @@ const AssetList: React.FC<AssetListProps> = ({
                         onClick={() => handleAssetSelect(asset)}
                       >
                         <div className="flex items-center gap-3 p-2 hover:bg-bg-primary hover:bg-opacity-40 rounded-lg transition-colors">
+                          {renderPackCheckbox(asset)}
                           <div className="w-6" /> {/* Spacer for alignment */}
 
                           <div className={`flex-shrink-0 w-9 h-9 rounded-lg flex items-center justify-center transition-all duration-200 ${selectedAsset?.id === asset.id
@@ -577,6 +684,7 @@ const AssetList: React.FC<AssetListProps> = ({
                           onClick={() => handleAssetSelect(asset)}
                         >
                           <div className="flex items-center gap-3 p-2 hover:bg-bg-primary hover:bg-opacity-40 rounded-lg transition-colors">
+                            {renderPackCheckbox(asset)}
                             <div className={`flex-shrink-0 w-9 h-9 rounded-lg flex items-center justify-center transition-all duration-200 ${selectedAsset?.id === asset.id
                                 ? 'bg-primary bg-opacity-10 text-text-primary shadow-sm ring-2 ring-primary'
                                 : 'bg-bg-secondary bg-opacity-70 text-text-tertiary'
@@ -658,8 +766,75 @@ const AssetList: React.FC<AssetListProps> = ({
               })}
             </>
           )}
+
+          {hasMore && (
+            <div className="flex justify-center py-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onLoadMore}
+                disabled={isLoadingMore}
+              >
+                {isLoadingMore ? 'Loading...' : `Load more (${assets.length} of ${totalCount})`}
+              </Button>
+            </div>
+          )}
         </div>
       </div>
+
+      {isSelecting && (
+        <div className="p-3 border-t border-border-primary bg-bg-primary bg-opacity-30 space-y-2">
+          <Checkbox
+            size="sm"
+            checked={packIncludesVariants}
+            onChange={(e) => setPackIncludesVariants(e.target.checked)}
+            label="Include variants of base models"
+          />
+          <div className="flex gap-2">
+            <Button
+              variant="primary"
+              size="sm"
+              className="flex-1"
+              disabled={packIds.size === 0}
+              onClick={() => downloadPack(Array.from(packIds))}
+            >
+              <Download size={14} className="mr-1.5" />
+              Selected ({packIds.size})
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              className="flex-1"
+              onClick={() => downloadPack()}
+              title="Download every asset matching the current filters"
+            >
+              All matching ({totalCount})
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {showCatalogExport && (
+        <div className="p-3 border-t border-border-primary bg-bg-primary bg-opacity-30 space-y-2">
+          <p className="text-xs text-text-secondary">
+            Item catalog of the assets with models that match the current filters
+          </p>
+          <div className="flex gap-2">
+            {ITEM_CATALOG_FORMATS.map(({ format, label }) => (
+              <Button
+                key={format}
+                variant="secondary"
+                size="sm"
+                className="flex-1"
+                onClick={() => downloadCatalog(format)}
+              >
+                <Download size={14} className="mr-1.5" />
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,239 @@
+import { FileBox, Upload } from 'lucide-react'
+import React, { useRef, useState } from 'react'
+
+import { MODEL_IMPORT_ACCEPT, MODEL_IMPORT_TYPES } from '../../constants'
+import { AssetService } from '../../services/api/AssetService'
+import { ModelImportService } from '../../services/processing/ModelImportService'
+import type { AppError, Asset } from '../../types'
+import {
+  Modal,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Input,
+  Textarea,
+  Select,
+  Checkbox
+} from '../common'
+
+interface ImportAssetModalProps {
+  onClose: () => void
+  onComplete: (asset: Asset) => void
+}
+
+type ImportStatus = 'idle' | 'converting' | 'normalizing' | 'uploading'
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  idle: 'Import',
+  converting: 'Converting to GLB...',
+  normalizing: 'Normalizing...',
+  uploading: 'Uploading...'
+}
+
+const ImportAssetModal: React.FC<ImportAssetModalProps> = ({ onClose, onComplete }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [files, setFiles] = useState<File[]>([])
+  const [name, setName] = useState('')
+  const [type, setType] = useState('weapon')
+  const [subtype, setSubtype] = useState('')
+  const [description, setDescription] = useState('')
+  const [normalize, setNormalize] = useState(true)
+  const [status, setStatus] = useState<ImportStatus>('idle')
+  const [errors, setErrors] = useState<string[]>([])
+
+  const nameError = name && !/^[a-zA-Z0-9-_]+$/.test(name)
+    ? 'Only letters, numbers, hyphens, and underscores allowed'
+    : ''
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || [])
+    setFiles(selected)
+    setErrors([])
+
+    // Suggest an asset name from the model file
+    const modelFile = selected.find(file => /\.(glb|gltf|obj)$/i.test(file.name))
+    if (modelFile && !name) {
+      setName(modelFile.name.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9-_]+/g, '-'))
+    }
+  }
+
+  const handleImport = async () => {
+    setErrors([])
+    const importer = new ModelImportService()
+
+    try {
+      setStatus('converting')
+      const { glb, source } = await importer.convertToGLB(files)
+
+      let model = glb
+      let dimensions
+      if (normalize) {
+        setStatus('normalizing')
+        const normalized = await importer.normalize(glb, type, subtype || undefined)
+        model = normalized.glb
+        dimensions = normalized.metadata.dimensions
+      }
+
+      setStatus('uploading')
+      const asset = await AssetService.importAsset({
+        name,
+        type,
+        subtype: subtype || undefined,
+        description,
+        model,
+        source,
+        normalized: normalize,
+        dimensions
+      })
+      onComplete(asset)
+    } catch (error) {
+      console.error('Failed to import model:', error)
+      const { details, message } = error as AppError
+      setErrors(details && typeof details === 'object'
+        ? Object.entries(details).map(([field, fieldError]) => `${field} ${fieldError}`)
+        : [message])
+    } finally {
+      setStatus('idle')
+    }
+  }
+
+  const isBusy = status !== 'idle'
+
+  return (
+    <Modal open={true} onClose={isBusy ? () => {} : onClose} size="md">
+      <ModalHeader title="Import Model" onClose={isBusy ? undefined : onClose} />
+
+      <ModalBody className="space-y-4">
+        {/* Files */}
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-1.5">
+            Model Files
+          </label>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={MODEL_IMPORT_ACCEPT}
+            onChange={handleFilesSelected}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+            className="w-full p-4 border-2 border-dashed border-border-primary rounded-lg text-center hover:border-primary transition-colors"
+          >
+            <Upload size={20} className="mx-auto mb-2 text-text-tertiary" />
+            <p className="text-sm text-text-secondary">
+              Choose a .glb, a .gltf with its .bin and textures, or an .obj with its .mtl and textures
+            </p>
+          </button>
+          {files.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {files.map(file => (
+                <li key={file.name} className="flex items-center gap-2 text-xs text-text-secondary">
+                  <FileBox size={12} className="text-text-tertiary" />
+                  {file.name}
+                  <span className="text-text-tertiary">({(file.size / 1024).toFixed(0)} KB)</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Asset Name */}
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-1.5">
+            Asset Name
+          </label>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., sword-hero-flameblade"
+            error={!!nameError}
+            className="w-full"
+          />
+          {nameError && (
+            <p className="text-xs text-error mt-1">{nameError}</p>
+          )}
+        </div>
+
+        {/* Type and Subtype */}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-1.5">
+              Type
+            </label>
+            <Select value={type} onChange={(e) => setType(e.target.value)} className="w-full">
+              {MODEL_IMPORT_TYPES.map(assetType => (
+                <option key={assetType} value={assetType}>
+                  {assetType.charAt(0).toUpperCase() + assetType.slice(1)}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-1.5">
+              Subtype
+            </label>
+            <Input
+              value={subtype}
+              onChange={(e) => setSubtype(e.target.value)}
+              placeholder="e.g., sword, helmet"
+              className="w-full"
+            />
+          </div>
+        </div>
+
+        {/* Description */}
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-1.5">
+            Description
+          </label>
+          <Textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Optional"
+            className="w-full"
+          />
+        </div>
+
+        <Checkbox
+          checked={normalize}
+          onChange={(e) => setNormalize(e.target.checked)}
+          label="Normalize for asset type"
+          description="Apply the type's conventions: feet at origin for characters, grip at origin for weapons, centered for items"
+          size="sm"
+        />
+
+        {errors.length > 0 && (
+          <div className="p-3 rounded-lg bg-error bg-opacity-10 border border-error border-opacity-30">
+            {errors.map(importError => (
+              <p key={importError} className="text-xs text-error">{importError}</p>
+            ))}
+          </div>
+        )}
+      </ModalBody>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose} disabled={isBusy}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          onClick={handleImport}
+          disabled={isBusy || files.length === 0 || !name || !!nameError}
+        >
+          {isBusy ? (
+            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-1.5" />
+          ) : (
+            <Upload size={16} className="mr-1.5" />
+          )}
+          {STATUS_LABELS[status]}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
+
+export default ImportAssetModal
@@ -1,16 +1,16 @@
 /**
  * Regenerate Base Modal
- * Allows regenerating the base model for an asset
+ * Regenerates a base model from its recorded generation recipe, as-is or edited
  */
 
-import { RefreshCw, CheckCircle, AlertCircle, Loader2, AlertTriangle } from 'lucide-react'
-import React, { useState } from 'react'
+import { RefreshCw, CheckCircle, AlertCircle, Loader2, AlertTriangle, Pencil, ArrowLeft } from 'lucide-react'
+import React, { useEffect, useState } from 'react'
 
-import { Asset } from '../../types'
+import { GENERATION_QUALITIES } from '../../constants'
+import { GenerationAPIClient } from '../../services/api/GenerationAPIClient'
+import { Asset, GenerationQuality, GenerationRecipe, GenerationRecipeEdits } from '../../types'
 import { formatAssetName } from '../../utils/formatAssetName'
-import { Modal, ModalHeader, ModalBody, ModalFooter, ModalSection, Button } from '../common'
-
-import { apiFetch } from '@/utils/api'
+import { Modal, ModalHeader, ModalBody, ModalFooter, ModalSection, Button, Input, Textarea, Select } from '../common'
 
 interface RegenerateModalProps {
   asset: Asset
@@ -18,66 +18,279 @@ interface RegenerateModalProps {
   onComplete: () => void
 }
 
+interface RecipeForm {
+  description: string
+  enhancedPrompt: string
+  imagePrompt: string
+  gameStyle: string
+  quality: GenerationQuality | ''
+  aiModel: string
+  targetPolycount: string
+  materialPrompts: Record<string, string>
+}
+
+function toForm(recipe: GenerationRecipe): RecipeForm {
+  return {
+    description: recipe.description,
+    enhancedPrompt: recipe.enhancedPrompt || '',
+    imagePrompt: recipe.imagePrompt || '',
+    gameStyle: recipe.gameStyle || '',
+    quality: recipe.quality || '',
+    aiModel: recipe.model?.aiModel || '',
+    targetPolycount: recipe.model?.targetPolycount ? String(recipe.model.targetPolycount) : '',
+    materialPrompts: { ...recipe.materialPrompts }
+  }
+}
+
+function toEdits(form: RecipeForm): GenerationRecipeEdits {
+  return {
+    description: form.description,
+    enhancedPrompt: form.enhancedPrompt || null,
+    imagePrompt: form.imagePrompt || null,
+    gameStyle: form.gameStyle || null,
+    quality: form.quality || null,
+    model: {
+      aiModel: form.aiModel || undefined,
+      targetPolycount: form.targetPolycount ? parseInt(form.targetPolycount, 10) : undefined
+    },
+    materialPrompts: form.materialPrompts
+  }
+}
+
+const RecipeRow: React.FC<{ label: string, value: string | null | undefined }> = ({ label, value }) => (
+  <div className="flex gap-3 text-sm">
+    <span className="w-28 flex-shrink-0 text-text-tertiary">{label}</span>
+    <span className={value ? 'text-text-primary break-words min-w-0' : 'text-text-muted italic'}>
+      {value || 'Pipeline default'}
+    </span>
+  </div>
+)
+
 const RegenerateModal: React.FC<RegenerateModalProps> = ({
   asset,
   onClose,
   onComplete
 }) => {
-  const [isRegenerating, setIsRegenerating] = useState(false)
-  const [status, setStatus] = useState<'idle' | 'processing' | 'success' | 'error'>('idle')
+  const [apiClient] = useState(() => new GenerationAPIClient())
+  const [recipe, setRecipe] = useState<GenerationRecipe | null>(null)
+  const [form, setForm] = useState<RecipeForm | null>(null)
+  const [isEditing, setIsEditing] = useState(false)
+  const [pipelineId, setPipelineId] = useState<string | null>(null)
+  const [status, setStatus] = useState<'loading' | 'idle' | 'processing' | 'success' | 'error'>('loading')
   const [message, setMessage] = useState('')
   const [progress, setProgress] = useState(0)
 
-  const handleRegenerate = async () => {
-    setIsRegenerating(true)
-    setStatus('processing')
-    setMessage('Initializing regeneration...')
-    setProgress(10)
-
-    try {
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setProgress(prev => {
-          if (prev >= 90) return prev
-          return prev + Math.random() * 10
-        })
-      }, 2000)
-
-      const response = await apiFetch(`/api/regenerate-base/${asset.id}`, {
-        method: 'POST'
+  useEffect(() => {
+    let cancelled = false
+    setStatus('loading')
+    apiClient.getRecipe(asset.id)
+      .then(loaded => {
+        if (cancelled) return
+        setRecipe(loaded)
+        setForm(toForm(loaded))
+        setStatus('idle')
       })
+      .catch(error => {
+        if (cancelled) return
+        setStatus('error')
+        setMessage(error instanceof Error ? error.message : 'Failed to load generation recipe')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [apiClient, asset.id])
 
-      clearInterval(progressInterval)
-
-      if (!response.ok) {
-        throw new Error('Regeneration failed')
-      }
+  // Follow the regeneration pipeline
+  useEffect(() => {
+    if (!pipelineId) return
 
-      const result = await response.json()
-      
+    const handleProgress = ({ pipelineId: id, progress: value }: { pipelineId: string, progress: number }) => {
+      if (id === pipelineId) setProgress(value)
+    }
+    const handleCompleted = ({ id }: { id: string }) => {
+      if (id !== pipelineId) return
       setProgress(100)
       setStatus('success')
-      setMessage(result.message || 'Base model regenerated successfully!')
-      
+      setMessage(`${formatAssetName(asset.name)} was regenerated from its recipe`)
       // Show success for 2 seconds then close
-      setTimeout(() => {
-        onComplete()
-      }, 2000)
+      setTimeout(onComplete, 2000)
+    }
+    const handleFailed = ({ pipelineId: id, error }: { pipelineId: string, error?: string }) => {
+      if (id !== pipelineId) return
+      setStatus('error')
+      setMessage(error || 'Regeneration failed')
+      setProgress(0)
+    }
+
+    apiClient.on('progress', handleProgress)
+    apiClient.on('pipeline:completed', handleCompleted)
+    apiClient.on('pipeline:failed', handleFailed)
+    return () => {
+      apiClient.off('progress', handleProgress)
+      apiClient.off('pipeline:completed', handleCompleted)
+      apiClient.off('pipeline:failed', handleFailed)
+    }
+  }, [apiClient, pipelineId, asset.name, onComplete])
+
+  const handleRegenerate = async () => {
+    if (!form) return
+
+    setStatus('processing')
+    setMessage(isEditing ? 'Regenerating with the edited recipe...' : 'Regenerating with the same recipe...')
+    setProgress(0)
+
+    try {
+      setPipelineId(await apiClient.regenerateAsset(asset.id, isEditing ? toEdits(form) : undefined))
     } catch (error) {
       setStatus('error')
       setMessage(error instanceof Error ? error.message : 'Regeneration failed')
-      setProgress(0)
-    } finally {
-      setIsRegenerating(false)
     }
   }
 
+  const updateForm = (changes: Partial<RecipeForm>) => {
+    setForm(prev => prev && { ...prev, ...changes })
+  }
+
+  const materialIds = Object.keys(form?.materialPrompts || {})
+  const polycountError = form?.targetPolycount && !/^[1-9][0-9]*$/.test(form.targetPolycount)
+    ? 'Enter a whole number of polygons'
+    : ''
+
+  const renderRecipe = (current: GenerationRecipe) => (
+    <div className="bg-bg-secondary rounded-lg p-4 space-y-2">
+      <RecipeRow label="Quality" value={current.quality} />
+      <RecipeRow label="Meshy model" value={current.model?.aiModel} />
+      <RecipeRow
+        label="Polycount"
+        value={current.model?.targetPolycount ? current.model.targetPolycount.toLocaleString() : null}
+      />
+      <RecipeRow label="Game style" value={current.gameStyle} />
+      <RecipeRow label="Enhanced prompt" value={current.enhancedPrompt} />
+      <RecipeRow
+        label="Image prompt"
+        value={current.config.referenceImage ? 'Reference image (saved concept art)' : current.imagePrompt}
+      />
+      <RecipeRow
+        label="Materials"
+        value={Object.keys(current.materialPrompts).join(', ')}
+      />
+    </div>
+  )
+
+  const renderForm = (current: RecipeForm) => (
+    <div className="space-y-4">
+      <p className="text-xs text-text-tertiary">
+        Leave a prompt empty to rebuild it: the enhanced prompt from the description, the image prompt from the enhanced prompt.
+      </p>
+
+      <div>
+        <label className="block text-sm font-medium text-text-secondary mb-1.5">Description</label>
+        <Textarea
+          value={current.description}
+          onChange={(e) => updateForm({ description: e.target.value })}
+          className="w-full"
+          rows={2}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-text-secondary mb-1.5">Enhanced Prompt</label>
+        <Textarea
+          value={current.enhancedPrompt}
+          onChange={(e) => updateForm({ enhancedPrompt: e.target.value })}
+          placeholder="Rebuilt with GPT-4 (if enabled) from the description"
+          className="w-full"
+          rows={3}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-text-secondary mb-1.5">Image Prompt</label>
+        <Textarea
+          value={current.imagePrompt}
+          onChange={(e) => updateForm({ imagePrompt: e.target.value })}
+          placeholder="Built from the enhanced prompt and asset type"
+          className="w-full"
+          rows={3}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-text-secondary mb-1.5">Game Style</label>
+        <Input
+          value={current.gameStyle}
+          onChange={(e) => updateForm({ gameStyle: e.target.value })}
+          className="w-full"
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-1.5">Quality</label>
+          <Select
+            value={current.quality}
+            onChange={(e) => updateForm({ quality: e.target.value as RecipeForm['quality'] })}
+            className="w-full"
+          >
+            <option value="">Default</option>
+            {GENERATION_QUALITIES.map(quality => (
+              <option key={quality} value={quality}>
+                {quality.charAt(0).toUpperCase() + quality.slice(1)}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-1.5">Meshy Model</label>
+          <Input
+            value={current.aiModel}
+            onChange={(e) => updateForm({ aiModel: e.target.value })}
+            placeholder="meshy-5"
+            className="w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-1.5">Polycount</label>
+          <Input
+            value={current.targetPolycount}
+            onChange={(e) => updateForm({ targetPolycount: e.target.value })}
+            placeholder="By quality"
+            error={!!polycountError}
+            className="w-full"
+          />
+        </div>
+      </div>
+      {polycountError && (
+        <p className="text-xs text-error -mt-2">{polycountError}</p>
+      )}
+
+      {materialIds.map(materialId => (
+        <div key={materialId}>
+          <label className="block text-sm font-medium text-text-secondary mb-1.5">
+            {formatAssetName(materialId)} Material Prompt
+          </label>
+          <Input
+            value={current.materialPrompts[materialId]}
+            onChange={(e) => updateForm({ materialPrompts: { ...current.materialPrompts, [materialId]: e.target.value } })}
+            className="w-full"
+          />
+        </div>
+      ))}
+    </div>
+  )
+
   return (
-    <Modal open={true} onClose={onClose} size="md">
+    <Modal open={true} onClose={onClose} size={isEditing ? 'lg' : 'md'}>
       <ModalHeader title="Regenerate Base Model" onClose={onClose} />
 
       <ModalBody>
-        {status === 'idle' && (
+        {status === 'loading' && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-8 h-8 text-primary animate-spin" />
+          </div>
+        )}
+
+        {status === 'idle' && recipe && form && (
           <>
             <div className="bg-warning/10 border border-warning/20 rounded-lg p-4 mb-6">
               <div className="flex gap-3">
@@ -87,9 +300,9 @@ const RegenerateModal: React.FC<RegenerateModalProps> = ({
                     Warning: Regenerating the base model will:
                   </p>
                   <ul className="list-disc list-inside text-sm text-warning/80 space-y-1">
-                    <li>Create a new 3D model from the original description</li>
-                    <li>Replace the existing base model</li>
-                    <li>Require re-retexturing for material variants</li>
+                    <li>Create a new 3D model from the recipe below</li>
+                    <li>Replace the existing base model (the current one stays in its revision history)</li>
+                    <li>Regenerate the recipe's material variants; other variants need re-retexturing</li>
                   </ul>
                 </div>
               </div>
@@ -100,13 +313,23 @@ const RegenerateModal: React.FC<RegenerateModalProps> = ({
                 <h4 className="font-semibold text-text-primary mb-1">
                   {formatAssetName(asset.name)}
                 </h4>
-                {asset.description && (
+                {recipe.description && (
                   <p className="text-sm text-text-secondary">
-                    {asset.description}
+                    {recipe.description}
                   </p>
                 )}
               </div>
             </ModalSection>
+
+            <ModalSection
+              title={isEditing ? 'Edit Recipe' : 'Generation Recipe'}
+              description={recipe.derived
+                ? 'This asset predates recorded recipes, so this one was rebuilt from its metadata. Settings it lacks use the current pipeline defaults.'
+                : `Recorded ${new Date(recipe.recordedAt || '').toLocaleString()}`}
+              className="mt-6"
+            >
+              {isEditing ? renderForm(form) : renderRecipe(recipe)}
+            </ModalSection>
           </>
         )}
 
@@ -121,8 +344,8 @@ const RegenerateModal: React.FC<RegenerateModalProps> = ({
             </p>
             <div className="w-full max-w-xs space-y-2">
               <div className="bg-bg-secondary rounded-full h-2 overflow-hidden">
-                <div 
-                  className="h-full bg-primary transition-all duration-500 ease-out" 
+                <div
+                  className="h-full bg-primary transition-all duration-500 ease-out"
                   style={{ width: `${progress}%` }}
                 />
               </div>
@@ -169,18 +392,34 @@ const RegenerateModal: React.FC<RegenerateModalProps> = ({
           <Button variant="secondary" onClick={onClose}>
             Cancel
           </Button>
-          <Button 
-            variant="primary"
-            onClick={handleRegenerate}
-            disabled={isRegenerating}
-          >
-            <RefreshCw className="w-4 h-4" />
-            {status === 'error' ? 'Try Again' : 'Regenerate Base'}
-          </Button>
+          {recipe && form && (
+            <>
+              {status === 'idle' && (
+                <Button
+                  variant="secondary"
+                  onClick={() => {
+                    setIsEditing(!isEditing)
+                    setForm(toForm(recipe))
+                  }}
+                >
+                  {isEditing ? <ArrowLeft className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+                  {isEditing ? 'Use Same Recipe' : 'Edit Recipe'}
+                </Button>
+              )}
+              <Button
+                variant="primary"
+                onClick={status === 'error' ? () => setStatus('idle') : handleRegenerate}
+                disabled={status === 'idle' && (!!polycountError || !form.description.trim())}
+              >
+                <RefreshCw className="w-4 h-4" />
+                {status === 'error' ? 'Back to Recipe' : isEditing ? 'Regenerate with Edits' : 'Regenerate with Same Recipe'}
+              </Button>
+            </>
+          )}
         </ModalFooter>
       )}
     </Modal>
   )
 }
 
-export default RegenerateModal
\ No newline at end of file
+export default RegenerateModal
@@ -1,9 +1,10 @@
 import { Search, ChevronRight, Package } from 'lucide-react'
-import React, { useState, useMemo } from 'react'
+import React, { useState, useMemo } from 'react'
 
 import { EQUIPMENT_SLOTS } from '../../constants'
 import { cn } from '../../styles'
 import { Asset } from '../../types'
+import { fitsEquipmentSlot } from '../../utils/equipmentAttachments'
 import { Card, CardContent, Badge, Input } from '../common'
 
 interface EquipmentListProps {
@@ -35,25 +36,7 @@ export const EquipmentList: React.FC<EquipmentListProps> = ({
       }
       
       // Filter by equipment type based on selected slot
-      if (selectedSlot === 'Hand_R' || selectedSlot === 'Hand_L') {
-        // Hands can hold weapons and tools
-        return ['sword', 'axe', 'mace', 'bow', 'crossbow', 'shield', 'tool', 'weapon'].includes(asset.type)
-      } else if (selectedSlot === 'Head') {
-        // Head slot for helmets
-        return asset.type === 'armor' && asset.name.toLowerCase().includes('helmet')
-      } else if (selectedSlot === 'Spine2') {
-        // Chest slot for body armor
-        return asset.type === 'armor' && (
-          asset.name.toLowerCase().includes('body') || 
-          asset.name.toLowerCase().includes('chest') ||
-          asset.name.toLowerCase().includes('armor')
-        )
-      } else if (selectedSlot === 'Hips') {
-        // Leg slot for leg armor
-        return asset.type === 'armor' && asset.name.toLowerCase().includes('leg')
-      }
-      
-      return true
+      return fitsEquipmentSlot(asset, selectedSlot)
     })
   }, [assets, searchQuery, selectedSlot])
 
@@ -11,6 +11,21 @@ export interface Transform {
   scale: { x: number; y: number; z: number }
 }
 
+/**
+ * Equipment worn in another slot alongside the fitted equipment, placed with its saved attachment
+ */
+export interface LoadoutItem {
+  slot: string
+  url: string
+  weaponType: string
+  avatarHeight: number
+  autoScale: boolean
+  scaleOverride: number
+  gripOffset?: { x: number; y: number; z: number }
+  orientationOffset: { x: number; y: number; z: number }
+  positionOffset: { x: number; y: number; z: number }
+}
+
 interface EquipmentViewerProps {
   avatarUrl?: string
   equipmentUrl?: string
@@ -25,6 +40,7 @@ interface EquipmentViewerProps {
   positionOffset?: { x: number; y: number; z: number }  // Manual position adjustment in meters
   isAnimating?: boolean  // Whether to play animations
   animationType?: 'tpose' | 'walking' | 'running'  // Which animation to play
+  loadoutItems?: LoadoutItem[]  // Equipment worn in the other slots at the same time
 }
 
 export interface EquipmentViewerRef {
@@ -49,6 +65,32 @@ const BONE_MAPPING: Record<string, string[]> = {
   'Hips': ['Hips', 'mixamorig:Hips', 'hips', 'Bip01_Pelvis']
 }
 
+// Armor is centered on its slot's bone, raised or lowered to cover the body part
+const ARMOR_HEIGHT_OFFSETS: Record<string, number> = {
+  'Head': 0.1,
+  'Spine2': -0.05,
+  'Hips': -0.1
+}
+
+interface WeaponDefaults {
+  position: { x: number; y: number; z: number }
+  rotation: { x: number; y: number; z: number }
+}
+
+// Default hand offset (meters) and rotation (degrees) of a weapon type, relative to the hand bone
+const getWeaponDefaults = (weaponType: string, isRightHand: boolean, handOffsetDistance: number): WeaponDefaults => {
+  const defaultOffsets: Record<string, WeaponDefaults> = {
+    sword: { position: { x: isRightHand ? 0.076 : -0.076, y: 0.077, z: 0.028 }, rotation: { x: 92, y: 0, z: 0 } },
+    '2h-sword': { position: { x: isRightHand ? 0.076 : -0.076, y: 0.077, z: 0.028 }, rotation: { x: 92, y: 0, z: 0 } },
+    mace: { position: { x: isRightHand ? 0.076 : -0.076, y: 0.077, z: 0.028 }, rotation: { x: 92, y: 0, z: 0 } },
+    bow: { position: { x: isRightHand ? 0.05 : -0.05, y: 0.1, z: 0 }, rotation: { x: 0, y: 90, z: 0 } },
+    crossbow: { position: { x: isRightHand ? 0.076 : -0.076, y: 0.05, z: 0.05 }, rotation: { x: 0, y: 0, z: 0 } },
+    shield: { position: { x: isRightHand ? 0.05 : -0.05, y: 0.05, z: 0 }, rotation: { x: 0, y: 0, z: 0 } },
+    default: { position: { x: isRightHand ? -handOffsetDistance : handOffsetDistance, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } }
+  }
+  return defaultOffsets[weaponType] || defaultOffsets.default
+}
+
 const EquipmentViewer = forwardRef<EquipmentViewerRef, EquipmentViewerProps>((props, ref) => {
   const instanceId = useRef(Math.random().toString(36).substr(2, 9))
   const containerRef = useRef<HTMLDivElement>(null)
@@ -69,6 +111,8 @@ const EquipmentViewer = forwardRef<EquipmentViewerRef, EquipmentViewerProps>((pr
   const isAnimatingRef = useRef(false)
   const isAttachingEquipmentRef = useRef(false)
   const shouldAttachEquipmentRef = useRef(false)
+  // Slot → loaded loadout item, kept across avatar reloads (each animation is its own avatar model)
+  const loadoutObjectsRef = useRef(new Map<string, THREE.Object3D>())
   
   const {
     avatarUrl,
@@ -83,7 +127,8 @@ const EquipmentViewer = forwardRef<EquipmentViewerRef, EquipmentViewerProps>((pr
     orientationOffset = { x: 0, y: 0, z: 0 },
     positionOffset = { x: 0, y: 0, z: 0 },
     isAnimating = false,
-    animationType = 'tpose'
+    animationType = 'tpose',
+    loadoutItems
   } = props
   
   const [isInitialized, setIsInitialized] = useState(false)
@@ -608,6 +653,9 @@ const EquipmentViewer = forwardRef<EquipmentViewerRef, EquipmentViewerProps>((pr
           }, 100)
         }
         
+        // The loadout was worn by the previous avatar model
+        loadoutObjectsRef.current.forEach(object => attachLoadoutItem(object))
+        
       } catch (error) {
         console.error('Failed to load avatar:', error)
       }
@@ -863,66 +911,7 @@ const EquipmentViewer = forwardRef<EquipmentViewerRef, EquipmentViewerProps>((pr
     const isRightHand = equipmentSlot.includes('_R') || equipmentSlot.includes('Right')
     
     // Get default offsets for weapon type
-    const defaultOffsets: Record<string, { position: { x: number; y: number; z: number }; rotation: { x: number; y: number; z: number } }> = {
-      sword: {
-        position: { 
-          x: isRightHand ? 0.076 : -0.076,
-          y: 0.077,
-          z: 0.028
-        },
-        rotation: { x: 92, y: 0, z: 0 }
-      },
-      '2h-sword': {
-        position: { 
-          x: isRightHand ? 0.076 : -0.076,
-          y: 0.077,
-          z: 0.028
-        },
-        rotation: { x: 92, y: 0, z: 0 }
-      },
-      mace: {
-        position: { 
-          x: isRightHand ? 0.076 : -0.076,
-          y: 0.077,
-          z: 0.028
-        },
-        rotation: { x: 92, y: 0, z: 0 }
-      },
-      bow: {
-        position: { 
-          x: isRightHand ? 0.05 : -0.05,
-          y: 0.1,
-          z: 0
-        },
-        rotation: { x: 0, y: 90, z: 0 }
-      },
-      crossbow: {
-        position: { 
-          x: isRightHand ? 0.076 : -0.076,
-          y: 0.05,
-          z: 0.05
-        },
-        rotation: { x: 0, y: 0, z: 0 }
-      },
-      shield: {
-        position: { 
-          x: isRightHand ? 0.05 : -0.05,
-          y: 0.05,
-          z: 0
-        },
-        rotation: { x: 0, y: 0, z: 0 }
-      },
-      default: {
-        position: { 
-          x: isRightHand ? -handOffsetDistance : handOffsetDistance,
-          y: 0,
-          z: 0
-        },
-        rotation: { x: 0, y: 0, z: 0 }
-      }
-    }
-    
-    const weaponDefaults = defaultOffsets[weaponType] || defaultOffsets.default
+    const weaponDefaults = getWeaponDefaults(weaponType, isRightHand, handOffsetDistance)
     const basePosition = new THREE.Vector3(
       weaponDefaults.position.x,
       weaponDefaults.position.y,
@@ -1015,15 +1004,7 @@ const EquipmentViewer = forwardRef<EquipmentViewerRef, EquipmentViewerProps>((pr
         equipmentRef.current.position.copy(boneWorldPos)
         
         // Add some offset based on slot type
-        if (equipmentSlot === 'Head') {
-          equipmentRef.current.position.y += 0.1 // Move helmet up slightly
-        } else if (equipmentSlot === 'Spine2') {
-          // Chest armor centered on torso
-          equipmentRef.current.position.y -= 0.05
-        } else if (equipmentSlot === 'Hips') {
-          // Leg armor positioned lower
-          equipmentRef.current.position.y -= 0.1
-        }
+        equipmentRef.current.position.y += ARMOR_HEIGHT_OFFSETS[equipmentSlot] ?? 0
         
         console.log(`🛡️ Armor initial position: ${equipmentRef.current.position.x.toFixed(3)}, ${equipmentRef.current.position.y.toFixed(3)}, ${equipmentRef.current.position.z.toFixed(3)}`)
       } else {
@@ -1065,16 +1046,7 @@ const EquipmentViewer = forwardRef<EquipmentViewerRef, EquipmentViewerProps>((pr
     const isRightHand = equipmentSlot.includes('_R') || equipmentSlot.includes('Right')
     const effectiveHeight = avatarHeight || calculateAvatarHeight(avatarRef.current)
     const handOffsetDistance = effectiveHeight * 0.045
-    const defaultOffsets: Record<string, { position: { x: number; y: number; z: number }; rotation: { x: number; y: number; z: number } }> = {
-      sword: { position: { x: isRightHand ? 0.076 : -0.076, y: 0.077, z: 0.028 }, rotation: { x: 92, y: 0, z: 0 } },
-      '2h-sword': { position: { x: isRightHand ? 0.076 : -0.076, y: 0.077, z: 0.028 }, rotation: { x: 92, y: 0, z: 0 } },
-      mace: { position: { x: isRightHand ? 0.076 : -0.076, y: 0.077, z: 0.028 }, rotation: { x: 92, y: 0, z: 0 } },
-      bow: { position: { x: isRightHand ? 0.05 : -0.05, y: 0.1, z: 0 }, rotation: { x: 0, y: 90, z: 0 } },
-      crossbow: { position: { x: isRightHand ? 0.076 : -0.076, y: 0.05, z: 0.05 }, rotation: { x: 0, y: 0, z: 0 } },
-      shield: { position: { x: isRightHand ? 0.05 : -0.05, y: 0.05, z: 0 }, rotation: { x: 0, y: 0, z: 0 } },
-      default: { position: { x: isRightHand ? -handOffsetDistance : handOffsetDistance, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } }
-    }
-    const weaponDefaults = defaultOffsets[weaponType] || defaultOffsets.default
+    const weaponDefaults = getWeaponDefaults(weaponType, isRightHand, handOffsetDistance)
 
     // Position with bone scale compensation
     const handOffset = new THREE.Vector3(weaponDefaults.position.x, weaponDefaults.position.y, weaponDefaults.position.z)
@@ -1161,6 +1133,133 @@ const EquipmentViewer = forwardRef<EquipmentViewerRef, EquipmentViewerProps>((pr
     return foundBone
   }
   
+  // Attach a loadout item to its slot's bone with the item's own offsets and scale
+  const attachLoadoutItem = (object: THREE.Object3D) => {
+    const avatar = avatarRef.current
+    const item: LoadoutItem = object.userData.loadoutItem
+    if (!avatar) return
+    
+    const bone = findBone(avatar, item.slot)
+    if (!bone) {
+      console.warn(`⚠️ Could not resolve target bone for loadout slot: ${item.slot}`)
+      return
+    }
+    
+    // Start from the item's own space; a previous avatar model may still hold it
+    object.parent?.removeFromParent()
+    object.removeFromParent()
+    object.position.set(0, 0, 0)
+    object.rotation.set(0, 0, 0)
+    object.scale.set(1, 1, 1)
+    object.updateMatrixWorld(true)
+    
+    const wrapper = new THREE.Group()
+    wrapper.name = 'LoadoutWrapper'
+    wrapper.add(object)
+    avatar.updateMatrixWorld(true)
+    
+    if (item.weaponType === 'armor') {
+      // Armor keeps its size and follows the bone rigidly; body fitting happens on the Armor Fitting page
+      const center = new THREE.Box3().setFromObject(object).getCenter(new THREE.Vector3())
+      object.position.sub(center)
+      bone.getWorldPosition(wrapper.position)
+      wrapper.position.y += ARMOR_HEIGHT_OFFSETS[item.slot] ?? 0
+      wrapper.position.add(new THREE.Vector3(item.positionOffset.x, item.positionOffset.y, item.positionOffset.z))
+      wrapper.rotation.set(
+        THREE.MathUtils.degToRad(item.orientationOffset.x),
+        THREE.MathUtils.degToRad(item.orientationOffset.y),
+        THREE.MathUtils.degToRad(item.orientationOffset.z)
+      )
+      wrapper.scale.setScalar(item.scaleOverride)
+      wrapper.updateMatrixWorld(true)
+      bone.attach(wrapper)
+    } else {
+      const autoScaleFactor = item.autoScale ? calculateWeaponScale(object, avatar, item.weaponType, item.avatarHeight) : 1.0
+      const boneScale = getWorldScale(bone).x
+      const isRightHand = item.slot.includes('_R') || item.slot.includes('Right')
+      const weaponDefaults = getWeaponDefaults(item.weaponType, isRightHand, item.avatarHeight * 0.045)
+      
+      bone.add(wrapper)
+      wrapper.position.set(
+        (weaponDefaults.position.x + item.positionOffset.x) / boneScale,
+        (weaponDefaults.position.y + item.positionOffset.y) / boneScale,
+        (weaponDefaults.position.z + item.positionOffset.z) / boneScale
+      )
+      wrapper.rotation.copy(calculateWeaponOrientation(object, bone, item.weaponType))
+      wrapper.rotation.x += THREE.MathUtils.degToRad(weaponDefaults.rotation.x + item.orientationOffset.x)
+      wrapper.rotation.y += THREE.MathUtils.degToRad(weaponDefaults.rotation.y + item.orientationOffset.y)
+      wrapper.rotation.z += THREE.MathUtils.degToRad(weaponDefaults.rotation.z + item.orientationOffset.z)
+      object.scale.setScalar(item.scaleOverride * autoScaleFactor / boneScale)
+    }
+    
+    wrapper.updateMatrixWorld(true)
+    console.log(`🎒 Loadout item attached to ${bone.name} (${item.slot})`)
+  }
+  
+  const disposeLoadoutObject = (object: THREE.Object3D) => {
+    object.parent?.removeFromParent()
+    object.removeFromParent()
+    object.traverse((child) => {
+      if ('geometry' in child && child.geometry) (child.geometry as THREE.BufferGeometry).dispose()
+      if ('material' in child && child.material) {
+        const materials = Array.isArray(child.material) ? child.material : [child.material]
+        materials.forEach((mat: THREE.Material) => mat.dispose())
+      }
+    })
+  }
+  
+  // Load the loadout; items whose URL or attachment changed are reloaded
+  const loadoutKey = JSON.stringify(loadoutItems || [])
+  useEffect(() => {
+    if (!isInitialized) return
+    
+    const items: LoadoutItem[] = JSON.parse(loadoutKey)
+    const loaded = loadoutObjectsRef.current
+    let cancelled = false
+    
+    const loadLoadout = async () => {
+      for (const [slot, object] of loaded) {
+        const item = items.find(candidate => candidate.slot === slot)
+        if (!item || JSON.stringify(item) !== object.userData.loadoutKey) {
+          disposeLoadoutObject(object)
+          loaded.delete(slot)
+        }
+      }
+      
+      for (const item of items) {
+        if (loaded.has(item.slot)) continue
+        
+        const gltf = await loader.current.loadAsync(item.url)
+        if (cancelled) {
+          disposeLoadoutObject(gltf.scene)
+          return
+        }
+        
+        const { gripOffset: itemGrip } = item
+        const object = itemGrip && (itemGrip.x !== 0 || itemGrip.y !== 0 || itemGrip.z !== 0)
+          ? createNormalizedWeapon(gltf.scene, new THREE.Vector3(itemGrip.x, itemGrip.y, itemGrip.z))
+          : gltf.scene
+        object.userData.loadoutItem = item
+        object.userData.loadoutKey = JSON.stringify(item)
+        object.traverse((child) => {
+          if (child instanceof THREE.Mesh) {
+            child.castShadow = true
+            child.receiveShadow = true
+          }
+        })
+        
+        loaded.set(item.slot, object)
+        attachLoadoutItem(object)
+      }
+    }
+    
+    loadLoadout().catch(error => console.error('Failed to load loadout:', error))
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isInitialized, loadoutKey])  // The key covers every item's URL and attachment
+  
   const updateSkeletonHelper = useCallback(() => {
     if (!avatarRef.current || !sceneRef.current) return
     
@@ -1391,11 +1490,12 @@ const EquipmentViewer = forwardRef<EquipmentViewerRef, EquipmentViewerProps>((pr
     exportEquippedModel: async () => {
       if (!avatarRef.current) return new ArrayBuffer(0)
 
-      // Export the avatar with attached equipment
+      // Export the avatar with attached equipment and loadout, and the avatar model's animations
       const _exporter = new GLTFExporter()
       const gltf = await _exporter.parseAsync(avatarRef.current, {
         binary: true,
-        includeCustomExtensions: true
+        includeCustomExtensions: true,
+        animations: animationClipsRef.current
       })
       return gltf as ArrayBuffer
     },
@@ -1499,6 +1599,9 @@ const EquipmentViewer = forwardRef<EquipmentViewerRef, EquipmentViewerProps>((pr
       equipmentRef.current = null
     }
     
+    loadoutObjectsRef.current.forEach(object => disposeLoadoutObject(object))
+    loadoutObjectsRef.current.clear()
+    
     if (skeletonHelperRef.current) {
       sceneRef.current?.remove(skeletonHelperRef.current)
       skeletonHelperRef.current = null
@@ -1,5 +1,5 @@
 import { Download, Save } from 'lucide-react'
-import React from 'react'
+import React from 'react'
 
 import { cn } from '../../styles'
 import { Asset } from '../../types'
@@ -7,6 +7,7 @@ import { Asset } from '../../types'
 interface ExportOptionsPanelProps {
   selectedAvatar: Asset | null
   selectedEquipment: Asset | null
+  loadoutItemCount: number  // Items worn in the other slots
   onSaveConfiguration: () => void
   onExportAlignedModel: () => void
   onExportEquippedAvatar: () => void
@@ -15,10 +16,13 @@ interface ExportOptionsPanelProps {
 export const ExportOptionsPanel: React.FC<ExportOptionsPanelProps> = ({
   selectedAvatar,
   selectedEquipment,
+  loadoutItemCount,
   onSaveConfiguration,
   onExportAlignedModel,
   onExportEquippedAvatar
 }) => {
+  const canExportAvatar = !!selectedAvatar && (!!selectedEquipment || loadoutItemCount > 0)
+
   return (
     <div className="bg-bg-primary/40 backdrop-blur-sm rounded-xl border border-white/10 overflow-hidden">
       <div className="p-4 border-b border-white/5">
@@ -64,12 +68,12 @@ export const ExportOptionsPanel: React.FC<ExportOptionsPanelProps> = ({
           
           <button
             onClick={onExportEquippedAvatar}
-            disabled={!selectedAvatar || !selectedEquipment}
+            disabled={!canExportAvatar}
             className={cn(
               "px-3 py-2 rounded-lg text-sm font-medium transition-all duration-300 flex items-center justify-center gap-2",
               "bg-bg-secondary/50 border border-white/10 text-text-primary",
               "hover:bg-bg-secondary/70 hover:border-white/20",
-              (!selectedAvatar || !selectedEquipment) && "opacity-50 cursor-not-allowed"
+              !canExportAvatar && "opacity-50 cursor-not-allowed"
             )}
           >
             <Download size={14} />
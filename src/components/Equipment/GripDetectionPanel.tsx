@@ -1,13 +1,18 @@
-import { Sparkles, Wand2, Loader2, CheckCircle, RefreshCw, Check } from 'lucide-react'
-import React from 'react'
+import { Sparkles, Wand2, Loader2, CheckCircle, RefreshCw, Check, GitCompare } from 'lucide-react'
+import React from 'react'
 
+import { GRIP_DETECTION_METHODS } from '../../constants'
 import type { HandleDetectionResult } from '../../services/processing/WeaponHandleDetector'
 import { cn } from '../../styles'
+import { GripDetectionMethod } from '../../types'
 
 interface GripDetectionPanelProps {
   selectedEquipment: { hasModel: boolean } | null
   isDetectingHandle: boolean
   handleDetectionResult: HandleDetectionResult | null
+  gripDetectionMethod: GripDetectionMethod
+  onGripDetectionMethodChange: (method: GripDetectionMethod) => void
+  gripDetectionResults: Partial<Record<GripDetectionMethod, HandleDetectionResult>>
   onDetectGripPoint: () => void
 }
 
@@ -15,9 +20,14 @@ export const GripDetectionPanel: React.FC<GripDetectionPanelProps> = ({
   selectedEquipment,
   isDetectingHandle,
   handleDetectionResult,
+  gripDetectionMethod,
+  onGripDetectionMethodChange,
+  gripDetectionResults,
   onDetectGripPoint
 }) => {
   if (!selectedEquipment?.hasModel) return null
+
+  const { geometry, vision } = gripDetectionResults
   
   return (
     <div className="bg-bg-primary/40 backdrop-blur-sm rounded-xl border border-white/10 overflow-hidden">
@@ -27,12 +37,38 @@ export const GripDetectionPanel: React.FC<GripDetectionPanelProps> = ({
             <Sparkles className="w-5 h-5 text-primary" />
           </div>
           <div>
-            <h3 className="text-sm font-semibold text-text-primary">AI Grip Detection</h3>
+            <h3 className="text-sm font-semibold text-text-primary">Grip Detection</h3>
             <p className="text-xs text-text-secondary mt-0.5">Automatically detect weapon grip point</p>
           </div>
         </div>
       </div>
       <div className="p-4">
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          {GRIP_DETECTION_METHODS.map((method) => {
+            const Icon = method.icon
+            const isSelected = gripDetectionMethod === method.id
+            return (
+              <button
+                key={method.id}
+                onClick={() => onGripDetectionMethodChange(method.id)}
+                disabled={isDetectingHandle}
+                title={method.description}
+                className={cn(
+                  "p-2.5 rounded-lg border transition-all duration-200 flex items-center justify-center gap-2",
+                  isSelected
+                    ? "bg-primary/10 border-primary"
+                    : "bg-bg-secondary/40 border-white/10 hover:border-white/20"
+                )}
+              >
+                <Icon size={14} className={cn(isSelected ? 'text-primary' : 'text-text-secondary')} />
+                <span className={cn("text-xs font-medium", isSelected ? 'text-primary' : 'text-text-primary')}>
+                  {method.name}
+                </span>
+              </button>
+            )
+          })}
+        </div>
+
         <button
           onClick={onDetectGripPoint}
           disabled={isDetectingHandle}
@@ -64,6 +100,13 @@ export const GripDetectionPanel: React.FC<GripDetectionPanelProps> = ({
             </div>
             
             <div className="space-y-3 p-3 bg-bg-secondary/40 rounded-lg border border-white/10">
+              <div className="flex justify-between text-xs">
+                <span className="text-text-tertiary">Method</span>
+                <span className="text-text-primary font-medium">
+                  {GRIP_DETECTION_METHODS.find(method => method.id === handleDetectionResult.method)?.name ?? 'AI Vision'}
+                </span>
+              </div>
+
               <div className="flex justify-between text-xs">
                 <span className="text-text-tertiary">Confidence</span>
                 <span className="text-text-primary font-medium">
@@ -95,6 +138,32 @@ export const GripDetectionPanel: React.FC<GripDetectionPanelProps> = ({
               )}
             </div>
             
+            {geometry && vision && (
+              <div className="space-y-2 p-3 bg-bg-secondary/40 rounded-lg border border-white/10">
+                <div className="flex items-center gap-2 text-xs font-medium text-text-primary">
+                  <GitCompare size={12} className="text-primary" />
+                  Detector comparison
+                </div>
+                {GRIP_DETECTION_METHODS.map((method) => {
+                  const result = gripDetectionResults[method.id]
+                  return result && (
+                    <div key={method.id} className="flex justify-between text-xs">
+                      <span className="text-text-tertiary">{method.name}</span>
+                      <span className="text-text-primary font-mono">
+                        {Math.round((result.confidence || 0) * 100)}% at ({result.gripPoint.x.toFixed(2)}, {result.gripPoint.y.toFixed(2)}, {result.gripPoint.z.toFixed(2)})
+                      </span>
+                    </div>
+                  )
+                })}
+                <div className="flex justify-between text-xs">
+                  <span className="text-text-tertiary">Grip points apart</span>
+                  <span className="text-text-primary font-medium">
+                    {(geometry.gripPoint.distanceTo(vision.gripPoint) * 100).toFixed(1)} cm
+                  </span>
+                </div>
+              </div>
+            )}
+
             {handleDetectionResult.annotatedImage && (
               <div className="space-y-2">
                 <img 
@@ -103,7 +172,9 @@ export const GripDetectionPanel: React.FC<GripDetectionPanelProps> = ({
                   className="w-full rounded-lg border border-white/10"
                 />
                 <p className="text-xs text-text-tertiary text-center">
-                  Red box indicates detected grip area
+                  {handleDetectionResult.method === 'geometry'
+                    ? 'Red box marks the grip on the weapon\'s cross-section profile'
+                    : 'Red box indicates detected grip area'}
                 </p>
               </div>
             )}
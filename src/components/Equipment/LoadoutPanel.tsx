@@ -0,0 +1,141 @@
+import { Backpack, Save, Trash2, Upload } from 'lucide-react'
+import React from 'react'
+
+import { EQUIPMENT_SLOTS } from '../../constants'
+import { cn } from '../../styles'
+import { Asset, EquipmentLoadout } from '../../types'
+import { fitsEquipmentSlot } from '../../utils/equipmentAttachments'
+import { Input, Select } from '../common'
+
+interface LoadoutPanelProps {
+  assets: Asset[]
+  selectedAvatar: Asset | null
+  selectedEquipment: Asset | null
+  equipmentSlot: string
+  loadoutItems: Record<string, string>
+  onLoadoutItemChange: (slot: string, equipmentId: string | null) => void
+  onSaveLoadout: (name: string) => void
+  onApplyLoadout: (loadout: EquipmentLoadout) => void
+  onDeleteLoadout: (name: string) => void
+}
+
+export const LoadoutPanel: React.FC<LoadoutPanelProps> = ({
+  assets,
+  selectedAvatar,
+  selectedEquipment,
+  equipmentSlot,
+  loadoutItems,
+  onLoadoutItemChange,
+  onSaveLoadout,
+  onApplyLoadout,
+  onDeleteLoadout
+}) => {
+  const [loadoutName, setLoadoutName] = React.useState('')
+
+  if (!selectedAvatar) return null
+
+  const savedLoadouts = selectedAvatar.metadata.loadouts || []
+  const canSave = loadoutName.trim() !== '' && (!!selectedEquipment || Object.keys(loadoutItems).length > 0)
+
+  return (
+    <div className="bg-bg-primary/40 backdrop-blur-sm rounded-xl border border-white/10 overflow-hidden">
+      <div className="p-4 border-b border-white/5">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-primary/20 rounded-lg">
+            <Backpack className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-sm font-semibold text-text-primary">Loadout</h3>
+            <p className="text-xs text-text-secondary mt-0.5">Equipment worn in the other slots</p>
+          </div>
+        </div>
+      </div>
+      <div className="p-4 space-y-3">
+        <div className="space-y-2">
+          {EQUIPMENT_SLOTS.map((slot) => {
+            const Icon = slot.icon
+            const isFitting = slot.id === equipmentSlot && !!selectedEquipment
+            return (
+              <div key={slot.id} className="flex items-center gap-2">
+                <div className="flex items-center gap-2 w-24 flex-shrink-0">
+                  <Icon size={14} className={cn(isFitting ? 'text-primary' : 'text-text-secondary')} />
+                  <span className="text-xs font-medium text-text-primary">{slot.name}</span>
+                </div>
+                {isFitting ? (
+                  <div className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-primary/10 border border-primary text-xs text-primary truncate">
+                    {selectedEquipment.name} (fitting)
+                  </div>
+                ) : (
+                  <Select
+                    value={loadoutItems[slot.id] || ''}
+                    onChange={(e) => onLoadoutItemChange(slot.id, e.target.value || null)}
+                    className="flex-1 min-w-0 text-xs py-2"
+                  >
+                    <option value="">Empty</option>
+                    {assets
+                      .filter(asset => asset.hasModel && fitsEquipmentSlot(asset, slot.id))
+                      .map(asset => (
+                        <option key={asset.id} value={asset.id}>{asset.name}</option>
+                      ))}
+                  </Select>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={loadoutName}
+            onChange={(e) => setLoadoutName(e.target.value)}
+            placeholder="Loadout name"
+            className="flex-1 text-sm"
+          />
+          <button
+            onClick={() => onSaveLoadout(loadoutName.trim())}
+            disabled={!canSave}
+            title="Save the equipment in every slot under this name"
+            className={cn(
+              "px-3 py-2 rounded-lg text-sm font-medium transition-all duration-300 flex items-center justify-center gap-2",
+              "bg-gradient-to-r from-primary to-primary/80 text-white",
+              !canSave && "opacity-50 cursor-not-allowed"
+            )}
+          >
+            <Save size={14} />
+            <span>Save</span>
+          </button>
+        </div>
+
+        {savedLoadouts.length > 0 && (
+          <div className="space-y-1.5">
+            {savedLoadouts.map(loadout => (
+              <div
+                key={loadout.name}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg bg-bg-secondary/40 border border-white/10"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-medium text-text-primary truncate">{loadout.name}</p>
+                  <p className="text-xs text-text-tertiary">{Object.keys(loadout.items).length} item(s)</p>
+                </div>
+                <button
+                  onClick={() => onApplyLoadout(loadout)}
+                  title="Wear this loadout"
+                  className="p-1.5 rounded-md text-text-secondary hover:text-primary hover:bg-primary/10 transition-colors"
+                >
+                  <Upload size={14} />
+                </button>
+                <button
+                  onClick={() => onDeleteLoadout(loadout.name)}
+                  title="Delete this loadout"
+                  className="p-1.5 rounded-md text-text-secondary hover:text-error hover:bg-error/10 transition-colors"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,12 +1,12 @@
 import { Package, Grid3X3, Camera, Activity, RotateCw, Play, Pause } from 'lucide-react'
-import React from 'react'
+import React from 'react'
 
 import type { HandleDetectionResult } from '../../services/processing/WeaponHandleDetector'
 import { Asset } from '../../types'
 import { hasAnimations } from '../../types/AssetMetadata'
-import { Card, CardContent, Button, EmptyState } from '../common'
+import { Card, CardContent, Button, EmptyState } from '../common'
 
-import EquipmentViewer, { EquipmentViewerRef } from './EquipmentViewer'
+import EquipmentViewer, { EquipmentViewerRef, LoadoutItem } from './EquipmentViewer'
 
 
 interface ViewportSectionProps {
@@ -26,6 +26,7 @@ interface ViewportSectionProps {
   setCurrentAnimation: (animation: 'tpose' | 'walking' | 'running') => void
   isAnimationPlaying: boolean
   setIsAnimationPlaying: (playing: boolean) => void
+  loadoutItems: LoadoutItem[]
 }
 
 export const ViewportSection: React.FC<ViewportSectionProps> = ({
@@ -44,7 +45,8 @@ export const ViewportSection: React.FC<ViewportSectionProps> = ({
   currentAnimation,
   setCurrentAnimation,
   isAnimationPlaying,
-  setIsAnimationPlaying
+  setIsAnimationPlaying,
+  loadoutItems
 }) => {
   const getAvatarUrl = () => {
     if (!selectedAvatar) return undefined
@@ -90,6 +92,7 @@ export const ViewportSection: React.FC<ViewportSectionProps> = ({
               positionOffset={manualPosition}
               isAnimating={isAnimationPlaying && currentAnimation !== 'tpose'}
               animationType={currentAnimation}
+              loadoutItems={loadoutItems}
             />
             
             {/* Viewport Controls */}
@@ -5,4 +5,5 @@ export { GripDetectionPanel } from './GripDetectionPanel'
 export { OrientationControls } from './OrientationControls'
 export { PositionControls } from './PositionControls'
 export { CreatureSizeControls } from './CreatureSizeControls'
-export { ExportOptionsPanel } from './ExportOptionsPanel' 
\ No newline at end of file
+export { ExportOptionsPanel } from './ExportOptionsPanel'
+export { LoadoutPanel } from './LoadoutPanel' 
\ No newline at end of file
@@ -1,10 +1,13 @@
-import { Brain, ChevronRight, Plus, Trash2, Sparkles, Save, Edit2, Palette, Wand2, Check, FileText, Layers, X } from 'lucide-react'
+import { Brain, ChevronRight, Plus, Trash2, Sparkles, Save, Edit2, Palette, Wand2, Check, FileText, Layers, X, Eye, Loader2, AlertTriangle, History } from 'lucide-react'
 import React, { useState } from 'react'
 
+import { PromptFileType } from '../../services/api/PromptService'
 import { cn } from '../../styles'
-import { CustomAssetType } from '../../types/generation'
+import { CustomAssetType, GenerationPreview, PromptLintIssue } from '../../types/generation'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Input, Textarea } from '../common'
 
+import { PromptHistoryDrawer } from './PromptHistoryDrawer'
+
 interface AdvancedPromptsCardProps {
   showAdvancedPrompts: boolean
   showAssetTypeEditor: boolean
@@ -23,6 +26,11 @@ interface AdvancedPromptsCardProps {
   customStyle?: string | null
   currentStylePrompt?: string
   gameStylePrompts?: any // Add proper type later
+  promptPreview?: {
+    preview: GenerationPreview | null
+    loading: boolean
+    error: string | null
+  }
   onToggleAdvancedPrompts: () => void
   onToggleAssetTypeEditor: () => void
   onCustomGamePromptChange: (value: string) => void
@@ -38,6 +46,7 @@ interface AdvancedPromptsCardProps {
   }) => Promise<boolean>
   onDeleteCustomGameStyle?: (id: string) => Promise<boolean>
   onDeleteCustomAssetType?: (id: string, generationType: 'avatar' | 'item') => Promise<boolean>
+  onPromptsRestored?: (type: PromptFileType) => void | Promise<void>
 }
 
 export const AdvancedPromptsCard: React.FC<AdvancedPromptsCardProps> = ({
@@ -54,6 +63,7 @@ export const AdvancedPromptsCard: React.FC<AdvancedPromptsCardProps> = ({
   gameStyle: _gameStyle,
   customStyle: _customStyle,
   gameStylePrompts,
+  promptPreview,
   onToggleAdvancedPrompts,
   onToggleAssetTypeEditor: _onToggleAssetTypeEditor,
   onCustomGamePromptChange,
@@ -64,18 +74,20 @@ export const AdvancedPromptsCard: React.FC<AdvancedPromptsCardProps> = ({
   onSaveCustomAssetTypes,
   onSaveCustomGameStyle,
   onDeleteCustomGameStyle,
-  onDeleteCustomAssetType
+  onDeleteCustomAssetType,
+  onPromptsRestored
 }) => {
   const defaultAssetTypes = generationType === 'avatar' 
     ? ['character', 'humanoid', 'npc', 'creature'] 
     : ['weapon', 'armor', 'tool', 'building', 'consumable', 'resource']
   
-  const [activeTab, setActiveTab] = useState<'quick' | 'styles' | 'types'>('quick')
+  const [activeTab, setActiveTab] = useState<'quick' | 'styles' | 'types' | 'preview'>('quick')
   const [showStyleCreator, setShowStyleCreator] = useState(false)
   const [newStyleName, setNewStyleName] = useState('')
   const [newStyleBase, setNewStyleBase] = useState('')
   const [newStyleEnhanced, setNewStyleEnhanced] = useState('')
   const [isSaving, setIsSaving] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
 
   return (
     <Card className="overflow-hidden bg-gradient-to-br from-bg-primary via-bg-primary to-primary/5 border-border-primary shadow-lg">
@@ -93,12 +105,33 @@ export const AdvancedPromptsCard: React.FC<AdvancedPromptsCardProps> = ({
               <CardDescription className="text-xs mt-0.5">Customize generation prompts</CardDescription>
             </div>
           </div>
-          <ChevronRight className={cn(
-            "w-5 h-5 text-text-secondary transition-transform duration-200",
-            showAdvancedPrompts && "rotate-90"
-          )} />
+          <div className="flex items-center gap-2">
+            {showAdvancedPrompts && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setShowHistory(true)
+                }}
+              >
+                <History className="w-4 h-4 mr-1" />
+                History
+              </Button>
+            )}
+            <ChevronRight className={cn(
+              "w-5 h-5 text-text-secondary transition-transform duration-200",
+              showAdvancedPrompts && "rotate-90"
+            )} />
+          </div>
         </div>
       </CardHeader>
+
+      <PromptHistoryDrawer
+        open={showHistory}
+        onClose={() => setShowHistory(false)}
+        onRestored={onPromptsRestored}
+      />
       
       {showAdvancedPrompts && (
         <CardContent className="p-0">
@@ -122,8 +155,21 @@ export const AdvancedPromptsCard: React.FC<AdvancedPromptsCardProps> = ({
               icon={<Layers className="w-4 h-4" />}
               label={generationType === 'avatar' ? 'Characters' : 'Assets'}
             />
+            {promptPreview && (
+              <TabButton
+                active={activeTab === 'preview'}
+                onClick={() => setActiveTab('preview')}
+                icon={<Eye className="w-4 h-4" />}
+                label="Preview"
+              />
+            )}
           </div>
 
+          {/* Prompt lint results for the current config, on every tab */}
+          {promptPreview?.preview && promptPreview.preview.lint.length > 0 && (
+            <PromptLintList issues={promptPreview.preview.lint} />
+          )}
+
           <div className="animate-fade-in">
             {/* Quick Edit Tab */}
             {activeTab === 'quick' && (
@@ -252,6 +298,13 @@ export const AdvancedPromptsCard: React.FC<AdvancedPromptsCardProps> = ({
                 />
               </div>
             )}
+
+            {/* Preview Tab */}
+            {activeTab === 'preview' && promptPreview && (
+              <div className="p-6">
+                <PromptPreviewPanel {...promptPreview} />
+              </div>
+            )}
           </div>
         </CardContent>
       )}
@@ -286,6 +339,140 @@ const TabButton: React.FC<{
   </button>
 )
 
+// Prompt Preview Component: what the pipeline would send to each provider
+const PromptPreviewPanel: React.FC<{
+  preview: GenerationPreview | null
+  loading: boolean
+  error: string | null
+}> = ({ preview, loading, error }) => {
+  if (error) {
+    return <p className="text-sm text-error">{error}</p>
+  }
+
+  if (!preview) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-text-secondary">
+        {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+        {loading ? 'Building preview...' : 'Enter a description to preview the prompts'}
+      </div>
+    )
+  }
+
+  const { promptOptimization, imageGeneration, model, retexture, missingConfiguration } = preview
+
+  return (
+    <div className={cn('space-y-5 transition-opacity', loading && 'opacity-60')}>
+      {missingConfiguration.length > 0 && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-warning/10 text-warning text-xs">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          The server is missing {missingConfiguration.join(', ')} - this config would not run as previewed
+        </div>
+      )}
+
+      <PreviewSection title={`GPT-4 Enhancement (${promptOptimization.status})`}>
+        {promptOptimization.status === 'enabled' && (
+          <>
+            <PreviewPrompt label={`System prompt · ${promptOptimization.model} on ${promptOptimization.backend}`} text={promptOptimization.systemPrompt} />
+            <PreviewPrompt label="User prompt" text={promptOptimization.userPrompt} />
+          </>
+        )}
+        {promptOptimization.status === 'replayed' && (
+          <PreviewPrompt label="Enhanced prompt from the recipe" text={promptOptimization.optimizedPrompt} />
+        )}
+      </PreviewSection>
+
+      <PreviewSection title={`Image Generation (${imageGeneration.status})`}>
+        {imageGeneration.status === 'enabled' ? (
+          <>
+            <PreviewPrompt
+              label={imageGeneration.awaitsEnhancement
+                ? 'Image prompt · built from GPT-4\'s answer, shown here from the description'
+                : 'Image prompt'}
+              text={imageGeneration.prompt}
+            />
+            <PreviewPrompt label="Style" text={imageGeneration.gameStyle} />
+            {imageGeneration.candidates > 1 && (
+              <p className="text-xs text-text-secondary">{imageGeneration.candidates} candidates per round for review</p>
+            )}
+          </>
+        ) : (
+          <p className="text-xs text-text-secondary">{imageGeneration.reason}</p>
+        )}
+      </PreviewSection>
+
+      <PreviewSection title="Image to 3D">
+        <p className="text-xs text-text-secondary">
+          {model.quality} quality · {model.aiModel} · {model.topology} topology · {model.targetPolycount.toLocaleString()} polys ·{' '}
+          {model.textureResolution}px textures · PBR {model.enablePbr ? 'on' : 'off'}
+        </p>
+      </PreviewSection>
+
+      {retexture.length > 0 && (
+        <PreviewSection title={`Material Variants (${retexture.length})`}>
+          {retexture.map(material => (
+            <PreviewPrompt
+              key={material.materialId}
+              label={`${material.displayName} · ${material.aiModel}, ${material.artStyle}`}
+              text={material.textStylePrompt}
+            />
+          ))}
+        </PreviewSection>
+      )}
+    </div>
+  )
+}
+
+// Prompt Lint Component: conflicts to fix before generating
+const LINT_FIELD_LABELS: Record<PromptLintIssue['field'], string> = {
+  description: 'Description',
+  gameStyle: 'Style',
+  imagePrompt: 'Image prompt',
+  materialPresets: 'Materials'
+}
+
+const PromptLintList: React.FC<{
+  issues: PromptLintIssue[]
+}> = ({ issues }) => (
+  <div className="mx-6 mt-4 space-y-2">
+    {issues.map((issue, index) => (
+      <div
+        key={`${issue.rule}-${index}`}
+        className={cn(
+          'flex items-start gap-2 p-3 rounded-lg text-xs',
+          issue.severity === 'error' ? 'bg-error/10 text-error' : 'bg-warning/10 text-warning'
+        )}
+      >
+        <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+        <span>
+          <span className="font-medium">{LINT_FIELD_LABELS[issue.field]}:</span> {issue.message}
+        </span>
+      </div>
+    ))}
+  </div>
+)
+
+const PreviewSection: React.FC<{
+  title: string
+  children: React.ReactNode
+}> = ({ title, children }) => (
+  <div className="space-y-2">
+    <h3 className="text-sm font-medium text-text-primary">{title}</h3>
+    {children}
+  </div>
+)
+
+const PreviewPrompt: React.FC<{
+  label: string
+  text: string
+}> = ({ label, text }) => (
+  <div className="space-y-1">
+    <p className="text-xs text-text-secondary">{label}</p>
+    <pre className="p-3 rounded-lg bg-bg-secondary/50 border border-border-primary text-xs text-text-primary whitespace-pre-wrap font-mono">
+      {text}
+    </pre>
+  </div>
+)
+
 // Info Card Component
 const InfoCard: React.FC<{
   icon: React.ReactNode
@@ -1,6 +1,7 @@
 import { Box, Download } from 'lucide-react'
-import React from 'react'
+import React from 'react'
 
+import { cn } from '../../styles'
 import { GeneratedAsset, hasAnimations } from '../../types'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '../common'
 import { AnimationPlayer } from '../shared/AnimationPlayer'
@@ -27,6 +28,11 @@ export const AssetPreviewCard: React.FC<AssetPreviewCardProps> = ({
     'animations' in selectedAsset.metadata && 
     selectedAsset.metadata.animations
 
+  // Concept art kept from review mode, the one the model was generated from marked
+  const conceptArtCandidates = 'conceptArtCandidates' in selectedAsset.metadata
+    ? selectedAsset.metadata.conceptArtCandidates || []
+    : []
+
   return (
     <Card className="overflow-hidden shadow-xl hover:shadow-2xl transition-shadow">
       <CardHeader>
@@ -66,6 +72,34 @@ export const AssetPreviewCard: React.FC<AssetPreviewCardProps> = ({
           )}
         </div>
       </CardContent>
+      {conceptArtCandidates.length > 0 && (
+        <div className="p-4 border-t border-border-primary space-y-2">
+          <p className="text-xs text-text-secondary">
+            Concept art candidates ({conceptArtCandidates.length}), kept in concept-art-candidates/
+          </p>
+          <div className="flex gap-2 overflow-x-auto">
+            {conceptArtCandidates.map(candidate => (
+              <a
+                key={candidate.file}
+                href={`/api/assets/${selectedAsset.id}/${candidate.file}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={`Round ${candidate.round}${candidate.selected ? ' (selected)' : ''}: ${candidate.imagePrompt}`}
+                className={cn(
+                  'flex-shrink-0 w-16 h-16 rounded-lg overflow-hidden border-2',
+                  candidate.selected ? 'border-primary' : 'border-border-primary opacity-70 hover:opacity-100'
+                )}
+              >
+                <img
+                  src={`/api/assets/${selectedAsset.id}/${candidate.file}`}
+                  alt={`Concept art candidate ${candidate.file}`}
+                  className="w-full h-full object-cover"
+                />
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
       {hasModel && (
         <CardFooter className="bg-bg-secondary">
           <a
@@ -0,0 +1,105 @@
+import { Check, RefreshCw, Images } from 'lucide-react'
+import React, { useState } from 'react'
+
+import { ConceptArtReviewStage } from '../../services/api/GenerationAPIClient'
+import { cn } from '../../styles'
+import { Button, Badge, Textarea } from '../common'
+
+interface ConceptArtCandidatesPanelProps {
+  review: ConceptArtReviewStage
+  onSelect: (candidateId: string) => Promise<void>
+  onRegenerate: (imagePrompt: string) => Promise<void>
+}
+
+/**
+ * Candidate concept art of a pipeline in review mode: pick one to continue with image-to-3D,
+ * or tweak the image prompt and generate another round. Earlier rounds stay selectable.
+ */
+export const ConceptArtCandidatesPanel: React.FC<ConceptArtCandidatesPanelProps> = ({
+  review,
+  onSelect,
+  onRegenerate
+}) => {
+  const candidates = review.candidates || []
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [imagePrompt, setImagePrompt] = useState(review.imagePrompt || '')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const submit = async (action: () => Promise<void>) => {
+    setIsSubmitting(true)
+    try {
+      await action()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Latest round first
+  const rounds = Array.from(new Set(candidates.map(candidate => candidate.round))).sort((a, b) => b - a)
+
+  return (
+    <div className="p-4 rounded-xl border border-primary/30 bg-gradient-to-r from-primary/5 to-primary/10 space-y-4">
+      <div className="flex items-center gap-2">
+        <Images className="w-4 h-4 text-primary" />
+        <h4 className="font-medium text-text-primary">Choose the concept art</h4>
+        <Badge variant="secondary" className="text-xs">{candidates.length} candidates</Badge>
+      </div>
+
+      {rounds.map(round => (
+        <div key={round} className="space-y-2">
+          <p className="text-xs text-text-secondary">Round {round}</p>
+          <div className="grid grid-cols-3 gap-3">
+            {candidates.filter(candidate => candidate.round === round).map(candidate => (
+              <button
+                key={candidate.id}
+                onClick={() => setSelectedId(candidate.id)}
+                title={candidate.imagePrompt}
+                className={cn(
+                  'relative aspect-square rounded-lg overflow-hidden border-2 transition-all',
+                  selectedId === candidate.id ? 'border-primary shadow-lg' : 'border-border-primary hover:border-border-secondary'
+                )}
+              >
+                <img src={candidate.url} alt={`Concept art candidate ${candidate.id}`} className="w-full h-full object-cover" />
+                {selectedId === candidate.id && (
+                  <div className="absolute top-1.5 right-1.5 p-1 rounded-full bg-primary">
+                    <Check className="w-3 h-3 text-white" />
+                  </div>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <Textarea
+        value={imagePrompt}
+        onChange={(e) => setImagePrompt(e.target.value)}
+        rows={3}
+        className="text-sm"
+        placeholder="Image prompt for the next round of candidates"
+      />
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => submit(() => onRegenerate(imagePrompt))}
+          disabled={isSubmitting}
+        >
+          <RefreshCw className="w-3.5 h-3.5 mr-1" />
+          Regenerate Candidates
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => selectedId && submit(() => onSelect(selectedId))}
+          disabled={!selectedId || isSubmitting}
+        >
+          <Check className="w-3.5 h-3.5 mr-1" />
+          Use Selected
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default ConceptArtCandidatesPanel
@@ -1,6 +1,7 @@
-import { Brain, User, Palette, Grid3x3, Settings2 } from 'lucide-react'
+import { Brain, User, Palette, Grid3x3, Settings2, Images } from 'lucide-react'
 import React from 'react'
 
+import { CONCEPT_ART_CANDIDATE_COUNTS } from '../../constants'
 import { cn } from '../../styles'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, Checkbox } from '../common'
 
@@ -19,11 +20,15 @@ interface PipelineOptionsCardProps {
   enableRetexturing: boolean
   enableSprites: boolean
   enableRigging: boolean
+  reviewConceptArt: boolean
+  conceptArtCandidates: number
   quality?: 'standard' | 'high' | 'ultra'
   onUseGPT4EnhancementChange: (checked: boolean) => void
   onEnableRetexturingChange: (checked: boolean) => void
   onEnableSpritesChange: (checked: boolean) => void
   onEnableRiggingChange: (checked: boolean) => void
+  onReviewConceptArtChange: (checked: boolean) => void
+  onConceptArtCandidatesChange: (count: number) => void
   onQualityChange?: (quality: 'standard' | 'high' | 'ultra') => void
 }
 
@@ -33,11 +38,15 @@ export const PipelineOptionsCard: React.FC<PipelineOptionsCardProps> = ({
   enableRetexturing,
   enableSprites,
   enableRigging,
+  reviewConceptArt,
+  conceptArtCandidates,
   quality = 'high',
   onUseGPT4EnhancementChange,
   onEnableRetexturingChange,
   onEnableSpritesChange,
   onEnableRiggingChange,
+  onReviewConceptArtChange,
+  onConceptArtCandidatesChange,
   onQualityChange
 }) => {
   const options: PipelineOption[] = [
@@ -49,6 +58,14 @@ export const PipelineOptionsCard: React.FC<PipelineOptionsCardProps> = ({
       onChange: onUseGPT4EnhancementChange,
       icon: Brain
     },
+    {
+      id: 'review',
+      label: 'Review Concept Art',
+      description: 'Pick from candidate images before 3D',
+      checked: reviewConceptArt,
+      onChange: onReviewConceptArtChange,
+      icon: Images
+    },
     ...(generationType === 'avatar' ? [{
       id: 'rigging',
       label: 'Auto-Rigging',
@@ -151,6 +168,25 @@ export const PipelineOptionsCard: React.FC<PipelineOptionsCardProps> = ({
                   </div>
                 }
               />
+              {option.id === 'review' && option.checked && (
+                <div className="flex items-center justify-between mt-3 pl-1">
+                  <span className="text-xs text-text-secondary">Candidates per round</span>
+                  <div className="flex gap-2">
+                    {CONCEPT_ART_CANDIDATE_COUNTS.map(count => (
+                      <button
+                        key={count}
+                        onClick={() => onConceptArtCandidatesChange(count)}
+                        className={cn(
+                          'px-2.5 py-1 rounded-lg text-xs border transition-colors',
+                          conceptArtCandidates === count ? 'bg-primary text-white border-primary' : 'bg-bg-tertiary text-text-secondary border-border-primary hover:border-border-secondary'
+                        )}
+                      >
+                        {count}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )
         })}
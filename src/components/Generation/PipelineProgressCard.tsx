@@ -1,16 +1,25 @@
-import { CheckCircle, Loader2, XCircle, Sparkles, ChevronRight, Zap, FileText, Brain, Camera, Box, User, Layers, Grid3x3 } from 'lucide-react'
-import React from 'react'
+import { CheckCircle, Loader2, XCircle, Sparkles, ChevronRight, Zap, FileText, Brain, Camera, Box, User, Layers, Grid3x3, Ban, RotateCcw, Images } from 'lucide-react'
+import React from 'react'
 
+import { RETRYABLE_PIPELINE_STAGES } from '../../constants'
+import { ConceptArtReviewStage } from '../../services/api/GenerationAPIClient'
 import { PipelineStage } from '../../store'
 import { cn } from '../../styles'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Badge, Progress } from '../common'
 
+import { ConceptArtCandidatesPanel } from './ConceptArtCandidatesPanel'
+
 interface PipelineProgressCardProps {
   pipelineStages: PipelineStage[]
   generationType: 'item' | 'avatar' | undefined
   isGenerating: boolean
   onBackToConfig: () => void
   onBack: () => void
+  onCancel: () => void
+  onRetryStage: (stageId: string) => void
+  conceptArtReview?: ConceptArtReviewStage | null
+  onSelectConceptArt?: (candidateId: string) => Promise<void>
+  onRegenerateConceptArt?: (imagePrompt: string) => Promise<void>
 }
 
 export const PipelineProgressCard: React.FC<PipelineProgressCardProps> = ({
@@ -18,7 +27,12 @@ export const PipelineProgressCard: React.FC<PipelineProgressCardProps> = ({
   generationType,
   isGenerating,
   onBackToConfig,
-  onBack
+  onBack,
+  onCancel,
+  onRetryStage,
+  conceptArtReview,
+  onSelectConceptArt,
+  onRegenerateConceptArt
 }) => {
   const filteredStages = pipelineStages.filter(stage => {
     // Hide material variants and sprites for avatar generation
@@ -56,15 +70,37 @@ export const PipelineProgressCard: React.FC<PipelineProgressCardProps> = ({
       <CardContent className="p-6 space-y-4">
         <div className="space-y-4">
           {filteredStages.map((stage, index) => (
-            <PipelineStageItem
-              key={stage.id}
-              stage={stage}
-              isLast={index === filteredStages.length - 1}
-            />
+            <React.Fragment key={stage.id}>
+              <PipelineStageItem
+                stage={stage}
+                isLast={index === filteredStages.length - 1}
+                canRetry={!isGenerating && stage.id in RETRYABLE_PIPELINE_STAGES}
+                onRetry={() => onRetryStage(stage.id)}
+              />
+              {stage.id === 'image-generation' && stage.status === 'awaiting-selection' &&
+                conceptArtReview && onSelectConceptArt && onRegenerateConceptArt && (
+                <ConceptArtCandidatesPanel
+                  review={conceptArtReview}
+                  onSelect={onSelectConceptArt}
+                  onRegenerate={onRegenerateConceptArt}
+                />
+              )}
+            </React.Fragment>
           ))}
         </div>
         
-        <div className="mt-8 flex justify-center">
+        <div className="mt-8 flex justify-center gap-3">
+          {isGenerating && (
+            <Button
+              variant="danger"
+              onClick={onCancel}
+              size="lg"
+              className="shadow-lg hover:shadow-xl transition-all"
+            >
+              <Ban className="w-4 h-4 mr-2" />
+              Cancel Generation
+            </Button>
+          )}
           <Button 
             variant="secondary" 
             onClick={onBackToConfig}
@@ -106,11 +142,15 @@ const getStageIcon = (stageId: string) => {
 const PipelineStageItem: React.FC<{
   stage: PipelineStage
   isLast: boolean
-}> = ({ stage, isLast }) => {
+  canRetry: boolean
+  onRetry: () => void
+}> = ({ stage, isLast, canRetry, onRetry }) => {
   const isActive = stage.status === 'active'
   const isComplete = stage.status === 'completed'
   const isFailed = stage.status === 'failed'
   const isSkipped = stage.status === 'skipped'
+  const isCancelled = stage.status === 'cancelled'
+  const isAwaiting = stage.status === 'awaiting-selection'
 
   return (
     <div className="relative">
@@ -120,7 +160,9 @@ const PipelineStageItem: React.FC<{
         isComplete && "border-success/30 bg-gradient-to-r from-success/5 to-success/10",
         isFailed && "border-error/30 bg-gradient-to-r from-error/5 to-error/10",
         isSkipped && "opacity-50 border-border-secondary bg-bg-secondary/30",
-        !isActive && !isComplete && !isFailed && !isSkipped && "border-border-primary bg-bg-secondary/50 hover:border-border-secondary"
+        isCancelled && "border-warning/30 bg-gradient-to-r from-warning/5 to-warning/10",
+        isAwaiting && "border-primary/30 bg-gradient-to-r from-primary/5 to-primary/10",
+        !isActive && !isComplete && !isFailed && !isSkipped && !isCancelled && !isAwaiting && "border-border-primary bg-bg-secondary/50 hover:border-border-secondary"
       )}>
         <div className="flex items-center gap-3">
           <div className={cn(
@@ -129,7 +171,9 @@ const PipelineStageItem: React.FC<{
             isComplete && "bg-success/10",
             isFailed && "bg-error/10",
             isSkipped && "bg-bg-tertiary/50",
-            !isActive && !isComplete && !isFailed && !isSkipped && "bg-bg-tertiary/50"
+            isCancelled && "bg-warning/10",
+            isAwaiting && "bg-primary/10",
+            !isActive && !isComplete && !isFailed && !isSkipped && !isCancelled && !isAwaiting && "bg-bg-tertiary/50"
           )}>
             {isActive ? (
               <Loader2 className="w-5 h-5 text-primary animate-spin" />
@@ -137,6 +181,10 @@ const PipelineStageItem: React.FC<{
               <CheckCircle className="w-5 h-5 text-success" />
             ) : isFailed ? (
               <XCircle className="w-5 h-5 text-error" />
+            ) : isCancelled ? (
+              <Ban className="w-5 h-5 text-warning" />
+            ) : isAwaiting ? (
+              <Images className="w-5 h-5 text-primary" />
             ) : (
               <div className={cn(
                 isSkipped ? "text-text-muted" : "text-text-secondary"
@@ -172,12 +220,36 @@ const PipelineStageItem: React.FC<{
             Failed
           </Badge>
         )}
+        
+        {isCancelled && (
+          <Badge variant="warning" className="text-xs">
+            Cancelled
+          </Badge>
+        )}
+        
+        {isAwaiting && (
+          <Badge variant="primary" className="text-xs">
+            Awaiting selection
+          </Badge>
+        )}
+        
+        {(isFailed || isCancelled) && canRetry && (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={onRetry}
+            title="Re-run this stage using the results of earlier stages"
+          >
+            <RotateCcw className="w-3.5 h-3.5 mr-1" />
+            Retry
+          </Button>
+        )}
       </div>
       
       {!isLast && (
         <div className={cn(
           "absolute left-8 top-full w-0.5 h-4 -translate-x-1/2 transition-all",
-          (isComplete || isActive) ? "bg-primary/30" : "bg-border-primary/30"
+          (isComplete || isActive || isAwaiting) ? "bg-primary/30" : "bg-border-primary/30"
         )} />
       )}
     </div>
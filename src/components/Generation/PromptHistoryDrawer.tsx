@@ -0,0 +1,238 @@
+import { History, RotateCcw, X, Loader2, AlertTriangle } from 'lucide-react'
+import React, { useCallback, useEffect, useState } from 'react'
+
+import { PROMPT_HISTORY_FILES } from '../../constants'
+import {
+  PromptService,
+  PromptFileType,
+  PromptJsonValue,
+  PromptVersion,
+  PromptVersionDiff
+} from '../../services/api/PromptService'
+import { cn } from '../../styles'
+import { Button, Badge, Input, Select } from '../common'
+
+interface PromptHistoryDrawerProps {
+  open: boolean
+  onClose: () => void
+  onRestored?: (type: PromptFileType) => void | Promise<void>
+}
+
+const OPERATION_LABELS: Record<PromptVersion['operation'], string> = {
+  'initial': 'Initial',
+  'external-change': 'Edited outside',
+  'save': 'Saved',
+  'delete': 'Deleted',
+  'restore': 'Restored'
+}
+
+/**
+ * Saved versions of a prompt file: pick one to see what changed since, and restore it.
+ * Restoring keeps the replaced content as a version too, so a restore can itself be undone.
+ */
+export const PromptHistoryDrawer: React.FC<PromptHistoryDrawerProps> = ({
+  open,
+  onClose,
+  onRestored
+}) => {
+  const [fileType, setFileType] = useState<PromptFileType>('game-styles')
+  const [versions, setVersions] = useState<PromptVersion[]>([])
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null)
+  const [diff, setDiff] = useState<PromptVersionDiff | null>(null)
+  const [note, setNote] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setLoading(true)
+      setVersions(await PromptService.listVersions(fileType))
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load prompt versions:', err)
+      setError('Failed to load prompt versions')
+    } finally {
+      setLoading(false)
+    }
+  }, [fileType])
+
+  useEffect(() => {
+    if (!open) return
+    setSelectedVersion(null)
+    setDiff(null)
+    loadVersions()
+  }, [open, loadVersions])
+
+  useEffect(() => {
+    if (!open) return
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [open, onClose])
+
+  const selectVersion = async (version: number) => {
+    setSelectedVersion(version)
+    setDiff(null)
+    try {
+      setDiff(await PromptService.getVersionDiff(fileType, version, 'current'))
+      setError(null)
+    } catch (err) {
+      console.error('Failed to diff prompt versions:', err)
+      setError('Failed to compare this version with the current file')
+    }
+  }
+
+  const restoreSelected = async () => {
+    if (selectedVersion === null) return
+    setIsRestoring(true)
+    try {
+      await PromptService.restoreVersion(fileType, selectedVersion, note.trim() || undefined)
+      setNote('')
+      setSelectedVersion(null)
+      setDiff(null)
+      await loadVersions()
+      await onRestored?.(fileType)
+    } catch (err) {
+      console.error('Failed to restore prompt version:', err)
+      setError(`Failed to restore version ${selectedVersion}`)
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  if (!open) return null
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-end bg-black bg-opacity-50 backdrop-blur-sm animate-fade-in"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose()
+      }}
+    >
+      <div className="w-full max-w-xl h-full flex flex-col bg-bg-primary border-l border-border-primary shadow-2xl" role="dialog" aria-modal="true">
+        <div className="flex items-center justify-between p-5 border-b border-border-primary">
+          <div className="flex items-center gap-2">
+            <History className="w-5 h-5 text-primary" />
+            <h3 className="text-lg font-semibold text-text-primary">Prompt History</h3>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-bg-secondary transition-colors" aria-label="Close">
+            <X className="w-4 h-4 text-text-secondary" />
+          </button>
+        </div>
+
+        <div className="p-5 border-b border-border-primary">
+          <Select value={fileType} onChange={(e) => setFileType(e.target.value as PromptFileType)}>
+            {PROMPT_HISTORY_FILES.map(file => (
+              <option key={file.type} value={file.type}>{file.label}</option>
+            ))}
+          </Select>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-4">
+          {error && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-error/10 text-error text-sm">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-text-secondary">
+              <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-text-secondary text-center py-8">
+              No versions yet. A version is recorded every time this file is saved.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {versions.map((version, index) => (
+                <button
+                  key={version.version}
+                  onClick={() => selectVersion(version.version)}
+                  className={cn(
+                    'w-full text-left p-3 rounded-lg border transition-all',
+                    selectedVersion === version.version
+                      ? 'border-primary bg-primary/5'
+                      : 'border-border-primary hover:border-border-secondary'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-text-primary">v{version.version}</span>
+                      <Badge variant="secondary" className="text-xs">{OPERATION_LABELS[version.operation]}</Badge>
+                      {index === 0 && <Badge variant="success" className="text-xs">Latest</Badge>}
+                    </div>
+                    <span className="text-xs text-text-tertiary">{new Date(version.createdAt).toLocaleString()}</span>
+                  </div>
+                  {(version.note || version.restoredFrom) && (
+                    <p className="mt-1 text-xs text-text-secondary">
+                      {version.note}
+                      {version.restoredFrom && ` (from v${version.restoredFrom})`}
+                    </p>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {selectedVersion !== null && (
+            <div className="space-y-3 pt-2">
+              <h4 className="text-sm font-medium text-text-primary">
+                Changes from v{selectedVersion} to the current file
+              </h4>
+              {!diff ? (
+                <Loader2 className="w-4 h-4 animate-spin text-text-secondary" />
+              ) : diff.changes.length === 0 ? (
+                <p className="text-sm text-text-secondary">Identical to the current file.</p>
+              ) : (
+                <div className="space-y-2">
+                  {diff.changes.map(change => (
+                    <div key={change.path} className="p-2.5 rounded-lg bg-bg-secondary/50 text-xs space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge
+                          variant={change.type === 'added' ? 'success' : change.type === 'removed' ? 'error' : 'warning'}
+                          className="text-xs"
+                        >
+                          {change.type}
+                        </Badge>
+                        <code className="text-text-primary break-all">{change.path}</code>
+                      </div>
+                      {change.type !== 'added' && <DiffValue value={change.from} className="text-error line-through" />}
+                      {change.type !== 'removed' && <DiffValue value={change.to} className="text-success" />}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {selectedVersion !== null && (
+          <div className="p-5 border-t border-border-primary space-y-3">
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note for this restore (optional)"
+            />
+            <Button onClick={restoreSelected} disabled={isRestoring} className="w-full">
+              {isRestoring ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+              Restore v{selectedVersion}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const DiffValue: React.FC<{ value?: PromptJsonValue; className?: string }> = ({ value, className }) => (
+  <pre className={cn('whitespace-pre-wrap break-words font-mono', className)}>
+    {typeof value === 'string' ? value : JSON.stringify(value, null, 2)}
+  </pre>
+)
+
+export default PromptHistoryDrawer
@@ -2,6 +2,7 @@
 export { AssetDetailsCard } from './AssetDetailsCard'
 export { PipelineOptionsCard } from './PipelineOptionsCard'
 export { AdvancedPromptsCard } from './AdvancedPromptsCard'
+export { PromptHistoryDrawer } from './PromptHistoryDrawer'
 export { MaterialVariantsCard } from './MaterialVariantsCard'
 export { AvatarRiggingOptionsCard } from './AvatarRiggingOptionsCard'
 export { GenerationTypeSelector } from './GenerationTypeSelector'
@@ -11,6 +12,7 @@ export { TabNavigation } from './TabNavigation'
 
 // Progress components
 export { PipelineProgressCard } from './PipelineProgressCard'
+export { ConceptArtCandidatesPanel } from './ConceptArtCandidatesPanel'
 
 // Results components
 export { GeneratedAssetsList } from './GeneratedAssetsList'
@@ -0,0 +1,46 @@
+import type { AssetSortField } from '@/services/api/AssetService'
+
+// Sort options for the asset library
+export const ASSET_SORT_OPTIONS: { value: AssetSortField, label: string }[] = [
+  { value: 'generatedAt', label: 'Date Generated' },
+  { value: 'name', label: 'Name' },
+  { value: 'type', label: 'Type' },
+  { value: 'tier', label: 'Tier' },
+]
+
+// Asset list paging
+export const ASSET_PAGE_SIZE = 50
+export const ASSET_SEARCH_DEBOUNCE_MS = 300
+// Distance from the bottom of the list at which the next page is requested
+export const ASSET_LIST_LOAD_MORE_THRESHOLD_PX = 300
+
+// Labels for the operations recorded in asset revision history
+export const ASSET_REVISION_OPERATION_LABELS: Record<string, string> = {
+  'initial': 'Initial snapshot',
+  'external-change': 'Changed outside the tools',
+  'generate': 'Generated',
+  'retexture': 'Retextured',
+  'add-variants': 'Variants added',
+  'rig': 'Rigged',
+  'rig-failed': 'Rigging failed',
+  'normalize': 'Normalized',
+  'update-metadata': 'Metadata edited',
+  'rename': 'Renamed',
+  'remove-variant': 'Variant deleted',
+  'migrate': 'Schema migrated',
+  'import': 'Imported',
+  'restore': 'Restored',
+}
+
+// Files accepted by the model import dialog: the model itself plus its buffers, materials and textures
+export const MODEL_IMPORT_ACCEPT = '.glb,.gltf,.bin,.obj,.mtl,.png,.jpg,.jpeg,.webp'
+
+// Asset types offered when importing a model
+export const MODEL_IMPORT_TYPES = ['weapon', 'armor', 'tool', 'resource', 'ammunition', 'character', 'building', 'prop', 'misc']
+
+// Item catalog downloads offered in the asset list
+export const ITEM_CATALOG_FORMATS = [
+  { format: 'json', label: 'JSON' },
+  { format: 'ts', label: 'TypeScript' },
+  { format: 'cs', label: 'C#' }
+] as const
@@ -1,4 +1,6 @@
-import { Sword, Shield, HardHat, Box, Shirt, LucideIcon } from 'lucide-react'
+import { Sword, Shield, HardHat, Box, Shirt, Ruler, Eye, LucideIcon } from 'lucide-react'
+
+import type { GripDetectionMethod } from '../types'
 
 export interface EquipmentSlot {
   id: string
@@ -16,6 +18,12 @@ export const EQUIPMENT_SLOTS: EquipmentSlot[] = [
   { id: 'Hips', name: 'Legs', icon: Box, bone: 'Hips', description: 'Leg armor and pants' },
 ] as const
 
+// Grip detectors on the Equipment page
+export const GRIP_DETECTION_METHODS: { id: GripDetectionMethod; name: string; icon: LucideIcon; description: string }[] = [
+  { id: 'geometry', name: 'Geometry', icon: Ruler, description: 'Mesh cross-sections, works offline' },
+  { id: 'vision', name: 'AI Vision', icon: Eye, description: 'Rendered views sent to the vision model' },
+]
+
 // Equipment types
 export const EQUIPMENT_TYPES = {
   weapon: 'weapon',
@@ -0,0 +1,30 @@
+// Backend pipeline stage behind each retryable UI stage
+export const RETRYABLE_PIPELINE_STAGES: Record<string, string> = {
+  'gpt4-enhancement': 'promptOptimization',
+  'image-generation': 'imageGeneration',
+  'image-to-3d': 'image3D',
+  'retexturing': 'textureGeneration',
+  'rigging': 'rigging'
+} as const
+
+// Quality tiers of the generation pipeline, lowest first
+export const GENERATION_QUALITIES = ['standard', 'high', 'ultra'] as const
+
+// Concept art candidates per round offered in review mode (the server allows up to 6)
+export const CONCEPT_ART_CANDIDATE_COUNTS = [2, 3, 4, 6] as const
+export const DEFAULT_CONCEPT_ART_CANDIDATES = 3
+
+// Pause after the last config edit before the prompt preview is refreshed
+export const PROMPT_PREVIEW_DEBOUNCE_MS = 500
+
+// Prompt files whose version history can be browsed in the Prompt Studio
+export const PROMPT_HISTORY_FILES = [
+  { type: 'game-styles', label: 'Game Styles' },
+  { type: 'asset-types', label: 'Asset Types' },
+  { type: 'materials', label: 'Material Prompts' },
+  { type: 'material-presets', label: 'Material Presets' },
+  { type: 'generation', label: 'Generation Prompts' },
+  { type: 'gpt4-enhancement', label: 'GPT-4 Enhancement' },
+  { type: 'weapon-detection', label: 'Weapon Detection' },
+  { type: 'llm-backends', label: 'LLM Backends' }
+] as const
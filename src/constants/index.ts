@@ -20,4 +20,10 @@ export * from './materials'
 export * from './hand-rigging'
 
 // Navigation constants
-export * from './navigation' 
\ No newline at end of file
+export * from './navigation'
+
+// Generation pipeline constants
+export * from './generation'
+
+// Asset library constants
+export * from './assets'
@@ -1,10 +1,11 @@
 export { useApi } from './useApi'
 export { useArmorFitting } from './useArmorFitting'
-export { useAssets } from './useAssets'
+export { useAssets, usePagedAssets } from './useAssets'
 export { useNavigation } from './useNavigation'
 export { useThreeScene } from './useThreeScene'
 export { usePipelineStatus } from './usePipelineStatus'
 export { useMaterialPresets } from './useMaterialPresets'
 export { useAssetActions } from './useAssetActions'
 export { useGameStylePrompts, useAssetTypePrompts, useMaterialPromptTemplates } from './usePrompts'
-export { useArmorExport } from './useArmorExport' 
\ No newline at end of file
+export { useArmorExport } from './useArmorExport' 
+export { usePromptPreview } from './usePromptPreview'
@@ -2,9 +2,10 @@ import { useCallback, RefObject } from 'react'
 
 import { API_ENDPOINTS } from '../constants'
 import { useAssetsStore } from '../store'
-import { Asset } from '../types'
+import { AppError, Asset } from '../types'
 
 import { ThreeViewerRef } from '@/components/shared/ThreeViewer'
+import { AssetService } from '@/services/api/AssetService'
 import { apiFetch } from '@/utils/api'
 
 
@@ -21,7 +22,8 @@ export function useAssetActions({ viewerRef, reloadAssets, forceReload, assets }
     setSelectedAsset,
     setShowEditModal,
     setIsTransitioning,
-    clearSelection
+    clearSelection,
+    bumpModelVersion
   } = useAssetsStore()
 
   const handleViewerReset = useCallback(() => {
@@ -61,10 +63,10 @@ export function useAssetActions({ viewerRef, reloadAssets, forceReload, assets }
       // If deleting a variant and we had cleared the selection, select the base model
       if (!includeVariants && !selectedAsset && asset.metadata.isVariant) {
         const variantMetadata = asset.metadata as import('../types').VariantAssetMetadata
-        const baseAsset = assets.find(a => a.id === variantMetadata.parentBaseModel)
-        if (baseAsset) {
-          setSelectedAsset(baseAsset)
-        }
+        // The base model may be on a page that hasn't been loaded yet
+        const baseAsset = assets.find(a => a.id === variantMetadata.parentBaseModel) ??
+          await AssetService.getAsset(variantMetadata.parentBaseModel)
+        setSelectedAsset(baseAsset)
       }
 
     } catch (error) {
@@ -98,7 +100,13 @@ export function useAssetActions({ viewerRef, reloadAssets, forceReload, assets }
       })
 
       if (!response.ok) {
-        throw new Error('Failed to update asset')
+        const body: { error?: string, errors?: { field: string, message: string }[] } = await response.json()
+        // Field-level errors from schema validation, keyed by field path
+        const error: AppError = Object.assign(new Error(body.error || 'Failed to update asset'), {
+          statusCode: response.status,
+          details: body.errors ? Object.fromEntries(body.errors.map(({ field, message }) => [field, message])) : null
+        })
+        throw error
       }
 
       // Get the updated asset from the response
@@ -128,10 +136,21 @@ export function useAssetActions({ viewerRef, reloadAssets, forceReload, assets }
     }
   }, [setIsTransitioning, setSelectedAsset, setShowEditModal, reloadAssets])
 
+  const handleRestoreRevision = useCallback(async (asset: Asset, revision: number) => {
+    const { asset: restoredAsset } = await AssetService.restoreRevision(asset.id, revision)
+
+    // The restored files keep their URLs, so make the viewer refetch the model
+    setSelectedAsset(restoredAsset)
+    bumpModelVersion()
+
+    await reloadAssets()
+  }, [setSelectedAsset, bumpModelVersion, reloadAssets])
+
   return {
     handleViewerReset,
     handleDownload,
     handleDeleteAsset,
-    handleSaveAsset
+    handleSaveAsset,
+    handleRestoreRevision
   }
 } 
\ No newline at end of file
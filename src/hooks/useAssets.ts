@@ -3,9 +3,12 @@
  * Clean, reusable hooks for asset operations
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useShallow } from 'zustand/react/shallow'
 
+import { ASSET_PAGE_SIZE, ASSET_SEARCH_DEBOUNCE_MS } from '../constants'
 import { useApp } from '../contexts/AppContext'
+import { useAssetsStore } from '../store'
 
 import { AssetService, Asset, MaterialPreset, RetextureRequest, RetextureResponse } from '@/services/api/AssetService'
 
@@ -47,6 +50,95 @@ export const useAssets = () => {
   }
 }
 
+/**
+ * Pages through the asset library using the filters and sort order in the assets store.
+ * The first page is refetched (debounced) whenever a filter changes.
+ */
+export const usePagedAssets = () => {
+  const query = useAssetsStore(useShallow(state => state.getAssetQuery()))
+  const [assets, setAssets] = useState<Asset[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [total, setTotal] = useState(0)
+  const [unfilteredTotal, setUnfilteredTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const { showNotification } = useApp()
+
+  // Bumped for every first-page request so late pages of an older query are dropped
+  const queryVersionRef = useRef(0)
+
+  const fetchFirstPage = useCallback(async (signal?: AbortSignal) => {
+    const version = ++queryVersionRef.current
+    try {
+      const page = await AssetService.queryAssets({ ...query, limit: ASSET_PAGE_SIZE }, signal)
+      if (version !== queryVersionRef.current) return
+      setAssets(page.assets)
+      setNextCursor(page.nextCursor)
+      setTotal(page.total)
+      setUnfilteredTotal(page.unfilteredTotal)
+    } catch (_err) {
+      if (signal?.aborted) return
+      showNotification(
+        _err instanceof Error ? _err.message : 'Failed to load assets',
+        'error'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [query, showNotification])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const timer = setTimeout(() => fetchFirstPage(controller.signal), ASSET_SEARCH_DEBOUNCE_MS)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [fetchFirstPage])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return
+
+    const version = queryVersionRef.current
+    setLoadingMore(true)
+    try {
+      const page = await AssetService.queryAssets({ ...query, limit: ASSET_PAGE_SIZE, cursor: nextCursor })
+      if (version !== queryVersionRef.current) return
+      setAssets(previous => [...previous, ...page.assets])
+      setNextCursor(page.nextCursor)
+      setTotal(page.total)
+      setUnfilteredTotal(page.unfilteredTotal)
+    } catch (_err) {
+      showNotification(
+        _err instanceof Error ? _err.message : 'Failed to load more assets',
+        'error'
+      )
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [query, nextCursor, loadingMore, showNotification])
+
+  const reloadAssets = useCallback(() => fetchFirstPage(), [fetchFirstPage])
+
+  const forceReload = useCallback(async () => {
+    // Clear assets first to ensure UI updates
+    setAssets([])
+    await fetchFirstPage()
+  }, [fetchFirstPage])
+
+  return {
+    assets,
+    total,
+    unfilteredTotal,
+    loading,
+    loadingMore,
+    hasMore: nextCursor !== null,
+    loadMore,
+    reloadAssets,
+    forceReload
+  }
+}
+
 export const useMaterialPresets = () => {
   const [presets, setPresets] = useState<MaterialPreset[]>([])
   const [loading, setLoading] = useState(true)
@@ -1,9 +1,9 @@
-import { useEffect, useRef } from 'react'
+import { useEffect } from 'react'
 
-import { useGenerationStore } from '../store'
+import { PipelineStage, useGenerationStore } from '../store'
 import { GeneratedAsset, AssetType, BaseAssetMetadata, GenerationAssetMetadata } from '../types'
 
-import { GenerationAPIClient } from '@/services/api/GenerationAPIClient'
+import { GenerationAPIClient, PipelineResult } from '@/services/api/GenerationAPIClient'
 
 interface UsePipelineStatusOptions {
   apiClient: GenerationAPIClient
@@ -11,8 +11,6 @@ interface UsePipelineStatusOptions {
 }
 
 export function usePipelineStatus({ apiClient, onComplete }: UsePipelineStatusOptions) {
-  const intervalRef = useRef<ReturnType<typeof setTimeout> | null>(null)
-  
   const {
     currentPipelineId,
     useGPT4Enhancement,
@@ -27,12 +25,12 @@ export function usePipelineStatus({ apiClient, onComplete }: UsePipelineStatusOp
     updatePipelineStage,
     setGeneratedAssets,
     setSelectedAsset,
-    setActiveView
+    setActiveView,
+    setConceptArtReview
   } = useGenerationStore()
 
   useEffect(() => {
     const DEBUG = (import.meta as any).env?.VITE_DEBUG_PIPELINE === 'true'
-    const POLL_MS = parseInt((import.meta as any).env?.VITE_PIPELINE_POLL_INTERVAL_MS || '1500', 10)
     if (DEBUG) console.log('Pipeline status effect triggered. currentPipelineId:', currentPipelineId)
     if (!currentPipelineId) return
     
@@ -47,126 +45,119 @@ export function usePipelineStatus({ apiClient, onComplete }: UsePipelineStatusOp
       'rigging': 'rigging'
     }
     
-    intervalRef.current = setInterval(async () => {
-      try {
-        if (DEBUG) console.log('Fetching pipeline status for:', currentPipelineId)
-        const status = await apiClient.fetchPipelineStatus(currentPipelineId)
-        if (DEBUG) console.log('Received status:', status)
-        
-        if (status) {
-          // Update pipeline stages
-          Object.entries(status.stages || {}).forEach(([stageName, stageData]) => {
-            if (DEBUG) console.log('Processing stage:', stageName, stageData)
-            const uiStageId = stageMapping[stageName]
-            if (uiStageId) {
-              let uiStatus = stageData.status === 'processing' ? 'active' : stageData.status
-              
-              // Check configuration overrides
-              if (uiStageId === 'gpt4-enhancement' && !useGPT4Enhancement) uiStatus = 'skipped'
-              if (uiStageId === 'retexturing' && !enableRetexturing) uiStatus = 'skipped'
-              if (uiStageId === 'sprites' && !enableSprites) uiStatus = 'skipped'
-              
-              // Use updatePipelineStage to update individual stage
-              updatePipelineStage(uiStageId, uiStatus)
-            }
-          })
+    // Updates are pushed by the API client, which streams or polls as available
+    const handleUpdate = (status: PipelineResult) => {
+      if (status.id !== currentPipelineId) return
+      if (DEBUG) console.log('Received status:', status)
+      
+      // Update pipeline stages
+      Object.entries(status.stages || {}).forEach(([stageName, stageData]) => {
+        if (DEBUG) console.log('Processing stage:', stageName, stageData)
+        const uiStageId = stageMapping[stageName]
+        if (uiStageId) {
+          let uiStatus: PipelineStage['status'] = stageData.status === 'processing'
+            ? 'active'
+            : stageData.status === 'pending' ? 'idle' : stageData.status
           
-          // Handle completion
-          if (status.status === 'completed') {
-            setIsGenerating(false)
-            const results = status.results
-            const config = status.config
-            const baseAssetId = config.assetId || assetName.toLowerCase().replace(/\s+/g, '-')
-            
-            // Debug logging
-            if (DEBUG) {
-              console.log('Pipeline completed with results:', results)
-              console.log('Rigging results:', results.rigging)
-            }
-            
-            const finalAsset: GeneratedAsset = {
-              id: baseAssetId,
-              name: config.name || assetName,
-              description: config.description || `${config.type || assetType} asset`,
-              type: config.type || assetType,
-              pipelineId: currentPipelineId,
-              status: 'completed',
-              modelUrl: (results.image3D?.localPath || results.rigging?.localPath) ? `/api/assets/${baseAssetId}/model` : undefined,
-              conceptArtUrl: `/api/assets/${baseAssetId}/concept-art.png`,
-              variants: results.textureGeneration?.variants || [],
-              hasSpriteMetadata: results.spriteGeneration?.status === 'metadata_created' || 
-                                 Boolean(config.enableSprites && results.image3D?.localPath),
-              hasSprites: false,
-              sprites: null,
-              hasModel: !!(results.image3D?.localPath || results.rigging?.localPath),
-              modelFile: results.rigging?.localPath || results.image3D?.localPath,
-              createdAt: new Date().toISOString(),
-              generatedAt: new Date().toISOString(),
-              metadata: {
-                id: baseAssetId,
-                gameId: baseAssetId,
-                name: config.name,
-                description: config.description,
-                type: config.type as AssetType,
-                subtype: config.subtype || '',
-                isBaseModel: true,
-                meshyTaskId: '', // Not available from pipeline results
-                generationMethod: 'gpt-image-meshy' as const,
-                variants: [],
-                variantCount: 0,
-                modelPath: results.rigging?.localPath || results.image3D?.localPath || '',
-                hasModel: !!(results.image3D?.localPath || results.rigging?.localPath),
-                hasConceptArt: true,
-                workflow: 'ai-generation',
-                gddCompliant: true,
-                isPlaceholder: false,
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-                generatedAt: new Date().toISOString(),
-                // Extended properties
-                isRigged: !!results.rigging && !!results.rigging?.localPath,
-                animations: results.rigging?.localPath ? {} : undefined,
-                riggedModelPath: results.rigging?.localPath,
-                characterHeight: generationType === 'avatar' ? characterHeight : undefined
-              } as BaseAssetMetadata & GenerationAssetMetadata
-            }
-            
-            // Only add if not already exists
-            const exists = generatedAssets.some(asset => asset.id === baseAssetId)
-            if (!exists) {
-              setGeneratedAssets([...generatedAssets, finalAsset])
-            }
-            setSelectedAsset(finalAsset)
-            setActiveView('results')
-            
-            // Call onComplete callback if provided
-            if (onComplete) {
-              onComplete(finalAsset)
-            }
-            
-            // Clear the interval
-            if (intervalRef.current) {
-              clearInterval(intervalRef.current)
-              intervalRef.current = null
-            }
-          } else if (status.status === 'failed') {
-            setIsGenerating(false)
-            if (intervalRef.current) {
-              clearInterval(intervalRef.current)
-              intervalRef.current = null
-            }
-          }
+          // Check configuration overrides
+          if (uiStageId === 'gpt4-enhancement' && !useGPT4Enhancement) uiStatus = 'skipped'
+          if (uiStageId === 'retexturing' && !enableRetexturing) uiStatus = 'skipped'
+          if (uiStageId === 'sprites' && !enableSprites) uiStatus = 'skipped'
+          
+          // Use updatePipelineStage to update individual stage
+          updatePipelineStage(uiStageId, uiStatus)
+        }
+      })
+      
+      setConceptArtReview(status.status === 'awaiting-selection' ? status.stages.imageGeneration || null : null)
+      
+      // Handle completion
+      if (status.status === 'completed') {
+        setIsGenerating(false)
+        const results = status.results
+        const config = status.config
+        const baseAssetId = config.assetId || assetName.toLowerCase().replace(/\s+/g, '-')
+        
+        // Debug logging
+        if (DEBUG) {
+          console.log('Pipeline completed with results:', results)
+          console.log('Rigging results:', results.rigging)
+        }
+        
+        const finalAsset: GeneratedAsset = {
+          id: baseAssetId,
+          name: config.name || assetName,
+          description: config.description || `${config.type || assetType} asset`,
+          type: config.type || assetType,
+          pipelineId: currentPipelineId,
+          status: 'completed',
+          modelUrl: (results.image3D?.localPath || results.rigging?.localPath) ? `/api/assets/${baseAssetId}/model` : undefined,
+          conceptArtUrl: `/api/assets/${baseAssetId}/concept-art.png`,
+          variants: results.textureGeneration?.variants || [],
+          hasSpriteMetadata: results.spriteGeneration?.status === 'metadata_created' || 
+                             Boolean(config.enableSprites && results.image3D?.localPath),
+          hasSprites: false,
+          sprites: null,
+          hasModel: !!(results.image3D?.localPath || results.rigging?.localPath),
+          modelFile: results.rigging?.localPath || results.image3D?.localPath,
+          createdAt: new Date().toISOString(),
+          generatedAt: new Date().toISOString(),
+          metadata: {
+            id: baseAssetId,
+            gameId: baseAssetId,
+            name: config.name,
+            description: config.description,
+            type: config.type as AssetType,
+            subtype: config.subtype || '',
+            isBaseModel: true,
+            meshyTaskId: '', // Not available from pipeline results
+            generationMethod: 'gpt-image-meshy' as const,
+            variants: [],
+            variantCount: 0,
+            modelPath: results.rigging?.localPath || results.image3D?.localPath || '',
+            hasModel: !!(results.image3D?.localPath || results.rigging?.localPath),
+            hasConceptArt: true,
+            workflow: 'ai-generation',
+            gddCompliant: true,
+            isPlaceholder: false,
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+            generatedAt: new Date().toISOString(),
+            // Extended properties
+            isRigged: !!results.rigging && !!results.rigging?.localPath,
+            animations: results.rigging?.localPath ? {} : undefined,
+            riggedModelPath: results.rigging?.localPath,
+            characterHeight: generationType === 'avatar' ? characterHeight : undefined,
+            conceptArtCandidates: status.stages.imageGeneration?.candidates?.map(candidate => ({
+              file: `concept-art-candidates/${candidate.file}`,
+              round: candidate.round,
+              imagePrompt: candidate.imagePrompt,
+              selected: candidate.id === status.stages.imageGeneration?.selectedCandidate
+            }))
+          } as BaseAssetMetadata & GenerationAssetMetadata
         }
-      } catch (error) {
-        if (DEBUG) console.error('Failed to get pipeline status:', error)
+        
+        // Only add if not already exists
+        const exists = generatedAssets.some(asset => asset.id === baseAssetId)
+        if (!exists) {
+          setGeneratedAssets([...generatedAssets, finalAsset])
+        }
+        setSelectedAsset(finalAsset)
+        setActiveView('results')
+        
+        // Call onComplete callback if provided
+        if (onComplete) {
+          onComplete(finalAsset)
+        }
+      } else if (status.status === 'failed' || status.status === 'cancelled') {
+        setIsGenerating(false)
       }
-    }, POLL_MS)
+    }
+    
+    apiClient.on('update', handleUpdate)
     
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-        intervalRef.current = null
-      }
+      apiClient.off('update', handleUpdate)
     }
   }, [
     currentPipelineId,
@@ -184,8 +175,7 @@ export function usePipelineStatus({ apiClient, onComplete }: UsePipelineStatusOp
     setGeneratedAssets,
     setSelectedAsset,
     setActiveView,
+    setConceptArtReview,
     onComplete
   ])
-  
-  return { intervalRef }
 } 
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react'
+
+import { PROMPT_PREVIEW_DEBOUNCE_MS } from '../constants'
+import { GenerationConfig, GenerationPreview } from '../types'
+
+import { GenerationAPIClient } from '@/services/api/GenerationAPIClient'
+
+interface UsePromptPreviewOptions {
+  apiClient: GenerationAPIClient
+  config: GenerationConfig
+  enabled: boolean
+}
+
+/**
+ * Live dry run of a generation config: refreshed shortly after the config stops changing,
+ * dropping responses for configs that have since been edited
+ */
+export function usePromptPreview({ apiClient, config, enabled }: UsePromptPreviewOptions) {
+  const [preview, setPreview] = useState<GenerationPreview | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!enabled || !config.description.trim()) {
+      setPreview(null)
+      setError(null)
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      try {
+        setLoading(true)
+        setPreview(await apiClient.previewPrompts(config, controller.signal))
+        setError(null)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.error('Failed to preview prompts:', err)
+        setError((err as Error).message)
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }, PROMPT_PREVIEW_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [apiClient, config, enabled])
+
+  return { preview, loading, error }
+}
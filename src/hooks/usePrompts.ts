@@ -15,41 +15,42 @@ export function useGameStylePrompts() {
 
   const { customGamePrompt: _customGamePrompt, setCustomGamePrompt: _setCustomGamePrompt } = useGenerationStore()
 
-  useEffect(() => {
-    const loadPrompts = async () => {
-      try {
-        setLoading(true)
-        const data = await PromptService.getGameStylePrompts()
-        setPrompts(data)
-        setError(null)
-      } catch (err) {
-        console.error('Failed to load game style prompts:', err)
-        setError('Failed to load game style prompts')
-        // Fallback to hardcoded defaults if loading fails
-        setPrompts({
-          version: '1.0.0',
-          default: {
-            runescape: {
-              name: 'RuneScape 2007',
-              base: 'Low-poly RuneScape 2007',
-              enhanced: 'low-poly RuneScape style',
-              generation: 'runescape2007'
-            },
-            generic: {
-              name: 'Generic Low-Poly',
-              base: 'low-poly 3D game asset style',
-              fallback: 'Low-poly game asset'
-            }
+  const reload = useCallback(async () => {
+    try {
+      setLoading(true)
+      const data = await PromptService.getGameStylePrompts()
+      setPrompts(data)
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load game style prompts:', err)
+      setError('Failed to load game style prompts')
+      // Fallback to hardcoded defaults if loading fails
+      setPrompts({
+        version: '1.0.0',
+        default: {
+          runescape: {
+            name: 'RuneScape 2007',
+            base: 'Low-poly RuneScape 2007',
+            enhanced: 'low-poly RuneScape style',
+            generation: 'runescape2007'
           },
-          custom: {}
-        })
-      } finally {
-        setLoading(false)
-      }
+          generic: {
+            name: 'Generic Low-Poly',
+            base: 'low-poly 3D game asset style',
+            fallback: 'Low-poly game asset'
+          }
+        },
+        custom: {}
+      })
+    } finally {
+      setLoading(false)
     }
-    loadPrompts()
   }, [])
 
+  useEffect(() => {
+    reload()
+  }, [reload])
+
   const saveCustomGameStyle = useCallback(async (styleId: string, style: { name: string; base: string; enhanced?: string }) => {
     try {
       const updatedPrompts = {
@@ -98,7 +99,8 @@ export function useGameStylePrompts() {
     error,
     saveCustomGameStyle,
     deleteCustomGameStyle,
-    getAllStyles
+    getAllStyles,
+    reload
   }
 }
 
@@ -112,35 +114,36 @@ export function useAssetTypePrompts() {
 
   const { assetTypePrompts, setAssetTypePrompts } = useGenerationStore()
 
-  useEffect(() => {
-    const loadPrompts = async () => {
-      try {
-        setLoading(true)
-        const data = await PromptService.getAssetTypePrompts()
-        setPrompts(data)
-        
-        // Update store with loaded prompts - combine both avatar and item types
-        const avatarMerged = PromptService.mergePrompts(data.avatar.default, data.avatar.custom)
-        const itemMerged = PromptService.mergePrompts(data.item.default, data.item.custom)
-        const allMerged = { ...avatarMerged, ...itemMerged }
-        
-        const promptsMap = Object.entries(allMerged).reduce((acc, [key, value]) => ({
-          ...acc,
-          [key]: value.prompt
-        }), {})
-        setAssetTypePrompts(promptsMap)
-        
-        setError(null)
-      } catch (err) {
-        console.error('Failed to load asset type prompts:', err)
-        setError('Failed to load asset type prompts')
-      } finally {
-        setLoading(false)
-      }
+  const reload = useCallback(async () => {
+    try {
+      setLoading(true)
+      const data = await PromptService.getAssetTypePrompts()
+      setPrompts(data)
+      
+      // Update store with loaded prompts - combine both avatar and item types
+      const avatarMerged = PromptService.mergePrompts(data.avatar.default, data.avatar.custom)
+      const itemMerged = PromptService.mergePrompts(data.item.default, data.item.custom)
+      const allMerged = { ...avatarMerged, ...itemMerged }
+      
+      const promptsMap = Object.entries(allMerged).reduce((acc, [key, value]) => ({
+        ...acc,
+        [key]: value.prompt
+      }), {})
+      setAssetTypePrompts(promptsMap)
+      
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load asset type prompts:', err)
+      setError('Failed to load asset type prompts')
+    } finally {
+      setLoading(false)
     }
-    loadPrompts()
   }, [setAssetTypePrompts])
 
+  useEffect(() => {
+    reload()
+  }, [reload])
+
   const saveCustomAssetType = useCallback(async (typeId: string, prompt: AssetTypePrompt, generationType: 'avatar' | 'item' = 'item') => {
     try {
       const updatedPrompts = {
@@ -215,7 +218,8 @@ export function useAssetTypePrompts() {
     saveCustomAssetType,
     deleteCustomAssetType,
     getAllTypes,
-    getTypesByGeneration
+    getTypesByGeneration,
+    reload
   }
 }
 
@@ -230,21 +234,22 @@ export function useMaterialPromptTemplates() {
   })
   const [loading, setLoading] = useState(true)
 
-  useEffect(() => {
-    const loadTemplates = async () => {
-      try {
-        setLoading(true)
-        const data = await PromptService.getMaterialPrompts()
-        setTemplates(data)
-      } catch (err) {
-        console.error('Failed to load material prompt templates:', err)
-      } finally {
-        setLoading(false)
-      }
+  const reload = useCallback(async () => {
+    try {
+    setLoading(true)
+    const data = await PromptService.getMaterialPrompts()
+    setTemplates(data)
+    } catch (err) {
+    console.error('Failed to load material prompt templates:', err)
+    } finally {
+    setLoading(false)
     }
-    loadTemplates()
   }, [])
 
+  useEffect(() => {
+    reload()
+  }, [reload])
+
   const saveCustomOverride = useCallback(async (materialId: string, override: string) => {
     try {
       const updated = {
@@ -266,6 +271,7 @@ export function useMaterialPromptTemplates() {
   return {
     templates,
     loading,
-    saveCustomOverride
+    saveCustomOverride,
+    reload
   }
 }
\ No newline at end of file
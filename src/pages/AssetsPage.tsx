@@ -3,12 +3,14 @@ import React, { useRef, useCallback } from 'react'
 
 import { API_ENDPOINTS } from '../constants'
 import { useAssetsStore } from '../store'
+import { isBaseAsset } from '../types'
 
 import AssetDetailsPanel from '@/components/Assets/AssetDetailsPanel'
 import { AssetEditModal } from '@/components/Assets/AssetEditModal'
 import AssetFilters from '@/components/Assets/AssetFilters'
 import AssetList from '@/components/Assets/AssetList'
 import { EmptyAssetState } from '@/components/Assets/EmptyAssetState'
+import ImportAssetModal from '@/components/Assets/ImportAssetModal'
 import { LoadingState } from '@/components/Assets/LoadingState'
 import RegenerateModal from '@/components/Assets/RegenerateModal'
 import RetextureModal from '@/components/Assets/RetextureModal'
@@ -17,12 +19,22 @@ import ViewerControls from '@/components/Assets/ViewerControls'
 import { AnimationPlayer } from '@/components/shared/AnimationPlayer'
 import ThreeViewer, { ThreeViewerRef } from '@/components/shared/ThreeViewer'
 import { useAssetActions } from '@/hooks'
-import { useAssets } from '@/hooks'
+import { usePagedAssets } from '@/hooks'
 
 
 
 export const AssetsPage: React.FC = () => {
-  const { assets, loading, reloadAssets, forceReload } = useAssets()
+  const {
+    assets,
+    total,
+    unfilteredTotal,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+    reloadAssets,
+    forceReload
+  } = usePagedAssets()
 
   // Get state and actions from store
   const {
@@ -34,32 +46,32 @@ export const AssetsPage: React.FC = () => {
     showRegenerateModal,
     showDetailsPanel,
     showEditModal,
+    showImportModal,
     isTransitioning,
     modelInfo,
     showAnimationView,
+    modelVersion,
     setShowRetextureModal,
     setShowRegenerateModal,
     setShowDetailsPanel,
     setShowEditModal,
+    setShowImportModal,
     setModelInfo,
+    handleAssetSelect,
     toggleDetailsPanel,
-    toggleAnimationView,
-    getFilteredAssets
+    toggleAnimationView
   } = useAssetsStore()
 
   const viewerRef = useRef<ThreeViewerRef>(null)
 
   // Use the asset actions hook
-  const { handleViewerReset, handleDownload, handleDeleteAsset, handleSaveAsset } = useAssetActions({
+  const { handleViewerReset, handleDownload, handleDeleteAsset, handleSaveAsset, handleRestoreRevision } = useAssetActions({
     viewerRef,
     reloadAssets,
     forceReload,
     assets
   })
 
-  // Filter assets based on current filters
-  const filteredAssets = getFilteredAssets(assets)
-
   const handleModelLoad = useCallback((info: { vertices: number, faces: number, materials: number, fileSize?: number }) => {
     setModelInfo(info)
   }, [setModelInfo])
@@ -75,13 +87,17 @@ export const AssetsPage: React.FC = () => {
         <div className="flex flex-col gap-3 w-72 min-w-[18rem] animate-slide-in-left">
           {/* Filters */}
           <AssetFilters
-            totalAssets={assets.length}
-            filteredCount={filteredAssets.length}
+            totalAssets={unfilteredTotal}
+            filteredCount={total}
           />
 
           {/* Asset List */}
           <AssetList
-            assets={filteredAssets}
+            assets={assets}
+            totalCount={total}
+            hasMore={hasMore}
+            isLoadingMore={loadingMore}
+            onLoadMore={loadMore}
           />
         </div>
 
@@ -95,7 +111,7 @@ export const AssetsPage: React.FC = () => {
                   <div className={`absolute inset-0 transition-opacity duration-200 ${showAnimationView && selectedAsset.type === 'character' ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
                     <ThreeViewer
                       ref={viewerRef}
-                      modelUrl={selectedAsset.hasModel ? `${API_ENDPOINTS.ASSET_MODEL(selectedAsset.id)}` : undefined}
+                      modelUrl={selectedAsset.hasModel ? `${API_ENDPOINTS.ASSET_MODEL(selectedAsset.id)}${modelVersion ? `?v=${modelVersion}` : ''}` : undefined}
                       isWireframe={isWireframe}
                       showGroundPlane={showGroundPlane}
                       isLightBackground={isLightBackground}
@@ -112,7 +128,7 @@ export const AssetsPage: React.FC = () => {
                   </div>
                   <div className={`absolute inset-0 transition-opacity duration-200 ${showAnimationView && selectedAsset.type === 'character' ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
                     <AnimationPlayer
-                      modelUrl={selectedAsset.hasModel ? `${API_ENDPOINTS.ASSET_MODEL(selectedAsset.id)}` : ''}
+                      modelUrl={selectedAsset.hasModel ? `${API_ENDPOINTS.ASSET_MODEL(selectedAsset.id)}${modelVersion ? `?v=${modelVersion}` : ''}` : ''}
                       animations={selectedAsset.metadata?.animations || { basic: {} }}
                       riggedModelPath={selectedAsset.metadata?.riggedModelPath ? `${API_ENDPOINTS.ASSET_FILE(selectedAsset.id, selectedAsset.metadata.riggedModelPath)}` : undefined}
                       characterHeight={selectedAsset.metadata?.characterHeight}
@@ -182,6 +198,7 @@ export const AssetsPage: React.FC = () => {
                   isOpen={showDetailsPanel}
                   onClose={() => setShowDetailsPanel(false)}
                   modelInfo={modelInfo}
+                  onRestoreRevision={handleRestoreRevision}
                 />
               </>
             ) : (
@@ -220,7 +237,18 @@ export const AssetsPage: React.FC = () => {
           onClose={() => setShowEditModal(false)}
           onSave={handleSaveAsset}
           onDelete={handleDeleteAsset}
-          hasVariants={assets.some(a => a.metadata.isVariant && a.metadata.parentBaseModel === selectedAsset.id)}
+          hasVariants={isBaseAsset(selectedAsset.metadata) && selectedAsset.metadata.variants.length > 0}
+        />
+      )}
+
+      {showImportModal && (
+        <ImportAssetModal
+          onClose={() => setShowImportModal(false)}
+          onComplete={(asset) => {
+            setShowImportModal(false)
+            reloadAssets()
+            handleAssetSelect(asset)
+          }}
         />
       )}
     </div>
@@ -1,6 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react'
+import * as THREE from 'three'
 
-import { Asset } from '../types'
+import { EQUIPMENT_SLOTS } from '../constants'
+import { Asset, EquipmentAttachmentConfig, EquipmentLoadout, GripDetectionMethod } from '../types'
+import { findAttachmentConfig, getRigProfile } from '../utils/equipmentAttachments'
 import { notify } from '../utils/notify'
 
 import {
@@ -11,10 +14,13 @@ import {
   OrientationControls,
   PositionControls,
   CreatureSizeControls,
-  ExportOptionsPanel
+  ExportOptionsPanel,
+  LoadoutPanel
 } from '@/components/Equipment'
-import { EquipmentViewerRef } from '@/components/Equipment/EquipmentViewer'
+import { EquipmentViewerRef, LoadoutItem } from '@/components/Equipment/EquipmentViewer'
 import { useAssets } from '@/hooks'
+import { AssetService } from '@/services/api/AssetService'
+import { GeometricGripDetector } from '@/services/processing/GeometricGripDetector'
 import { WeaponHandleDetector } from '@/services/processing/WeaponHandleDetector'
 import type { HandleDetectionResult } from '@/services/processing/WeaponHandleDetector'
 
@@ -22,14 +28,15 @@ import type { HandleDetectionResult } from '@/services/processing/WeaponHandleDe
 // Import all modular components
 
 export const EquipmentPage: React.FC = () => {
-  const { assets, loading } = useAssets()
+  const { assets, loading, reloadAssets } = useAssets()
   // Selected items
   const [selectedAvatar, setSelectedAvatar] = useState<Asset | null>(null)
   const [selectedEquipment, setSelectedEquipment] = useState<Asset | null>(null)
 
   // Equipment fitting states
   const [isDetectingHandle, setIsDetectingHandle] = useState(false)
-  const [handleDetectionResult, setHandleDetectionResult] = useState<HandleDetectionResult | null>(null)
+  const [gripDetectionMethod, setGripDetectionMethod] = useState<GripDetectionMethod>('geometry')
+  const [gripDetectionResults, setGripDetectionResults] = useState<Partial<Record<GripDetectionMethod, HandleDetectionResult>>>({})
   const [equipmentSlot, setEquipmentSlot] = useState('Hand_R')
   const [showSkeleton, setShowSkeleton] = useState(false)
 
@@ -45,16 +52,45 @@ export const EquipmentPage: React.FC = () => {
   // Manual position controls  
   const [manualPosition, setManualPosition] = useState({ x: 0, y: 0, z: 0 })
 
+  // Loadout: equipment worn in the other slots (slot → equipment asset ID)
+  const [loadoutItems, setLoadoutItems] = useState<Record<string, string>>({})
+
   // Animation controls
   const [currentAnimation, setCurrentAnimation] = useState<'tpose' | 'walking' | 'running'>('tpose')
   const [isAnimationPlaying, setIsAnimationPlaying] = useState(false)
 
   const viewerRef = useRef<EquipmentViewerRef>(null)
   const handleDetector = useRef<WeaponHandleDetector | null>(null)
+  const geometricDetector = useRef<GeometricGripDetector | null>(null)
+
+  // The selected method's result drives the viewport; the other one is kept for comparison
+  const handleDetectionResult = gripDetectionResults[gripDetectionMethod] ?? null
+
+  // The equipment being fitted occupies its slot; the loadout fills the rest
+  const wornItems = selectedEquipment ? { ...loadoutItems, [equipmentSlot]: selectedEquipment.id } : loadoutItems
+  const viewerLoadoutItems: LoadoutItem[] = []
+  for (const [slot, equipmentId] of Object.entries(loadoutItems)) {
+    const equipment = assets.find(asset => asset.id === equipmentId)
+    if (!selectedAvatar || !equipment?.hasModel || (selectedEquipment && slot === equipmentSlot)) continue
+
+    const config = findAttachmentConfig(equipment, selectedAvatar, assets)
+    viewerLoadoutItems.push({
+      slot,
+      url: `/api/assets/${equipment.id}/model`,
+      weaponType: equipment.type === 'armor' ? 'armor' : equipment.metadata?.subtype || equipment.type,
+      avatarHeight: config?.avatarHeight ?? avatarHeight,
+      autoScale: config?.autoScale ?? true,
+      scaleOverride: config?.scaleOverride ?? 1.0,
+      gripOffset: config?.gripDetection?.gripPoint,
+      orientationOffset: config?.rotationOffset ?? { x: 0, y: 0, z: 0 },
+      positionOffset: config?.positionOffset ?? { x: 0, y: 0, z: 0 }
+    })
+  }
 
-  // Initialize handle detector
+  // Initialize handle detectors
   useEffect(() => {
     handleDetector.current = new WeaponHandleDetector()
+    geometricDetector.current = new GeometricGripDetector()
 
     return () => {
       // Cleanup on unmount
@@ -62,27 +98,35 @@ export const EquipmentPage: React.FC = () => {
         handleDetector.current.dispose()
         handleDetector.current = null
       }
+      geometricDetector.current = null
     }
   }, [])
 
   const handleDetectGripPoint = async () => {
-    if (!selectedEquipment || !selectedEquipment.hasModel || !handleDetector.current) return
+    if (!selectedEquipment || !selectedEquipment.hasModel || !handleDetector.current || !geometricDetector.current) return
 
     setIsDetectingHandle(true)
 
     try {
       const modelUrl = `/api/assets/${selectedEquipment.id}/model`
-      const result = await handleDetector.current.detectHandleArea(modelUrl, true) // Always use consensus mode
-      setHandleDetectionResult(result)
+      const result = gripDetectionMethod === 'geometry'
+        ? await geometricDetector.current.detectHandleArea(modelUrl) // Mesh only, no API key needed
+        : await handleDetector.current.detectHandleArea(modelUrl, true) // Always use consensus mode
+      setGripDetectionResults(prev => ({ ...prev, [gripDetectionMethod]: result }))
 
       // Log the result for analysis
-      console.log('Grip detection result:', {
+      console.log(`Grip detection result (${gripDetectionMethod}):`, {
         gripPoint: result.gripPoint,
         confidence: result.confidence,
         bounds: result.redBoxBounds,
         vertexCount: result.vertices?.length || 0
       })
 
+      // Raw vision answers, for the grip evaluation dataset (scripts/evaluate-grip-detection.ts)
+      if (gripDetectionMethod === 'vision' && handleDetector.current.lastVisionRecording) {
+        console.log(`Vision recording for ${selectedEquipment.id}.glb:`, JSON.stringify(handleDetector.current.lastVisionRecording))
+      }
+
       // With normalized weapons, grip should already be at origin
       if (result.gripPoint.length() > 0.1) {
         console.warn('Weapon may not be normalized - grip not at origin')
@@ -101,22 +145,145 @@ export const EquipmentPage: React.FC = () => {
     }
   }
 
-  const handleSaveConfiguration = () => {
+  const handleSaveConfiguration = async () => {
     if (!selectedEquipment || !selectedAvatar) return
 
-    const config = {
-      equipmentId: selectedEquipment.id,
-      avatarId: selectedAvatar.id,
-      slot: equipmentSlot,
-      attachmentBone: equipmentSlot,
-      avatarHeight,
-      autoScale: autoScaleWeapon,
-      scaleOverride: weaponScaleOverride,
-      handleDetectionResult
+    const rigProfile = getRigProfile(selectedAvatar)
+    try {
+      const savedEquipment = await AssetService.saveAttachmentConfig(selectedEquipment.id, {
+        rigProfile,
+        config: {
+          slot: equipmentSlot,
+          bone: EQUIPMENT_SLOTS.find(slot => slot.id === equipmentSlot)?.bone || equipmentSlot,
+          positionOffset: manualPosition,
+          rotationOffset: manualRotation,
+          scaleOverride: weaponScaleOverride,
+          autoScale: autoScaleWeapon,
+          avatarHeight,
+          creatureCategory,
+          gripDetection: handleDetectionResult ? {
+            method: handleDetectionResult.method || 'vision',
+            gripPoint: {
+              x: handleDetectionResult.gripPoint.x,
+              y: handleDetectionResult.gripPoint.y,
+              z: handleDetectionResult.gripPoint.z
+            },
+            confidence: handleDetectionResult.confidence,
+            orientationFlipped: !!handleDetectionResult.orientationFlipped
+          } : null,
+          avatarId: selectedAvatar.id
+        }
+      })
+
+      setSelectedEquipment(savedEquipment)
+      reloadAssets()
+      notify.success(`Attachment saved for ${selectedAvatar.name} and other ${rigProfile} rigs`)
+    } catch (error) {
+      console.error('Failed to save attachment configuration:', error)
+      notify.error(`Failed to save configuration: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // Put back a saved attachment: slot, offsets, scaling and the grip it was fitted with
+  const applyAttachmentConfig = (config: EquipmentAttachmentConfig) => {
+    setEquipmentSlot(config.slot)
+    setManualPosition(config.positionOffset)
+    setManualRotation(config.rotationOffset)
+    setWeaponScaleOverride(config.scaleOverride)
+    setAutoScaleWeapon(config.autoScale)
+    setAvatarHeight(config.avatarHeight)
+    if (config.creatureCategory) {
+      setCreatureCategory(config.creatureCategory)
+    }
+
+    const detection = config.gripDetection
+    if (detection) {
+      setGripDetectionMethod(detection.method)
+      setGripDetectionResults({
+        [detection.method]: {
+          gripPoint: new THREE.Vector3(detection.gripPoint.x, detection.gripPoint.y, detection.gripPoint.z),
+          vertices: [],
+          confidence: detection.confidence,
+          annotatedImage: '',
+          orientationFlipped: detection.orientationFlipped,
+          method: detection.method
+        }
+      })
     }
+  }
 
-    // TODO: Save to equipment metadata
-    console.log('Saving attachment configuration:', config)
+  const restoreAttachment = (equipment: Asset | null, avatar: Asset | null) => {
+    if (!equipment || !avatar) return
+    const config = findAttachmentConfig(equipment, avatar, assets)
+    if (config) {
+      applyAttachmentConfig(config)
+      notify.info(`Restored the attachment saved ${config.avatarId === avatar.id ? 'for this avatar' : `for ${getRigProfile(avatar)} rigs`}`)
+    }
+  }
+
+  // Manual adjustments and grip detections belong to one piece of equipment
+  const handleSelectEquipment = (equipment: Asset) => {
+    setSelectedEquipment(equipment)
+    setManualPosition({ x: 0, y: 0, z: 0 })
+    setManualRotation({ x: 0, y: 0, z: 0 })
+    setGripDetectionResults({})
+    restoreAttachment(equipment, selectedAvatar)
+  }
+
+  const handleSelectAvatar = (avatar: Asset) => {
+    setSelectedAvatar(avatar)
+    restoreAttachment(selectedEquipment, avatar)
+  }
+
+  const handleLoadoutItemChange = (slot: string, equipmentId: string | null) => {
+    setLoadoutItems(prev => {
+      const { [slot]: _removed, ...rest } = prev
+      return equipmentId ? { ...rest, [slot]: equipmentId } : rest
+    })
+  }
+
+  const handleSaveLoadout = async (name: string) => {
+    if (!selectedAvatar) return
+
+    try {
+      const savedAvatar = await AssetService.saveLoadout(selectedAvatar.id, name, wornItems)
+      setSelectedAvatar(savedAvatar)
+      reloadAssets()
+      notify.success(`Loadout "${name}" saved for ${selectedAvatar.name}`)
+    } catch (error) {
+      console.error('Failed to save loadout:', error)
+      notify.error(`Failed to save loadout: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleApplyLoadout = (loadout: EquipmentLoadout) => {
+    setLoadoutItems(loadout.items)
+
+    // Swap the fitted equipment too when the loadout has something else in its slot
+    const fittedId = loadout.items[equipmentSlot]
+    const fitted = fittedId ? assets.find(asset => asset.id === fittedId) : undefined
+    if (fitted && fitted.id !== selectedEquipment?.id) {
+      handleSelectEquipment(fitted)
+    }
+
+    const missing = Object.values(loadout.items).filter(id => !assets.some(asset => asset.id === id))
+    if (missing.length > 0) {
+      notify.warning(`Loadout "${loadout.name}" references missing equipment: ${missing.join(', ')}`)
+    }
+  }
+
+  const handleDeleteLoadout = async (name: string) => {
+    if (!selectedAvatar) return
+
+    try {
+      const savedAvatar = await AssetService.deleteLoadout(selectedAvatar.id, name)
+      setSelectedAvatar(savedAvatar)
+      reloadAssets()
+      notify.success(`Loadout "${name}" deleted`)
+    } catch (error) {
+      console.error('Failed to delete loadout:', error)
+      notify.error(`Failed to delete loadout: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
   }
 
   const handleExportAlignedModel = async () => {
@@ -139,7 +306,7 @@ export const EquipmentPage: React.FC = () => {
   }
 
   const handleExportEquippedAvatar = async () => {
-    if (!selectedAvatar || !selectedEquipment || !viewerRef.current) return
+    if (!selectedAvatar || Object.keys(wornItems).length === 0 || !viewerRef.current) return
 
     try {
       const equippedModel = await viewerRef.current.exportEquippedModel()
@@ -163,12 +330,6 @@ export const EquipmentPage: React.FC = () => {
     setWeaponScaleOverride(1.0)
   }
 
-  // Reset manual adjustments when equipment changes
-  useEffect(() => {
-    setManualPosition({ x: 0, y: 0, z: 0 })
-    setManualRotation({ x: 0, y: 0, z: 0 })
-  }, [selectedEquipment])
-
   return (
     <div className="flex h-[calc(100vh-60px)] bg-gradient-to-br from-bg-primary to-bg-secondary p-4 gap-4">
       {/* Left Panel - Asset Selection */}
@@ -177,8 +338,8 @@ export const EquipmentPage: React.FC = () => {
         loading={loading}
         selectedAvatar={selectedAvatar}
         selectedEquipment={selectedEquipment}
-        onSelectAvatar={setSelectedAvatar}
-        onSelectEquipment={setSelectedEquipment}
+        onSelectAvatar={handleSelectAvatar}
+        onSelectEquipment={handleSelectEquipment}
       />
 
       {/* Center - 3D Viewport */}
@@ -199,6 +360,7 @@ export const EquipmentPage: React.FC = () => {
         setCurrentAnimation={setCurrentAnimation}
         isAnimationPlaying={isAnimationPlaying}
         setIsAnimationPlaying={setIsAnimationPlaying}
+        loadoutItems={viewerLoadoutItems}
       />
 
       {/* Right Panel - Controls */}
@@ -222,6 +384,9 @@ export const EquipmentPage: React.FC = () => {
               selectedEquipment={selectedEquipment}
               isDetectingHandle={isDetectingHandle}
               handleDetectionResult={handleDetectionResult}
+              gripDetectionMethod={gripDetectionMethod}
+              onGripDetectionMethodChange={setGripDetectionMethod}
+              gripDetectionResults={gripDetectionResults}
               onDetectGripPoint={handleDetectGripPoint}
             />
 
@@ -252,10 +417,24 @@ export const EquipmentPage: React.FC = () => {
               onReset={handleReset}
             />
 
+            {/* Other slots and named loadouts */}
+            <LoadoutPanel
+              assets={assets}
+              selectedAvatar={selectedAvatar}
+              selectedEquipment={selectedEquipment}
+              equipmentSlot={equipmentSlot}
+              loadoutItems={loadoutItems}
+              onLoadoutItemChange={handleLoadoutItemChange}
+              onSaveLoadout={handleSaveLoadout}
+              onApplyLoadout={handleApplyLoadout}
+              onDeleteLoadout={handleDeleteLoadout}
+            />
+
             {/* Actions */}
             <ExportOptionsPanel
               selectedAvatar={selectedAvatar}
               selectedEquipment={selectedEquipment}
+              loadoutItemCount={viewerLoadoutItems.length}
               onSaveConfiguration={handleSaveConfiguration}
               onExportAlignedModel={handleExportAlignedModel}
               onExportEquippedAvatar={handleExportEquippedAvatar}
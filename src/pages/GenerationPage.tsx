@@ -7,6 +7,7 @@ import {
 import React, { useState, useEffect, useMemo } from 'react'
 
 
+import { RETRYABLE_PIPELINE_STAGES } from '../constants'
 import { useGenerationStore } from '../store'
 import type { PipelineStage } from '../store'
 import { MaterialPreset } from '../types'
@@ -39,10 +40,11 @@ import {
   Button, Card, CardContent
 } from '@/components/common'
 import { useGameStylePrompts, useAssetTypePrompts, useMaterialPromptTemplates } from '@/hooks'
-import { usePipelineStatus } from '@/hooks'
+import { usePipelineStatus, usePromptPreview } from '@/hooks'
 import { useMaterialPresets } from '@/hooks'
 import { Asset, AssetService } from '@/services/api/AssetService'
 import { GenerationAPIClient } from '@/services/api/GenerationAPIClient'
+import type { PromptFileType } from '@/services/api/PromptService'
 
 interface GenerationPageProps {
   onClose?: () => void
@@ -87,6 +89,8 @@ export const GenerationPage: React.FC<GenerationPageProps> = ({ onClose: _onClos
     useGPT4Enhancement,
     enableRetexturing,
     enableSprites,
+    reviewConceptArt,
+    conceptArtCandidates,
     quality,
 
     // Avatar Configuration
@@ -106,8 +110,10 @@ export const GenerationPage: React.FC<GenerationPageProps> = ({ onClose: _onClos
 
     // Pipeline State
     isGenerating,
+    currentPipelineId,
     isGeneratingSprites,
     pipelineStages,
+    conceptArtReview,
 
     // Results State
     generatedAssets,
@@ -136,6 +142,8 @@ export const GenerationPage: React.FC<GenerationPageProps> = ({ onClose: _onClos
     setUseGPT4Enhancement,
     setEnableRetexturing,
     setEnableSprites,
+    setReviewConceptArt,
+    setConceptArtCandidates,
     setQuality,
     setEnableRigging,
     setCharacterHeight,
@@ -162,16 +170,23 @@ export const GenerationPage: React.FC<GenerationPageProps> = ({ onClose: _onClos
   } = useGenerationStore()
 
   // Load prompts
-  const { prompts: gameStylePrompts, loading: gameStyleLoading, saveCustomGameStyle, deleteCustomGameStyle } = useGameStylePrompts()
+  const {
+    prompts: gameStylePrompts,
+    loading: gameStyleLoading,
+    saveCustomGameStyle,
+    deleteCustomGameStyle,
+    reload: reloadGameStylePrompts
+  } = useGameStylePrompts()
   const { 
     prompts: loadedAssetTypePrompts, 
     loading: _assetTypeLoading, 
     saveCustomAssetType,
     deleteCustomAssetType,
     // getAllTypes,
-    getTypesByGeneration 
+    getTypesByGeneration,
+    reload: reloadAssetTypePrompts
   } = useAssetTypePrompts()
-  const { templates: materialPromptTemplates } = useMaterialPromptTemplates()
+  const { templates: materialPromptTemplates, reload: reloadMaterialPromptTemplates } = useMaterialPromptTemplates()
   
   // Get custom game styles
   const customGameStyles = useMemo(() => {
@@ -449,24 +464,8 @@ export const GenerationPage: React.FC<GenerationPageProps> = ({ onClose: _onClos
     }
   }
 
-  const handleStartGeneration = async () => {
-    if (!assetName || !description) {
-      notify.warning('Please fill in all required fields')
-      return
-    }
-
-    setIsGenerating(true)
-    setActiveView('progress')
-    const updatedPipelineStages = pipelineStages.map(stage => ({
-      ...stage,
-      status: (stage.id === 'text-input' ? 'active' :
-        stage.id === 'gpt4-enhancement' && !useGPT4Enhancement ? 'skipped' :
-          stage.id === 'retexturing' && !enableRetexturing ? 'skipped' :
-            stage.id === 'sprites' && !enableSprites ? 'skipped' :
-              'idle') as PipelineStage['status']
-    }))
-    setPipelineStages(updatedPipelineStages)
-
+  // Config sent to the pipeline, also dry-run by the prompt preview
+  const generationConfig = useMemo(() => {
     // Get the appropriate asset type prompt
     const currentAssetTypePrompt = customAssetTypePrompt ||
       assetTypePrompts[assetType] ||
@@ -490,6 +489,8 @@ export const GenerationPage: React.FC<GenerationPageProps> = ({ onClose: _onClos
       customGamePrompt: customGamePrompt || gameStyleConfig?.base,
       customAssetTypePrompt: currentAssetTypePrompt,
       useGPT4Enhancement,
+      reviewConceptArt,
+      conceptArtCandidates,
       enableRetexturing,
       enableSprites,
       enableRigging,
@@ -515,6 +516,36 @@ export const GenerationPage: React.FC<GenerationPageProps> = ({ onClose: _onClos
       }
     }
 
+    return config
+  }, [
+    assetName, assetType, description, generationType, gameStyle, customStyle, customGamePrompt,
+    customAssetTypePrompt, assetTypePrompts, customAssetTypes, gameStylePrompts, useGPT4Enhancement,
+    reviewConceptArt, conceptArtCandidates, enableRetexturing, enableSprites, enableRigging, characterHeight,
+    selectedMaterials, materialPresets, materialPromptOverrides, materialPromptTemplates, quality,
+    referenceImageMode, referenceImageSource, referenceImageUrl, referenceImageDataUrl
+  ])
+
+  const promptPreview = usePromptPreview({ apiClient, config: generationConfig, enabled: showAdvancedPrompts })
+
+  const handleStartGeneration = async () => {
+    if (!assetName || !description) {
+      notify.warning('Please fill in all required fields')
+      return
+    }
+
+    setIsGenerating(true)
+    setActiveView('progress')
+    const updatedPipelineStages = pipelineStages.map(stage => ({
+      ...stage,
+      status: (stage.id === 'text-input' ? 'active' :
+        stage.id === 'gpt4-enhancement' && !useGPT4Enhancement ? 'skipped' :
+          stage.id === 'retexturing' && !enableRetexturing ? 'skipped' :
+            stage.id === 'sprites' && !enableSprites ? 'skipped' :
+              'idle') as PipelineStage['status']
+    }))
+    setPipelineStages(updatedPipelineStages)
+
+    const config = generationConfig
     console.log('Starting generation with config:', config)
     console.log('Material variants to generate:', config.materialPresets)
 
@@ -528,6 +559,67 @@ export const GenerationPage: React.FC<GenerationPageProps> = ({ onClose: _onClos
     }
   }
 
+  const handleCancelPipeline = async () => {
+    if (!currentPipelineId) return
+
+    try {
+      await apiClient.cancelPipeline(currentPipelineId)
+      notify.info('Generation cancelled')
+    } catch (error) {
+      console.error('Failed to cancel generation:', error)
+      notify.error('Failed to cancel generation.')
+    }
+  }
+
+  const handleRetryStage = async (stageId: string) => {
+    if (!currentPipelineId) return
+
+    setIsGenerating(true)
+    try {
+      await apiClient.retryStage(currentPipelineId, RETRYABLE_PIPELINE_STAGES[stageId])
+    } catch (error) {
+      console.error('Failed to retry stage:', error)
+      setIsGenerating(false)
+      notify.error(`Failed to retry stage: ${(error as Error).message}`)
+    }
+  }
+
+  const handleSelectConceptArt = async (candidateId: string) => {
+    if (!currentPipelineId) return
+
+    try {
+      await apiClient.selectConceptArt(currentPipelineId, candidateId)
+    } catch (error) {
+      console.error('Failed to select concept art:', error)
+      notify.error(`Failed to select concept art: ${(error as Error).message}`)
+    }
+  }
+
+  const handleRegenerateConceptArt = async (imagePrompt: string) => {
+    if (!currentPipelineId) return
+
+    try {
+      await apiClient.regenerateConceptArt(currentPipelineId, imagePrompt)
+    } catch (error) {
+      console.error('Failed to regenerate concept art:', error)
+      notify.error(`Failed to regenerate concept art: ${(error as Error).message}`)
+    }
+  }
+
+  // Pick up a prompt file restored from the Prompt Studio history
+  const handlePromptsRestored = async (type: PromptFileType) => {
+    try {
+      if (type === 'game-styles') await reloadGameStylePrompts()
+      if (type === 'asset-types') await reloadAssetTypePrompts()
+      if (type === 'materials') await reloadMaterialPromptTemplates()
+      if (type === 'material-presets') setMaterialPresets(await AssetService.getMaterialPresets())
+      notify.success('Prompt version restored')
+    } catch (error) {
+      console.error('Failed to reload restored prompts:', error)
+      notify.error('Prompt version restored, but reloading it failed. Refresh the page.')
+    }
+  }
+
   React.useEffect(() => {
     // Enable smooth scrolling on the body with hidden scrollbar
     const ensureScrollable = () => {
@@ -625,6 +717,7 @@ export const GenerationPage: React.FC<GenerationPageProps> = ({ onClose: _onClos
                     customAssetTypes={customAssetTypes}
                     currentStylePrompt={currentStylePrompt}
                     gameStylePrompts={gameStylePrompts}
+                    promptPreview={promptPreview}
                     loadedPrompts={{
                       avatar: loadedAssetTypePrompts?.avatar?.default?.character?.placeholder,
                       item: loadedAssetTypePrompts?.item?.default?.weapon?.placeholder
@@ -646,6 +739,7 @@ export const GenerationPage: React.FC<GenerationPageProps> = ({ onClose: _onClos
                     onSaveCustomGameStyle={saveCustomGameStyle}
                     onDeleteCustomGameStyle={deleteCustomGameStyle}
                     onDeleteCustomAssetType={deleteCustomAssetType}
+                    onPromptsRestored={handlePromptsRestored}
                   />
                 </div>
 
@@ -658,11 +752,15 @@ export const GenerationPage: React.FC<GenerationPageProps> = ({ onClose: _onClos
                     enableRetexturing={enableRetexturing}
                     enableSprites={enableSprites}
                     enableRigging={enableRigging}
+                    reviewConceptArt={reviewConceptArt}
+                    conceptArtCandidates={conceptArtCandidates}
                     quality={quality}
                     onUseGPT4EnhancementChange={setUseGPT4Enhancement}
                     onEnableRetexturingChange={setEnableRetexturing}
                     onEnableSpritesChange={setEnableSprites}
                     onEnableRiggingChange={setEnableRigging}
+                    onReviewConceptArtChange={setReviewConceptArt}
+                    onConceptArtCandidatesChange={setConceptArtCandidates}
                     onQualityChange={setQuality}
                   />
 
@@ -755,6 +853,11 @@ export const GenerationPage: React.FC<GenerationPageProps> = ({ onClose: _onClos
                 pipelineStages={pipelineStages}
                 generationType={generationType}
                 isGenerating={isGenerating}
+                onCancel={handleCancelPipeline}
+                onRetryStage={handleRetryStage}
+                conceptArtReview={conceptArtReview}
+                onSelectConceptArt={handleSelectConceptArt}
+                onRegenerateConceptArt={handleRegenerateConceptArt}
                 onBackToConfig={() => setActiveView('config')}
                 onBack={() => {
                   setGenerationType(undefined)
@@ -3,7 +3,7 @@
  * Clean API interface for asset operations
  */
 
-import { MaterialPreset, AssetMetadata } from '../../types'
+import { AppError, MaterialPreset, AssetMetadata, EquipmentAttachmentConfig, ModelImportSource } from '../../types'
 
 import { apiFetch } from '@/utils/api'
 
@@ -20,6 +20,91 @@ export interface Asset {
   generatedAt: string
 }
 
+export type AssetSortField = 'generatedAt' | 'name' | 'type' | 'tier'
+
+export interface AssetQuery {
+  search?: string
+  type?: string
+  subtype?: string
+  tier?: string
+  material?: string
+  kind?: 'base' | 'variant'
+  rigged?: boolean
+  from?: string
+  to?: string
+  sort?: AssetSortField
+  order?: 'asc' | 'desc'
+  limit?: number
+  cursor?: string
+}
+
+export interface AssetPage {
+  assets: Asset[]
+  total: number
+  unfilteredTotal: number
+  nextCursor: string | null
+}
+
+export interface AssetRevisionFile {
+  path: string
+  hash: string
+  size: number
+}
+
+export interface AssetRevision {
+  revision: number
+  createdAt: string
+  operation: string
+  hash: string
+  files: AssetRevisionFile[]
+  pipelineId?: string
+  retextureTaskId?: string
+  renamedFrom?: string
+  restoredFrom?: number
+  schemaVersion?: number
+}
+
+export interface RestoreRevisionResponse {
+  success: boolean
+  revision: AssetRevision
+  asset: Asset
+}
+
+export type AssetExportFormat = 'gltf' | 'obj' | 'stl' | 'ply' | 'usdz'
+
+export interface ExportFormatReport {
+  format: AssetExportFormat
+  extension: string
+  // Features of this model the format can't carry
+  unsupportedFeatures: { feature: string, label: string }[]
+}
+
+export interface AssetPackRequest {
+  // Either explicit asset ids or a filter query (paging fields are ignored)
+  ids?: string[]
+  query?: AssetQuery
+  includeVariants: boolean
+}
+
+export type ItemCatalogFormat = 'json' | 'ts' | 'cs'
+
+export interface ImportAssetRequest {
+  name: string
+  type: string
+  subtype?: string
+  tier?: string
+  description?: string
+  model: ArrayBuffer  // GLB, sent base64-encoded
+  source: ModelImportSource
+  normalized: boolean
+  dimensions?: { width: number, height: number, depth: number }
+}
+
+export interface SaveAttachmentRequest {
+  rigProfile: string
+  config: Omit<EquipmentAttachmentConfig, 'savedAt'>
+}
+
 export interface RetextureRequest {
   baseAssetId: string
   materialPreset: MaterialPreset
@@ -50,6 +135,173 @@ class AssetServiceClass {
     return response.json()
   }
 
+  async queryAssets(query: AssetQuery, signal?: AbortSignal): Promise<AssetPage> {
+    const params = new URLSearchParams()
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params.set(key, String(value))
+      }
+    })
+
+    const response = await apiFetch(`${this.baseUrl}/assets?${params}`, {
+      headers: {
+        'Cache-Control': 'no-cache',
+        'Pragma': 'no-cache'
+      },
+      signal,
+      timeoutMs: 15000
+    })
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to fetch assets')
+    }
+    return response.json()
+  }
+
+  async getAsset(assetId: string): Promise<Asset> {
+    const response = await apiFetch(`${this.baseUrl}/assets/${assetId}`, { timeoutMs: 10000 })
+    if (!response.ok) {
+      throw new Error(`Failed to fetch asset ${assetId}`)
+    }
+    return response.json()
+  }
+
+  async getRevisions(assetId: string): Promise<AssetRevision[]> {
+    const response = await apiFetch(`${this.baseUrl}/assets/${assetId}/revisions`, { timeoutMs: 10000 })
+    if (!response.ok) {
+      throw new Error(`Failed to fetch revisions of ${assetId}`)
+    }
+    return response.json()
+  }
+
+  async restoreRevision(assetId: string, revision: number): Promise<RestoreRevisionResponse> {
+    const response = await apiFetch(`${this.baseUrl}/assets/${assetId}/revisions/${revision}/restore`, {
+      method: 'POST',
+      timeoutMs: 30000
+    })
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || `Failed to restore revision ${revision}`)
+    }
+    return response.json()
+  }
+
+  /**
+   * Download URL for a zip of the requested assets with a manifest.json
+   */
+  getPackUrl({ ids, query, includeVariants }: AssetPackRequest): string {
+    const params = new URLSearchParams()
+    if (ids) {
+      params.set('ids', ids.join(','))
+    } else if (query) {
+      Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined && value !== '' && key !== 'limit' && key !== 'cursor') {
+          params.set(key, String(value))
+        }
+      })
+    }
+    params.set('includeVariants', String(includeVariants))
+    return `${this.baseUrl}/assets/pack?${params}`
+  }
+
+  /**
+   * Download URL for the game items catalog of the assets matching a filter query
+   */
+  getCatalogUrl(format: ItemCatalogFormat, query: AssetQuery): string {
+    const params = new URLSearchParams({ format })
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '' && key !== 'limit' && key !== 'cursor') {
+        params.set(key, String(value))
+      }
+    })
+    return `${this.baseUrl}/catalog?${params}`
+  }
+
+  async getExportFormats(assetId: string): Promise<ExportFormatReport[]> {
+    const response = await apiFetch(`${this.baseUrl}/assets/${assetId}/export/formats`, { timeoutMs: 10000 })
+    if (!response.ok) {
+      throw new Error(`Failed to fetch export formats of ${assetId}`)
+    }
+    return response.json()
+  }
+
+  async importAsset(request: ImportAssetRequest): Promise<Asset> {
+    const response = await apiFetch(`${this.baseUrl}/assets/import`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ ...request, model: await toBase64(request.model) }),
+      timeoutMs: 120000
+    })
+    if (!response.ok) {
+      const body: { error?: string, errors?: { field: string, message: string }[] } = await response.json()
+      const error: AppError = Object.assign(new Error(body.error || 'Import failed'), {
+        statusCode: response.status,
+        details: body.errors ? Object.fromEntries(body.errors.map(({ field, message }) => [field, message])) : null
+      })
+      throw error
+    }
+    return response.json()
+  }
+
+  /**
+   * Save how equipment sits on an avatar; returns the equipment with its updated metadata
+   */
+  async saveAttachmentConfig(assetId: string, request: SaveAttachmentRequest): Promise<Asset> {
+    const response = await apiFetch(`${this.baseUrl}/assets/${assetId}/attachments`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(request),
+      timeoutMs: 10000
+    })
+    if (!response.ok) {
+      const body: { error?: string, errors?: { field: string, message: string }[] } = await response.json()
+      const error: AppError = Object.assign(new Error(body.error || 'Failed to save attachment'), {
+        statusCode: response.status,
+        details: body.errors ? Object.fromEntries(body.errors.map(({ field, message }) => [field, message])) : null
+      })
+      throw error
+    }
+    return response.json()
+  }
+
+  /**
+   * Save a named loadout (equipment slot → equipment asset ID) on an avatar; returns the avatar
+   */
+  async saveLoadout(avatarId: string, name: string, items: Record<string, string>): Promise<Asset> {
+    const response = await apiFetch(`${this.baseUrl}/assets/${avatarId}/loadouts/${encodeURIComponent(name)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ items }),
+      timeoutMs: 10000
+    })
+    if (!response.ok) {
+      const body: { error?: string, errors?: { field: string, message: string }[] } = await response.json()
+      const error: AppError = Object.assign(new Error(body.error || 'Failed to save loadout'), {
+        statusCode: response.status,
+        details: body.errors ? Object.fromEntries(body.errors.map(({ field, message }) => [field, message])) : null
+      })
+      throw error
+    }
+    return response.json()
+  }
+
+  async deleteLoadout(avatarId: string, name: string): Promise<Asset> {
+    const response = await apiFetch(`${this.baseUrl}/assets/${avatarId}/loadouts/${encodeURIComponent(name)}`, {
+      method: 'DELETE',
+      timeoutMs: 10000
+    })
+    if (!response.ok) {
+      throw new Error(`Failed to delete loadout ${name}`)
+    }
+    return response.json()
+  }
+
   async getMaterialPresets(): Promise<MaterialPreset[]> {
     const response = await apiFetch(`${this.baseUrl}/material-presets`, { timeoutMs: 10000 })
     if (!response.ok) {
@@ -85,4 +337,14 @@ class AssetServiceClass {
   }
 }
 
+function toBase64(buffer: ArrayBuffer): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    // Strip the "data:...;base64," prefix
+    reader.onload = () => resolve((reader.result as string).split(',')[1])
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(new Blob([buffer]))
+  })
+}
+
 export const AssetService = new AssetServiceClass()
\ No newline at end of file
@@ -4,21 +4,39 @@
  */
 
 import { ExtendedImportMeta } from '../../types'
-import { GenerationConfig } from '../../types/generation'
+import { GenerationConfig, GenerationPreview, GenerationRecipe, GenerationRecipeEdits } from '../../types/generation'
 import { TypedEventEmitter } from '../../utils/TypedEventEmitter'
 
 import { apiFetch } from '@/utils/api'
 
 // Define pipeline types matching backend
 export interface PipelineStage {
-  status: 'pending' | 'processing' | 'completed' | 'failed'
+  status: 'pending' | 'processing' | 'awaiting-selection' | 'completed' | 'failed' | 'skipped' | 'cancelled'
   progress: number
 }
 
+// Concept art image generated in review mode, served from the asset folder
+export interface ConceptArtCandidate {
+  id: string
+  round: number
+  file: string
+  url: string
+  imagePrompt: string
+}
+
+// Image generation stage while in review mode
+export interface ConceptArtReviewStage extends PipelineStage {
+  round?: number
+  candidates?: ConceptArtCandidate[]
+  selectedCandidate?: string
+  imagePrompt?: string
+}
+
 export interface PipelineStages {
   generation: PipelineStage
   retexturing: PipelineStage
   sprites: PipelineStage
+  imageGeneration?: ConceptArtReviewStage
 }
 
 export interface PipelineResults {
@@ -41,7 +59,7 @@ export interface PipelineResults {
 
 export interface PipelineResult {
   id: string
-  status: 'initializing' | 'processing' | 'completed' | 'failed'
+  status: 'initializing' | 'processing' | 'awaiting-selection' | 'completed' | 'failed' | 'cancelled'
   progress: number
   stages: PipelineStages
   config: GenerationConfig
@@ -65,23 +83,46 @@ export interface GenerationAPIEvents {
   'update': PipelineResult
   'pipeline:completed': PipelineResult
   'pipeline:failed': { pipelineId: string; error?: string }
+  'pipeline:cancelled': { pipelineId: string }
   'error': { pipelineId: string; error: Error | string | { message: string; code?: string } }
 }
 
 // Type helper to extract event arguments
 type EventArgs<T extends keyof GenerationAPIEvents> = GenerationAPIEvents[T]
 
+// Last values seen for a pipeline, used to emit only real changes
+interface PipelineWatchState {
+  status: string
+  progress: number
+}
+
+// Status payload as sent by the backend
+interface PipelineStatusResponse {
+  id: string
+  status: PipelineResult['status']
+  progress: number
+  stages: PipelineStages
+  results?: PipelineResults
+  error?: string
+}
+
 export class GenerationAPIClient extends TypedEventEmitter<GenerationAPIEvents> {
   private apiUrl: string
-  private pollInterval: number = 2000 // Poll every 2 seconds
+  private pollInterval: number = 2000 // Poll every 2 seconds (fallback when streaming is unavailable)
+  private streamReconnectDelay: number = 1000
+  private maxStreamReconnects: number = 5
+  private eventSources: Map<string, EventSource> = new Map()
   private pipelineConfigs: Map<string, GenerationConfig> = new Map()
   private activePipelines: Map<string, PipelineResult> = new Map()
   
   constructor(apiUrl?: string) {
     super()
     // Use environment variable if available, otherwise default to localhost
-    const envApiUrl = (import.meta as ExtendedImportMeta).env?.VITE_GENERATION_API_URL
-    this.apiUrl = apiUrl || envApiUrl || 'http://localhost:3001/api'
+    const env = (import.meta as ExtendedImportMeta).env
+    this.apiUrl = apiUrl || env?.VITE_GENERATION_API_URL || 'http://localhost:3001/api'
+    if (env?.VITE_PIPELINE_POLL_INTERVAL_MS) {
+      this.pollInterval = parseInt(env.VITE_PIPELINE_POLL_INTERVAL_MS, 10)
+    }
   }
   
   /**
@@ -126,8 +167,8 @@ export class GenerationAPIClient extends TypedEventEmitter<GenerationAPIEvents>
     // Emit pipeline started event
     this.emit('pipeline:started', { pipelineId: result.pipelineId })
     
-    // Start polling for status updates
-    this.pollPipelineStatus(result.pipelineId)
+    // Start listening for status updates
+    this.watchPipeline(result.pipelineId)
     
     return result.pipelineId
   }
@@ -143,12 +184,18 @@ export class GenerationAPIClient extends TypedEventEmitter<GenerationAPIEvents>
       throw new Error(error.error || 'Failed to get pipeline status')
     }
     
-    const status = await response.json()
+    const status: PipelineStatusResponse = await response.json()
     
+    return this.toPipelineResult(status)
+  }
+  
+  /**
+   * Convert backend format to frontend format
+   */
+  private toPipelineResult(status: PipelineStatusResponse): PipelineResult {
     // Retrieve stored config
-    const config = this.pipelineConfigs.get(pipelineId) || {} as GenerationConfig
+    const config = this.pipelineConfigs.get(status.id) || {} as GenerationConfig
     
-    // Convert backend format to frontend format
     return {
       id: status.id,
       status: status.status,
@@ -161,40 +208,114 @@ export class GenerationAPIClient extends TypedEventEmitter<GenerationAPIEvents>
   }
   
   /**
-   * Poll pipeline status and emit events
+   * Follow a pipeline over the event stream, falling back to polling
+   * when the browser or the server cannot stream
+   */
+  private watchPipeline(pipelineId: string) {
+    const watchState: PipelineWatchState = { status: '', progress: 0 }
+    
+    if (typeof EventSource === 'undefined') {
+      this.pollPipelineStatus(pipelineId, watchState)
+      return
+    }
+    
+    this.streamPipelineStatus(pipelineId, watchState, 0, false)
+  }
+  
+  /**
+   * Apply a status update and emit events.
+   * Returns true once the pipeline has finished.
    */
-  private async pollPipelineStatus(pipelineId: string) {
-    let previousStatus = ''
-    let previousProgress = 0
+  private handleStatusUpdate(pipelineId: string, status: PipelineResult, watchState: PipelineWatchState): boolean {
+    // Update local cache
+    this.activePipelines.set(pipelineId, status)
+    
+    // Emit progress updates
+    if (status.progress !== watchState.progress) {
+      this.emit('progress', { pipelineId, progress: status.progress })
+      watchState.progress = status.progress
+    }
     
+    // Emit status changes
+    if (status.status !== watchState.status) {
+      this.emit('statusChange', { pipelineId, status: status.status })
+      watchState.status = status.status
+    }
+    
+    // Emit stage updates
+    this.emit('update', status)
+    
+    if (status.status === 'completed') {
+      this.emit('pipeline:completed', status)
+      return true
+    } else if (status.status === 'failed') {
+      this.emit('pipeline:failed', { pipelineId, error: status.error })
+      return true
+    } else if (status.status === 'cancelled') {
+      this.emit('pipeline:cancelled', { pipelineId })
+      return true
+    }
+    
+    return false
+  }
+  
+  /**
+   * Receive pushed status updates and reconnect with backoff when the stream drops
+   */
+  private streamPipelineStatus(
+    pipelineId: string,
+    watchState: PipelineWatchState,
+    reconnectAttempt: number,
+    hasStreamed: boolean
+  ) {
+    const source = new EventSource(`${this.apiUrl}/generation/pipeline/${pipelineId}/events`)
+    this.eventSources.set(pipelineId, source)
+    
+    let finished = false
+    let streamed = hasStreamed
+    let attempt = reconnectAttempt
+    
+    source.onopen = () => {
+      streamed = true
+      attempt = 0
+    }
+    
+    source.addEventListener('status', (event: MessageEvent<string>) => {
+      const status = this.toPipelineResult(JSON.parse(event.data))
+      if (this.handleStatusUpdate(pipelineId, status, watchState)) {
+        finished = true
+        source.close()
+        this.eventSources.delete(pipelineId)
+      }
+    })
+    
+    source.onerror = () => {
+      // Take over reconnection from the browser so retries are bounded
+      source.close()
+      this.eventSources.delete(pipelineId)
+      if (finished) return
+      
+      if (!streamed || attempt >= this.maxStreamReconnects) {
+        console.warn(`Pipeline event stream unavailable for ${pipelineId}, falling back to polling`)
+        this.pollPipelineStatus(pipelineId, watchState)
+        return
+      }
+      
+      const delay = this.streamReconnectDelay * 2 ** attempt
+      setTimeout(() => this.streamPipelineStatus(pipelineId, watchState, attempt + 1, streamed), delay)
+    }
+  }
+  
+  /**
+   * Poll pipeline status and emit events
+   */
+  private async pollPipelineStatus(pipelineId: string, watchState: PipelineWatchState) {
     const poll = async () => {
       try {
         const status = await this.fetchPipelineStatus(pipelineId)
         
-        // Update local cache
-        this.activePipelines.set(pipelineId, status)
-        
-        // Emit progress updates
-        if (status.progress !== previousProgress) {
-          this.emit('progress', { pipelineId, progress: status.progress })
-          previousProgress = status.progress
-        }
-        
-        // Emit status changes
-        if (status.status !== previousStatus) {
-          this.emit('statusChange', { pipelineId, status: status.status })
-          previousStatus = status.status
-        }
-        
-        // Emit stage updates
-        this.emit('update', status)
-        
         // Stop polling if complete or failed
-        if (status.status === 'completed') {
-          this.emit('pipeline:completed', status)
-          return
-        } else if (status.status === 'failed') {
-          this.emit('pipeline:failed', { pipelineId, error: status.error })
+        if (this.handleStatusUpdate(pipelineId, status, watchState)) {
           return
         }
         
@@ -211,6 +332,139 @@ export class GenerationAPIClient extends TypedEventEmitter<GenerationAPIEvents>
     poll()
   }
   
+  /**
+   * Cancel a running pipeline. The final status arrives through the usual update events.
+   */
+  async cancelPipeline(pipelineId: string): Promise<void> {
+    const response = await apiFetch(`${this.apiUrl}/generation/pipeline/${pipelineId}/cancel`, {
+      method: 'POST',
+      timeoutMs: 30000
+    })
+    
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to cancel pipeline')
+    }
+  }
+  
+  /**
+   * Re-run a failed or cancelled stage and resume following the pipeline
+   */
+  async retryStage(pipelineId: string, stage: string): Promise<void> {
+    const response = await apiFetch(`${this.apiUrl}/generation/pipeline/${pipelineId}/stages/${stage}/retry`, {
+      method: 'POST',
+      timeoutMs: 30000
+    })
+    
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to retry stage')
+    }
+    
+    this.watchPipeline(pipelineId)
+  }
+  
+  /**
+   * The prompts and settings a pipeline would send for a config, without calling any provider
+   */
+  async previewPrompts(config: GenerationConfig, signal?: AbortSignal): Promise<GenerationPreview> {
+    const response = await apiFetch(`${this.apiUrl}/generation/preview`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(config),
+      signal,
+      timeoutMs: 15000
+    })
+    
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to preview prompts')
+    }
+    
+    return response.json()
+  }
+  
+  /**
+   * Continue a pipeline awaiting concept art selection with the picked candidate.
+   * The pipeline is still being followed, so updates keep arriving as usual.
+   */
+  async selectConceptArt(pipelineId: string, candidateId: string): Promise<void> {
+    const response = await apiFetch(`${this.apiUrl}/generation/pipeline/${pipelineId}/concept-art/select`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ candidateId }),
+      timeoutMs: 30000
+    })
+    
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to select concept art')
+    }
+  }
+  
+  /**
+   * Generate another round of concept art candidates, optionally with a tweaked image prompt
+   */
+  async regenerateConceptArt(pipelineId: string, imagePrompt?: string): Promise<void> {
+    const response = await apiFetch(`${this.apiUrl}/generation/pipeline/${pipelineId}/concept-art/regenerate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ imagePrompt }),
+      timeoutMs: 30000
+    })
+    
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to regenerate concept art')
+    }
+  }
+  
+  /**
+   * The recipe a base model was generated with
+   */
+  async getRecipe(assetId: string): Promise<GenerationRecipe> {
+    const response = await apiFetch(`${this.apiUrl}/assets/${assetId}/recipe`, { timeoutMs: 15000 })
+    
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to load generation recipe')
+    }
+    
+    return response.json()
+  }
+  
+  /**
+   * Regenerate a base model from its recipe, with optional edits, and follow the new pipeline
+   */
+  async regenerateAsset(assetId: string, recipe?: GenerationRecipeEdits): Promise<string> {
+    const response = await apiFetch(`${this.apiUrl}/regenerate-base/${assetId}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ recipe }),
+      timeoutMs: 60000
+    })
+    
+    if (!response.ok) {
+      const error = await response.json()
+      const details = (error.errors || []).map((fieldError: { field: string, message: string }) => `${fieldError.field} ${fieldError.message}`)
+      throw new Error(details.length > 0 ? `${error.error}: ${details.join(', ')}` : error.error || 'Failed to start regeneration')
+    }
+    
+    const { pipelineId } = await response.json()
+    this.emit('pipeline:started', { pipelineId })
+    this.watchPipeline(pipelineId)
+    
+    return pipelineId
+  }
+  
   /**
    * Check if API is available
    */
@@ -242,7 +496,7 @@ export class GenerationAPIClient extends TypedEventEmitter<GenerationAPIEvents>
    */
   clearInactivePipelines(): void {
     for (const [id, pipeline] of this.activePipelines.entries()) {
-      if (pipeline.status === 'completed' || pipeline.status === 'failed') {
+      if (pipeline.status === 'completed' || pipeline.status === 'failed' || pipeline.status === 'cancelled') {
         this.activePipelines.delete(id)
         this.pipelineConfigs.delete(id)
       }
@@ -31,6 +31,42 @@ export type MaterialPromptTemplate = {
   customOverrides: Record<string, string>
 }
 
+// Prompt files with a version history, by their /api/prompts path
+export type PromptFileType =
+  | 'game-styles'
+  | 'asset-types'
+  | 'materials'
+  | 'generation'
+  | 'gpt4-enhancement'
+  | 'weapon-detection'
+  | 'material-presets'
+  | 'llm-backends'
+
+export interface PromptVersion {
+  version: number
+  createdAt: string
+  operation: 'initial' | 'external-change' | 'save' | 'delete' | 'restore'
+  hash: string
+  size: number
+  note?: string
+  restoredFrom?: number
+}
+
+export type PromptJsonValue = string | number | boolean | null | PromptJsonValue[] | { [key: string]: PromptJsonValue }
+
+export interface PromptVersionChange {
+  path: string
+  type: 'added' | 'removed' | 'changed'
+  from?: PromptJsonValue
+  to?: PromptJsonValue
+}
+
+export interface PromptVersionDiff {
+  from: number | 'current'
+  to: number | 'current'
+  changes: PromptVersionChange[]
+}
+
 class PromptServiceClass {
   private baseUrl = '/api/prompts'
 
@@ -40,8 +76,8 @@ class PromptServiceClass {
     return response.json()
   }
 
-  async saveGameStylePrompts(prompts: PromptsResponse<Record<string, GameStylePrompt>>): Promise<void> {
-    const response = await apiFetch(`${this.baseUrl}/game-styles`, {
+  async saveGameStylePrompts(prompts: PromptsResponse<Record<string, GameStylePrompt>>, note?: string): Promise<void> {
+    const response = await apiFetch(`${this.baseUrl}/game-styles${this.noteQuery(note)}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(prompts),
@@ -66,8 +102,8 @@ class PromptServiceClass {
     return response.json()
   }
 
-  async saveAssetTypePrompts(prompts: AssetTypePromptsByCategory): Promise<void> {
-    const response = await apiFetch(`${this.baseUrl}/asset-types`, {
+  async saveAssetTypePrompts(prompts: AssetTypePromptsByCategory, note?: string): Promise<void> {
+    const response = await apiFetch(`${this.baseUrl}/asset-types${this.noteQuery(note)}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(prompts),
@@ -99,8 +135,8 @@ class PromptServiceClass {
     return { templates, customOverrides: data.customOverrides ?? {} }
   }
 
-  async saveMaterialPrompts(prompts: MaterialPromptTemplate): Promise<void> {
-    const response = await apiFetch(`${this.baseUrl}/materials`, {
+  async saveMaterialPrompts(prompts: MaterialPromptTemplate, note?: string): Promise<void> {
+    const response = await apiFetch(`${this.baseUrl}/materials${this.noteQuery(note)}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(prompts),
@@ -109,6 +145,33 @@ class PromptServiceClass {
     if (!response.ok) throw new Error('Failed to save material prompts')
   }
 
+  async listVersions(type: PromptFileType): Promise<PromptVersion[]> {
+    const response = await apiFetch(`${this.baseUrl}/${type}/versions`, { timeoutMs: 10000 })
+    if (!response.ok) throw new Error('Failed to load prompt versions')
+    return response.json()
+  }
+
+  async getVersionDiff(type: PromptFileType, from: number | 'current', to: number | 'current' = 'current'): Promise<PromptVersionDiff> {
+    const response = await apiFetch(`${this.baseUrl}/${type}/versions/diff?from=${from}&to=${to}`, { timeoutMs: 10000 })
+    if (!response.ok) throw new Error('Failed to diff prompt versions')
+    return response.json()
+  }
+
+  async restoreVersion(type: PromptFileType, version: number, note?: string): Promise<PromptVersion> {
+    const response = await apiFetch(`${this.baseUrl}/${type}/versions/${version}/restore`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ note }),
+      timeoutMs: 10000
+    })
+    if (!response.ok) throw new Error('Failed to restore prompt version')
+    return response.json()
+  }
+
+  private noteQuery(note?: string): string {
+    return note ? `?note=${encodeURIComponent(note)}` : ''
+  }
+
   mergePrompts<T extends Record<string, unknown>>(defaults: T, custom: T): T {
     return { ...defaults, ...custom }
   }
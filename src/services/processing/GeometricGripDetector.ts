@@ -0,0 +1,560 @@
+/**
+ * Geometric Grip Detector
+ * Finds a weapon's grip from its mesh alone, without rendering or a vision API
+ *
+ * The mesh is sliced across its long (principal) axis. Along that axis the cross-sections'
+ * radius, area and roundness give a profile: the grip is the longest narrow, round run near
+ * one end, the guard is the sharp widening just past it, and the pommel the knob before it.
+ */
+
+import * as THREE from 'three'
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+
+import { GripBounds, WeaponAxisSegment, WeaponPartSegments } from '../../types'
+
+import { flipWeaponForDetection, frameWeaponForDetection } from './VisionGripResolver'
+import type { HandleDetectionResult } from './WeaponHandleDetector'
+
+export interface GeometricGripDetectorOptions {
+  slices: number               // Cross-sections taken along the weapon
+  maxGripRadiusRatio: number   // Grip sections are at most this fraction of the widest section
+  minGripRoundness: number     // Section area / circle area; blades are flat, grips round
+  maxGripLength: number        // Longest grip as a fraction of the weapon (staffs, spears)
+  guardRadiusRatio: number     // A guard is at least this much wider than the grip
+  pommelRadiusRatio: number    // A pommel is at least this much wider than the grip
+}
+
+export const DEFAULT_GEOMETRIC_GRIP_OPTIONS: GeometricGripDetectorOptions = {
+  slices: 64,
+  maxGripRadiusRatio: 0.5,
+  minGripRoundness: 0.45,
+  maxGripLength: 0.45,
+  guardRadiusRatio: 1.5,
+  pommelRadiusRatio: 1.15
+}
+
+// Cross-section of the weapon at one slice, in the plane perpendicular to its axis
+interface CrossSection {
+  t: number               // Position along the axis
+  center: THREE.Vector2   // Section center in the plane's (u, w) coordinates
+  hull: THREE.Vector2[]
+  radius: number
+  area: number
+  roundness: number
+}
+
+interface SliceRun {
+  start: number
+  end: number  // Inclusive
+}
+
+const IMAGE_SIZE = 512
+const IMAGE_PADDING = 32
+
+export class GeometricGripDetector {
+  private options: GeometricGripDetectorOptions
+  private loader = new GLTFLoader()
+
+  constructor(options: Partial<GeometricGripDetectorOptions> = {}) {
+    this.options = { ...DEFAULT_GEOMETRIC_GRIP_OPTIONS, ...options }
+  }
+
+  async detectHandleArea(modelUrl: string): Promise<HandleDetectionResult> {
+    const gltf = await this.loader.loadAsync(modelUrl)
+    try {
+      return this.detectInDetectionFrame(gltf.scene)
+    } finally {
+      gltf.scene.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry?.dispose()
+          const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material]
+          materials.forEach(material => material?.dispose())
+        }
+      })
+    }
+  }
+
+  /**
+   * Detect the grip of an already loaded model in the coordinates the vision detector answers in,
+   * which the equipment viewer expects: the weapon centered and stood upright by
+   * frameWeaponForDetection, and turned over when its grip lands in the upper half (as the vision
+   * detector does for a weapon rendered upside down). Moves the model into that frame.
+   */
+  detectInDetectionFrame(model: THREE.Object3D): HandleDetectionResult {
+    const result = this.detectFromObject(model)
+
+    frameWeaponForDetection(model, new THREE.OrthographicCamera())
+    const flipped = model.localToWorld(result.gripPoint.clone()).y > 0
+    if (flipped) {
+      flipWeaponForDetection(model)
+    }
+
+    return {
+      ...result,
+      gripPoint: model.localToWorld(result.gripPoint.clone()),
+      vertices: result.vertices.map(vertex => model.localToWorld(vertex.clone())),
+      orientationFlipped: flipped
+    }
+  }
+
+  /**
+   * Detect the grip of an already loaded model. The grip point is in the model's own coordinates.
+   */
+  detectFromObject(model: THREE.Object3D): HandleDetectionResult {
+    const triangles = this.collectTriangles(model)
+    if (triangles.length === 0) {
+      throw new Error('Model has no mesh geometry to analyze')
+    }
+
+    const { origin, axis, u, w } = this.findPrincipalAxis(triangles)
+    const sections = this.sliceAlongAxis(triangles, origin, axis, u, w)
+    const radii = smooth(sections.map(section => section.radius))
+    const maxRadius = Math.max(...radii)
+    if (maxRadius <= 0) {
+      throw new Error('Model has no cross-sections to analyze')
+    }
+
+    const grip = this.findGrip(sections, radii, maxRadius)
+    if (!grip) {
+      throw new Error('No narrow, round grip section found along the weapon')
+    }
+
+    const gripRadius = mean(radii.slice(grip.start, grip.end + 1))
+    const nearLowEnd = grip.start - firstFilled(radii) < lastFilled(radii) - grip.end
+    const pommel = this.findPommel(radii, grip, gripRadius, nearLowEnd)
+    const guard = this.findGuard(radii, grip, gripRadius, nearLowEnd)
+
+    // Grip point: middle of the grip along the axis, on the grip's own centerline
+    const gripSections = sections.slice(grip.start, grip.end + 1)
+    const gripT = (gripSections[0].t + gripSections[gripSections.length - 1].t) / 2
+    const gripCenter = new THREE.Vector2()
+    gripSections.forEach(section => gripCenter.add(section.center))
+    gripCenter.divideScalar(gripSections.length)
+    const gripPoint = toWorld(origin, axis, u, w, gripT, gripCenter)
+
+    const vertices = gripSections.flatMap(section =>
+      section.hull.map(point => toWorld(origin, axis, u, w, section.t, point))
+    )
+
+    const parts: WeaponPartSegments = {
+      grip: this.toSegment(grip),
+      ...(guard ? { guard: this.toSegment(guard) } : {}),
+      ...(pommel ? { pommel: this.toSegment(pommel) } : {})
+    }
+
+    const confidence = this.scoreGrip(sections, radii, grip, gripRadius, maxRadius, !!guard || !!pommel)
+    const { annotatedImage, redBoxBounds } = this.drawProfile(radii, maxRadius, grip, guard, pommel, confidence)
+
+    console.log(`📏 Geometric grip: slices ${grip.start}-${grip.end} of ${sections.length}, confidence ${confidence}`)
+
+    return {
+      gripPoint,
+      vertices,
+      confidence,
+      annotatedImage,
+      redBoxBounds,
+      // The axis points up, so a grip in the upper half means the weapon is upside down
+      orientationFlipped: !nearLowEnd,
+      method: 'geometry',
+      parts
+    }
+  }
+
+  /**
+   * World-space triangles of every mesh, flattened as [a, b, c, a, b, c, ...]
+   */
+  private collectTriangles(model: THREE.Object3D): THREE.Vector3[] {
+    model.updateMatrixWorld(true)
+    const triangles: THREE.Vector3[] = []
+
+    model.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || !child.geometry?.attributes.position) return
+
+      const position = child.geometry.attributes.position
+      const index = child.geometry.index
+      const count = index ? index.count : position.count
+      for (let i = 0; i < count; i++) {
+        const vertexIndex = index ? index.getX(i) : i
+        triangles.push(new THREE.Vector3().fromBufferAttribute(position, vertexIndex).applyMatrix4(child.matrixWorld))
+      }
+    })
+
+    return triangles.slice(0, triangles.length - (triangles.length % 3))
+  }
+
+  /**
+   * Long axis of the weapon from the area-weighted covariance of its triangles,
+   * pointing up (or along its largest component when the weapon lies flat)
+   */
+  private findPrincipalAxis(triangles: THREE.Vector3[]) {
+    const centroids: { point: THREE.Vector3; weight: number }[] = []
+    const origin = new THREE.Vector3()
+    let totalWeight = 0
+    const edgeA = new THREE.Vector3()
+    const edgeB = new THREE.Vector3()
+
+    for (let i = 0; i < triangles.length; i += 3) {
+      const [a, b, c] = [triangles[i], triangles[i + 1], triangles[i + 2]]
+      const weight = edgeA.subVectors(b, a).cross(edgeB.subVectors(c, a)).length() / 2
+      if (weight === 0) continue
+      const point = a.clone().add(b).add(c).divideScalar(3)
+      centroids.push({ point, weight })
+      origin.addScaledVector(point, weight)
+      totalWeight += weight
+    }
+    origin.divideScalar(totalWeight || 1)
+
+    // Covariance matrix entries (xx, xy, xz, yy, yz, zz)
+    const cov = [0, 0, 0, 0, 0, 0]
+    for (const { point, weight } of centroids) {
+      const dx = point.x - origin.x
+      const dy = point.y - origin.y
+      const dz = point.z - origin.z
+      cov[0] += weight * dx * dx
+      cov[1] += weight * dx * dy
+      cov[2] += weight * dx * dz
+      cov[3] += weight * dy * dy
+      cov[4] += weight * dy * dz
+      cov[5] += weight * dz * dz
+    }
+
+    // Power iteration from the longest bounding box axis
+    const size = new THREE.Box3().setFromPoints(triangles).getSize(new THREE.Vector3())
+    const axis = size.x >= size.y && size.x >= size.z
+      ? new THREE.Vector3(1, 0, 0)
+      : size.y >= size.z ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(0, 0, 1)
+    for (let i = 0; i < 50; i++) {
+      const next = new THREE.Vector3(
+        cov[0] * axis.x + cov[1] * axis.y + cov[2] * axis.z,
+        cov[1] * axis.x + cov[3] * axis.y + cov[4] * axis.z,
+        cov[2] * axis.x + cov[4] * axis.y + cov[5] * axis.z
+      )
+      if (next.lengthSq() === 0) break
+      axis.copy(next.normalize())
+    }
+
+    const dominant = Math.abs(axis.y) >= 0.5
+      ? axis.y
+      : [axis.x, axis.y, axis.z].reduce((best, value) => Math.abs(value) > Math.abs(best) ? value : best, 0)
+    if (dominant < 0) axis.negate()
+
+    const helper = Math.abs(axis.y) < 0.9 ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(1, 0, 0)
+    const u = new THREE.Vector3().crossVectors(axis, helper).normalize()
+    const w = new THREE.Vector3().crossVectors(axis, u).normalize()
+    return { origin, axis, u, w }
+  }
+
+  /**
+   * Cut every triangle with evenly spaced planes across the axis and measure each section
+   */
+  private sliceAlongAxis(
+    triangles: THREE.Vector3[],
+    origin: THREE.Vector3,
+    axis: THREE.Vector3,
+    u: THREE.Vector3,
+    w: THREE.Vector3
+  ): CrossSection[] {
+    const { slices } = this.options
+    const offset = new THREE.Vector3()
+    const projected = triangles.map(vertex => {
+      offset.subVectors(vertex, origin)
+      return { t: offset.dot(axis), point: new THREE.Vector2(offset.dot(u), offset.dot(w)) }
+    })
+
+    let tMin = Infinity
+    let tMax = -Infinity
+    projected.forEach(({ t }) => {
+      tMin = Math.min(tMin, t)
+      tMax = Math.max(tMax, t)
+    })
+    const step = (tMax - tMin) / slices
+    const planes = Array.from({ length: slices }, (_, k) => tMin + (k + 0.5) * step)
+    const sectionPoints: THREE.Vector2[][] = planes.map(() => [])
+
+    for (let i = 0; i < projected.length; i += 3) {
+      const corners = [projected[i], projected[i + 1], projected[i + 2]]
+      const low = Math.min(...corners.map(corner => corner.t))
+      const high = Math.max(...corners.map(corner => corner.t))
+      const first = Math.max(0, Math.ceil((low - tMin) / step - 0.5))
+      const last = Math.min(slices - 1, Math.floor((high - tMin) / step - 0.5))
+
+      for (let k = first; k <= last; k++) {
+        const plane = planes[k]
+        for (let e = 0; e < 3; e++) {
+          const a = corners[e]
+          const b = corners[(e + 1) % 3]
+          if ((a.t - plane) * (b.t - plane) > 0 || a.t === b.t) continue
+          const s = (plane - a.t) / (b.t - a.t)
+          sectionPoints[k].push(a.point.clone().lerp(b.point, s))
+        }
+      }
+    }
+
+    return planes.map((t, k) => measureSection(t, sectionPoints[k]))
+  }
+
+  /**
+   * Longest narrow, round run of sections, preferring runs near an end of the weapon
+   */
+  private findGrip(sections: CrossSection[], radii: number[], maxRadius: number): SliceRun | null {
+    const { slices, maxGripRadiusRatio, minGripRoundness, maxGripLength } = this.options
+    const isGripSection = (k: number) =>
+      radii[k] > 0 && radii[k] <= maxGripRadiusRatio * maxRadius && sections[k].roundness >= minGripRoundness
+
+    // Runs of grip-like sections, bridging single-slice gaps from seams or rings
+    const runs: SliceRun[] = []
+    for (let k = 0; k < slices; k++) {
+      if (!isGripSection(k)) continue
+      const current = runs[runs.length - 1]
+      if (current && k - current.end <= 2) current.end = k
+      else runs.push({ start: k, end: k })
+    }
+
+    const first = firstFilled(radii)
+    const last = lastFilled(radii)
+    const length = last - first + 1
+    let best: SliceRun | null = null
+    let bestScore = 0
+
+    for (const run of runs) {
+      const runLength = run.end - run.start + 1
+      const distanceFromEnd = Math.min(run.start - first, last - run.end)
+      const lengthScore = Math.min(runLength / (0.12 * length), 1)
+      const endScore = Math.max(0, 1 - distanceFromEnd / (0.3 * length))
+      const narrowScore = 1 - mean(radii.slice(run.start, run.end + 1)) / maxRadius
+      const score = 0.35 * lengthScore + 0.35 * endScore + 0.3 * narrowScore
+      if (score > bestScore) {
+        best = run
+        bestScore = score
+      }
+    }
+    if (!best) return null
+
+    // A round pommel or the flare into a guard can pass as grip: trim ends wider than the shaft
+    const shaftRadius = median(radii.slice(best.start, best.end + 1))
+    const maxShaftRadius = this.options.pommelRadiusRatio * shaftRadius
+    while (best.start < best.end && radii[best.start] > maxShaftRadius) best = { ...best, start: best.start + 1 }
+    while (best.end > best.start && radii[best.end] > maxShaftRadius) best = { ...best, end: best.end - 1 }
+
+    // Shafts (staffs, spears) are narrow almost throughout: keep a hand-sized stretch at the outer end
+    const maxSlices = Math.round(maxGripLength * length)
+    if (best.end - best.start + 1 > maxSlices) {
+      const nearLowEnd = best.start - first <= last - best.end
+      best = nearLowEnd
+        ? { start: best.start, end: best.start + maxSlices - 1 }
+        : { start: best.end - maxSlices + 1, end: best.end }
+    }
+    return best
+  }
+
+  /**
+   * Knob between the grip and the weapon's end, wider than the grip
+   */
+  private findPommel(radii: number[], grip: SliceRun, gripRadius: number, nearLowEnd: boolean): SliceRun | null {
+    const run = nearLowEnd
+      ? { start: firstFilled(radii), end: grip.start - 1 }
+      : { start: grip.end + 1, end: lastFilled(radii) }
+    if (run.end < run.start) return null
+
+    const widest = Math.max(...radii.slice(run.start, run.end + 1))
+    return widest >= this.options.pommelRadiusRatio * gripRadius ? run : null
+  }
+
+  /**
+   * Sharp widening just past the grip that narrows again into the blade: a peak with strong
+   * negative curvature in the radius profile
+   */
+  private findGuard(radii: number[], grip: SliceRun, gripRadius: number, nearLowEnd: boolean): SliceRun | null {
+    const direction = nearLowEnd ? 1 : -1
+    const boundary = nearLowEnd ? grip.end + 1 : grip.start - 1
+    const window = Math.max(2, Math.round(0.12 * this.options.slices))
+
+    let peak = -1
+    for (let i = 0; i < window; i++) {
+      const k = boundary + i * direction
+      if (k < 0 || k >= radii.length) break
+      if (peak === -1 || radii[k] > radii[peak]) peak = k
+    }
+    if (peak === -1 || radii[peak] < this.options.guardRadiusRatio * gripRadius) return null
+
+    // The section past the peak must drop again; a head that keeps widening (axe, mace) isn't a guard
+    for (let i = 1; i <= window; i++) {
+      const k = peak + i * direction
+      if (k < 0 || k >= radii.length) break
+      if (radii[k] < 0.8 * radii[peak]) {
+        const end = k - direction
+        return nearLowEnd ? { start: boundary, end } : { start: end, end: boundary }
+      }
+    }
+    return null
+  }
+
+  /**
+   * 0-1 confidence from how round, narrow, uniform and plausibly long the grip is,
+   * and whether a guard or pommel frames it
+   */
+  private scoreGrip(
+    sections: CrossSection[],
+    radii: number[],
+    grip: SliceRun,
+    gripRadius: number,
+    maxRadius: number,
+    framed: boolean
+  ): number {
+    const gripRadii = radii.slice(grip.start, grip.end + 1)
+    const roundness = mean(sections.slice(grip.start, grip.end + 1).map(section => section.roundness))
+    const roundScore = clamp((roundness - this.options.minGripRoundness) / 0.4, 0, 1)
+    const contrastScore = 1 - gripRadius / maxRadius
+
+    const lengthFraction = gripRadii.length / (lastFilled(radii) - firstFilled(radii) + 1)
+    const lengthScore = lengthFraction < 0.06
+      ? lengthFraction / 0.06
+      : lengthFraction > 0.5 ? Math.max(0, 1 - (lengthFraction - 0.5) / 0.3) : 1
+
+    // Curvature of the radius profile inside the grip: a cylinder's is near zero
+    const curvature = gripRadii.slice(1, -1).map((radius, i) => Math.abs(gripRadii[i] - 2 * radius + gripRadii[i + 2]))
+    const uniformityScore = curvature.length > 0 ? clamp(1 - mean(curvature) / (0.25 * gripRadius), 0, 1) : 0.5
+
+    const confidence = 0.25 * roundScore + 0.25 * contrastScore + 0.2 * lengthScore + 0.15 * uniformityScore + 0.15 * (framed ? 1 : 0)
+    return Math.round(clamp(confidence, 0.05, 0.98) * 100) / 100
+  }
+
+  private toSegment(run: SliceRun): WeaponAxisSegment {
+    const { slices } = this.options
+    return {
+      start: Math.round(run.start / slices * 1000) / 1000,
+      end: Math.round((run.end + 1) / slices * 1000) / 1000
+    }
+  }
+
+  /**
+   * Silhouette of the radius profile with the grip boxed in red, like the vision detector's render.
+   * Skipped (empty image) outside the browser.
+   */
+  private drawProfile(
+    radii: number[],
+    maxRadius: number,
+    grip: SliceRun,
+    guard: SliceRun | null,
+    pommel: SliceRun | null,
+    confidence: number
+  ): { annotatedImage: string; redBoxBounds?: GripBounds } {
+    if (typeof document === 'undefined') {
+      return { annotatedImage: '' }
+    }
+
+    const canvas = document.createElement('canvas')
+    canvas.width = IMAGE_SIZE
+    canvas.height = IMAGE_SIZE
+    const ctx = canvas.getContext('2d')!
+    ctx.fillStyle = '#1a1a1a'
+    ctx.fillRect(0, 0, IMAGE_SIZE, IMAGE_SIZE)
+
+    const sliceHeight = (IMAGE_SIZE - 2 * IMAGE_PADDING) / radii.length
+    const halfWidth = (IMAGE_SIZE / 2 - IMAGE_PADDING) / maxRadius
+    const inRun = (run: SliceRun | null, k: number) => !!run && k >= run.start && k <= run.end
+    const sliceTop = (k: number) => IMAGE_SIZE - IMAGE_PADDING - (k + 1) * sliceHeight
+
+    radii.forEach((radius, k) => {
+      ctx.fillStyle = inRun(grip, k) ? '#c08552' : inRun(guard, k) ? '#6b8fd6' : inRun(pommel, k) ? '#9b7bd1' : '#9a9a9a'
+      const width = Math.max(1, radius * halfWidth)
+      ctx.fillRect(IMAGE_SIZE / 2 - width, sliceTop(k), width * 2, Math.ceil(sliceHeight))
+    })
+
+    const gripWidth = Math.max(...radii.slice(grip.start, grip.end + 1)) * halfWidth + 8
+    const minX = IMAGE_SIZE / 2 - gripWidth
+    const maxX = IMAGE_SIZE / 2 + gripWidth
+    const minY = sliceTop(grip.end)
+    const maxY = sliceTop(grip.start) + sliceHeight
+    ctx.strokeStyle = '#FF0000'
+    ctx.lineWidth = 3
+    ctx.strokeRect(minX, minY, maxX - minX, maxY - minY)
+
+    return {
+      annotatedImage: canvas.toDataURL('image/png'),
+      redBoxBounds: { x: minX, y: minY, width: maxX - minX, height: maxY - minY, minX, maxX, minY, maxY, confidence }
+    }
+  }
+}
+
+/**
+ * Convex hull (monotone chain), area, radius and roundness of a section's edge crossings
+ */
+function measureSection(t: number, points: THREE.Vector2[]): CrossSection {
+  const empty = { t, center: new THREE.Vector2(), hull: [], radius: 0, area: 0, roundness: 0 }
+  if (points.length < 3) return empty
+
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y)
+  const cross = (o: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2) =>
+    (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+  const lower: THREE.Vector2[] = []
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop()
+    lower.push(point)
+  }
+  const upper: THREE.Vector2[] = []
+  for (const point of [...sorted].reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop()
+    upper.push(point)
+  }
+  const hull = lower.slice(0, -1).concat(upper.slice(0, -1))
+  if (hull.length < 3) return empty
+
+  let area = 0
+  const center = new THREE.Vector2()
+  hull.forEach((point, i) => {
+    const next = hull[(i + 1) % hull.length]
+    area += point.x * next.y - next.x * point.y
+    center.add(point)
+  })
+  area = Math.abs(area) / 2
+  center.divideScalar(hull.length)
+
+  const radius = Math.max(...hull.map(point => point.distanceTo(center)))
+  const roundness = radius > 0 ? Math.min(area / (Math.PI * radius * radius), 1) : 0
+  return { t, center, hull, radius, area, roundness }
+}
+
+function toWorld(
+  origin: THREE.Vector3,
+  axis: THREE.Vector3,
+  u: THREE.Vector3,
+  w: THREE.Vector3,
+  t: number,
+  point: THREE.Vector2
+): THREE.Vector3 {
+  return origin.clone().addScaledVector(axis, t).addScaledVector(u, point.x).addScaledVector(w, point.y)
+}
+
+// 3-slice moving average over filled sections, so a seam or ring doesn't read as a guard
+function smooth(values: number[]): number[] {
+  return values.map((value, k) => {
+    if (value === 0) return 0
+    const window = [values[k - 1], value, values[k + 1]].filter(neighbour => neighbour !== undefined && neighbour > 0)
+    return mean(window)
+  })
+}
+
+function firstFilled(values: number[]): number {
+  return values.findIndex(value => value > 0)
+}
+
+function lastFilled(values: number[]): number {
+  for (let k = values.length - 1; k >= 0; k--) {
+    if (values[k] > 0) return k
+  }
+  return -1
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
@@ -0,0 +1,189 @@
+/**
+ * Model Import Service
+ * Converts hand-made GLB, glTF (+ .bin and textures) and OBJ (+ .mtl) files to a single GLB
+ */
+
+import * as THREE from 'three'
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js'
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader.js'
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js'
+
+import type { ModelImportFormat, ModelImportSource } from '../../types'
+
+import { AssetNormalizationService, NormalizedAssetResult } from './AssetNormalizationService'
+
+export interface ConvertedModel {
+  glb: ArrayBuffer
+  source: ModelImportSource
+}
+
+interface GLTFJson {
+  buffers?: { uri?: string }[]
+  images?: { uri?: string }[]
+}
+
+const MODEL_EXTENSIONS: Record<string, ModelImportFormat> = {
+  '.glb': 'glb',
+  '.gltf': 'gltf',
+  '.obj': 'obj'
+}
+
+export class ModelImportService {
+  private exporter = new GLTFExporter()
+
+  /**
+   * Convert the selected files to GLB. Exactly one of them must be a .glb, .gltf or .obj;
+   * the rest are the buffers, materials and textures it references.
+   */
+  async convertToGLB(files: File[]): Promise<ConvertedModel> {
+    const modelFiles = files.filter(file => getFormat(file.name))
+    if (modelFiles.length !== 1) {
+      throw new Error(modelFiles.length === 0
+        ? 'Select a .glb, .gltf or .obj file'
+        : `Select only one model file (got ${modelFiles.map(file => file.name).join(', ')})`)
+    }
+
+    const modelFile = modelFiles[0]
+    const format = getFormat(modelFile.name) as ModelImportFormat
+    const source = { format, files: files.map(file => file.name) }
+
+    // GLB is already the library format - keep the original bytes
+    if (format === 'glb') {
+      return { glb: await modelFile.arrayBuffer(), source }
+    }
+
+    const resources = new ResourceMap(files)
+    try {
+      const object = format === 'gltf'
+        ? await this.loadGLTF(modelFile, resources)
+        : await this.loadOBJ(modelFile, resources)
+
+      const glb = await this.exporter.parseAsync(object.scene, {
+        binary: true,
+        animations: object.animations
+      }) as ArrayBuffer
+      return { glb, source }
+    } finally {
+      resources.dispose()
+    }
+  }
+
+  /**
+   * Run the converted model through AssetNormalizationService for the chosen asset type
+   */
+  async normalize(glb: ArrayBuffer, type: string, subtype?: string): Promise<NormalizedAssetResult> {
+    const url = URL.createObjectURL(new Blob([glb], { type: 'model/gltf-binary' }))
+    try {
+      return await new AssetNormalizationService().normalizeAsset(url, type, subtype)
+    } finally {
+      URL.revokeObjectURL(url)
+    }
+  }
+
+  private async loadGLTF(file: File, resources: ResourceMap): Promise<{ scene: THREE.Object3D, animations: THREE.AnimationClip[] }> {
+    const text = await file.text()
+    const json: GLTFJson = JSON.parse(text)
+
+    // Fail with the missing file's name rather than a generic fetch error
+    const uris = [...(json.buffers || []), ...(json.images || [])]
+      .map(entry => entry.uri)
+      .filter((uri): uri is string => !!uri && !uri.startsWith('data:'))
+    resources.assertAvailable(uris, file.name)
+
+    const loader = new GLTFLoader(resources.manager)
+    const gltf = await loader.parseAsync(text, '')
+    return { scene: gltf.scene, animations: gltf.animations }
+  }
+
+  private async loadOBJ(file: File, resources: ResourceMap): Promise<{ scene: THREE.Object3D, animations: THREE.AnimationClip[] }> {
+    const text = await file.text()
+    const objLoader = new OBJLoader(resources.manager)
+
+    const mtlNames = Array.from(text.matchAll(/^mtllib\s+(.+)$/gm), match => match[1].trim())
+    resources.assertAvailable(mtlNames, file.name)
+
+    for (const mtlName of mtlNames) {
+      const mtlText = await resources.getFile(mtlName).text()
+      const materials = new MTLLoader(resources.manager).parse(mtlText, '')
+      resources.assertAvailable(getTextureNames(mtlText), mtlName)
+      materials.preload()
+      objLoader.setMaterials(materials)
+    }
+
+    const scene = objLoader.parse(text)
+    // MTL textures load in the background; the exporter needs their images
+    await resources.waitForLoads()
+    return { scene, animations: [] }
+  }
+}
+
+/**
+ * Serves the selected files to three.js loaders by file name, whatever path a model uses to reference them
+ */
+class ResourceMap {
+  readonly manager = new THREE.LoadingManager()
+  private files = new Map<string, File>()
+  private urls = new Map<string, string>()
+  private loading: Promise<void> | null = null
+
+  constructor(files: File[]) {
+    files.forEach(file => this.files.set(file.name.toLowerCase(), file))
+
+    this.manager.setURLModifier(url => {
+      const file = this.files.get(getFileName(url))
+      if (!file) return url
+
+      const key = file.name.toLowerCase()
+      if (!this.urls.has(key)) {
+        this.urls.set(key, URL.createObjectURL(file))
+      }
+      return this.urls.get(key) as string
+    })
+
+    this.manager.onStart = () => {
+      this.loading = new Promise(resolve => {
+        this.manager.onLoad = resolve
+      })
+    }
+  }
+
+  getFile(reference: string): File {
+    return this.files.get(getFileName(reference)) as File
+  }
+
+  assertAvailable(references: string[], referencedBy: string): void {
+    const missing = references.filter(reference => !this.files.has(getFileName(reference)))
+    if (missing.length > 0) {
+      throw new Error(`${referencedBy} references files that were not selected: ${missing.join(', ')}`)
+    }
+  }
+
+  waitForLoads(): Promise<void> {
+    return this.loading || Promise.resolve()
+  }
+
+  dispose(): void {
+    this.urls.forEach(url => URL.revokeObjectURL(url))
+    this.urls.clear()
+  }
+}
+
+function getFormat(fileName: string): ModelImportFormat | undefined {
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase()
+  return MODEL_EXTENSIONS[extension]
+}
+
+function getFileName(reference: string): string {
+  return decodeURIComponent(reference).split(/[/\\]/).pop()?.toLowerCase() || ''
+}
+
+/**
+ * Texture files named by map_* statements in an MTL file (options such as -s 1 1 1 precede the name)
+ */
+function getTextureNames(mtlText: string): string[] {
+  return Array.from(mtlText.matchAll(/^\s*(?:map_\w+|bump|disp|decal|refl|norm)\s+(.+)$/gim), match => {
+    const parts = match[1].trim().split(/\s+/)
+    return parts[parts.length - 1]
+  })
+}
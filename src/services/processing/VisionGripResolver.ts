@@ -0,0 +1,393 @@
+/**
+ * Vision Grip Resolver
+ * The render-free steps of the vision grip detector: framing the weapon for the camera, turning
+ * the vision model's per-view answers into one consensus box, and back-projecting that box onto
+ * the mesh. WeaponHandleDetector runs them around its renders and API calls; the grip evaluation
+ * script runs them over recorded answers, so consensus changes can be measured without a browser.
+ */
+
+import * as THREE from 'three'
+
+import { GripBounds, GripDetectionData } from '../../types'
+
+// Size of the square renders sent to the vision model, in pixels
+export const DETECTION_IMAGE_SIZE = 512
+
+// Views rendered for consensus detection, turning the weapon about its long axis
+export const CONSENSUS_VIEWS = [
+  { name: 'side', rotation: 0 },
+  { name: 'front', rotation: Math.PI / 2 },
+  { name: 'diagonal', rotation: Math.PI / 4 },
+  { name: 'back', rotation: Math.PI }
+] as const
+
+export type ConsensusView = typeof CONSENSUS_VIEWS[number]['name']
+
+// Different prompting strategies for variety, cycled through the views
+export const CONSENSUS_PROMPT_HINTS = [
+  "Focus on where the hand would naturally grip for combat. The handle is the narrow wrapped section, NOT the blade.",
+  "Identify the handle/hilt area where fingers wrap around. This is NOT the wide flat blade part.",
+  "Find the cylindrical grip section, usually wrapped in leather or cord. Avoid the metallic blade."
+]
+
+/**
+ * What the vision model answered for one consensus detection: whether the weapon had to be
+ * flipped, and the raw grip data per view (null when the request failed)
+ */
+export interface VisionGripRecording {
+  needsFlip: boolean
+  detections: Partial<Record<ConsensusView, GripDetectionData | null>>
+}
+
+// Used when no view gave a plausible answer: where a sword's handle usually sits in the render
+const FALLBACK_GRIP: GripDetectionData = {
+  gripBounds: {
+    minX: 230,
+    minY: 360,
+    maxX: 280,
+    maxY: 440,
+    x: 230,
+    y: 360,
+    width: 50,
+    height: 80
+  },
+  confidence: 0.3,
+  weaponType: "sword",
+  gripDescription: "Fallback handle position"
+}
+
+/**
+ * Center the weapon, stand its longest dimension upright and point the orthographic camera at
+ * it from the side (X axis)
+ */
+export function frameWeaponForDetection(model: THREE.Object3D, camera: THREE.OrthographicCamera): void {
+  const box = new THREE.Box3().setFromObject(model)
+  const size = new THREE.Vector3()
+  box.getSize(size)
+  const center = new THREE.Vector3()
+  box.getCenter(center)
+
+  console.log('Model dimensions:', { x: size.x, y: size.y, z: size.z })
+  console.log('Model center:', { x: center.x, y: center.y, z: center.z })
+
+  // Center the model at origin first
+  model.position.sub(center)
+
+  // Auto-orient weapon vertically if needed
+  const dimensions = [
+    { axis: 'x', size: size.x },
+    { axis: 'y', size: size.y },
+    { axis: 'z', size: size.z }
+  ].sort((a, b) => b.size - a.size)
+
+  console.log('Longest dimension:', dimensions[0].axis, dimensions[0].size)
+
+  // Rotate to make vertical if needed
+  if (dimensions[0].axis !== 'y') {
+    if (dimensions[0].axis === 'x') {
+      model.rotation.z = -Math.PI / 2
+      console.log('Rotating weapon around Z axis')
+    } else if (dimensions[0].axis === 'z') {
+      model.rotation.x = Math.PI / 2
+      console.log('Rotating weapon around X axis')
+    }
+
+    // Recalculate bounds after rotation
+    box.setFromObject(model)
+    box.getSize(size)
+    box.getCenter(center)
+    model.position.set(0, 0, 0)
+    model.position.sub(center)
+  }
+  model.updateMatrixWorld(true)
+
+  // Setup orthographic frustum with padding
+  const maxDim = Math.max(size.x, size.y, size.z)
+  const frustumSize = maxDim * 1.5
+  camera.left = -frustumSize / 2
+  camera.right = frustumSize / 2
+  camera.top = frustumSize / 2
+  camera.bottom = -frustumSize / 2
+  camera.near = -maxDim * 10
+  camera.far = maxDim * 10
+
+  camera.position.set(maxDim * 3, 0, 0)
+  camera.lookAt(0, 0, 0)
+
+  camera.updateProjectionMatrix()
+  camera.updateMatrixWorld(true)
+}
+
+/**
+ * Turn a framed weapon upside down and re-center it
+ */
+export function flipWeaponForDetection(model: THREE.Object3D): void {
+  model.rotation.x += Math.PI
+  model.updateMatrixWorld(true)
+
+  const center = new THREE.Box3().setFromObject(model).getCenter(new THREE.Vector3())
+  model.position.set(0, 0, 0)
+  model.position.sub(center)
+  model.updateMatrixWorld(true)
+}
+
+/**
+ * Whether a view's box can be a handle: below the blade, above the pommel and hand-sized
+ */
+export function isPlausibleGripDetection(bounds: GripBounds): boolean {
+  return bounds.minY > 200 && // Not in top 40% (blade area)
+    bounds.maxY < 500 && // Not at very bottom (pommel)
+    (bounds.maxX - bounds.minX) < 150 && // Not too wide
+    (bounds.maxY - bounds.minY) < 150    // Not too tall
+}
+
+/**
+ * One grip box from the views' answers: the average of the plausible, high-confidence ones
+ */
+export function buildGripConsensus(responses: { angle: string, gripData: GripDetectionData | null }[]): GripDetectionData {
+  const allDetections: GripDetectionData[] = []
+
+  for (const { angle, gripData } of responses) {
+    if (!gripData) continue
+
+    if (isPlausibleGripDetection(gripData.gripBounds)) {
+      allDetections.push(gripData)
+    } else {
+      console.warn(`Invalid detection from angle ${angle}: bounds outside handle area`)
+    }
+  }
+
+  console.log(`Got ${allDetections.length} valid detections`)
+
+  if (allDetections.length === 0) {
+    console.warn('No valid detections, using fallback position')
+    return { ...FALLBACK_GRIP, gripBounds: { ...FALLBACK_GRIP.gripBounds } }
+  }
+
+  // Find consensus by averaging high-confidence results
+  const highConfidenceDetections = allDetections.filter(d => d.confidence >= 0.7)
+  const detectionsToUse = highConfidenceDetections.length >= 2 ? highConfidenceDetections : allDetections
+
+  // Calculate average bounds
+  const avgBounds: GripBounds = {
+    minX: 0, minY: 0, maxX: 0, maxY: 0,
+    x: 0, y: 0, width: 0, height: 0
+  }
+
+  for (const detection of detectionsToUse) {
+    avgBounds.minX += detection.gripBounds.minX
+    avgBounds.minY += detection.gripBounds.minY
+    avgBounds.maxX += detection.gripBounds.maxX
+    avgBounds.maxY += detection.gripBounds.maxY
+  }
+
+  const count = detectionsToUse.length
+  avgBounds.minX = Math.round(avgBounds.minX / count)
+  avgBounds.minY = Math.round(avgBounds.minY / count)
+  avgBounds.maxX = Math.round(avgBounds.maxX / count)
+  avgBounds.maxY = Math.round(avgBounds.maxY / count)
+
+  // Final validation
+  if (avgBounds.minY < 250) {
+    console.warn('Consensus still detecting blade area, forcing to handle region')
+    const height = avgBounds.maxY - avgBounds.minY
+    avgBounds.minY = 350
+    avgBounds.maxY = avgBounds.minY + height
+  }
+
+  // Calculate x, y, width, height from min/max values
+  avgBounds.x = avgBounds.minX
+  avgBounds.y = avgBounds.minY
+  avgBounds.width = avgBounds.maxX - avgBounds.minX
+  avgBounds.height = avgBounds.maxY - avgBounds.minY
+
+  // Calculate average confidence
+  const avgConfidence = detectionsToUse.reduce((sum, d) => sum + d.confidence, 0) / count
+
+  // Get most common weapon type
+  const weaponTypes = detectionsToUse.map(d => d.weaponType)
+  const weaponType = weaponTypes.sort((a, b) =>
+    weaponTypes.filter(t => t === a).length - weaponTypes.filter(t => t === b).length
+  ).pop()
+
+  console.log('Consensus result:', {
+    bounds: avgBounds,
+    confidence: avgConfidence,
+    weaponType: weaponType,
+    basedOn: `${count} detections`
+  })
+
+  return {
+    gripBounds: avgBounds,
+    confidence: avgConfidence,
+    weaponType: weaponType,
+    gripDescription: `Consensus from ${count} AI detections`
+  }
+}
+
+/**
+ * 3D grip point of a framed weapon from a grip box in render pixels, with the mesh points it was
+ * averaged from
+ */
+export function resolveGripPoint(
+  gripBounds: GripBounds,
+  model: THREE.Object3D,
+  camera: THREE.OrthographicCamera
+): { gripPoint: THREE.Vector3, vertices: THREE.Vector3[] } {
+  // Convert pixel coordinates to normalized bounds
+  const normalizedBounds = {
+    minX: gripBounds.minX / DETECTION_IMAGE_SIZE,
+    maxX: gripBounds.maxX / DETECTION_IMAGE_SIZE,
+    minY: gripBounds.minY / DETECTION_IMAGE_SIZE,
+    maxY: gripBounds.maxY / DETECTION_IMAGE_SIZE
+  }
+
+  const vertices = backProjectTo3D(normalizedBounds, model, camera)
+  const gripPoint = calculateGripCenter(vertices)
+
+  const modelBounds = new THREE.Box3().setFromObject(model)
+  const modelSize = new THREE.Vector3()
+  modelBounds.getSize(modelSize)
+
+  // Check if grip point is within reasonable bounds
+  const isValid = gripPoint.x !== 0 || gripPoint.y !== 0 || gripPoint.z !== 0
+
+  if (!isValid) {
+    console.warn('Invalid grip point detected, using fallback position')
+
+    // Use a reasonable default based on the detected red box position
+    const gripY = modelBounds.min.y + modelSize.y * ((gripBounds.minY + gripBounds.maxY) / 2 / DETECTION_IMAGE_SIZE)
+    gripPoint.set(0, gripY, 0)
+
+    console.log('Fallback grip point:', gripPoint)
+  }
+
+  // Ensure grip point is not too far from the model
+  const distanceFromCenter = gripPoint.length()
+  if (distanceFromCenter > modelSize.length()) {
+    console.warn('Grip point too far from model center, clamping')
+    gripPoint.multiplyScalar(modelSize.length() / distanceFromCenter)
+  }
+
+  return { gripPoint, vertices }
+}
+
+/**
+ * Cast rays through a box of the render (normalized 0-1 screen coordinates) and collect where
+ * they hit the mesh
+ */
+function backProjectTo3D(
+  bounds: { minX: number, minY: number, maxX: number, maxY: number },
+  model: THREE.Object3D,
+  camera: THREE.OrthographicCamera
+): THREE.Vector3[] {
+  console.log('🎯 Starting back-projection with bounds:', bounds)
+
+  const vertices: THREE.Vector3[] = []
+  const raycaster = new THREE.Raycaster()
+
+  // Ensure the model and all its children are updated
+  model.updateMatrixWorld(true)
+
+  // Force update camera matrices
+  camera.updateMatrixWorld(true)
+  camera.updateProjectionMatrix()
+
+  // Get all meshes in the model
+  const meshes: THREE.Mesh[] = []
+  model.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      meshes.push(child)
+    }
+  })
+
+  console.log(`Found ${meshes.length} meshes in model`)
+
+  // Sample points within the red box bounds
+  const sampleCount = 30
+
+  // Use weighted sampling - more samples in the center
+  for (let i = 0; i <= sampleCount; i++) {
+    for (let j = 0; j <= sampleCount; j++) {
+      // Add slight bias towards center for better consistency
+      const centerBias = 0.8
+      const u = 0.5 + (i / sampleCount - 0.5) * centerBias
+      const v = 0.5 + (j / sampleCount - 0.5) * centerBias
+
+      // Calculate screen coordinates within the red box
+      const screenX = bounds.minX + (bounds.maxX - bounds.minX) * u
+      const screenY = bounds.minY + (bounds.maxY - bounds.minY) * v
+
+      // Convert to NDC (-1 to 1), flipping Y
+      raycaster.setFromCamera(new THREE.Vector2((screenX * 2) - 1, 1 - (screenY * 2)), camera)
+
+      const intersects = raycaster.intersectObjects(meshes, true)
+      if (intersects.length > 0) {
+        vertices.push(intersects[0].point.clone())
+      }
+    }
+  }
+
+  console.log(`Back-projection found ${vertices.length} hits out of ${(sampleCount + 1) * (sampleCount + 1)} samples`)
+
+  // If we found some hits but not many, also sample the exact center
+  if (vertices.length > 0 && vertices.length < 50) {
+    const centerX = (bounds.minX + bounds.maxX) / 2
+    const centerY = (bounds.minY + bounds.maxY) / 2
+
+    raycaster.setFromCamera(new THREE.Vector2((centerX * 2) - 1, 1 - (centerY * 2)), camera)
+    const centerIntersects = raycaster.intersectObjects(meshes, true)
+
+    if (centerIntersects.length > 0) {
+      // Add center point multiple times to give it more weight
+      for (let i = 0; i < 5; i++) {
+        vertices.push(centerIntersects[0].point.clone())
+      }
+      console.log('Added center point for stability:', centerIntersects[0].point)
+    }
+  }
+
+  return vertices
+}
+
+/**
+ * Average of the back-projected points, ignoring outliers far from the rest
+ */
+function calculateGripCenter(vertices: THREE.Vector3[]): THREE.Vector3 {
+  if (vertices.length === 0) {
+    console.warn('No vertices found for grip center calculation')
+    return new THREE.Vector3(0, 0, 0)
+  }
+
+  // First, calculate the initial center
+  const initialCenter = new THREE.Vector3()
+  for (const vertex of vertices) {
+    initialCenter.add(vertex)
+  }
+  initialCenter.divideScalar(vertices.length)
+
+  // Filter out outliers (points too far from the initial center)
+  const maxDistance = 0.2 // Maximum distance from center in world units
+  const filteredVertices = vertices.filter(vertex => vertex.distanceTo(initialCenter) <= maxDistance)
+
+  // If we filtered out too many points, use all vertices
+  const finalVertices = filteredVertices.length >= vertices.length * 0.3
+    ? filteredVertices
+    : vertices
+
+  // Calculate the final center from filtered vertices
+  const center = new THREE.Vector3()
+  for (const vertex of finalVertices) {
+    center.add(vertex)
+  }
+  center.divideScalar(finalVertices.length)
+
+  // Round to 3 decimal places for consistency
+  center.x = Math.round(center.x * 1000) / 1000
+  center.y = Math.round(center.y * 1000) / 1000
+  center.z = Math.round(center.z * 1000) / 1000
+
+  console.log(`Grip center calculated from ${finalVertices.length} vertices (filtered from ${vertices.length})`)
+
+  return center
+}
@@ -2,7 +2,17 @@ import * as THREE from 'three'
 import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js'
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
 
-import { GripBounds, GripCoordinates, GripDetectionData } from '../../types'
+import { GripBounds, GripCoordinates, GripDetectionData, GripDetectionMethod, WeaponPartSegments } from '../../types'
+
+import {
+  CONSENSUS_PROMPT_HINTS,
+  CONSENSUS_VIEWS,
+  VisionGripRecording,
+  buildGripConsensus,
+  flipWeaponForDetection,
+  frameWeaponForDetection,
+  resolveGripPoint
+} from './VisionGripResolver'
 
 import { apiFetch } from '@/utils/api'
 
@@ -13,22 +23,20 @@ interface HandleDetectionResult {
   annotatedImage: string
   redBoxBounds?: GripBounds
   orientationFlipped?: boolean
+  method?: GripDetectionMethod
+  parts?: WeaponPartSegments  // Grip, guard and pommel found along the weapon (geometry only)
 }
 
 export type { HandleDetectionResult }
 
-interface RedPixelBounds {
-  minX: number
-  minY: number
-  maxX: number
-  maxY: number
-}
-
 export class WeaponHandleDetector {
   private renderer: THREE.WebGLRenderer
   private scene: THREE.Scene
   private camera: THREE.OrthographicCamera
   private loader: GLTFLoader
+
+  // Raw answers behind the last consensus detection, in the grip evaluation dataset's format
+  lastVisionRecording: VisionGripRecording | null = null
   
   constructor() {
     // Initialize Three.js components
@@ -58,6 +66,7 @@ export class WeaponHandleDetector {
     if (!this.scene || !this.camera || !this.renderer || !this.loader) {
       throw new Error('WeaponHandleDetector not properly initialized')
     }
+    this.lastVisionRecording = null
     
     // 1. Load the GLB model
     const model = await this.loadModel(modelUrl)
@@ -73,7 +82,7 @@ export class WeaponHandleDetector {
       const multiAngleCanvases = this.renderMultipleAngles(model)
       
       // Get consensus from multiple AI detections
-      gripData = await this.getConsensusGripCoordinates(multiAngleCanvases)
+      gripData = await this.getConsensusGripCoordinates(multiAngleCanvases, orientationFlipped)
       
       if (!gripData) {
         throw new Error('Failed to detect grip coordinates')
@@ -104,44 +113,8 @@ export class WeaponHandleDetector {
       annotatedImage = annotatedCanvas.toDataURL('image/png')
     }
     
-    // Convert pixel coordinates to normalized bounds
-    const normalizedBounds = {
-      minX: gripData.gripBounds.minX / 512,
-      maxX: gripData.gripBounds.maxX / 512,
-      minY: gripData.gripBounds.minY / 512,
-      maxY: gripData.gripBounds.maxY / 512
-    }
-    
-    // Back-project to 3D
-    const handle3DRegion = this.backProjectTo3D(normalizedBounds, model)
-    
-    // Calculate grip center
-    const gripPoint = this.calculateGripCenter(handle3DRegion)
-    
-    // Validate the grip point
-    const modelBounds = new THREE.Box3().setFromObject(model)
-    const modelSize = new THREE.Vector3()
-    modelBounds.getSize(modelSize)
-    
-    // Check if grip point is within reasonable bounds
-    const isValid = gripPoint.x !== 0 || gripPoint.y !== 0 || gripPoint.z !== 0
-    
-    if (!isValid) {
-      console.warn('Invalid grip point detected, using fallback position')
-      
-      // Use a reasonable default based on the detected red box position
-      const gripY = modelBounds.min.y + modelSize.y * ((gripData.gripBounds.minY + gripData.gripBounds.maxY) / 2 / 512)
-      gripPoint.set(0, gripY, 0)
-      
-      console.log('Fallback grip point:', gripPoint)
-    }
-    
-    // Ensure grip point is not too far from the model
-    const distanceFromCenter = gripPoint.length()
-    if (distanceFromCenter > modelSize.length()) {
-      console.warn('Grip point too far from model center, clamping')
-      gripPoint.multiplyScalar(modelSize.length() / distanceFromCenter)
-    }
+    // Back-project the box onto the mesh and take its center
+    const { gripPoint, vertices: handle3DRegion } = resolveGripPoint(gripData.gripBounds, model, this.camera)
     
     // Clean up - remove model and lights from scene
     if (model && model.parent === this.scene) {
@@ -166,7 +139,8 @@ export class WeaponHandleDetector {
       confidence: gripData.confidence || 0.85,
       annotatedImage,
       redBoxBounds: gripData.gripBounds,
-      orientationFlipped: orientationFlipped
+      orientationFlipped: orientationFlipped,
+      method: 'vision'
     }
   }
   
@@ -300,44 +274,7 @@ export class WeaponHandleDetector {
   private async setupOrthographicCamera(model: THREE.Object3D): Promise<boolean> {
     console.log('📐 Setting up orthographic camera for weapon')
     
-    const box = new THREE.Box3().setFromObject(model)
-    const size = new THREE.Vector3()
-    box.getSize(size)
-    const center = new THREE.Vector3()
-    box.getCenter(center)
-    
-    console.log('Model dimensions:', { x: size.x, y: size.y, z: size.z })
-    console.log('Model center:', { x: center.x, y: center.y, z: center.z })
-    
-    // Center the model at origin first
-    model.position.sub(center)
-    
-    // Auto-orient weapon vertically if needed
-    const dimensions = [
-      { axis: 'x', size: size.x },
-      { axis: 'y', size: size.y },
-      { axis: 'z', size: size.z }
-    ].sort((a, b) => b.size - a.size)
-    
-    console.log('Longest dimension:', dimensions[0].axis, dimensions[0].size)
-    
-    // Rotate to make vertical if needed
-    if (dimensions[0].axis !== 'y') {
-      if (dimensions[0].axis === 'x') {
-        model.rotation.z = -Math.PI / 2
-        console.log('Rotating weapon around Z axis')
-      } else if (dimensions[0].axis === 'z') {
-        model.rotation.x = Math.PI / 2
-        console.log('Rotating weapon around X axis')
-      }
-      
-      // Recalculate bounds after rotation
-      box.setFromObject(model)
-      box.getSize(size)
-      box.getCenter(center)
-      model.position.set(0, 0, 0)
-      model.position.sub(center)
-    }
+    frameWeaponForDetection(model, this.camera)
     
     // Add lighting for better visibility
     const ambientLight = new THREE.AmbientLight(0xffffff, 0.8)
@@ -359,25 +296,6 @@ export class WeaponHandleDetector {
     this.scene.add(model)
     model.updateMatrixWorld(true)
     
-    // Determine camera distance
-    const maxDim = Math.max(size.x, size.y, size.z)
-    
-    // Setup orthographic frustum with padding
-    const frustumSize = maxDim * 1.5
-    this.camera.left = -frustumSize / 2
-    this.camera.right = frustumSize / 2
-    this.camera.top = frustumSize / 2
-    this.camera.bottom = -frustumSize / 2
-    this.camera.near = -maxDim * 10
-    this.camera.far = maxDim * 10
-    
-    // Position camera to look at the weapon from the side (X axis)
-    this.camera.position.set(maxDim * 3, 0, 0)
-    this.camera.lookAt(0, 0, 0)
-    
-    this.camera.updateProjectionMatrix()
-    this.camera.updateMatrixWorld(true)
-    
     // Render once to check orientation
     this.renderer.clear()
     this.renderer.render(this.scene, this.camera)
@@ -393,14 +311,7 @@ export class WeaponHandleDetector {
     
     if (needsFlip) {
       console.log('🔄 Flipping weapon 180 degrees based on AI detection')
-      model.rotation.x += Math.PI
-      model.updateMatrixWorld(true)
-      
-      // Re-center after flip
-      box.setFromObject(model)
-      box.getCenter(center)
-      model.position.set(0, 0, 0)
-      model.position.sub(center)
+      flipWeaponForDetection(model)
       return true
     }
     
@@ -650,25 +561,20 @@ export class WeaponHandleDetector {
     }
   }
   
-  private async getConsensusGripCoordinates(canvases: { angle: string, canvas: HTMLCanvasElement }[]): Promise<GripDetectionData | null> {
+  private async getConsensusGripCoordinates(
+    canvases: { angle: string, canvas: HTMLCanvasElement }[],
+    needsFlip: boolean
+  ): Promise<GripDetectionData | null> {
     console.log('🤖 Running multi-AI consensus detection...')
     
-    const allDetections: GripDetectionData[] = []
-    
-    // Different prompting strategies for variety
-    const promptVariations = [
-      "Focus on where the hand would naturally grip for combat. The handle is the narrow wrapped section, NOT the blade.",
-      "Identify the handle/hilt area where fingers wrap around. This is NOT the wide flat blade part.",
-      "Find the cylindrical grip section, usually wrapped in leather or cord. Avoid the metallic blade."
-    ]
+    const responses: { angle: string, gripData: GripDetectionData | null }[] = []
     
     // Get detections from multiple angles and prompts
-    for (const { angle, canvas } of canvases) {
-      const promptIndex = canvases.indexOf(canvases.find(c => c.angle === angle)!) % promptVariations.length
-      
+    for (const [index, { angle, canvas }] of canvases.entries()) {
       // Preprocess each canvas
       const processedCanvas = this.preprocessCanvas(canvas)
       const base64Image = processedCanvas.toDataURL('image/png')
+      let gripData: GripDetectionData | null = null
       
       try {
         const response = await apiFetch('/api/weapon-handle-detect', {
@@ -677,119 +583,28 @@ export class WeaponHandleDetector {
           body: JSON.stringify({ 
             image: base64Image,
             angle: angle,
-            promptHint: promptVariations[promptIndex]
+            promptHint: CONSENSUS_PROMPT_HINTS[index % CONSENSUS_PROMPT_HINTS.length]
           })
         })
         
         if (response.ok) {
           const data = await response.json()
           if (data.success && data.gripData) {
-            const gripData = data.gripData
-            
-            // Validate this detection
-            const bounds = gripData.gripBounds
-            const isValidDetection = bounds.minY > 200 && // Not in top 40% (blade area)
-                                    bounds.maxY < 500 && // Not at very bottom (pommel)
-                                    (bounds.maxX - bounds.minX) < 150 && // Not too wide
-                                    (bounds.maxY - bounds.minY) < 150    // Not too tall
-            
-            if (isValidDetection) {
-              allDetections.push({
-                ...gripData,
-                angle: angle,
-                promptUsed: promptIndex
-              })
-            } else {
-              console.warn(`Invalid detection from angle ${angle}: bounds outside handle area`)
-            }
+            gripData = data.gripData
           }
         }
       } catch (error) {
         console.warn(`Detection failed for angle ${angle}:`, error)
       }
+      responses.push({ angle, gripData })
     }
     
-    console.log(`Got ${allDetections.length} valid detections`)
-    
-    if (allDetections.length === 0) {
-      // Fallback: use a reasonable default for sword handle
-      console.warn('No valid detections, using fallback position')
-      return {
-        gripBounds: { 
-          minX: 230, 
-          minY: 360, 
-          maxX: 280, 
-          maxY: 440,
-          x: 230,
-          y: 360,
-          width: 50,
-          height: 80
-        },
-        confidence: 0.3,
-        weaponType: "sword",
-        gripDescription: "Fallback handle position"
-      }
-    }
-    
-    // Find consensus by averaging high-confidence results
-    const highConfidenceDetections = allDetections.filter(d => d.confidence >= 0.7)
-    const detectionsToUse = highConfidenceDetections.length >= 2 ? highConfidenceDetections : allDetections
-    
-    // Calculate average bounds
-    const avgBounds: GripBounds = {
-      minX: 0, minY: 0, maxX: 0, maxY: 0,
-      x: 0, y: 0, width: 0, height: 0
-    }
-    
-    for (const detection of detectionsToUse) {
-      avgBounds.minX += detection.gripBounds.minX
-      avgBounds.minY += detection.gripBounds.minY
-      avgBounds.maxX += detection.gripBounds.maxX
-      avgBounds.maxY += detection.gripBounds.maxY
+    this.lastVisionRecording = {
+      needsFlip,
+      detections: Object.fromEntries(responses.map(({ angle, gripData }) => [angle, gripData]))
     }
     
-    const count = detectionsToUse.length
-    avgBounds.minX = Math.round(avgBounds.minX / count)
-    avgBounds.minY = Math.round(avgBounds.minY / count)
-    avgBounds.maxX = Math.round(avgBounds.maxX / count)
-    avgBounds.maxY = Math.round(avgBounds.maxY / count)
-    
-    // Final validation
-    if (avgBounds.minY < 250) {
-      console.warn('Consensus still detecting blade area, forcing to handle region')
-      const height = avgBounds.maxY - avgBounds.minY
-      avgBounds.minY = 350
-      avgBounds.maxY = avgBounds.minY + height
-    }
-    
-    // Calculate x, y, width, height from min/max values
-    avgBounds.x = avgBounds.minX
-    avgBounds.y = avgBounds.minY
-    avgBounds.width = avgBounds.maxX - avgBounds.minX
-    avgBounds.height = avgBounds.maxY - avgBounds.minY
-    
-    // Calculate average confidence
-    const avgConfidence = detectionsToUse.reduce((sum, d) => sum + d.confidence, 0) / count
-    
-    // Get most common weapon type
-    const weaponTypes = detectionsToUse.map(d => d.weaponType)
-    const weaponType = weaponTypes.sort((a, b) => 
-      weaponTypes.filter(t => t === a).length - weaponTypes.filter(t => t === b).length
-    ).pop()
-    
-    console.log('Consensus result:', {
-      bounds: avgBounds,
-      confidence: avgConfidence,
-      weaponType: weaponType,
-      basedOn: `${count} detections`
-    })
-    
-    return {
-      gripBounds: avgBounds,
-      confidence: avgConfidence,
-      weaponType: weaponType,
-      gripDescription: `Consensus from ${count} AI detections`
-    }
+    return buildGripConsensus(responses)
   }
   
   private drawGripArea(canvas: HTMLCanvasElement, gripBounds: GripBounds): HTMLCanvasElement {
@@ -823,193 +638,13 @@ export class WeaponHandleDetector {
     return annotatedCanvas
   }
   
-  private backProjectTo3D(
-    redBoxBounds: RedPixelBounds,
-    model: THREE.Object3D
-  ): THREE.Vector3[] {
-    console.log('🎯 Starting back-projection with bounds:', redBoxBounds)
-    
-    const vertices: THREE.Vector3[] = []
-    const raycaster = new THREE.Raycaster()
-    
-    // Ensure the model and all its children are updated
-    model.updateMatrixWorld(true)
-    
-    // Force update camera matrices
-    this.camera.updateMatrixWorld(true)
-    this.camera.updateProjectionMatrix()
-    
-    // Get all meshes in the model
-    const meshes: THREE.Mesh[] = []
-    model.traverse((child) => {
-      if (child instanceof THREE.Mesh) {
-        child.updateMatrixWorld(true)
-        meshes.push(child)
-      }
-    })
-    
-    console.log(`Found ${meshes.length} meshes in model`)
-    
-    // Debug: Check mesh bounds
-    if (meshes.length > 0) {
-      const meshBounds = new THREE.Box3().setFromObject(meshes[0])
-      console.log('First mesh bounds:', {
-        min: { x: meshBounds.min.x, y: meshBounds.min.y, z: meshBounds.min.z },
-        max: { x: meshBounds.max.x, y: meshBounds.max.y, z: meshBounds.max.z }
-      })
-      
-      // Debug camera position and direction
-      console.log('Camera position:', {
-        x: this.camera.position.x,
-        y: this.camera.position.y,
-        z: this.camera.position.z
-      })
-      
-      // Test direct ray from camera to mesh center
-      const meshCenter = new THREE.Vector3()
-      meshBounds.getCenter(meshCenter)
-      console.log('Mesh center:', { x: meshCenter.x, y: meshCenter.y, z: meshCenter.z })
-      
-      // Shoot a test ray directly at mesh center
-      const testRaycaster = new THREE.Raycaster()
-      const rayOrigin = this.camera.position.clone()
-      const rayDir = meshCenter.clone().sub(rayOrigin).normalize()
-      
-      testRaycaster.set(rayOrigin, rayDir)
-      const testIntersects = testRaycaster.intersectObjects(meshes, true)
-      console.log(`Test ray from camera to mesh center: ${testIntersects.length} hits`)
-      
-      if (testIntersects.length > 0) {
-        console.log('Test hit at:', testIntersects[0].point)
-      }
-    }
-    
-    // Sample points within the red box bounds
-    const sampleCount = 30 // Increase sample density
-    let hitCount = 0
-    
-    // Use weighted sampling - more samples in the center
-    for (let i = 0; i <= sampleCount; i++) {
-      for (let j = 0; j <= sampleCount; j++) {
-        // Convert normalized coordinates to screen space
-        const u = i / sampleCount
-        const v = j / sampleCount
-        
-        // Add slight bias towards center for better consistency
-        const centerBias = 0.8
-        const uBiased = 0.5 + (u - 0.5) * centerBias
-        const vBiased = 0.5 + (v - 0.5) * centerBias
-        
-        // Calculate screen coordinates within the red box
-        const screenX = redBoxBounds.minX + (redBoxBounds.maxX - redBoxBounds.minX) * uBiased
-        const screenY = redBoxBounds.minY + (redBoxBounds.maxY - redBoxBounds.minY) * vBiased
-        
-        // Convert to NDC (-1 to 1)
-        const ndcX = (screenX * 2) - 1
-        const ndcY = 1 - (screenY * 2) // Flip Y
-        
-        // Use Three.js built-in method which handles orthographic cameras correctly
-        raycaster.setFromCamera(new THREE.Vector2(ndcX, ndcY), this.camera)
-        
-        // Find intersections with all meshes
-        const intersects = raycaster.intersectObjects(meshes, true)
-        
-        if (intersects.length > 0) {
-          // Add the first intersection point
-          const point = intersects[0].point.clone()
-          vertices.push(point)
-          hitCount++
-          
-          // Debug first few hits
-          if (hitCount <= 3) {
-            console.log(`Hit ${hitCount} at screen (${screenX.toFixed(3)}, ${screenY.toFixed(3)}) -> world (${point.x.toFixed(3)}, ${point.y.toFixed(3)}, ${point.z.toFixed(3)})`)
-          }
-        }
-      }
-    }
-    
-    console.log(`Back-projection found ${hitCount} hits out of ${(sampleCount + 1) * (sampleCount + 1)} samples`)
-    
-    // If we found some hits but not many, also sample the exact center
-    if (vertices.length > 0 && vertices.length < 50) {
-      const centerX = (redBoxBounds.minX + redBoxBounds.maxX) / 2
-      const centerY = (redBoxBounds.minY + redBoxBounds.maxY) / 2
-      
-      const ndcX = (centerX * 2) - 1
-      const ndcY = 1 - (centerY * 2)
-      
-      raycaster.setFromCamera(new THREE.Vector2(ndcX, ndcY), this.camera)
-      const centerIntersects = raycaster.intersectObjects(meshes, true)
-      
-      if (centerIntersects.length > 0) {
-        // Add center point multiple times to give it more weight
-        for (let i = 0; i < 5; i++) {
-          vertices.push(centerIntersects[0].point.clone())
-        }
-        console.log('Added center point for stability:', centerIntersects[0].point)
-      }
-    }
-    
-    return vertices
-  }
-  
-  private calculateGripCenter(vertices: THREE.Vector3[]): THREE.Vector3 {
-    if (vertices.length === 0) {
-      console.warn('No vertices found for grip center calculation')
-      return new THREE.Vector3(0, 0, 0)
-    }
-    
-    // First, calculate the initial center
-    const initialCenter = new THREE.Vector3()
-    for (const vertex of vertices) {
-      initialCenter.add(vertex)
-    }
-    initialCenter.divideScalar(vertices.length)
-    
-    // Filter out outliers (points too far from the initial center)
-    const maxDistance = 0.2 // Maximum distance from center in world units
-    const filteredVertices = vertices.filter(vertex => {
-      const distance = vertex.distanceTo(initialCenter)
-      return distance <= maxDistance
-    })
-    
-    // If we filtered out too many points, use all vertices
-    const finalVertices = filteredVertices.length >= vertices.length * 0.3 
-      ? filteredVertices 
-      : vertices
-    
-    // Calculate the final center from filtered vertices
-    const center = new THREE.Vector3()
-    for (const vertex of finalVertices) {
-      center.add(vertex)
-    }
-    center.divideScalar(finalVertices.length)
-    
-    // Round to 3 decimal places for consistency
-    center.x = Math.round(center.x * 1000) / 1000
-    center.y = Math.round(center.y * 1000) / 1000
-    center.z = Math.round(center.z * 1000) / 1000
-    
-    console.log(`Grip center calculated from ${finalVertices.length} vertices (filtered from ${vertices.length})`)
-    console.log(`Final grip center: (${center.x}, ${center.y}, ${center.z})`)
-    
-    return center
-  }
-  
   private renderMultipleAngles(model: THREE.Object3D): { angle: string, canvas: HTMLCanvasElement }[] {
-    const angles = [
-      { name: 'side', rotation: 0 },
-      { name: 'front', rotation: Math.PI / 2 },
-      { name: 'diagonal', rotation: Math.PI / 4 },
-      { name: 'back', rotation: Math.PI }
-    ]
-    
     const results: { angle: string, canvas: HTMLCanvasElement }[] = []
     
     // Store original rotation
     const originalRotation = model.rotation.y
     
-    for (const angle of angles) {
+    for (const angle of CONSENSUS_VIEWS) {
       // Rotate model
       model.rotation.y = angle.rotation
       model.updateMatrixWorld(true)
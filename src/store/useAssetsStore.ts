@@ -1,9 +1,11 @@
 import { create } from 'zustand'
 import { devtools, persist, subscribeWithSelector } from 'zustand/middleware'
-import { immer } from 'zustand/middleware/immer'
+import { immer } from 'zustand/middleware/immer'
 
 import { Asset } from '../types'
 
+import type { AssetQuery, AssetSortField } from '@/services/api/AssetService'
+
 export interface ModelInfo {
   vertices: number
   faces: number
@@ -19,6 +21,14 @@ interface AssetsState {
   searchTerm: string
   typeFilter: string
   materialFilter: string
+  subtypeFilter: string
+  tierFilter: string
+  kindFilter: '' | 'base' | 'variant'
+  riggedFilter: '' | 'rigged' | 'unrigged'
+  dateFrom: string
+  dateTo: string
+  sortField: AssetSortField
+  sortOrder: 'asc' | 'desc'
   
   // Viewer States
   showGroundPlane: boolean
@@ -28,15 +38,26 @@ interface AssetsState {
   showRegenerateModal: boolean
   showDetailsPanel: boolean
   showEditModal: boolean
+  showImportModal: boolean
   isTransitioning: boolean
   modelInfo: ModelInfo | null
   showAnimationView: boolean
+  // Bumped when the selected asset's files change on disk so the viewer refetches the model
+  modelVersion: number
   
   // Actions
   setSelectedAsset: (asset: Asset | null) => void
   setSearchTerm: (term: string) => void
   setTypeFilter: (type: string) => void
   setMaterialFilter: (material: string) => void
+  setSubtypeFilter: (subtype: string) => void
+  setTierFilter: (tier: string) => void
+  setKindFilter: (kind: '' | 'base' | 'variant') => void
+  setRiggedFilter: (rigged: '' | 'rigged' | 'unrigged') => void
+  setDateFrom: (date: string) => void
+  setDateTo: (date: string) => void
+  setSortField: (field: AssetSortField) => void
+  setSortOrder: (order: 'asc' | 'desc') => void
   setShowGroundPlane: (show: boolean) => void
   setIsWireframe: (wireframe: boolean) => void
   setIsLightBackground: (light: boolean) => void
@@ -44,9 +65,11 @@ interface AssetsState {
   setShowRegenerateModal: (show: boolean) => void
   setShowDetailsPanel: (show: boolean) => void
   setShowEditModal: (show: boolean) => void
+  setShowImportModal: (show: boolean) => void
   setIsTransitioning: (transitioning: boolean) => void
   setModelInfo: (info: ModelInfo | null) => void
   setShowAnimationView: (show: boolean) => void
+  bumpModelVersion: () => void
   
   // Toggle Actions
   toggleGroundPlane: () => void
@@ -60,9 +83,10 @@ interface AssetsState {
   clearSelection: () => void
   resetViewerSettings: () => void
   closeAllModals: () => void
+  clearFilters: () => void
   
   // Computed Values
-  getFilteredAssets: (assets: Asset[]) => Asset[]
+  getAssetQuery: () => AssetQuery
 }
 
 export const useAssetsStore = create<AssetsState>()(
@@ -75,6 +99,14 @@ export const useAssetsStore = create<AssetsState>()(
           searchTerm: '',
           typeFilter: '',
           materialFilter: '',
+          subtypeFilter: '',
+          tierFilter: '',
+          kindFilter: '',
+          riggedFilter: '',
+          dateFrom: '',
+          dateTo: '',
+          sortField: 'generatedAt',
+          sortOrder: 'desc',
           showGroundPlane: false,
           isWireframe: false,
           isLightBackground: false,
@@ -82,9 +114,11 @@ export const useAssetsStore = create<AssetsState>()(
           showRegenerateModal: false,
           showDetailsPanel: false,
           showEditModal: false,
+          showImportModal: false,
           isTransitioning: false,
           modelInfo: null,
           showAnimationView: false,
+          modelVersion: 0,
           
           // Basic Actions
           setSelectedAsset: (asset) => set(state => {
@@ -103,6 +137,38 @@ export const useAssetsStore = create<AssetsState>()(
             state.materialFilter = material
           }),
           
+          setSubtypeFilter: (subtype) => set(state => {
+            state.subtypeFilter = subtype
+          }),
+          
+          setTierFilter: (tier) => set(state => {
+            state.tierFilter = tier
+          }),
+          
+          setKindFilter: (kind) => set(state => {
+            state.kindFilter = kind
+          }),
+          
+          setRiggedFilter: (rigged) => set(state => {
+            state.riggedFilter = rigged
+          }),
+          
+          setDateFrom: (date) => set(state => {
+            state.dateFrom = date
+          }),
+          
+          setDateTo: (date) => set(state => {
+            state.dateTo = date
+          }),
+          
+          setSortField: (field) => set(state => {
+            state.sortField = field
+          }),
+          
+          setSortOrder: (order) => set(state => {
+            state.sortOrder = order
+          }),
+          
           setShowGroundPlane: (show) => set(state => {
             state.showGroundPlane = show
           }),
@@ -131,6 +197,10 @@ export const useAssetsStore = create<AssetsState>()(
             state.showEditModal = show
           }),
           
+          setShowImportModal: (show) => set(state => {
+            state.showImportModal = show
+          }),
+          
           setIsTransitioning: (transitioning) => set(state => {
             state.isTransitioning = transitioning
           }),
@@ -143,6 +213,10 @@ export const useAssetsStore = create<AssetsState>()(
             state.showAnimationView = show
           }),
           
+          bumpModelVersion: () => set(state => {
+            state.modelVersion += 1
+          }),
+          
           // Toggle Actions
           toggleGroundPlane: () => set(state => {
             state.showGroundPlane = !state.showGroundPlane
@@ -189,33 +263,37 @@ export const useAssetsStore = create<AssetsState>()(
             state.showRegenerateModal = false
             state.showDetailsPanel = false
             state.showEditModal = false
+            state.showImportModal = false
+          }),
+          
+          clearFilters: () => set(state => {
+            state.searchTerm = ''
+            state.typeFilter = ''
+            state.materialFilter = ''
+            state.subtypeFilter = ''
+            state.tierFilter = ''
+            state.kindFilter = ''
+            state.riggedFilter = ''
+            state.dateFrom = ''
+            state.dateTo = ''
           }),
           
           // Computed Values
-          getFilteredAssets: (assets: Asset[]) => {
+          getAssetQuery: () => {
             const state = get()
-            return assets.filter(asset => {
-              if (state.searchTerm && !asset.name.toLowerCase().includes(state.searchTerm.toLowerCase())) return false
-              if (state.typeFilter && asset.type !== state.typeFilter) return false
-              
-              // Material filtering logic
-              if (state.materialFilter) {
-                // For variant assets with materialPreset
-                if (asset.metadata.isVariant && asset.metadata.materialPreset) {
-                  if (asset.metadata.materialPreset.id !== state.materialFilter) return false
-                }
-                // For variant assets with baseMaterial
-                else if (asset.metadata.isVariant && asset.metadata.baseMaterial) {
-                  if (asset.metadata.baseMaterial !== state.materialFilter) return false
-                }
-                // Base assets don't have materials, so exclude them when material filter is active
-                else if (asset.metadata.isBaseModel) {
-                  return false
-                }
-              }
-              
-              return true
-            })
+            return {
+              search: state.searchTerm || undefined,
+              type: state.typeFilter || undefined,
+              material: state.materialFilter || undefined,
+              subtype: state.subtypeFilter || undefined,
+              tier: state.tierFilter || undefined,
+              kind: state.kindFilter || undefined,
+              rigged: state.riggedFilter ? state.riggedFilter === 'rigged' : undefined,
+              from: state.dateFrom || undefined,
+              to: state.dateTo || undefined,
+              sort: state.sortField,
+              order: state.sortOrder
+            }
           }
         }))
       ),
@@ -228,7 +306,15 @@ export const useAssetsStore = create<AssetsState>()(
           isLightBackground: state.isLightBackground,
           searchTerm: state.searchTerm,
           typeFilter: state.typeFilter,
-          materialFilter: state.materialFilter
+          materialFilter: state.materialFilter,
+          subtypeFilter: state.subtypeFilter,
+          tierFilter: state.tierFilter,
+          kindFilter: state.kindFilter,
+          riggedFilter: state.riggedFilter,
+          dateFrom: state.dateFrom,
+          dateTo: state.dateTo,
+          sortField: state.sortField,
+          sortOrder: state.sortOrder
         })
       }
     ),
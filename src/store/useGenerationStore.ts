@@ -2,7 +2,9 @@ import { create } from 'zustand'
 import { devtools, persist, subscribeWithSelector } from 'zustand/middleware'
 import { immer } from 'zustand/middleware/immer'
 
+import { DEFAULT_CONCEPT_ART_CANDIDATES } from '../constants'
 import { Asset } from '../services/api/AssetService'
+import { ConceptArtReviewStage } from '../services/api/GenerationAPIClient'
 import { 
   MaterialPreset, 
   ImageGenerationResult, 
@@ -20,7 +22,7 @@ export interface PipelineStage {
   name: string
   icon: React.ReactNode
   description: string
-  status: 'idle' | 'active' | 'completed' | 'failed' | 'skipped'
+  status: 'idle' | 'active' | 'awaiting-selection' | 'completed' | 'failed' | 'skipped' | 'cancelled'
 }
 
 export interface CustomMaterial {
@@ -87,6 +89,8 @@ interface GenerationState {
   useGPT4Enhancement: boolean
   enableRetexturing: boolean
   enableSprites: boolean
+  reviewConceptArt: boolean
+  conceptArtCandidates: number
   quality: 'standard' | 'high' | 'ultra'
   
   // Avatar-specific Configuration
@@ -104,6 +108,8 @@ interface GenerationState {
   isGeneratingSprites: boolean
   modelLoadError: string | null
   isModelLoading: boolean
+  // Image generation stage while the pipeline waits for a concept art pick
+  conceptArtReview: ConceptArtReviewStage | null
   pipelineStages: PipelineStage[]
   
   // Results State
@@ -156,6 +162,8 @@ interface GenerationState {
   setUseGPT4Enhancement: (use: boolean) => void
   setEnableRetexturing: (enable: boolean) => void
   setEnableSprites: (enable: boolean) => void
+  setReviewConceptArt: (review: boolean) => void
+  setConceptArtCandidates: (count: number) => void
   setQuality: (q: 'standard' | 'high' | 'ultra') => void
   
   // Avatar Configuration Actions
@@ -176,6 +184,7 @@ interface GenerationState {
   setIsGeneratingSprites: (generating: boolean) => void
   setModelLoadError: (error: string | null) => void
   setIsModelLoading: (loading: boolean) => void
+  setConceptArtReview: (review: ConceptArtReviewStage | null) => void
   setPipelineStages: (stages: PipelineStage[]) => void
   updatePipelineStage: (stageId: string, status: PipelineStage['status']) => void
   
@@ -233,6 +242,8 @@ export const useGenerationStore = create<GenerationState>()(
           useGPT4Enhancement: true,
           enableRetexturing: true,
           enableSprites: false,
+          reviewConceptArt: false,
+          conceptArtCandidates: DEFAULT_CONCEPT_ART_CANDIDATES,
           quality: 'high',
           
           enableRigging: true,
@@ -247,6 +258,7 @@ export const useGenerationStore = create<GenerationState>()(
           isGeneratingSprites: false,
           modelLoadError: null,
           isModelLoading: false,
+          conceptArtReview: null,
           pipelineStages: [],
           
           generatedAssets: [],
@@ -374,6 +386,14 @@ export const useGenerationStore = create<GenerationState>()(
             state.enableSprites = enable
           }),
 
+          setReviewConceptArt: (review) => set((state) => {
+            state.reviewConceptArt = review
+          }),
+
+          setConceptArtCandidates: (count) => set((state) => {
+            state.conceptArtCandidates = count
+          }),
+
           setQuality: (q) => set((state) => {
             state.quality = q
           }),
@@ -437,6 +457,10 @@ export const useGenerationStore = create<GenerationState>()(
           setIsModelLoading: (loading) => set((state) => {
             state.isModelLoading = loading
           }),
+
+          setConceptArtReview: (review) => set((state) => {
+            state.conceptArtReview = review
+          }),
           
           setPipelineStages: (stages) => set((state) => {
             state.pipelineStages = stages
@@ -496,6 +520,7 @@ export const useGenerationStore = create<GenerationState>()(
             state.isGeneratingSprites = false
             state.modelLoadError = null
             state.isModelLoading = false
+            state.conceptArtReview = null
             // Reset all pipeline stages to idle
             state.pipelineStages.forEach(stage => {
               stage.status = 'idle'
@@ -587,6 +612,8 @@ export const useGenerationStore = create<GenerationState>()(
           useGPT4Enhancement: state.useGPT4Enhancement,
           enableRetexturing: state.enableRetexturing,
           enableSprites: state.enableSprites,
+          reviewConceptArt: state.reviewConceptArt,
+          conceptArtCandidates: state.conceptArtCandidates,
           quality: state.quality,
           enableRigging: state.enableRigging,
           characterHeight: state.characterHeight,
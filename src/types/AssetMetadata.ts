@@ -4,9 +4,77 @@
  */
 
 import type { ExtendedAssetMetadata, RiggingMetadata } from './RiggingMetadata'
+import type { GripDetectionMethod } from './common'
+import type { GenerationRecipe } from './generation'
 
 export type AssetType = 'weapon' | 'armor' | 'tool' | 'resource' | 'ammunition' | 'character' | 'misc'
 
+export type ModelImportFormat = 'glb' | 'gltf' | 'obj'
+
+/**
+ * Original files of a manually imported model (converted to GLB on import)
+ */
+export interface ModelImportSource {
+  format: ModelImportFormat
+  files: string[]
+}
+
+/**
+ * Concept art image kept from the generation pipeline's review mode
+ */
+export interface ConceptArtCandidateInfo {
+  file: string  // Relative to the asset folder, under concept-art-candidates/
+  round: number
+  imagePrompt: string
+  selected: boolean  // The candidate the model was generated from
+}
+
+/**
+ * Grip detection an attachment was fitted with, without the annotated image and mesh points
+ */
+export interface SavedGripDetection {
+  method: GripDetectionMethod
+  gripPoint: { x: number; y: number; z: number }
+  confidence: number
+  orientationFlipped: boolean
+}
+
+/**
+ * How a piece of equipment sits on an avatar, saved from the Equipment page
+ */
+export interface EquipmentAttachmentConfig {
+  slot: string
+  bone: string
+  positionOffset: { x: number; y: number; z: number }  // Meters
+  rotationOffset: { x: number; y: number; z: number }  // Degrees
+  scaleOverride: number
+  autoScale: boolean
+  avatarHeight: number
+  creatureCategory?: string
+  gripDetection: SavedGripDetection | null
+  avatarId: string  // Avatar the attachment was fitted on
+  savedAt: string
+}
+
+/**
+ * Saved attachments of a piece of equipment, by avatar ID and by rig profile (the avatar's
+ * rigType). A rig profile entry applies to avatars that have no entry of their own.
+ */
+export interface EquipmentAttachmentConfigs {
+  avatars: Record<string, EquipmentAttachmentConfig>
+  rigProfiles: Record<string, EquipmentAttachmentConfig>
+}
+
+/**
+ * Named set of equipment worn by an avatar at once, saved from the Equipment page.
+ * Each item is placed with its own saved attachment for the avatar, if it has one.
+ */
+export interface EquipmentLoadout {
+  name: string
+  items: Record<string, string>  // Equipment slot ID → equipment asset ID
+  savedAt: string
+}
+
 export interface MaterialPresetInfo {
   id: string
   displayName: string
@@ -21,6 +89,9 @@ export interface MaterialPresetInfo {
  * For original base models that can be retextured
  */
 export interface BaseAssetMetadata extends RiggingMetadata {
+  // Schema version stamped by the server on every write (absent on metadata older than versioning)
+  schemaVersion?: number
+  
   // Identity
   id: string
   gameId: string
@@ -34,6 +105,9 @@ export interface BaseAssetMetadata extends RiggingMetadata {
   isVariant?: false
   meshyTaskId: string  // REQUIRED for retexturing
   generationMethod: 'gpt-image-meshy' | 'direct-meshy' | 'manual' | 'placeholder'
+  importSource?: ModelImportSource  // Set when generationMethod is 'manual'
+  generationRecipe?: GenerationRecipe  // Replayed by regeneration
+  conceptArtCandidates?: ConceptArtCandidateInfo[]  // Set when concept art was reviewed
   
   // Variant Tracking
   variants: string[]  // IDs of all generated variants
@@ -68,8 +142,15 @@ export interface BaseAssetMetadata extends RiggingMetadata {
   
   // Additional properties used in UI
   tier?: string
+  level?: number
+  rarity?: string
+  attackLevel?: number
+  strengthLevel?: number
+  defenseLevel?: number
   format?: string
   gripDetected?: boolean  // For weapons
+  attachmentConfigs?: EquipmentAttachmentConfigs  // For equipment fitted on the Equipment page
+  loadouts?: EquipmentLoadout[]  // For avatars
   requiresAnimationStrip?: boolean
 }
 
@@ -78,6 +159,9 @@ export interface BaseAssetMetadata extends RiggingMetadata {
  * For retextured variants of base models
  */
 export interface VariantAssetMetadata extends RiggingMetadata {
+  // Schema version stamped by the server on every write (absent on metadata older than versioning)
+  schemaVersion?: number
+  
   // Identity
   id: string
   gameId: string
@@ -93,7 +177,7 @@ export interface VariantAssetMetadata extends RiggingMetadata {
   
   // Material Information
   materialPreset: MaterialPresetInfo
-  baseMaterial?: string  // Optional for backwards compatibility with older variant format
+  baseMaterial?: string  // Older variant format, replaced by materialPreset when migrated to schema v2
   
   // Generation Info
   retextureTaskId: string
@@ -132,8 +216,15 @@ export interface VariantAssetMetadata extends RiggingMetadata {
   
   // Additional properties used in UI
   tier?: string
+  level?: number
+  rarity?: string
+  attackLevel?: number
+  strengthLevel?: number
+  defenseLevel?: number
   format?: string
   gripDetected?: boolean  // For weapons
+  attachmentConfigs?: EquipmentAttachmentConfigs  // For equipment fitted on the Equipment page
+  loadouts?: EquipmentLoadout[]  // For avatars
   requiresAnimationStrip?: boolean
 }
 
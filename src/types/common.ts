@@ -46,6 +46,21 @@ export interface GripDetectionData {
   gripDescription?: string
 }
 
+// How a grip was found: a vision model over renders of the weapon, or the mesh's cross-sections
+export type GripDetectionMethod = 'vision' | 'geometry'
+
+// Stretch of a weapon along its long axis, as fractions of its length from the lower end (0) to the upper end (1)
+export interface WeaponAxisSegment {
+  start: number
+  end: number
+}
+
+export interface WeaponPartSegments {
+  grip: WeaponAxisSegment
+  guard?: WeaponAxisSegment
+  pommel?: WeaponAxisSegment
+}
+
 // Detection types
 export interface DetectionData {
   bounds?: { x: number; y: number; width: number; height: number }
@@ -90,6 +105,7 @@ export interface EnvironmentVariables {
   VITE_OPENAI_API_KEY?: string
   VITE_MESHY_API_KEY?: string
   VITE_IMAGE_SERVER_URL?: string
+  VITE_PIPELINE_POLL_INTERVAL_MS?: string
 }
 
 // Window extensions
@@ -121,6 +121,10 @@ export interface GenerationConfig {
   enableSprites?: boolean
   enableRigging?: boolean
   
+  // Concept art review: pause after generating candidate images until one is picked
+  reviewConceptArt?: boolean
+  conceptArtCandidates?: number
+  
   // Rigging options
   riggingOptions?: {
     heightMeters?: number
@@ -154,6 +158,82 @@ export interface GenerationConfig {
   }
 }
 
+/**
+ * Everything a base model's generation ran with, stored as metadata.generationRecipe.
+ * Recipes rebuilt for assets generated before they were recorded are marked `derived`.
+ */
+export interface GenerationRecipe {
+  version: number
+  derived?: boolean
+  recordedAt: string | null
+  pipelineId: string | null
+  description: string
+  enhancedPrompt: string | null  // GPT-4 output, null when enhancement was skipped
+  imagePrompt: string | null  // Null when a reference image was used
+  gameStyle: string | null
+  quality: GenerationQuality | null
+  model: GenerationModelSettings | null
+  materialPrompts: Record<string, string>
+  config: GenerationConfig
+}
+
+export type GenerationQuality = 'standard' | 'high' | 'ultra'
+
+// Meshy image-to-3D settings
+export interface GenerationModelSettings {
+  aiModel?: string
+  topology?: string
+  targetPolycount?: number
+  textureResolution?: number
+  enablePbr?: boolean
+}
+
+// Fields editable before regenerating; an empty prompt is rebuilt by the pipeline
+export interface GenerationRecipeEdits {
+  description?: string
+  enhancedPrompt?: string | null
+  imagePrompt?: string | null
+  gameStyle?: string | null
+  quality?: GenerationQuality | null
+  model?: Pick<GenerationModelSettings, 'aiModel' | 'targetPolycount'>
+  materialPrompts?: Record<string, string>
+}
+
+/**
+ * A conflict or risk the prompt lint found in a config and its assembled image prompt
+ */
+export interface PromptLintIssue {
+  rule: 'style-contradiction' | 'avatar-missing-tpose' | 'avatar-held-item' | 'armor-on-body' | 'prompt-too-long'
+  severity: 'warning' | 'error'
+  field: 'description' | 'gameStyle' | 'imagePrompt' | 'materialPresets'  // The input to change
+  message: string
+}
+
+/**
+ * Prompts and settings a pipeline would send to its providers for a config (POST /api/generation/preview)
+ */
+export interface GenerationPreview {
+  promptOptimization:
+    | { status: 'enabled'; model: string; backend: string; systemPrompt: string; userPrompt: string }
+    | { status: 'replayed'; optimizedPrompt: string }
+    | { status: 'skipped' }
+  imageGeneration:
+    // Built from the description when GPT-4's answer is still to come (awaitsEnhancement)
+    | { status: 'enabled'; prompt: string; gameStyle: string; awaitsEnhancement: boolean; candidates: number }
+    | { status: 'skipped'; reason: string }
+  model: Required<GenerationModelSettings> & { quality: GenerationQuality }
+  retexture: Array<{
+    materialId: string
+    displayName: string
+    textStylePrompt: string
+    artStyle: string
+    aiModel: string
+    enableOriginalUV: boolean
+  }>
+  missingConfiguration: string[]  // Provider settings the server lacks to actually run it
+  lint: PromptLintIssue[]
+}
+
 export interface PipelineStage {
   id: string
   name: string
@@ -0,0 +1,46 @@
+import { Asset, EquipmentAttachmentConfig, isVariantAsset } from '../types'
+
+// Rig profile of avatars rigged before rigType was recorded
+const DEFAULT_RIG_PROFILE = 'humanoid-standard'
+
+/**
+ * Rig profile an avatar's equipment attachments are shared under
+ */
+export function getRigProfile(avatar: Asset): string {
+  return avatar.metadata.rigType || DEFAULT_RIG_PROFILE
+}
+
+/**
+ * Attachment saved for this equipment on this avatar, else on the avatar's rig profile.
+ * Variants fall back to their base model's attachments, since they share its geometry.
+ */
+export function findAttachmentConfig(equipment: Asset, avatar: Asset, assets: Asset[]): EquipmentAttachmentConfig | null {
+  const { metadata } = equipment
+  const base = isVariantAsset(metadata)
+    ? assets.find(asset => asset.id === metadata.parentBaseModel)
+    : undefined
+
+  for (const configs of [metadata.attachmentConfigs, base?.metadata.attachmentConfigs]) {
+    const config = configs?.avatars[avatar.id] || configs?.rigProfiles[getRigProfile(avatar)]
+    if (config) return config
+  }
+  return null
+}
+
+/**
+ * Whether an asset can be worn in an equipment slot: weapons and tools in the hands,
+ * helmets on the head, body armor on the chest and leg armor on the hips
+ */
+export function fitsEquipmentSlot(asset: Asset, slot: string): boolean {
+  const name = asset.name.toLowerCase()
+  if (slot === 'Hand_R' || slot === 'Hand_L') {
+    return ['sword', 'axe', 'mace', 'bow', 'crossbow', 'shield', 'tool', 'weapon'].includes(asset.type)
+  } else if (slot === 'Head') {
+    return asset.type === 'armor' && name.includes('helmet')
+  } else if (slot === 'Spine2') {
+    return asset.type === 'armor' && (name.includes('body') || name.includes('chest') || name.includes('armor'))
+  } else if (slot === 'Hips') {
+    return asset.type === 'armor' && name.includes('leg')
+  }
+  return true
+}
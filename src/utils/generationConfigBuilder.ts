@@ -13,6 +13,8 @@ interface BuildConfigOptions {
   enableSprites: boolean
   enableRigging: boolean
   useGPT4Enhancement?: boolean
+  reviewConceptArt?: boolean
+  conceptArtCandidates?: number
   characterHeight?: number
   quality?: 'standard' | 'high' | 'ultra'
   selectedMaterials: string[]
@@ -49,6 +51,8 @@ export function buildGenerationConfig(options: BuildConfigOptions): GenerationCo
     enableSprites,
     enableRigging,
     useGPT4Enhancement,
+    reviewConceptArt,
+    conceptArtCandidates,
     characterHeight,
     quality,
     selectedMaterials,
@@ -128,6 +132,8 @@ export function buildGenerationConfig(options: BuildConfigOptions): GenerationCo
     enableRetexturing: generationType === 'item' ? enableRetexturing : false,
     enableSprites,
     enableRigging: generationType === 'avatar' ? enableRigging : false,
+    reviewConceptArt: reviewConceptArt || undefined,
+    conceptArtCandidates: reviewConceptArt ? conceptArtCandidates : undefined,
     riggingOptions: generationType === 'avatar' && enableRigging ? {
       heightMeters: characterHeight
     } : undefined,